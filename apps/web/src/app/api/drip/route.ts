@@ -0,0 +1,43 @@
+import { DataQualityError, DividendAnalysisService, DripProjectionService, InputValidator, TickerNotFoundError, ValidationError } from '@repo/core';
+import { NextResponse } from 'next/server';
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const ticker = searchParams.get('ticker');
+
+  if (!ticker) {
+    return NextResponse.json({ error: 'Ticker symbol is required' }, { status: 400 });
+  }
+
+  try {
+    const validTicker = InputValidator.validateTicker(ticker);
+    const options = DripProjectionService.parseOptions({
+      shares: searchParams.get('shares') ?? undefined,
+      costBasis: searchParams.get('costBasis') ?? undefined,
+      years: searchParams.get('years') ?? undefined,
+      dividendGrowth: searchParams.get('dividendGrowth') ?? undefined,
+      priceGrowth: searchParams.get('priceGrowth') ?? undefined,
+      compare: searchParams.get('compare') === 'true'
+    });
+
+    const analysisService = new DividendAnalysisService();
+    const analysis = await analysisService.analyze(validTicker);
+
+    return NextResponse.json({ ticker: validTicker, ...DripProjectionService.project(analysis, options) });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof TickerNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof DataQualityError) {
+      // No forward dividend or price to project from
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+
+    console.error(error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { HistoryService, InputValidator, ValidationError } from '@repo/core';
+import { NextResponse } from 'next/server';
+
+export async function GET(request: Request, { params }: { params: Promise<{ ticker: string }> }) {
+  const { ticker } = await params;
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const validTicker = InputValidator.validateTicker(ticker);
+    const limit = InputValidator.validatePositiveInteger(
+      searchParams.get('limit') ?? HistoryService.DEFAULT_LIMIT,
+      'limit',
+      HistoryService.MAX_LIMIT
+    );
+    // Defaults match the analyses /api/analyze saves
+    const optionsHash = HistoryService.parseOptionsHash({
+      years: searchParams.get('years') ?? undefined,
+      requiredReturn: searchParams.get('requiredReturn') ?? undefined,
+      provider: searchParams.get('provider') ?? undefined,
+      profile: searchParams.get('profile') ?? undefined
+    });
+
+    return NextResponse.json(await HistoryService.fetch(validTicker, limit, optionsHash));
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error(error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
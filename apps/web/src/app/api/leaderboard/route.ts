@@ -0,0 +1,28 @@
+import { LeaderboardService, ValidationError } from '@repo/core';
+import { NextResponse } from 'next/server';
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const query = LeaderboardService.parseQuery({
+      date: searchParams.get('date') ?? undefined,
+      sector: searchParams.get('sector') ?? undefined,
+      minYield: searchParams.get('minYield') ?? undefined,
+      minStreak: searchParams.get('minStreak') ?? undefined,
+      sort: searchParams.get('sort') ?? undefined,
+      page: searchParams.get('page') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined
+    });
+
+    return NextResponse.json(await LeaderboardService.fetch(query));
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error(error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+
+type LeaderboardEntry = {
+  rank: number;
+  ticker: string;
+  name: string | null;
+  sector: string | null;
+  score: number;
+  forwardYield: number | null;
+  streak: number | null;
+  price: number;
+  marginOfSafety: number | null;
+};
+
+type LeaderboardPage = {
+  date: string | null;
+  entries: LeaderboardEntry[];
+  total: number;
+  totalPages: number;
+};
+
+type Filters = {
+  date: string;
+  sector: string;
+  minYield: string;
+  minStreak: string;
+  sort: string;
+};
+
+const PAGE_SIZE = 25;
+
+const DEFAULT_FILTERS: Filters = { date: "", sector: "", minYield: "", minStreak: "", sort: "score" };
+
+const percent = (value: number | null) => (value === null ? "—" : `${(value * 100).toFixed(2)}%`);
+
+export default function Leaderboard() {
+  const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
+  // Filters apply on submit, so edits don't reload until then
+  const [applied, setApplied] = useState<Filters>(DEFAULT_FILTERS);
+  const [page, setPage] = useState(1);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardPage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLeaderboard = useCallback(async (applied: Filters, pageNumber: number) => {
+    setIsLoading(true);
+    setError(null);
+
+    // Yields are entered as percentages but the API takes rates
+    const params = new URLSearchParams({ sort: applied.sort, page: String(pageNumber), limit: String(PAGE_SIZE) });
+    if (applied.date) params.set("date", applied.date);
+    if (applied.sector) params.set("sector", applied.sector);
+    if (applied.minYield) params.set("minYield", String(Number(applied.minYield) / 100));
+    if (applied.minStreak) params.set("minStreak", applied.minStreak);
+
+    try {
+      const response = await fetch(`/api/leaderboard?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch the leaderboard.");
+      }
+      setLeaderboard(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unknown error occurred.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLeaderboard(applied, page);
+  }, [applied, page, loadLeaderboard]);
+
+  const applyFilters = () => {
+    setApplied({ ...filters });
+    setPage(1);
+  };
+
+  const updateFilter = (key: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setFilters({ ...filters, [key]: e.target.value });
+
+  const inputClass = "p-2 rounded-md bg-gray-800 border border-gray-700 text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-24 bg-gray-900 text-white">
+      <div className="z-10 w-full max-w-5xl items-center justify-between font-mono text-sm lg:flex">
+        <h1 className="text-4xl font-bold mb-2 text-center w-full">Dividend Leaderboard</h1>
+      </div>
+      <Link href="/" className="mb-8 text-blue-400 hover:underline">
+        Analyze a ticker
+      </Link>
+
+      <div className="mb-8 w-full max-w-5xl flex flex-wrap gap-2">
+        <input type="date" value={filters.date} onChange={updateFilter("date")} className={inputClass} />
+        <input type="text" value={filters.sector} onChange={updateFilter("sector")} placeholder="Sector" className={inputClass} />
+        <input type="number" min="0" step="0.1" value={filters.minYield} onChange={updateFilter("minYield")} placeholder="Min yield %" className={`${inputClass} w-32`} />
+        <input type="number" min="0" step="1" value={filters.minStreak} onChange={updateFilter("minStreak")} placeholder="Min streak" className={`${inputClass} w-32`} />
+        <select value={filters.sort} onChange={updateFilter("sort")} className={inputClass}>
+          <option value="score">Score</option>
+          <option value="marginOfSafety">Margin of safety</option>
+        </select>
+        <button
+          onClick={applyFilters}
+          disabled={isLoading}
+          className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-md disabled:bg-gray-600"
+        >
+          {isLoading ? "Loading..." : "Apply"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-4 text-red-400 bg-red-900/50 p-4 rounded-md w-full max-w-md text-center">
+          <p>Error: {error}</p>
+        </div>
+      )}
+
+      {leaderboard && !leaderboard.date && (
+        <p className="text-gray-400">No leaderboard data yet. Run divvy refresh first.</p>
+      )}
+
+      {leaderboard?.date && (
+        <div className="w-full max-w-5xl p-6 bg-gray-800 rounded-lg shadow-lg">
+          <h2 className="text-xl font-bold mb-4">
+            {leaderboard.date}: {leaderboard.total} {leaderboard.total === 1 ? "ticker" : "tickers"}
+          </h2>
+          {leaderboard.entries.length === 0 ? (
+            <p className="text-gray-400">No tickers match these filters.</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="p-2">#</th>
+                  <th className="p-2">Ticker</th>
+                  <th className="p-2">Sector</th>
+                  <th className="p-2 text-right">Score</th>
+                  <th className="p-2 text-right">Fwd Yield</th>
+                  <th className="p-2 text-right">Streak</th>
+                  <th className="p-2 text-right">Price</th>
+                  <th className="p-2 text-right">MoS</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leaderboard.entries.map((entry) => (
+                  <tr key={entry.ticker} className="border-b border-gray-700 hover:bg-gray-700">
+                    <td className="p-2">{entry.rank}</td>
+                    <td className="p-2">
+                      <Link href={`/?ticker=${encodeURIComponent(entry.ticker)}`} className="font-semibold text-blue-400 hover:underline" title={entry.name ?? undefined}>
+                        {entry.ticker}
+                      </Link>
+                    </td>
+                    <td className="p-2">{entry.sector ?? "—"}</td>
+                    <td className="p-2 text-right">{entry.score}</td>
+                    <td className="p-2 text-right">{percent(entry.forwardYield)}</td>
+                    <td className="p-2 text-right">{entry.streak ?? "—"}</td>
+                    <td className="p-2 text-right">{entry.price.toFixed(2)}</td>
+                    <td className="p-2 text-right">{percent(entry.marginOfSafety)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div className="mt-4 flex items-center justify-between">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={isLoading || page <= 1}
+              className="bg-gray-700 hover:bg-gray-600 py-2 px-4 rounded-md disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>
+              Page {page} of {Math.max(leaderboard.totalPages, 1)}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={isLoading || page >= leaderboard.totalPages}
+              className="bg-gray-700 hover:bg-gray-600 py-2 px-4 rounded-md disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
-import { useState } from "react";
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
 
 type AnalysisResult = {
   ticker: string;
@@ -14,8 +15,8 @@ export default function Home() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handleAnalyze = async () => {
-    if (!ticker) {
+  const handleAnalyze = useCallback(async (symbol: string) => {
+    if (!symbol) {
       setError("Please enter a stock ticker.");
       return;
     }
@@ -24,7 +25,7 @@ export default function Home() {
     setAnalysis(null);
 
     try {
-      const response = await fetch(`/api/analyze?ticker=${ticker}`);
+      const response = await fetch(`/api/analyze?ticker=${encodeURIComponent(symbol)}`);
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || "Failed to fetch analysis.");
@@ -36,13 +37,25 @@ export default function Home() {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, []);
+
+  // Leaderboard rows link here with ?ticker=SYMBOL
+  useEffect(() => {
+    const linked = new URLSearchParams(window.location.search).get("ticker");
+    if (linked) {
+      setTicker(linked.toUpperCase());
+      handleAnalyze(linked.toUpperCase());
+    }
+  }, [handleAnalyze]);
 
   return (
     <main className="flex min-h-screen flex-col items-center p-24 bg-gray-900 text-white">
       <div className="z-10 w-full max-w-5xl items-center justify-between font-mono text-sm lg:flex">
-        <h1 className="text-4xl font-bold mb-8 text-center w-full">Divvy Dividend Analyzer</h1>
+        <h1 className="text-4xl font-bold mb-2 text-center w-full">Divvy Dividend Analyzer</h1>
       </div>
+      <Link href="/leaderboard" className="mb-8 text-blue-400 hover:underline">
+        View the leaderboard
+      </Link>
 
       <div className="mb-8 w-full max-w-md">
         <div className="flex gap-2">
@@ -54,7 +67,7 @@ export default function Home() {
             className="flex-grow p-2 rounded-md bg-gray-800 border border-gray-700 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
           <button
-            onClick={handleAnalyze}
+            onClick={() => handleAnalyze(ticker)}
             disabled={isLoading}
             className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-md disabled:bg-gray-600"
           >
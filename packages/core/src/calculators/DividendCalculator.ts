@@ -1,8 +1,25 @@
 import { sum, clamp } from "../utils/MathUtils";
 import type { DividendEvent, Fundamentals } from "../models/StockData";
-import type { AnnualDividendData } from "../models/DividendAnalysis";
+import type {
+  AnnualDividendData,
+  DdmValuation,
+  MultiStageDdmAssumptions,
+  MultiStageDdmValuation,
+  DdmSensitivityGrid,
+  DdmSensitivityCell,
+  DripAssumptions,
+  DripYear
+} from "../models/DividendAnalysis";
 
 export class DividendCalculator {
+  static readonly DEFAULT_HIGH_GROWTH_YEARS = 5;
+  static readonly DEFAULT_FADE_YEARS = 10;
+  static readonly DEFAULT_TERMINAL_GROWTH = 0.03;
+  static readonly DEFAULT_SENSITIVITY_RETURNS = [0.07, 0.08, 0.09, 0.10, 0.11];
+  static readonly DEFAULT_SENSITIVITY_GROWTH_RATES = [-0.02, 0.00, 0.03, 0.05];
+  static readonly DEFAULT_PAYMENTS_PER_YEAR = 4;
+  private static readonly DDM_EPSILON = 1e-6;
+
   static annualizeDividends(dividendEvents: DividendEvent[]): AnnualDividendData[] {
     const map = new Map<number, number>();
     
@@ -16,13 +33,13 @@ export class DividendCalculator {
     return [...map.entries()].sort((a, b) => a[0] - b[0]);
   }
 
-  static calculateTTMDividends(dividendEvents: DividendEvent[]): number {
-    const now = Date.now();
+  static calculateTTMDividends(dividendEvents: DividendEvent[], asOf: Date = new Date()): number {
+    const now = asOf.getTime();
     const oneYearAgo = now - (365 * 24 * 3600 * 1000);
     
     return sum(
       dividendEvents
-        .filter(d => d.date.getTime() > oneYearAgo)
+        .filter(d => d.date.getTime() > oneYearAgo && d.date.getTime() <= now)
         .map(d => d.amount)
     );
   }
@@ -100,7 +117,7 @@ export class DividendCalculator {
   ): number | null {
     if (!price || !isFinite(forwardDividend)) return null;
     
-    const conservativeGrowth = Math.max(-0.05, Math.min(0.06, safeGrowth));
+    const conservativeGrowth = this.calculateDdmGrowth(safeGrowth);
     
     if (requiredReturn > conservativeGrowth) {
       return forwardDividend / (requiredReturn - conservativeGrowth);
@@ -108,4 +125,221 @@ export class DividendCalculator {
     
     return null;
   }
-}
\ No newline at end of file
+
+  /**
+   * Growth assumed by the Gordon Growth Model - safeGrowth bounded to [-5%, 6%]
+   */
+  static calculateDdmGrowth(safeGrowth: number): number {
+    return Math.max(-0.05, Math.min(0.06, safeGrowth));
+  }
+
+  static calculateDdmValuation(
+    forwardDividend: number,
+    price: number,
+    requiredReturn: number,
+    safeGrowth: number
+  ): DdmValuation {
+    const ddmPrice = this.calculateGordonGrowthModel(forwardDividend, price, requiredReturn, safeGrowth);
+
+    return {
+      ddmPrice,
+      upside: ddmPrice !== null && price ? (ddmPrice - price) / price : null,
+      requiredReturn,
+      growth: this.calculateDdmGrowth(safeGrowth)
+    };
+  }
+
+  /**
+   * Two-stage DDM: `highGrowthYears` of growth at g1, then Gordon Growth at g2.
+   * `currentDividend` is D0 (e.g. TTM dividends).
+   */
+  static calculateTwoStageDDM(
+    currentDividend: number,
+    requiredReturn: number,
+    highGrowth: number,
+    highGrowthYears: number,
+    terminalGrowth: number
+  ): number | null {
+    return this.discountDividendPath(
+      currentDividend,
+      requiredReturn,
+      Array.from({ length: highGrowthYears }, () => highGrowth),
+      terminalGrowth
+    );
+  }
+
+  /**
+   * Three-stage DDM: g1 for `highGrowthYears`, a linear fade to g2 over
+   * `fadeYears`, then Gordon Growth at g2.
+   */
+  static calculateThreeStageDDM(
+    currentDividend: number,
+    requiredReturn: number,
+    highGrowth: number,
+    highGrowthYears: number,
+    fadeYears: number,
+    terminalGrowth: number
+  ): number | null {
+    const growthPath = [
+      ...Array.from({ length: highGrowthYears }, () => highGrowth),
+      ...Array.from({ length: fadeYears }, (_, i) => highGrowth + (terminalGrowth - highGrowth) * (i + 1) / fadeYears)
+    ];
+
+    return this.discountDividendPath(currentDividend, requiredReturn, growthPath, terminalGrowth);
+  }
+
+  /**
+   * H-model: growth declines linearly from g1 to g2 with half-life H years.
+   * P = D0 * (1 + g2) / (r - g2) + D0 * H * (g1 - g2) / (r - g2)
+   */
+  static calculateHModel(
+    currentDividend: number,
+    requiredReturn: number,
+    highGrowth: number,
+    halfLife: number,
+    terminalGrowth: number
+  ): number | null {
+    if (!isFinite(currentDividend) || currentDividend <= 0) return null;
+    if (requiredReturn <= terminalGrowth) return null;
+
+    const spread = requiredReturn - terminalGrowth;
+    return (currentDividend * (1 + terminalGrowth)) / spread +
+      (currentDividend * halfLife * (highGrowth - terminalGrowth)) / spread;
+  }
+
+  /**
+   * Runs every multi-stage model with shared assumptions. Terminal growth
+   * defaults to the lower of 3% and the stage-1 growth so a shrinking payer
+   * isn't assumed to recover in perpetuity.
+   */
+  static calculateMultiStageValuation(
+    currentDividend: number,
+    requiredReturn: number,
+    highGrowth: number,
+    overrides: Partial<Omit<MultiStageDdmAssumptions, 'requiredReturn' | 'highGrowth'>> = {}
+  ): MultiStageDdmValuation {
+    const assumptions: MultiStageDdmAssumptions = {
+      requiredReturn,
+      highGrowth,
+      highGrowthYears: overrides.highGrowthYears ?? this.DEFAULT_HIGH_GROWTH_YEARS,
+      fadeYears: overrides.fadeYears ?? this.DEFAULT_FADE_YEARS,
+      terminalGrowth: overrides.terminalGrowth ?? Math.max(-0.05, Math.min(this.DEFAULT_TERMINAL_GROWTH, highGrowth))
+    };
+    const { highGrowthYears, fadeYears, terminalGrowth } = assumptions;
+
+    return {
+      assumptions,
+      twoStage: this.calculateTwoStageDDM(currentDividend, requiredReturn, highGrowth, highGrowthYears, terminalGrowth),
+      threeStage: this.calculateThreeStageDDM(currentDividend, requiredReturn, highGrowth, highGrowthYears, fadeYears, terminalGrowth),
+      hModel: this.calculateHModel(currentDividend, requiredReturn, highGrowth, fadeYears / 2, terminalGrowth)
+    };
+  }
+
+  // Present value of explicit dividends grown along `growthPath` plus the
+  // Gordon Growth terminal value at the end of the path
+  private static discountDividendPath(
+    currentDividend: number,
+    requiredReturn: number,
+    growthPath: number[],
+    terminalGrowth: number
+  ): number | null {
+    if (!isFinite(currentDividend) || currentDividend <= 0) return null;
+    if (requiredReturn <= terminalGrowth) return null;
+
+    let dividend = currentDividend;
+    let presentValue = 0;
+
+    growthPath.forEach((growth, i) => {
+      dividend *= 1 + growth;
+      presentValue += dividend / Math.pow(1 + requiredReturn, i + 1);
+    });
+
+    const terminalValue = (dividend * (1 + terminalGrowth)) / (requiredReturn - terminalGrowth);
+    return presentValue + terminalValue / Math.pow(1 + requiredReturn, growthPath.length);
+  }
+
+  /**
+   * Gordon Growth fair value for every (r, g) pair, with D1 = D0 * (1 + g)
+   * per column. Cells where r <= g are flagged invalid rather than priced.
+   */
+  static calculateSensitivityGrid(
+    currentDividend: number,
+    price: number,
+    requiredReturns: number[] = this.DEFAULT_SENSITIVITY_RETURNS,
+    growthRates: number[] = this.DEFAULT_SENSITIVITY_GROWTH_RATES
+  ): DdmSensitivityGrid {
+    const hasDividend = isFinite(currentDividend) && currentDividend > 0;
+    let nearestToPrice: DdmSensitivityGrid['nearestToPrice'] = null;
+    let nearestDistance = Infinity;
+
+    const cells = requiredReturns.map((requiredReturn, row) =>
+      growthRates.map((growth, col): DdmSensitivityCell => {
+        const invalid = requiredReturn - growth <= this.DDM_EPSILON;
+        const fairValue = !invalid && hasDividend
+          ? (currentDividend * (1 + growth)) / (requiredReturn - growth)
+          : null;
+
+        if (fairValue !== null && price > 0 && Math.abs(fairValue - price) < nearestDistance) {
+          nearestDistance = Math.abs(fairValue - price);
+          nearestToPrice = { row, col };
+        }
+
+        return {
+          requiredReturn,
+          growth,
+          fairValue,
+          invalid,
+          upside: fairValue !== null && price > 0 ? (fairValue - price) / price : null
+        };
+      })
+    );
+
+    return { requiredReturns, growthRates, cells, nearestToPrice };
+  }
+
+  /**
+   * Projects a position year by year. Dividends grow once a year, the price
+   * grows smoothly, and with `reinvest` each payment buys shares at that
+   * day's price; otherwise payments accumulate as cash.
+   */
+  static projectDrip(assumptions: DripAssumptions, reinvest: boolean): DripYear[] {
+    const { price, costBasis, dividend, dividendGrowth, priceGrowth, years, paymentsPerYear } = assumptions;
+    const priceAt = (yearsElapsed: number) => price * Math.pow(1 + priceGrowth, yearsElapsed);
+    let shares = assumptions.shares;
+    let cash = 0;
+    const rows: DripYear[] = [];
+
+    for (let year = 1; year <= years; year++) {
+      const dividendPerShare = dividend * Math.pow(1 + dividendGrowth, year - 1);
+      let income = 0;
+
+      for (let payment = 1; payment <= paymentsPerYear; payment++) {
+        const amount = shares * dividendPerShare / paymentsPerYear;
+        income += amount;
+
+        if (reinvest) {
+          shares += amount / priceAt(year - 1 + payment / paymentsPerYear);
+        } else {
+          cash += amount;
+        }
+      }
+
+      const yearEndPrice = priceAt(year);
+      const positionValue = shares * yearEndPrice;
+
+      rows.push({
+        year,
+        shares,
+        dividendPerShare,
+        income,
+        yieldOnCost: costBasis > 0 ? income / costBasis : null,
+        price: yearEndPrice,
+        positionValue,
+        cash,
+        totalValue: positionValue + cash
+      });
+    }
+
+    return rows;
+  }
+}
@@ -1,119 +1,363 @@
 import { clamp } from "../utils/MathUtils";
-import { DividendScores, EmaData } from "../models/DividendAnalysis";
+import { DividendScores, EmaData, type ScoreExplanation, type ScorePointChange } from "../models/DividendAnalysis";
 import type { Fundamentals, Quote } from "../models/StockData";
 import { MacdData, RsiData } from "./TechnicalIndicatorCalculator";
+import { DEFAULT_SCORING_PROFILE, type ScoreFactor, type ScoreThresholds, type ScoreWeights } from "../models/ScoringProfile";
+import { SectorClassifier, type SectorScoringRule } from "../data/SectorRules";
+
+const DEFAULT_THRESHOLDS = DEFAULT_SCORING_PROFILE.thresholds;
+
+const pct = (value: number): string => `${(value * 100).toFixed(1)}%`;
+const num = (value: number, digits: number = 2): string => value.toFixed(digits);
+
+/**
+ * Builds the explanation for a factor; `points` must add up to the score so
+ * every point is accounted for, including clamping.
+ */
+const explanation = (
+  factor: ScoreFactor,
+  inputs: ScoreExplanation['inputs'],
+  points: ScorePointChange[],
+  thresholds: string[] = [],
+  fallbacks: string[] = [],
+  bounds: { min: number; max: number } = { min: 0, max: 100 }
+): ScoreExplanation => {
+  const raw = points.reduce((acc, change) => acc + change.points, 0);
+  const score = clamp(raw, bounds.min, bounds.max);
+
+  if (score !== raw) {
+    points = [...points, { reason: `Clamped to ${score === bounds.min ? 'minimum' : 'maximum'} of ${score === bounds.min ? bounds.min : bounds.max}`, points: score - raw }];
+  }
+
+  return { factor, score, inputs, thresholds, points, fallbacks };
+};
+
+/**
+ * Linear 0-100 score falling from `full` to `zero` (or rising, when full > zero)
+ */
+const linearPoints = (value: number, full: number, zero: number, label: string, format: (v: number) => string): {
+  points: ScorePointChange[];
+  thresholds: string[];
+} => {
+  const rising = full > zero;
+  const atFull = rising ? value >= full : value <= full;
+  const atZero = rising ? value <= zero : value >= zero;
+
+  if (atFull) {
+    return {
+      points: [{ reason: `${label} ${format(value)} meets the full-credit threshold of ${format(full)}`, points: 100 }],
+      thresholds: [`${label} ${rising ? '≥' : '≤'} ${format(full)} (full credit)`]
+    };
+  }
+
+  if (atZero) {
+    return {
+      points: [
+        { reason: `Full credit at ${label} ${rising ? '≥' : '≤'} ${format(full)}`, points: 100 },
+        { reason: `${label} ${format(value)} at or past the no-credit threshold of ${format(zero)}`, points: -100 }
+      ],
+      thresholds: [`${label} ${rising ? '≤' : '≥'} ${format(zero)} (no credit)`]
+    };
+  }
+
+  const score = (1 - (value - full) / (zero - full)) * 100;
+  return {
+    points: [
+      { reason: `Full credit at ${label} ${rising ? '≥' : '≤'} ${format(full)}`, points: 100 },
+      { reason: `${label} ${format(value)} is ${rising ? 'below' : 'above'} ${format(full)} on the way to ${format(zero)}`, points: score - 100 }
+    ],
+    thresholds: [`${label} between ${format(full)} and ${format(zero)}`]
+  };
+};
 
 export class ScoreCalculator {
-  static calculatePayoutScore(payoutRatio: number): number {
-    if (!isFinite(payoutRatio) || payoutRatio <= 0) return 100;
-    
-    if (payoutRatio <= 0.6) return 100;
-    if (payoutRatio >= 1.0) return 0;
-    
-    return (1 - (payoutRatio - 0.6) / 0.4) * 100;
+  static calculatePayoutScore(
+    payoutRatio: number,
+    thresholds: ScoreThresholds['payout'] = DEFAULT_THRESHOLDS.payout
+  ): number {
+    return this.explainPayoutScore(payoutRatio, thresholds).score;
   }
 
-  static calculateFCFCoverageScore(coverage: number, payoutRatio: number = NaN): number {
-    if (!isFinite(coverage)) {
-      if (isFinite(payoutRatio) && payoutRatio <= 0.6) {
-        return 50;
+  static explainPayoutScore(
+    payoutRatio: number,
+    { full, zero }: ScoreThresholds['payout'] = DEFAULT_THRESHOLDS.payout,
+    basis: string = 'EPS payout'
+  ): ScoreExplanation {
+    const inputs = { payoutRatio: isFinite(payoutRatio) ? payoutRatio : null, basis, full, zero };
+
+    if (!isFinite(payoutRatio)) {
+      return explanation('payout', inputs, [{ reason: `${basis} unavailable - no penalty applied`, points: 100 }], [], [`${basis} unavailable`]);
+    }
+
+    if (payoutRatio <= 0) {
+      return explanation('payout', inputs, [{ reason: `${basis} ${pct(payoutRatio)} (no positive earnings base) - no penalty applied`, points: 100 }], [], [`Non-positive ${basis} treated as fully covered`]);
+    }
+
+    const { points, thresholds } = linearPoints(payoutRatio, full, zero, basis, pct);
+    return explanation('payout', inputs, points, thresholds);
+  }
+
+  static calculateFCFCoverageScore(
+    coverage: number,
+    payoutRatio: number = NaN,
+    thresholds: ScoreThresholds['fcf'] = DEFAULT_THRESHOLDS.fcf,
+    payoutFull: number = DEFAULT_THRESHOLDS.payout.full
+  ): number {
+    return this.explainFCFCoverageScore(coverage, payoutRatio, thresholds, payoutFull).score;
+  }
+
+  static explainFCFCoverageScore(
+    coverage: number,
+    payoutRatio: number = NaN,
+    { full }: ScoreThresholds['fcf'] = DEFAULT_THRESHOLDS.fcf,
+    payoutFull: number = DEFAULT_THRESHOLDS.payout.full
+  ): ScoreExplanation {
+    return this.explainCoverage(coverage, 'FCF coverage', { full, zero: 0 }, payoutRatio, payoutFull);
+  }
+
+  /**
+   * Payout score on the sector's payout measure (FFO for REITs, falling back
+   * to EPS) and bands, or the profile's bands for sectors without overrides
+   */
+  static calculateSectorPayoutScore(
+    fundamentals: Fundamentals,
+    rule: SectorScoringRule,
+    thresholds: ScoreThresholds = DEFAULT_THRESHOLDS
+  ): number {
+    return this.explainSectorPayoutScore(fundamentals, rule, thresholds).score;
+  }
+
+  static explainSectorPayoutScore(
+    fundamentals: Fundamentals,
+    rule: SectorScoringRule,
+    thresholds: ScoreThresholds = DEFAULT_THRESHOLDS
+  ): ScoreExplanation {
+    const bands = rule.payout ?? thresholds.payout;
+
+    if (rule.payoutBasis === 'ffo') {
+      const ffoPayout = fundamentals.ffoPayoutRatio;
+      if (isFinite(ffoPayout)) {
+        const result = this.explainPayoutScore(ffoPayout, bands, 'FFO payout');
+        if (!isFinite(fundamentals.depreciation)) {
+          result.fallbacks.push('Depreciation unavailable - FFO approximated by operating cash flow');
+        }
+        return this.withSectorNote(result, rule);
       }
-      return 0;
+
+      const result = this.explainPayoutScore(fundamentals.epsPayoutRatio, bands);
+      result.fallbacks.unshift('FFO unavailable - used EPS payout');
+      return this.withSectorNote(result, rule);
     }
-    if (coverage >= 2) return 100;
-    if (coverage <= 0) return 0;
-    
-    return clamp(coverage / 2, 0, 1) * 100;
+
+    return this.withSectorNote(this.explainPayoutScore(fundamentals.epsPayoutRatio, bands), rule);
+  }
+
+  /**
+   * Coverage score on the sector's measure: FCF coverage by default, AFFO for
+   * REITs, operating cash flow for capex-heavy utilities and the Tier 1
+   * capital ratio for banks. Live providers rarely report D&A or capital
+   * ratios, so a missing sector measure falls back to FCF coverage.
+   */
+  static calculateSectorCoverageScore(
+    fundamentals: Fundamentals,
+    rule: SectorScoringRule,
+    thresholds: ScoreThresholds = DEFAULT_THRESHOLDS
+  ): number {
+    return this.explainSectorCoverageScore(fundamentals, rule, thresholds).score;
+  }
+
+  static explainSectorCoverageScore(
+    fundamentals: Fundamentals,
+    rule: SectorScoringRule,
+    thresholds: ScoreThresholds = DEFAULT_THRESHOLDS
+  ): ScoreExplanation {
+    const payoutFull = (rule.payout ?? thresholds.payout).full;
+
+    if (rule.coverageBasis === 'fcf' || !rule.coverage) {
+      return this.withSectorNote(
+        this.explainFCFCoverageScore(fundamentals.fcfCoverage, fundamentals.epsPayoutRatio, thresholds.fcf, payoutFull),
+        rule
+      );
+    }
+
+    const [value, label] = rule.coverageBasis === 'affo' ? [fundamentals.affoCoverage, 'AFFO coverage']
+      : rule.coverageBasis === 'ocf' ? [fundamentals.operatingCashFlowCoverage, 'Operating cash flow coverage']
+      : [fundamentals.capitalRatio, 'Tier 1 capital ratio'];
+
+    if (!isFinite(value)) {
+      const result = this.explainFCFCoverageScore(fundamentals.fcfCoverage, fundamentals.epsPayoutRatio, thresholds.fcf, payoutFull);
+      result.fallbacks.unshift(`${label} unavailable - used FCF coverage`);
+      return this.withSectorNote(result, rule);
+    }
+
+    return this.withSectorNote(
+      this.explainCoverage(value, label, rule.coverage, fundamentals.epsPayoutRatio, payoutFull, rule.coverageBasis === 'capital'),
+      rule
+    );
+  }
+
+  static calculateStreakScore(
+    streak: number,
+    thresholds: ScoreThresholds['streak'] = DEFAULT_THRESHOLDS.streak
+  ): number {
+    return this.explainStreakScore(streak, thresholds).score;
+  }
+
+  static explainStreakScore(
+    streak: number,
+    { full }: ScoreThresholds['streak'] = DEFAULT_THRESHOLDS.streak
+  ): ScoreExplanation {
+    const inputs = { streak, full };
+
+    if (streak >= full) {
+      return explanation('streak', inputs, [{ reason: `${streak} years of growth meets the ${full}-year full-credit mark`, points: 100 }], [`Streak ≥ ${full} years (full credit)`]);
+    }
+
+    return explanation(
+      'streak',
+      inputs,
+      [{ reason: `${streak} of ${full} years for full credit`, points: clamp(streak / full, 0, 1) * 100 }],
+      streak <= 0 ? ['No dividend growth streak'] : []
+    );
   }
 
-  static calculateStreakScore(streak: number): number {
-    return clamp(streak / 20, 0, 1) * 100;
+  static calculateGrowthScore(
+    growthRate: number,
+    thresholds: ScoreThresholds['growth'] = DEFAULT_THRESHOLDS.growth
+  ): number {
+    return this.explainGrowthScore(growthRate, thresholds).score;
   }
 
-  static calculateGrowthScore(growthRate: number): number {
-    const x = clamp((growthRate - (-0.10)) / (0.10 - (-0.10)), 0, 1);
-    return x * 100;
+  static explainGrowthScore(
+    growthRate: number,
+    { min, max }: ScoreThresholds['growth'] = DEFAULT_THRESHOLDS.growth
+  ): ScoreExplanation {
+    const inputs = { safeGrowth: isFinite(growthRate) ? growthRate : null, min, max };
+    const x = clamp((growthRate - min) / (max - min), 0, 1);
+    const thresholds = growthRate >= max ? [`Safe growth ≥ ${pct(max)} (full credit)`]
+      : growthRate <= min ? [`Safe growth ≤ ${pct(min)} (no credit)`]
+      : [];
+
+    return explanation(
+      'growth',
+      inputs,
+      [{ reason: `Safe growth ${pct(growthRate)} on a ${pct(min)} to ${pct(max)} scale`, points: x * 100 }],
+      thresholds
+    );
   }
 
   static calculateTrendScore(price: number, ema: EmaData): number {
+    return this.explainTrendScore(price, ema).score;
+  }
+
+  static explainTrendScore(price: number, ema: EmaData): ScoreExplanation {
+    const inputs = { price, ema20: ema.ema20, ema50: ema.ema50, ema200: ema.ema200 };
+
     if (!price || !ema.ema20 || !ema.ema50 || !ema.ema200) {
-      return 0;
+      return explanation('trend', inputs, [], [], ['EMA data unavailable - trend scored 0']);
     }
 
-    let score = 0;
+    const points: ScorePointChange[] = [];
+    const thresholds: string[] = [];
     
     // EMA200 is the most important - if stock is persistently under EMA200, 
     // it indicates market doubts about fundamentals
     if (price > ema.ema200) {
-      score += 50; // Increased weight for EMA200
+      points.push({ reason: `Price above EMA200 (${num(ema.ema200)})`, points: 50 }); // Increased weight for EMA200
+      thresholds.push('Above EMA200');
     } else {
       // Stock is under EMA200 - significant negative signal
-      score -= 20; // Penalty for being under EMA200
+      points.push({ reason: `Price at or below EMA200 (${num(ema.ema200)})`, points: -20 }); // Penalty for being under EMA200
+      thresholds.push('Below EMA200');
     }
     
     // EMA50 provides medium-term trend context
     if (price > ema.ema50) {
-      score += 30;
+      points.push({ reason: `Price above EMA50 (${num(ema.ema50)})`, points: 30 });
+      thresholds.push('Above EMA50');
     }
     
     // EMA20 provides short-term trend context
     if (price > ema.ema20) {
-      score += 20;
+      points.push({ reason: `Price above EMA20 (${num(ema.ema20)})`, points: 20 });
+      thresholds.push('Above EMA20');
     }
 
     // Ensure score doesn't go below 0
-    return Math.max(0, score);
+    return explanation('trend', inputs, points, thresholds);
   }
 
   static calculateMACDScore(macd: MacdData): number {
+    return this.explainMACDScore(macd).score;
+  }
+
+  static explainMACDScore(macd: MacdData): ScoreExplanation {
+    const inputs = {
+      macdLine: macd?.macdLine ?? null,
+      signalLine: macd?.signalLine ?? null,
+      histogram: macd?.histogram ?? null
+    };
+
     // If no MACD data available, return neutral score
     if (!macd || macd.macdLine === null || macd.signalLine === null || macd.histogram === null) {
-      return 50; // Neutral score when data unavailable
+      return explanation('macd', inputs, [{ reason: 'Neutral score', points: 50 }], [], ['MACD data unavailable - neutral score']);
     }
 
-    let score = 50; // Start with neutral score
+    const points: ScorePointChange[] = [{ reason: 'Neutral starting score', points: 50 }];
+    const thresholds: string[] = [];
 
     // MACD Line vs Signal Line (primary signal)
     if (macd.macdLine > macd.signalLine) {
       // Bullish signal
       const diff = macd.macdLine - macd.signalLine;
-      score += Math.min(30, diff * 15); // Up to 30 points for strong bullish signal
+      points.push({ reason: `MACD line above signal by ${num(diff, 4)}`, points: Math.min(30, diff * 15) }); // Up to 30 points for strong bullish signal
+      thresholds.push('MACD above signal (bullish)');
     } else {
       // Bearish signal
       const diff = macd.signalLine - macd.macdLine;
-      score -= Math.min(30, diff * 15); // Down to 30 points for strong bearish signal
+      points.push({ reason: `MACD line below signal by ${num(diff, 4)}`, points: -Math.min(30, diff * 15) }); // Down to 30 points for strong bearish signal
+      thresholds.push('MACD below signal (bearish)');
     }
 
     // Histogram analysis (momentum)
     if (macd.histogram > 0) {
       // Positive momentum
-      score += Math.min(20, macd.histogram * 10); // Up to 20 points for strong positive momentum
+      points.push({ reason: `Positive histogram ${num(macd.histogram, 4)}`, points: Math.min(20, macd.histogram * 10) }); // Up to 20 points for strong positive momentum
     } else {
       // Negative momentum
-      score -= Math.min(20, Math.abs(macd.histogram) * 10); // Down to 20 points for strong negative momentum
+      points.push({ reason: `Negative histogram ${num(macd.histogram, 4)}`, points: -Math.min(20, Math.abs(macd.histogram) * 10) }); // Down to 20 points for strong negative momentum
     }
 
     // MACD line position relative to zero (trend strength)
     if (macd.macdLine > 0) {
       // Above zero line - bullish trend
-      score += Math.min(10, macd.macdLine * 5);
+      points.push({ reason: 'MACD line above zero', points: Math.min(10, macd.macdLine * 5) });
+      thresholds.push('MACD above zero line');
     } else {
       // Below zero line - bearish trend  
-      score -= Math.min(10, Math.abs(macd.macdLine) * 5);
+      points.push({ reason: 'MACD line below zero', points: -Math.min(10, Math.abs(macd.macdLine) * 5) });
+      thresholds.push('MACD below zero line');
     }
 
     // Ensure score stays within 0-100 range
-    return Math.max(0, Math.min(100, score));
+    return explanation('macd', inputs, points, thresholds);
   }
 
   static calculateRSIScore(rsi: RsiData): number {
+    return this.explainRSIScore(rsi).score;
+  }
+
+  static explainRSIScore(rsi: RsiData): ScoreExplanation {
+    const inputs = { rsi: rsi?.rsi ?? null, period: rsi?.period ?? null };
+
     // If no RSI data available, return neutral score
     if (!rsi || rsi.rsi === null) {
-      return 50; // Neutral score when data unavailable
+      return explanation('rsi', inputs, [{ reason: 'Neutral score', points: 50 }], [], ['RSI data unavailable - neutral score']);
     }
 
     const rsiValue = rsi.rsi;
-    let score = 50; // Start with neutral score
+    const band = (score: number, reason: string) =>
+      explanation('rsi', inputs, [{ reason: `RSI ${num(rsiValue, 1)}: ${reason}`, points: score }], [reason]);
 
     // RSI-based scoring logic for dividend stocks
     // For dividend stocks, we prefer stocks that aren't severely overbought or oversold
@@ -122,31 +366,26 @@ export class ScoreCalculator {
       // Normal range - good for dividend stocks
       if (rsiValue >= 40 && rsiValue <= 60) {
         // Sweet spot for dividend investing - not extreme
-        score = 100;
+        return band(100, 'within 40-60 sweet spot');
       } else if (rsiValue >= 30 && rsiValue <= 70) {
         // Good range
-        score = 85;
-      } else {
-        // Still acceptable but getting toward extremes
-        score = 70;
+        return band(85, 'within 30-70 range');
       }
+      // Still acceptable but getting toward extremes
+      return band(70, 'within 20-80 range, nearing extremes');
     } else if (rsiValue > 80) {
       // Overbought - potentially risky entry point for dividend investors
-      if (rsiValue > 90) {
-        score = 10; // Extremely overbought
-      } else {
-        score = 30; // Very overbought
-      }
+      return rsiValue > 90
+        ? band(10, 'extremely overbought (> 90)')
+        : band(30, 'very overbought (> 80)');
     } else if (rsiValue < 20) {
       // Oversold - could be opportunity but also risk
-      if (rsiValue < 10) {
-        score = 20; // Extremely oversold - high risk/reward
-      } else {
-        score = 40; // Oversold - potential opportunity
-      }
+      return rsiValue < 10
+        ? band(20, 'extremely oversold (< 10)') // high risk/reward
+        : band(40, 'oversold (< 20)'); // potential opportunity
     }
 
-    return Math.max(0, Math.min(100, score));
+    return explanation('rsi', inputs, [{ reason: 'Neutral score', points: 50 }]);
   }
 
   static calculateDividendScores(
@@ -156,31 +395,79 @@ export class ScoreCalculator {
     quote: Quote,
     ema: EmaData,
     macd: MacdData,
-    rsi: RsiData
+    rsi: RsiData,
+    thresholds: ScoreThresholds = DEFAULT_THRESHOLDS
   ): DividendScores {
+    const rule = SectorClassifier.ruleFor(quote.sector, quote.industry);
+    const explanations = {
+      payout: this.explainSectorPayoutScore(fundamentals, rule, thresholds),
+      fcf: this.explainSectorCoverageScore(fundamentals, rule, thresholds),
+      streak: this.explainStreakScore(streak, thresholds.streak),
+      growth: this.explainGrowthScore(safeGrowth, thresholds.growth),
+      trend: this.explainTrendScore(quote.price, ema),
+      macd: this.explainMACDScore(macd),
+      rsi: this.explainRSIScore(rsi)
+    };
+
     return new DividendScores({
-      payout: this.calculatePayoutScore(fundamentals.epsPayoutRatio),
-      fcf: this.calculateFCFCoverageScore(fundamentals.fcfCoverage, fundamentals.epsPayoutRatio),
-      streak: this.calculateStreakScore(streak),
-      growth: this.calculateGrowthScore(safeGrowth),
-      trend: this.calculateTrendScore(quote.price, ema),
-      macd: this.calculateMACDScore(macd),
-      rsi: this.calculateRSIScore(rsi)
+      payout: explanations.payout.score,
+      fcf: explanations.fcf.score,
+      streak: explanations.streak.score,
+      growth: explanations.growth.score,
+      trend: explanations.trend.score,
+      macd: explanations.macd.score,
+      rsi: explanations.rsi.score,
+      explanations
     });
   }
 
-  static calculateTotalScore(scores: DividendScores): number {
+  static calculateTotalScore(scores: DividendScores, weights: ScoreWeights = DEFAULT_SCORING_PROFILE.weights): number {
     return Math.round(
-      0.25 * scores.payout +
-      0.25 * scores.fcf +
-      0.17 * scores.streak +
-      0.16 * scores.growth +
-      0.07 * scores.trend +
-      0.06 * scores.macd +
-      0.04 * scores.rsi
+      weights.payout * scores.payout +
+      weights.fcf * scores.fcf +
+      weights.streak * scores.streak +
+      weights.growth * scores.growth +
+      weights.trend * scores.trend +
+      weights.macd * scores.macd +
+      weights.rsi * scores.rsi
     );
   }
 
+  /**
+   * Shared coverage rule: linear from `zero` to `full`, with partial credit
+   * when the measure is missing but the payout is comfortably covered
+   */
+  private static explainCoverage(
+    value: number,
+    label: string,
+    { full, zero }: { full: number; zero: number },
+    payoutRatio: number,
+    payoutFull: number,
+    asPercent: boolean = false
+  ): ScoreExplanation {
+    const format = asPercent ? pct : (v: number) => `${num(v)}x`;
+    const inputs = { [label]: isFinite(value) ? value : null, full, zero, payoutRatio: isFinite(payoutRatio) ? payoutRatio : null };
+    // Unlimited coverage (no dividends paid) is scored like missing data
+
+    if (!isFinite(value)) {
+      if (isFinite(payoutRatio) && payoutRatio <= payoutFull) {
+        return explanation('fcf', inputs, [{ reason: `Partial credit: payout ${pct(payoutRatio)} within the ${pct(payoutFull)} band`, points: 50 }], [], [`${label} unavailable - partial credit from payout ratio`]);
+      }
+      return explanation('fcf', inputs, [], [], [`${label} unavailable and payout not within the ${pct(payoutFull)} band - no credit`]);
+    }
+
+    const { points, thresholds } = linearPoints(value, full, zero, label, format);
+    return explanation('fcf', inputs, points, thresholds);
+  }
+
+  private static withSectorNote(result: ScoreExplanation, rule: SectorScoringRule): ScoreExplanation {
+    if (rule.payout || rule.coverage) {
+      result.thresholds.unshift(`${rule.label} sector rules`);
+    }
+    return result;
+  }
+
+
   /**
    * Analyzes EMA trends to detect potential fundamental concerns
    */
@@ -0,0 +1,373 @@
+import { Command } from "commander";
+import { readFile, writeFile } from "fs/promises";
+import { ErrorFormatter } from "../formatters/ErrorFormatter";
+import { JsonFormatter } from "../formatters/JsonFormatter";
+import { TabularFormatter } from "../formatters/TabularFormatter";
+import { InputValidator } from "../validation/InputValidator";
+import { MarketDataProviderRegistry } from "../services/MarketDataProviderRegistry";
+import { ScoringProfileRegistry, DEFAULT_SCORING_CONFIG_FILE } from "../services/ScoringProfileRegistry";
+import { DivvyError, ValidationError } from "../errors/DivvyErrors";
+import { Cassette } from "../utils/Cassette";
+import { openWatchlistStore, WATCHLIST_STORES, DEFAULT_WATCHLIST_FILE, type WatchlistStore, type WatchlistStoreKind } from "../services/WatchlistStore";
+import type { MarketDataProvider } from "../services/MarketDataProvider";
+import type { ScoringProfile } from "../models/ScoringProfile";
+import { BatchAnalysisService, type BatchItemResult } from "../services/BatchAnalysisService";
+
+/**
+ * Options shared by every command that runs analyses
+ */
+export interface DataSettings {
+  years: number;
+  requiredReturn: number;
+  provider: string;
+  profile: ScoringProfile;
+  fixturesDir: string | undefined;
+  recordPath: string | undefined;
+  replayPath: string | undefined;
+  save: boolean;
+  forceFresh: boolean;
+}
+
+export type OutputFormat = 'text' | 'json';
+
+export type ExportFormat = OutputFormat | 'csv' | 'xlsx';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['text', 'json'];
+
+/**
+ * Formats for commands that produce one row per ticker
+ */
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['text', 'json', 'csv', 'xlsx'];
+
+/**
+ * Options shared by the commands that analyze many tickers at once
+ */
+export interface BatchSettings {
+  concurrency: number;
+  requestsPerSecond: number;
+  maxCacheAgeHours: number | undefined;
+}
+
+export interface DataSession {
+  dataProvider: MarketDataProvider;
+  cassette: Cassette | undefined;
+  saveToDb: boolean;
+  forceFresh: boolean;
+}
+
+/**
+ * Helpers shared by the CLI commands: common options, provider setup and
+ * error handling with consistent exit codes.
+ */
+export class CliSupport {
+  private static readonly MAX_CONCURRENCY = 16;
+  private static readonly MAX_REQUESTS_PER_SECOND = 50;
+
+  /**
+   * The settings saved analyses are keyed by
+   */
+  static addAnalysisOptions(command: Command): Command {
+    return command
+      .option("-y, --years <n>", "Years of dividend history to fetch", "15")
+      .option("--r <pct>", "Required return for optional DDM output (e.g. 0.09)", "0.09")
+      .option("--provider <name>", `Data provider: ${MarketDataProviderRegistry.names().join(', ')}`, "yahoo")
+      .option("--profile <name>", "Scoring profile: default, income, growth, defensive or one from the config file", "default")
+      .option("--config <file>", `Scoring config file with custom profiles (default: ./${DEFAULT_SCORING_CONFIG_FILE} if present)`);
+  }
+
+  static addDataOptions(command: Command): Command {
+    return this.addAnalysisOptions(command)
+      .option("--fixtures-dir <path>", "Directory of JSON fixtures for --provider fixtures")
+      .option("--record <file>", "Record raw data source responses to a cassette file")
+      .option("--replay <file>", "Replay data source responses from a cassette file (no network)")
+      .option("--no-save", "Skip saving analysis results to database")
+      .option("--force-fresh", "Force fresh analysis, bypass 24h cache");
+  }
+
+  /**
+   * `--concurrency`, `--rps` and `--verbose`, plus `--max-age` when the
+   * command reuses saved analyses
+   */
+  static addBatchOptions(command: Command, { maxAgeHours, verbose = "Show per-ticker service logs" }: { maxAgeHours?: number; verbose?: string } = {}): Command {
+    if (maxAgeHours !== undefined) {
+      command.option("--max-age <hours>", "Reuse saved analyses up to this old", String(maxAgeHours));
+    }
+    
+    return command
+      .option("--concurrency <n>", "Tickers analyzed at once", String(BatchAnalysisService.DEFAULT_CONCURRENCY))
+      .option("--rps <n>", "Data provider requests per second, shared by all workers", String(BatchAnalysisService.DEFAULT_REQUESTS_PER_SECOND))
+      .option("--verbose", verbose);
+  }
+
+  static addWatchlistStoreOptions(command: Command): Command {
+    return command
+      .option("--store <kind>", `Where watchlists are kept: ${WATCHLIST_STORES.join(', ')}`, "file")
+      .option("--watchlists <file>", "Watchlist file for --store file", DEFAULT_WATCHLIST_FILE);
+  }
+
+  static openWatchlistStore(options: any): WatchlistStore {
+    const kind = WATCHLIST_STORES.find(candidate => candidate === String(options.store ?? 'file').trim().toLowerCase());
+
+    if (!kind) {
+      throw new ValidationError(`Invalid store "${options.store}". Valid stores: ${WATCHLIST_STORES.join(', ')}`, 'store');
+    }
+
+    return openWatchlistStore(kind as WatchlistStoreKind, options.watchlists);
+  }
+
+  static addFormatOption(command: Command, formats: readonly string[] = OUTPUT_FORMATS): Command {
+    command.option("--format <format>", `Output format: ${formats.join(', ')}`, "text");
+    
+    if (formats.includes('xlsx')) {
+      command.option("--out <file>", "Write csv/xlsx output to a file instead of stdout");
+    }
+    
+    return command;
+  }
+
+  static parseFormat<T extends string>(options: any, formats: readonly T[]): T {
+    return InputValidator.validateOutputFormat(options.format ?? 'text', formats);
+  }
+
+  /**
+   * Whether `--format` is machine-readable, in which case the output owns stdout
+   */
+  static ownsStdout(options: any): boolean {
+    return String(options.format ?? 'text').trim().toLowerCase() !== 'text';
+  }
+
+  static writeJson(document: Parameters<typeof JsonFormatter.stringify>[0]): void {
+    process.stdout.write(JsonFormatter.stringify(document));
+  }
+
+  /**
+   * Checks `--out` before any work is done: a spreadsheet is never dumped on
+   * a terminal
+   */
+  static validateExportTarget(format: ExportFormat, out: string | undefined): void {
+    if (out && format !== 'csv' && format !== 'xlsx') {
+      throw new ValidationError('--out is only used with --format csv or xlsx', 'out');
+    }
+    
+    if (format === 'xlsx' && !out && process.stdout.isTTY) {
+      throw new ValidationError('--format xlsx writes a binary file; pass --out <file.xlsx>', 'out');
+    }
+  }
+
+  static async writeTable(format: 'csv' | 'xlsx', results: BatchItemResult[], out: string | undefined): Promise<void> {
+    const content = format === 'csv' ? TabularFormatter.csv(results) : TabularFormatter.xlsx(results);
+    
+    if (!out) {
+      process.stdout.write(content);
+      return;
+    }
+    
+    await writeFile(out, content);
+    console.log(`📄 Wrote ${results.length} ${results.length === 1 ? 'row' : 'rows'} to ${out}`);
+  }
+
+  static parseDataSettings(options: any): DataSettings {
+    const years = InputValidator.validateYears(options.years);
+    const requiredReturn = InputValidator.validateRequiredReturn(options.r);
+    const provider = InputValidator.validateProvider(options.provider);
+    
+    // Validate all options together
+    InputValidator.validateCommanderOptions(options);
+    
+    const profile = ScoringProfileRegistry.resolve(options.profile, options.config ?? process.env.DIVVY_CONFIG);
+
+    if (options.record && options.replay) {
+      throw new ValidationError('--record and --replay cannot be used together', 'cassette');
+    }
+
+    return {
+      years,
+      requiredReturn,
+      provider,
+      profile,
+      fixturesDir: options.fixturesDir,
+      recordPath: options.record,
+      replayPath: options.replay,
+      save: options.save !== false,
+      forceFresh: Boolean(options.forceFresh)
+    };
+  }
+
+  static parseBatchSettings(options: any): BatchSettings {
+    return {
+      concurrency: InputValidator.validatePositiveInteger(options.concurrency, 'concurrency', this.MAX_CONCURRENCY),
+      requestsPerSecond: InputValidator.validatePositiveInteger(options.rps, 'rps', this.MAX_REQUESTS_PER_SECOND),
+      maxCacheAgeHours: options.maxAge === undefined ? undefined : InputValidator.validateNonNegativeNumber(options.maxAge, 'maxAge')
+    };
+  }
+
+  static async openDataSession(settings: DataSettings): Promise<DataSession> {
+    let cassette: Cassette | undefined;
+    
+    if (settings.recordPath) {
+      cassette = Cassette.forRecording(settings.recordPath);
+    } else if (settings.replayPath) {
+      cassette = await Cassette.load(settings.replayPath);
+    }
+    
+    const dataProvider = MarketDataProviderRegistry.resolve(settings.provider, { fixturesDir: settings.fixturesDir, cassette });
+    
+    // Health check (optional)
+    if (process.env.NODE_ENV !== 'production') {
+      const healthCheck = await dataProvider.healthCheck();
+      if (!healthCheck.available && healthCheck.error) {
+        console.warn(`⚠️  Data source warning: ${healthCheck.error}`);
+        console.warn('   Analysis will proceed but may have limited data.\n');
+      }
+    }
+    
+    return {
+      dataProvider,
+      cassette,
+      // Frozen-clock providers are for reproducible runs - keep the database out of them
+      saveToDb: settings.save && !dataProvider.asOf,
+      // A cached analysis would leave nothing to record
+      forceFresh: settings.forceFresh || Boolean(settings.recordPath)
+    };
+  }
+
+  static async saveCassette(cassette: Cassette | undefined): Promise<void> {
+    if (!cassette || cassette.isReplaying) {
+      return;
+    }
+    
+    try {
+      await cassette.save();
+      console.log(`📼 Recorded data source responses to ${cassette.path}`);
+    } catch (error) {
+      console.warn(`Failed to write cassette ${cassette.path}:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * Tickers from arguments, a file and/or stdin (`-` as an argument, or
+   * piped input when nothing else is given)
+   */
+  static async readTickers(args: string[], file?: string): Promise<string[]> {
+    const sources = args.filter(arg => arg !== '-');
+    
+    if (file) {
+      try {
+        sources.push(await readFile(file, 'utf8'));
+      } catch (error) {
+        throw new ValidationError(`Unable to read ticker file ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'file');
+      }
+    }
+    
+    if (args.includes('-') || (sources.length === 0 && !process.stdin.isTTY)) {
+      sources.push(await this.readStdin());
+    }
+    
+    const tickers = InputValidator.parseTickerList(sources.join('\n'));
+    
+    if (tickers.length === 0) {
+      throw new ValidationError('No tickers given. Pass them as arguments, with --file, or on stdin', 'ticker');
+    }
+    
+    return tickers;
+  }
+
+  /**
+   * Runs `operation` with console.log/info/warn muted when `quiet` is set, for
+   * commands whose per-ticker service chatter would drown their own output
+   */
+  static async withQuietConsole<T>(operation: () => Promise<T>, quiet: boolean = true): Promise<T> {
+    if (!quiet) {
+      return operation();
+    }
+    
+    const { log, info, warn } = console;
+    const noop = () => {};
+    console.log = noop;
+    console.info = noop;
+    console.warn = noop;
+    
+    try {
+      return await operation();
+    } finally {
+      console.log = log;
+      console.info = info;
+      console.warn = warn;
+    }
+  }
+
+  /**
+   * Per-ticker progress for batch runs. It goes to stderr so it survives the
+   * quiet console and stays out of output on stdout.
+   */
+  static progressReporter(): (result: BatchItemResult, completed: number, total: number) => void {
+    return (result, completed, total) => {
+      const status = result.analysis ? `score ${result.analysis.totalScore}` : `failed: ${result.error.message}`;
+      process.stderr.write(`  [${completed}/${total}] ${result.ticker} ${status}\n`);
+    };
+  }
+
+  /**
+   * Runs `operation` with console.log/info (progress and service chatter) sent
+   * to stderr when `toStderr` is set, so they never mix into output on stdout
+   */
+  static async withDiagnosticsToStderr<T>(toStderr: boolean, operation: () => Promise<T>): Promise<T> {
+    if (!toStderr) {
+      return operation();
+    }
+    
+    const { log, info } = console;
+    console.log = console.error;
+    console.info = console.error;
+    
+    try {
+      return await operation();
+    } finally {
+      console.log = log;
+      console.info = info;
+    }
+  }
+
+  static exitCodeFor(error: unknown): number {
+    if (error instanceof ValidationError) {
+      return 2; // Invalid input
+    }
+    if (error instanceof DivvyError && !error.isRetryable) {
+      return 3; // Permanent failure
+    }
+    // Network/retry errors use default exit code 1
+    return 1;
+  }
+
+  /**
+   * Prints the error and exits. With `json` set for a command, scripts also
+   * get an error document on stdout.
+   */
+  static handleError(error: unknown, json?: { command: string }): never {
+    const err = error instanceof Error ? error : new Error('Unknown error occurred');
+    const exitCode = this.exitCodeFor(err);
+    
+    // Format and display the error
+    const formattedError = ErrorFormatter.formatError(err);
+    console.error(formattedError);
+    
+    // For debugging in development
+    if (process.env.NODE_ENV === 'development' && err.stack) {
+      console.error('\nStack Trace:', err.stack);
+    }
+    
+    if (json) {
+      this.writeJson(JsonFormatter.errorDocument(json.command, err, exitCode));
+    }
+    
+    process.exit(exitCode);
+  }
+
+  private static async readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+}
@@ -1,17 +1,34 @@
 import { Command } from "commander";
 import { DividendAnalysisService } from "../services/DividendAnalysisService";
 import { DividendCalculator } from "../calculators/DividendCalculator";
+import { MonteCarloCalculator } from "../calculators/MonteCarloCalculator";
 import { OutputFormatter } from "../formatters/OutputFormatter";
 import { ErrorFormatter } from "../formatters/ErrorFormatter";
 import { InputValidator } from "../validation/InputValidator";
 import { FallbackDataProvider } from "../services/FallbackDataProvider";
-import { DivvyError, ValidationError } from "../errors/DivvyErrors";
+import { ValidationError } from "../errors/DivvyErrors";
+import { JsonFormatter, type DataQualityReport } from "../formatters/JsonFormatter";
+import { CliSupport, EXPORT_FORMATS, type DataSettings } from "./CliSupport";
+import { BatchCommand } from "./commands/BatchCommand";
+import { ScreenCommand } from "./commands/ScreenCommand";
+import { CompareCommand } from "./commands/CompareCommand";
+import { ReportCommand } from "./commands/ReportCommand";
+import { PortfolioCommand } from "./commands/PortfolioCommand";
+import { ImportCommand } from "./commands/ImportCommand";
+import { DripCommand } from "./commands/DripCommand";
+import { CalendarCommand } from "./commands/CalendarCommand";
+import { WatchlistCommand } from "./commands/WatchlistCommand";
+import { WatchCommand } from "./commands/WatchCommand";
+import { RefreshCommand } from "./commands/RefreshCommand";
+import { LeaderboardCommand } from "./commands/LeaderboardCommand";
+import { HistoryCommand } from "./commands/HistoryCommand";
+import type { Cassette } from "../utils/Cassette";
+import type { DividendAnalysis, MonteCarloOptions } from "../models/DividendAnalysis";
 
-interface ParsedArguments {
+interface ParsedArguments extends DataSettings {
   ticker: string;
-  years: number;
-  requiredReturn: number;
-  provider: string;
+  sensitivity: { requiredReturns: number[]; growthRates: number[] } | undefined;
+  monteCarlo: Omit<MonteCarloOptions, 'completeThroughYear'> | undefined;
 }
 
 export class DivvyCliApp {
@@ -28,66 +45,153 @@ export class DivvyCliApp {
     this.program
       .name("divvy")
       .description("Estimate dividend yield potential for a stock (free data). Results are automatically saved to database.")
-      .argument("<ticker>", "Stock ticker symbol, e.g. AAPL")
-      .option("-y, --years <n>", "Years of dividend history to fetch", "15")
-      .option("--r <pct>", "Required return for optional DDM output (e.g. 0.09)", "0.09")
-      .option("--provider <name>", "Data provider: yahoo, av, or auto", "yahoo")
-      .option("--no-save", "Skip saving analysis results to database")
-      .option("--force-fresh", "Force fresh analysis, bypass 24h cache")
-      .option("--verbose", "Show detailed data quality information")
-      .option("--no-warnings", "Suppress warning messages")
       .version("1.0.0")
       .helpOption("-h, --help", "Display help for command");
+
+    // `divvy KO` is shorthand for `divvy analyze KO`
+    const analyze = this.program
+      .command("analyze", { isDefault: true })
+      .description("Analyze a single stock")
+      .argument("[ticker]", "Stock ticker symbol, e.g. AAPL");
+
+    CliSupport.addFormatOption(CliSupport.addDataOptions(analyze), EXPORT_FORMATS)
+      .option("--explain", "Explain how each score factor was computed")
+      .option("--sensitivity", "Show DDM fair value across a grid of required returns and growth rates")
+      .option("--sens-r <list>", "Required returns for the sensitivity grid (e.g. 0.07,0.08,0.09)")
+      .option("--sens-g <list>", "Growth rates for the sensitivity grid (e.g. -0.02,0,0.03)")
+      .option("--monte-carlo", "Simulate the DDM fair value distribution (P10/P50/P90)")
+      .option("--mc-iterations <n>", "Monte Carlo draws", String(MonteCarloCalculator.DEFAULT_ITERATIONS))
+      .option("--mc-seed <n>", "Monte Carlo seed for reproducible results", String(MonteCarloCalculator.DEFAULT_SEED))
+      .option("--r-dist <spec>", "Required return distribution: fixed:0.09, normal:0.09,0.01 or uniform:0.07,0.11 (default normal around --r, sd 1%)")
+      .option("--verbose", "Show detailed data quality information")
+      .option("--no-warnings", "Suppress warning messages")
+      .action((ticker: string | undefined, options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.analyze(ticker, options)));
+
+    BatchCommand.register(this.program, this.analysisService);
+    ScreenCommand.register(this.program, this.analysisService);
+    CompareCommand.register(this.program, this.analysisService);
+    ReportCommand.register(this.program, this.analysisService);
+    PortfolioCommand.register(this.program, this.analysisService);
+    ImportCommand.register(this.program);
+    DripCommand.register(this.program, this.analysisService);
+    CalendarCommand.register(this.program);
+    WatchlistCommand.register(this.program);
+    WatchCommand.register(this.program, this.analysisService);
+    RefreshCommand.register(this.program, this.analysisService);
+    LeaderboardCommand.register(this.program);
+    HistoryCommand.register(this.program);
   }
 
-  private parseArguments(): ParsedArguments {
-    this.program.parse(process.argv);
-    
-    const options = this.program.opts();
-    
+  private parseArguments(ticker: string | undefined, options: any): ParsedArguments {
     // Validate arguments exist
-    if (this.program.args.length === 0) {
+    if (!ticker) {
       throw new ValidationError('Ticker symbol is required. Usage: divvy <TICKER>', 'ticker');
     }
     
     // Validate ticker
-    const ticker = InputValidator.validateTicker(this.program.args[0]);
-    
-    // Validate years
-    const years = InputValidator.validateYears(options.years);
-    
-    // Validate required return
-    const requiredReturn = InputValidator.validateRequiredReturn(options.r);
-    
-    // Validate provider
-    const provider = InputValidator.validateProvider(options.provider);
+    const validTicker = InputValidator.validateTicker(ticker);
     
-    // Validate all options together
-    InputValidator.validateCommanderOptions(options);
+    const settings = CliSupport.parseDataSettings(options);
 
-    return { ticker, years, requiredReturn, provider };
+    // Either range implies the grid
+    const sensitivity = options.sensitivity || options.sensR || options.sensG
+      ? {
+          requiredReturns: options.sensR
+            ? InputValidator.validateRateList(options.sensR, 'sensR')
+            : DividendCalculator.DEFAULT_SENSITIVITY_RETURNS,
+          growthRates: options.sensG
+            ? InputValidator.validateRateList(options.sensG, 'sensG')
+            : DividendCalculator.DEFAULT_SENSITIVITY_GROWTH_RATES
+        }
+      : undefined;
+
+    // Any simulation setting implies the simulation
+    const monteCarlo = options.monteCarlo || options.rDist
+      ? {
+          iterations: InputValidator.validateIterations(options.mcIterations),
+          seed: InputValidator.validateSeed(options.mcSeed),
+          requiredReturn: options.rDist
+            ? InputValidator.validateReturnDistribution(options.rDist)
+            : { type: 'normal' as const, mean: settings.requiredReturn, stdDev: 0.01 }
+        }
+      : undefined;
+
+    return {
+      ...settings,
+      ticker: validTicker,
+      sensitivity,
+      monteCarlo
+    };
   }
 
   async run(): Promise<void> {
     try {
-      // Health check (optional)
-      if (process.env.NODE_ENV !== 'production') {
-        const healthCheck = await this.analysisService.healthCheck();
-        if (!healthCheck.available && healthCheck.error) {
-          console.warn(`⚠️  Data source warning: ${healthCheck.error}`);
-          console.warn('   Analysis will proceed but may have limited data.\n');
-        }
-      }
+      await this.program.parseAsync(process.argv);
+    } catch (error) {
+      CliSupport.handleError(error);
+    }
+  }
+
+  private async analyze(rawTicker: string | undefined, options: any): Promise<void> {
+    let cassette: Cassette | undefined;
+    let json: { command: string } | undefined;
+    
+    try {
+      const format = CliSupport.parseFormat(options, EXPORT_FORMATS);
+      json = format === 'json' ? { command: 'analyze' } : undefined;
+      CliSupport.validateExportTarget(format, options.out);
       
-      const { ticker, years, requiredReturn, provider } = this.parseArguments();
-      const options = this.program.opts();
+      const settings = this.parseArguments(rawTicker, options);
+      const { ticker, years, requiredReturn, profile, sensitivity, monteCarlo } = settings;
+      const session = await CliSupport.openDataSession(settings);
+      const { dataProvider } = session;
+      cassette = session.cassette;
       
       // Show progress for long operations
       if (!options.quiet) {
         console.log(`🔍 Analyzing ${ticker}... (${years} years of data)`);
       }
       
-      const analysis = await this.analysisService.analyze(ticker, years, requiredReturn, options.save !== false, options.forceFresh, provider);
+      const analysis = await this.analysisService.analyze(ticker, years, requiredReturn, session.saveToDb, session.forceFresh, dataProvider, profile);
+      await CliSupport.saveCassette(cassette);
+      
+      const sensitivityGrid = sensitivity
+        ? DividendCalculator.calculateSensitivityGrid(
+            analysis.ttmDividends,
+            analysis.quote.price,
+            sensitivity.requiredReturns,
+            sensitivity.growthRates
+          )
+        : null;
+      
+      const monteCarloValuation = monteCarlo
+        ? MonteCarloCalculator.simulateFairValue(
+            analysis.ttmDividends,
+            analysis.quote.price,
+            analysis.annualDividends,
+            {
+              ...monteCarlo,
+              // The current calendar year is still being paid out
+              completeThroughYear: (dataProvider.asOf ?? new Date()).getUTCFullYear() - 1
+            }
+          )
+        : null;
+      
+      if (json) {
+        CliSupport.writeJson(JsonFormatter.analyzeDocument(analysis, {
+          warnings: await this.gatherWarnings(analysis),
+          dataQuality: this.assessDataQuality(analysis),
+          sensitivity: sensitivityGrid ?? analysis.ddmSensitivity,
+          monteCarlo: monteCarloValuation,
+          asOf: dataProvider.asOf
+        }));
+        process.exit(0);
+      }
+      
+      if (format === 'csv' || format === 'xlsx') {
+        await CliSupport.writeTable(format, [{ ticker, analysis, error: null }], options.out);
+        process.exit(0);
+      }
       
       // Show data quality warnings if enabled
       if (!options.noWarnings) {
@@ -99,12 +203,7 @@ export class DivvyCliApp {
       
       // Show verbose data quality information
       if (options.verbose) {
-        const qualityReport = FallbackDataProvider.assessDataQuality(
-          true, // has price (we got this far)
-          analysis.annualDividends.length,
-          this.countFundamentalFields(analysis.fundamentals),
-          5 // total fundamental fields
-        );
+        const qualityReport = this.assessDataQuality(analysis);
         
         console.log(ErrorFormatter.formatDataQualityReport(
           qualityReport.score,
@@ -116,16 +215,27 @@ export class DivvyCliApp {
       // Display main analysis
       OutputFormatter.formatDividendAnalysis(analysis, requiredReturn);
       
+      if (options.explain) {
+        OutputFormatter.formatScoreExplanation(analysis.scores, profile.weights);
+      }
+      
       // Display Gordon Growth Model if applicable
-      const ddmPrice = DividendCalculator.calculateGordonGrowthModel(
-        analysis.forwardDividend,
-        analysis.quote.price,
-        requiredReturn,
-        analysis.safeGrowth
-      );
+      const { ddmPrice } = analysis.valuation;
       
       if (ddmPrice) {
-        OutputFormatter.formatGordonGrowthModel(ddmPrice, analysis.quote.price, requiredReturn, analysis.safeGrowth);
+        OutputFormatter.formatGordonGrowthModel(ddmPrice, analysis.quote.price, analysis.valuation.requiredReturn, analysis.safeGrowth);
+      }
+      
+      if (analysis.quote.price) {
+        OutputFormatter.formatMultiStageDDM(analysis.multiStageDdm, analysis.quote.price);
+      }
+      
+      if (sensitivityGrid) {
+        OutputFormatter.formatSensitivityGrid(sensitivityGrid);
+      }
+      
+      if (monteCarloValuation) {
+        OutputFormatter.formatMonteCarlo(monteCarloValuation);
       }
       
       OutputFormatter.formatFooter();
@@ -134,33 +244,19 @@ export class DivvyCliApp {
       process.exit(0);
       
     } catch (error) {
-      await this.handleError(error);
+      // Failed runs are the ones worth reproducing, so keep what was recorded
+      await CliSupport.saveCassette(cassette);
+      CliSupport.handleError(error, json);
     }
   }
   
-  private async handleError(error: unknown): Promise<void> {
-    const err = error instanceof Error ? error : new Error('Unknown error occurred');
-    
-    // Format and display the error
-    const formattedError = ErrorFormatter.formatError(err);
-    console.error(formattedError);
-    
-    // For debugging in development
-    if (process.env.NODE_ENV === 'development' && err.stack) {
-      console.error('\nStack Trace:', err.stack);
-    }
-    
-    // Set appropriate exit code
-    let exitCode = 1;
-    
-    if (err instanceof ValidationError) {
-      exitCode = 2; // Invalid input
-    } else if (err instanceof DivvyError && !err.isRetryable) {
-      exitCode = 3; // Permanent failure
-    }
-    // Network/retry errors use default exit code 1
-    
-    process.exit(exitCode);
+  private assessDataQuality(analysis: DividendAnalysis): DataQualityReport {
+    return FallbackDataProvider.assessDataQuality(
+      true, // has price (we got this far)
+      analysis.annualDividends.length,
+      this.countFundamentalFields(analysis.fundamentals),
+      5 // total fundamental fields
+    );
   }
   
   private async gatherWarnings(analysis: any): Promise<string[]> {
@@ -0,0 +1,75 @@
+import { Command } from "commander";
+import { BatchAnalysisService } from "../../services/BatchAnalysisService";
+import { DividendAnalysisService } from "../../services/DividendAnalysisService";
+import { OutputFormatter } from "../../formatters/OutputFormatter";
+import { BatchFormatter } from "../../formatters/BatchFormatter";
+import { JsonFormatter } from "../../formatters/JsonFormatter";
+import { CliSupport, EXPORT_FORMATS } from "../CliSupport";
+import type { Cassette } from "../../utils/Cassette";
+
+/**
+ * `divvy batch KO PEP ...` - analyzes many tickers and summarises them in one table
+ */
+export class BatchCommand {
+  static register(program: Command, analysisService: DividendAnalysisService): void {
+    const command = program
+      .command("batch")
+      .description("Analyze many tickers (arguments, --file and/or stdin) and print a summary table")
+      .argument("[tickers...]", "Ticker symbols; use - to also read them from stdin");
+
+    CliSupport.addFormatOption(CliSupport.addDataOptions(command), EXPORT_FORMATS)
+      .option("-f, --file <path>", "File of tickers (whitespace or comma separated, # comments allowed)");
+
+    CliSupport.addBatchOptions(command)
+      .action((tickers: string[], options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run(new BatchAnalysisService(analysisService), tickers, options)));
+  }
+
+  private static async run(service: BatchAnalysisService, args: string[], options: any): Promise<void> {
+    let cassette: Cassette | undefined;
+    let json: { command: string } | undefined;
+    
+    try {
+      const format = CliSupport.parseFormat(options, EXPORT_FORMATS);
+      json = format === 'json' ? { command: 'batch' } : undefined;
+      CliSupport.validateExportTarget(format, options.out);
+      const settings = CliSupport.parseDataSettings(options);
+      const { concurrency, requestsPerSecond } = CliSupport.parseBatchSettings(options);
+      const tickers = await CliSupport.readTickers(args, options.file);
+      const session = await CliSupport.openDataSession(settings);
+      cassette = session.cassette;
+      
+      console.log(`🔍 Analyzing ${tickers.length} tickers... (${settings.years} years of data, ${concurrency} at a time)`);
+      
+      const analyzeAll = () => service.analyzeMany(tickers, {
+        years: settings.years,
+        requiredReturn: settings.requiredReturn,
+        saveToDb: session.saveToDb,
+        forceFresh: session.forceFresh,
+        provider: session.dataProvider,
+        profile: settings.profile,
+        concurrency,
+        requestsPerSecond,
+        onProgress: CliSupport.progressReporter()
+      });
+      
+      const results = await CliSupport.withQuietConsole(analyzeAll, !options.verbose);
+      await CliSupport.saveCassette(cassette);
+      
+      if (json) {
+        CliSupport.writeJson(JsonFormatter.batchDocument(results, session.dataProvider.asOf));
+      } else if (format === 'csv' || format === 'xlsx') {
+        await CliSupport.writeTable(format, results, options.out);
+      } else {
+        BatchFormatter.formatBatchSummary(results);
+        OutputFormatter.formatFooter();
+      }
+      
+      // Partial failures still print the table, but scripts should notice them
+      process.exit(results.some(result => result.error) ? 1 : 0);
+      
+    } catch (error) {
+      await CliSupport.saveCassette(cassette);
+      CliSupport.handleError(error, json);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { Command } from "commander";
+import { BatchAnalysisService } from "../../services/BatchAnalysisService";
+import { DividendCalendarService } from "../../services/DividendCalendarService";
+import { PortfolioService, DEFAULT_PORTFOLIO_FILE } from "../../services/PortfolioService";
+import { OutputFormatter } from "../../formatters/OutputFormatter";
+import { PortfolioFormatter } from "../../formatters/PortfolioFormatter";
+import { InputValidator } from "../../validation/InputValidator";
+import { JsonFormatter } from "../../formatters/JsonFormatter";
+import { CliSupport, OUTPUT_FORMATS } from "../CliSupport";
+import type { Holding } from "../../models/Portfolio";
+import type { Cassette } from "../../utils/Cassette";
+
+/**
+ * `divvy calendar KO PEP` or `divvy calendar --portfolio` - upcoming
+ * ex-dividend and payment dates, with expected cash for holdings
+ */
+export class CalendarCommand {
+  private static readonly MAX_MONTHS = 24;
+
+  static register(program: Command): void {
+    const command = program
+      .command("calendar")
+      .description("Project upcoming ex-dividend and payment dates")
+      .argument("[tickers...]", "Ticker symbols; use - to also read them from stdin");
+
+    CliSupport.addFormatOption(CliSupport.addDataOptions(command))
+      .option("-f, --file <path>", "File of tickers (whitespace or comma separated, # comments allowed)")
+      .option("--portfolio [file]", `Use the holdings in a holdings file and show expected cash (default: ${DEFAULT_PORTFOLIO_FILE})`)
+      .option("--months <n>", `Months ahead (max ${CalendarCommand.MAX_MONTHS})`, String(DividendCalendarService.DEFAULT_MONTHS))
+      .option("--concurrency <n>", "Tickers fetched at once", String(BatchAnalysisService.DEFAULT_CONCURRENCY))
+      .option("--rps <n>", "Data provider requests per second, shared by all workers", String(BatchAnalysisService.DEFAULT_REQUESTS_PER_SECOND))
+      .action((tickers: string[], options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run(tickers, options)));
+  }
+
+  private static async run(args: string[], options: any): Promise<void> {
+    let cassette: Cassette | undefined;
+    let json: { command: string } | undefined;
+    
+    try {
+      json = CliSupport.parseFormat(options, OUTPUT_FORMATS) === 'json' ? { command: 'calendar' } : undefined;
+      const settings = CliSupport.parseDataSettings(options);
+      const months = InputValidator.validatePositiveInteger(options.months, 'months', this.MAX_MONTHS);
+      const { concurrency, requestsPerSecond } = CliSupport.parseBatchSettings(options);
+      
+      let holdings: Holding[] | null = null;
+      let tickers: string[];
+      if (options.portfolio) {
+        holdings = PortfolioService.loadHoldingsFile(options.portfolio === true ? DEFAULT_PORTFOLIO_FILE : options.portfolio);
+        tickers = PortfolioService.tickers(holdings);
+      } else {
+        tickers = (await CliSupport.readTickers(args, options.file)).map(ticker => InputValidator.validateTicker(ticker));
+      }
+      
+      const session = await CliSupport.openDataSession(settings);
+      cassette = session.cassette;
+      const from = session.dataProvider.asOf ?? new Date();
+      
+      console.log(`📅 Building the dividend calendar for ${tickers.length} tickers...`);
+      
+      const results = await DividendCalendarService.build(tickers, session.dataProvider, { from, months, concurrency, requestsPerSecond });
+      await CliSupport.saveCassette(cassette);
+      
+      const schedules = results.flatMap(result => result.schedule ? [result.schedule] : []);
+      const calendar = DividendCalendarService.calendar(schedules, holdings, from, DividendCalendarService.addMonths(from, months));
+      
+      if (json) {
+        CliSupport.writeJson(JsonFormatter.calendarDocument(calendar, results, session.dataProvider.asOf));
+      } else {
+        PortfolioFormatter.formatDividendCalendar(calendar, results);
+        OutputFormatter.formatFooter();
+      }
+      
+      process.exit(results.every(result => result.error === null) ? 0 : 1);
+      
+    } catch (error) {
+      await CliSupport.saveCassette(cassette);
+      CliSupport.handleError(error, json);
+    }
+  }
+}
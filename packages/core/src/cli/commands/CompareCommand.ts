@@ -0,0 +1,89 @@
+import { Command } from "commander";
+import { BatchAnalysisService } from "../../services/BatchAnalysisService";
+import { DividendAnalysisService } from "../../services/DividendAnalysisService";
+import { ComparisonService } from "../../services/ComparisonService";
+import { OutputFormatter } from "../../formatters/OutputFormatter";
+import { BatchFormatter } from "../../formatters/BatchFormatter";
+import { InputValidator } from "../../validation/InputValidator";
+import { ValidationError } from "../../errors/DivvyErrors";
+import { JsonFormatter } from "../../formatters/JsonFormatter";
+import { CliSupport, OUTPUT_FORMATS } from "../CliSupport";
+import type { DividendAnalysis } from "../../models/DividendAnalysis";
+import type { Cassette } from "../../utils/Cassette";
+
+/**
+ * `divvy compare KO PEP MDLZ` - one column per ticker, best value per row marked
+ */
+export class CompareCommand {
+  private static readonly MIN_TICKERS = 2;
+  private static readonly MAX_TICKERS = 8;
+
+  static register(program: Command, analysisService: DividendAnalysisService): void {
+    const command = program
+      .command("compare")
+      .description("Compare dividend metrics and scores side by side")
+      .argument("<tickers...>", `${CompareCommand.MIN_TICKERS} to ${CompareCommand.MAX_TICKERS} ticker symbols`);
+
+    CliSupport.addFormatOption(CliSupport.addDataOptions(command))
+      .option("--verbose", "Show per-ticker service logs")
+      .action((tickers: string[], options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run(new BatchAnalysisService(analysisService), tickers, options)));
+  }
+
+  private static async run(service: BatchAnalysisService, args: string[], options: any): Promise<void> {
+    let cassette: Cassette | undefined;
+    let json: { command: string } | undefined;
+    
+    try {
+      json = CliSupport.parseFormat(options, OUTPUT_FORMATS) === 'json' ? { command: 'compare' } : undefined;
+      const settings = CliSupport.parseDataSettings(options);
+      const tickers = InputValidator.parseTickerList(args.join('\n')).map(ticker => InputValidator.validateTicker(ticker));
+      
+      if (tickers.length < this.MIN_TICKERS || tickers.length > this.MAX_TICKERS) {
+        throw new ValidationError(`Compare needs ${this.MIN_TICKERS} to ${this.MAX_TICKERS} different tickers (got ${tickers.length})`, 'ticker');
+      }
+      
+      const session = await CliSupport.openDataSession(settings);
+      cassette = session.cassette;
+      
+      const analyzeAll = async () => {
+        const results = await service.analyzeMany(tickers, {
+          years: settings.years,
+          requiredReturn: settings.requiredReturn,
+          saveToDb: session.saveToDb,
+          forceFresh: session.forceFresh,
+          provider: session.dataProvider,
+          profile: settings.profile,
+          concurrency: tickers.length,
+          requestsPerSecond: BatchAnalysisService.DEFAULT_REQUESTS_PER_SECOND
+        });
+        await CliSupport.saveCassette(cassette);
+        return results;
+      };
+      
+      const results = await CliSupport.withQuietConsole(analyzeAll, !options.verbose);
+      const analyses = results.flatMap(result => result.analysis ? [result.analysis] : [] as DividendAnalysis[]);
+      const failed = results.filter(result => result.error !== null);
+      
+      if (analyses.length === 0) {
+        // Surface the first failure with its usual formatting and exit code
+        throw failed[0]!.error;
+      }
+      
+      const comparison = ComparisonService.compare(analyses);
+      
+      if (json) {
+        CliSupport.writeJson(JsonFormatter.compareDocument(comparison, results, session.dataProvider.asOf));
+      } else {
+        BatchFormatter.formatComparison(comparison);
+        failed.forEach(result => console.error(`⚠️  ${result.ticker}: ${result.error!.message}`));
+        OutputFormatter.formatFooter();
+      }
+      
+      process.exit(failed.length > 0 ? 1 : 0);
+      
+    } catch (error) {
+      await CliSupport.saveCassette(cassette);
+      CliSupport.handleError(error, json);
+    }
+  }
+}
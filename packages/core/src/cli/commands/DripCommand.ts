@@ -0,0 +1,78 @@
+import { Command } from "commander";
+import { DividendAnalysisService } from "../../services/DividendAnalysisService";
+import { DripProjectionService } from "../../services/DripProjectionService";
+import { OutputFormatter } from "../../formatters/OutputFormatter";
+import { PortfolioFormatter } from "../../formatters/PortfolioFormatter";
+import { InputValidator } from "../../validation/InputValidator";
+import { JsonFormatter } from "../../formatters/JsonFormatter";
+import { CliSupport, OUTPUT_FORMATS } from "../CliSupport";
+import type { Cassette } from "../../utils/Cassette";
+
+/**
+ * `divvy drip KO --shares 100 --horizon 20 --compare` - projects a position
+ * with dividends reinvested
+ */
+export class DripCommand {
+  static register(program: Command, analysisService: DividendAnalysisService): void {
+    const command = program
+      .command("drip")
+      .description("Project a position with dividends reinvested (DRIP)")
+      .argument("<ticker>", "Stock ticker symbol, e.g. KO");
+
+    CliSupport.addFormatOption(CliSupport.addDataOptions(command))
+      .option("--shares <n>", "Starting shares", String(DripProjectionService.DEFAULT_SHARES))
+      .option("--cost-basis <amount>", "Total paid for the starting shares (default: shares at today's price)")
+      .option("--horizon <years>", `Years to project (max ${DripProjectionService.MAX_YEARS})`, String(DripProjectionService.DEFAULT_YEARS))
+      .option("--dividend-growth <rate>", "Yearly dividend growth (default: the analysis' safe growth)")
+      .option("--price-growth <rate>", "Yearly price growth (default: same as dividend growth, a constant yield)")
+      .option("--compare", "Compare against taking dividends as cash")
+      .action((ticker: string, options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run(analysisService, ticker, options)));
+  }
+
+  private static async run(analysisService: DividendAnalysisService, ticker: string, options: any): Promise<void> {
+    let cassette: Cassette | undefined;
+    let json: { command: string } | undefined;
+    
+    try {
+      json = CliSupport.parseFormat(options, OUTPUT_FORMATS) === 'json' ? { command: 'drip' } : undefined;
+      const validTicker = InputValidator.validateTicker(ticker);
+      const settings = CliSupport.parseDataSettings(options);
+      const dripOptions = DripProjectionService.parseOptions({
+        shares: options.shares,
+        costBasis: options.costBasis,
+        years: options.horizon,
+        dividendGrowth: options.dividendGrowth,
+        priceGrowth: options.priceGrowth,
+        compare: options.compare
+      });
+      const session = await CliSupport.openDataSession(settings);
+      cassette = session.cassette;
+      
+      const analysis = await analysisService.analyze(
+        validTicker,
+        settings.years,
+        settings.requiredReturn,
+        session.saveToDb,
+        session.forceFresh,
+        session.dataProvider,
+        settings.profile
+      );
+      await CliSupport.saveCassette(cassette);
+      
+      const projection = DripProjectionService.project(analysis, dripOptions);
+      
+      if (json) {
+        CliSupport.writeJson(JsonFormatter.dripDocument(validTicker, projection, session.dataProvider.asOf));
+      } else {
+        PortfolioFormatter.formatDripProjection(validTicker, projection);
+        OutputFormatter.formatFooter();
+      }
+      
+      process.exit(0);
+      
+    } catch (error) {
+      await CliSupport.saveCassette(cassette);
+      CliSupport.handleError(error, json);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { Command } from "commander";
+import { HistoryService } from "../../services/HistoryService";
+import { OutputFormatter } from "../../formatters/OutputFormatter";
+import { HistoryFormatter } from "../../formatters/HistoryFormatter";
+import { InputValidator } from "../../validation/InputValidator";
+import { JsonFormatter } from "../../formatters/JsonFormatter";
+import { CliSupport, OUTPUT_FORMATS } from "../CliSupport";
+
+/**
+ * `divvy history KO` - how a ticker's saved analyses have evolved. Only
+ * analyses saved with the given (or default) settings are compared.
+ */
+export class HistoryCommand {
+  static register(program: Command): void {
+    const command = program
+      .command("history")
+      .description("Show how price, yields and scores evolved across saved analyses")
+      .argument("<ticker>", "Stock ticker symbol");
+
+    CliSupport.addFormatOption(CliSupport.addAnalysisOptions(command))
+      .option("--limit <n>", `Most recent analyses to include (max ${HistoryService.MAX_LIMIT})`, String(HistoryService.DEFAULT_LIMIT))
+      .action((ticker: string, options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run(ticker, options)));
+  }
+
+  private static async run(ticker: string, options: any): Promise<void> {
+    let json: { command: string } | undefined;
+    
+    try {
+      json = CliSupport.parseFormat(options, OUTPUT_FORMATS) === 'json' ? { command: 'history' } : undefined;
+      const validTicker = InputValidator.validateTicker(ticker);
+      const limit = InputValidator.validatePositiveInteger(options.limit, 'limit', HistoryService.MAX_LIMIT);
+      
+      const optionsHash = HistoryService.parseOptionsHash({
+        years: options.years,
+        requiredReturn: options.r,
+        provider: options.provider,
+        profile: options.profile,
+        config: options.config ?? process.env.DIVVY_CONFIG
+      });
+      
+      const history = await HistoryService.fetch(validTicker, limit, optionsHash);
+      
+      if (json) {
+        CliSupport.writeJson(JsonFormatter.historyDocument(history));
+      } else {
+        HistoryFormatter.formatHistory(history);
+        OutputFormatter.formatFooter();
+      }
+      
+      process.exit(0);
+      
+    } catch (error) {
+      CliSupport.handleError(error, json);
+    }
+  }
+}
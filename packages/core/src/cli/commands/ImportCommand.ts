@@ -0,0 +1,81 @@
+import { Command } from "commander";
+import { readFile, writeFile } from "fs/promises";
+import { TransactionImportService } from "../../services/TransactionImportService";
+import { DEFAULT_PORTFOLIO_FILE } from "../../services/PortfolioService";
+import { PortfolioFormatter } from "../../formatters/PortfolioFormatter";
+import { JsonFormatter } from "../../formatters/JsonFormatter";
+import { ConfigurationError, ValidationError } from "../../errors/DivvyErrors";
+import { CliSupport, OUTPUT_FORMATS } from "../CliSupport";
+
+/**
+ * `divvy import transactions.csv` - rebuilds tax lots from a brokerage
+ * export and writes the holdings file `divvy portfolio` reads
+ */
+export class ImportCommand {
+  static register(program: Command): void {
+    const command = program
+      .command("import")
+      .description("Build a holdings file from a brokerage transaction CSV")
+      .argument("<csv>", "Transaction export (buys, sells, dividends, reinvestments, splits)");
+
+    CliSupport.addFormatOption(command)
+      .option("--mapping <file>", "Column mapping JSON for exports that don't use the generic schema")
+      .option("--out <file>", "Holdings file to write", DEFAULT_PORTFOLIO_FILE)
+      .option("--force", "Overwrite an existing holdings file")
+      .option("--dry-run", "Show the reconstructed positions without writing a file")
+      .action((csv: string, options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run(csv, options)));
+  }
+
+  private static async run(csv: string, options: any): Promise<void> {
+    let json: { command: string } | undefined;
+    
+    try {
+      json = CliSupport.parseFormat(options, OUTPUT_FORMATS) === 'json' ? { command: 'import' } : undefined;
+      const mapping = options.mapping
+        ? TransactionImportService.loadMappingFile(options.mapping)
+        : TransactionImportService.DEFAULT_MAPPING;
+      
+      let text: string;
+      try {
+        text = await readFile(csv, 'utf8');
+      } catch (error) {
+        throw new ConfigurationError(`Unable to read ${csv}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      
+      const result = TransactionImportService.import(text, mapping);
+      
+      if (!options.dryRun) {
+        if (result.holdings.length === 0) {
+          throw new ValidationError(`No open positions in ${csv}; nothing to write`, 'csv');
+        }
+        await this.writeHoldings(options.out, JSON.stringify(TransactionImportService.toPortfolioFile(result), null, 2) + '\n', Boolean(options.force));
+      }
+      
+      if (json) {
+        CliSupport.writeJson(JsonFormatter.importDocument(result, csv));
+      } else {
+        PortfolioFormatter.formatImport(result, csv);
+        if (!options.dryRun) {
+          console.log(`\n📄 Wrote ${result.holdings.length} holdings to ${options.out}`);
+        }
+      }
+      
+      // Skipped rows leave the positions incomplete
+      process.exit(result.issues.length > 0 ? 1 : 0);
+      
+    } catch (error) {
+      CliSupport.handleError(error, json);
+    }
+  }
+
+  private static async writeHoldings(path: string, content: string, force: boolean): Promise<void> {
+    try {
+      await writeFile(path, content, { encoding: 'utf8', flag: force ? 'w' : 'wx' });
+    } catch (error) {
+      if ((error as { code?: unknown }).code === 'EEXIST') {
+        throw new ValidationError(`${path} already exists; pass --force to replace it or --out to pick another file`, 'out');
+      }
+      throw new ConfigurationError(`Unable to write ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { Command } from "commander";
+import { LeaderboardService } from "../../services/LeaderboardService";
+import { OutputFormatter } from "../../formatters/OutputFormatter";
+import { LeaderboardFormatter } from "../../formatters/LeaderboardFormatter";
+import { JsonFormatter } from "../../formatters/JsonFormatter";
+import { CliSupport, OUTPUT_FORMATS } from "../CliSupport";
+import { LEADERBOARD_SORTS } from "../../models/Leaderboard";
+
+/**
+ * `divvy leaderboard --sector Utilities --min-yield 0.03` - one page of the
+ * daily leaderboard that `divvy refresh` rebuilds
+ */
+export class LeaderboardCommand {
+  static register(program: Command): void {
+    const command = program
+      .command("leaderboard")
+      .description("Show the daily dividend leaderboard from the database");
+
+    CliSupport.addFormatOption(command)
+      .option("--date <YYYY-MM-DD>", "Leaderboard day (default: the latest refreshed day)")
+      .option("--sector <name>", "Only this sector (case-insensitive)")
+      .option("--min-yield <rate>", "Minimum forward yield (e.g. 0.03)")
+      .option("--min-streak <years>", "Minimum years of consecutive dividend increases")
+      .option("--sort <field>", `Order: ${LEADERBOARD_SORTS.join(', ')}`, "score")
+      .option("--limit <n>", `Rows per page (max ${LeaderboardService.MAX_PAGE_SIZE})`, String(LeaderboardService.DEFAULT_PAGE_SIZE))
+      .option("--page <n>", "Page number", "1")
+      .action((options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run(options)));
+  }
+
+  private static async run(options: any): Promise<void> {
+    let json: { command: string } | undefined;
+    
+    try {
+      json = CliSupport.parseFormat(options, OUTPUT_FORMATS) === 'json' ? { command: 'leaderboard' } : undefined;
+      const query = LeaderboardService.parseQuery({
+        date: options.date,
+        sector: options.sector,
+        minYield: options.minYield,
+        minStreak: options.minStreak,
+        sort: options.sort,
+        page: options.page,
+        limit: options.limit
+      });
+      
+      const page = await LeaderboardService.fetch(query);
+      
+      if (json) {
+        CliSupport.writeJson(JsonFormatter.leaderboardDocument(page));
+      } else {
+        LeaderboardFormatter.formatLeaderboard(page);
+        OutputFormatter.formatFooter();
+      }
+      
+      process.exit(0);
+      
+    } catch (error) {
+      CliSupport.handleError(error, json);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { Command } from "commander";
+import { BatchAnalysisService } from "../../services/BatchAnalysisService";
+import { DividendAnalysisService } from "../../services/DividendAnalysisService";
+import { PortfolioService, DEFAULT_PORTFOLIO_FILE } from "../../services/PortfolioService";
+import { OutputFormatter } from "../../formatters/OutputFormatter";
+import { PortfolioFormatter } from "../../formatters/PortfolioFormatter";
+import { JsonFormatter } from "../../formatters/JsonFormatter";
+import { CliSupport, OUTPUT_FORMATS } from "../CliSupport";
+import type { Cassette } from "../../utils/Cassette";
+
+/**
+ * `divvy portfolio [holdings.json]` - analyzes every holding and totals
+ * income, yield on cost, score and concentration
+ */
+export class PortfolioCommand {
+  static register(program: Command, analysisService: DividendAnalysisService): void {
+    const command = program
+      .command("portfolio")
+      .description("Project dividend income and concentration for a holdings file")
+      .argument("[file]", "Holdings file (JSON with ticker, shares, costBasis and account per holding)", DEFAULT_PORTFOLIO_FILE);
+
+    CliSupport.addBatchOptions(CliSupport.addFormatOption(CliSupport.addDataOptions(command)), { maxAgeHours: DividendAnalysisService.CACHE_MAX_AGE_HOURS })
+      .action((file: string, options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run(new BatchAnalysisService(analysisService), file, options)));
+  }
+
+  private static async run(service: BatchAnalysisService, file: string, options: any): Promise<void> {
+    let cassette: Cassette | undefined;
+    let json: { command: string } | undefined;
+    
+    try {
+      json = CliSupport.parseFormat(options, OUTPUT_FORMATS) === 'json' ? { command: 'portfolio' } : undefined;
+      const settings = CliSupport.parseDataSettings(options);
+      const { concurrency, requestsPerSecond, maxCacheAgeHours } = CliSupport.parseBatchSettings(options);
+      const holdings = PortfolioService.loadHoldingsFile(file);
+      const tickers = PortfolioService.tickers(holdings);
+      const session = await CliSupport.openDataSession(settings);
+      cassette = session.cassette;
+      
+      console.log(`💼 Analyzing ${holdings.length} holdings (${tickers.length} tickers)...`);
+      
+      const analyzeAll = () => service.analyzeMany(tickers, {
+        years: settings.years,
+        requiredReturn: settings.requiredReturn,
+        saveToDb: session.saveToDb,
+        forceFresh: session.forceFresh,
+        provider: session.dataProvider,
+        profile: settings.profile,
+        concurrency,
+        requestsPerSecond,
+        maxCacheAgeHours,
+        onProgress: CliSupport.progressReporter()
+      });
+      
+      const results = await CliSupport.withQuietConsole(analyzeAll, !options.verbose);
+      await CliSupport.saveCassette(cassette);
+      
+      const summary = PortfolioService.summarize(holdings, results);
+      
+      if (json) {
+        CliSupport.writeJson(JsonFormatter.portfolioDocument(summary, session.dataProvider.asOf));
+      } else {
+        PortfolioFormatter.formatPortfolio(summary);
+        OutputFormatter.formatFooter();
+      }
+      
+      // Totals that leave out a holding are incomplete
+      process.exit(results.every(result => result.error === null) ? 0 : 1);
+      
+    } catch (error) {
+      await CliSupport.saveCassette(cassette);
+      CliSupport.handleError(error, json);
+    }
+  }
+}
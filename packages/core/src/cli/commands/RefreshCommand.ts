@@ -0,0 +1,106 @@
+import { Command } from "commander";
+import { BatchAnalysisService } from "../../services/BatchAnalysisService";
+import { DividendAnalysisService } from "../../services/DividendAnalysisService";
+import { RefreshService } from "../../services/RefreshService";
+import { LeaderboardFormatter } from "../../formatters/LeaderboardFormatter";
+import { InputValidator } from "../../validation/InputValidator";
+import { JsonFormatter } from "../../formatters/JsonFormatter";
+import { ValidationError } from "../../errors/DivvyErrors";
+import { CliSupport, OUTPUT_FORMATS } from "../CliSupport";
+import { UNIVERSE_SOURCES, type UniverseSource } from "../../models/RefreshRun";
+import type { Watchlist } from "../../models/Watchlist";
+import type { Cassette } from "../../utils/Cassette";
+
+/**
+ * `divvy refresh` - re-analyzes the leaderboard universe and rebuilds the
+ * leaderboard. Meant for cron: no prompts, never reads stdin unasked, and
+ * exits non-zero unless every ticker refreshed.
+ */
+export class RefreshCommand {
+  static register(program: Command, analysisService: DividendAnalysisService): void {
+    const command = program
+      .command("refresh")
+      .description("Re-analyze the leaderboard universe, record the run and refresh the leaderboard")
+      .argument("[tickers...]", "Extra tickers to include; use - to also read them from stdin");
+
+    CliSupport.addFormatOption(CliSupport.addWatchlistStoreOptions(CliSupport.addDataOptions(command)))
+      .option("--universe <sources>", `Comma-separated ticker sources: ${UNIVERSE_SOURCES.join(', ')} or none`, RefreshService.DEFAULT_UNIVERSE.join(','))
+      .option("-f, --file <path>", "File of extra tickers (whitespace or comma separated, # comments allowed)")
+      .option("--max-requests <n>", "Stop after this many data provider requests (e.g. a daily API quota)");
+
+    CliSupport.addBatchOptions(command, { maxAgeHours: RefreshService.DEFAULT_MAX_AGE_HOURS })
+      .action((tickers: string[], options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run(new RefreshService(new BatchAnalysisService(analysisService)), tickers, options)));
+  }
+
+  private static async run(service: RefreshService, args: string[], options: any): Promise<void> {
+    let cassette: Cassette | undefined;
+    let json: { command: string } | undefined;
+    
+    try {
+      json = CliSupport.parseFormat(options, OUTPUT_FORMATS) === 'json' ? { command: 'refresh' } : undefined;
+      const settings = CliSupport.parseDataSettings(options);
+      const batch = CliSupport.parseBatchSettings(options);
+      const maxRequests = options.maxRequests === undefined ? null : InputValidator.validatePositiveInteger(options.maxRequests, 'maxRequests');
+      const maxCacheAgeHours = settings.forceFresh ? 0 : batch.maxCacheAgeHours ?? RefreshService.DEFAULT_MAX_AGE_HOURS;
+      const sources = this.parseUniverse(options.universe);
+      
+      const watchlists: Watchlist[] = sources.includes('watchlists') ? await CliSupport.openWatchlistStore(options).list() : [];
+      // Cron jobs have no terminal on stdin, so only read tickers that were asked for
+      const extra = args.length > 0 || options.file ? await CliSupport.readTickers(args, options.file) : [];
+      const tickers = RefreshService.universe(sources, watchlists, extra);
+      
+      if (tickers.length === 0) {
+        throw new ValidationError('The refresh universe is empty. Choose --universe sources or pass tickers', 'universe');
+      }
+      
+      const session = await CliSupport.openDataSession(settings);
+      cassette = session.cassette;
+      
+      console.log(`🔁 Refreshing ${tickers.length} ${tickers.length === 1 ? 'ticker' : 'tickers'} from ${session.dataProvider.name}${session.saveToDb ? '' : ' (not saved)'}...`);
+      
+      const refreshAll = () => service.run(tickers, {
+        years: settings.years,
+        requiredReturn: settings.requiredReturn,
+        provider: session.dataProvider,
+        profile: settings.profile,
+        concurrency: batch.concurrency,
+        requestsPerSecond: batch.requestsPerSecond,
+        maxRequests,
+        maxCacheAgeHours,
+        record: session.saveToDb,
+        onProgress: CliSupport.progressReporter()
+      });
+      
+      const run = await CliSupport.withQuietConsole(refreshAll, !options.verbose);
+      await CliSupport.saveCassette(cassette);
+      
+      if (json) {
+        CliSupport.writeJson(JsonFormatter.refreshDocument(run, session.dataProvider.asOf));
+      } else {
+        LeaderboardFormatter.formatRefreshRun(run);
+      }
+      
+      process.exit(run.status === 'succeeded' ? 0 : 1);
+      
+    } catch (error) {
+      await CliSupport.saveCassette(cassette);
+      CliSupport.handleError(error, json);
+    }
+  }
+
+  private static parseUniverse(value: string): UniverseSource[] {
+    const names = String(value).split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+
+    if (names.length === 1 && names[0] === 'none') {
+      return [];
+    }
+
+    return names.map(name => {
+      const source = UNIVERSE_SOURCES.find(candidate => candidate === name);
+      if (!source) {
+        throw new ValidationError(`Invalid universe source "${name}". Valid sources: ${UNIVERSE_SOURCES.join(', ')}, none`, 'universe');
+      }
+      return source;
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import { Command } from "commander";
+import { writeFile } from "fs/promises";
+import { extname } from "path";
+import { DividendAnalysisService } from "../../services/DividendAnalysisService";
+import { ReportService } from "../../services/ReportService";
+import { ReportFormatter, type ReportFormat } from "../../formatters/ReportFormatter";
+import { InputValidator } from "../../validation/InputValidator";
+import { CliSupport } from "../CliSupport";
+import type { Cassette } from "../../utils/Cassette";
+
+const REPORT_FORMATS: readonly ReportFormat[] = ['html', 'markdown'];
+
+/**
+ * `divvy report AAPL --out report.html` - a standalone HTML or Markdown report
+ */
+export class ReportCommand {
+  static register(program: Command, analysisService: DividendAnalysisService): void {
+    const command = program
+      .command("report")
+      .description("Write a self-contained HTML or Markdown report for one stock")
+      .argument("<ticker>", "Stock ticker symbol, e.g. AAPL");
+
+    CliSupport.addDataOptions(command)
+      .option("--out <file>", "Write the report to a file instead of stdout")
+      .option("--format <format>", `Report format: ${REPORT_FORMATS.join(', ')} (default: from --out extension, else html)`)
+      .action((ticker: string, options: any) => CliSupport.withDiagnosticsToStderr(!options.out, () => this.run(analysisService, ticker, options)));
+  }
+
+  private static async run(analysisService: DividendAnalysisService, ticker: string, options: any): Promise<void> {
+    let cassette: Cassette | undefined;
+    
+    try {
+      const validTicker = InputValidator.validateTicker(ticker);
+      const format = InputValidator.validateOutputFormat(options.format ?? this.formatForPath(options.out), REPORT_FORMATS);
+      const settings = CliSupport.parseDataSettings(options);
+      
+      const session = await CliSupport.openDataSession(settings);
+      cassette = session.cassette;
+      
+      const analysis = await analysisService.analyze(
+        validTicker,
+        settings.years,
+        settings.requiredReturn,
+        session.saveToDb,
+        session.forceFresh,
+        session.dataProvider,
+        settings.profile
+      );
+      const report = await ReportService.build(analysis, session.dataProvider, settings.profile);
+      await CliSupport.saveCassette(cassette);
+      
+      const content = ReportFormatter.render(report, format);
+      
+      if (options.out) {
+        await writeFile(options.out, content, 'utf8');
+        console.log(`📄 Wrote ${format === 'html' ? 'HTML' : 'Markdown'} report for ${validTicker} to ${options.out}`);
+      } else {
+        process.stdout.write(content);
+      }
+      
+      process.exit(0);
+      
+    } catch (error) {
+      await CliSupport.saveCassette(cassette);
+      CliSupport.handleError(error);
+    }
+  }
+
+  private static formatForPath(path: string | undefined): ReportFormat {
+    const extension = path ? extname(path).toLowerCase() : '';
+    return extension === '.md' || extension === '.markdown' ? 'markdown' : 'html';
+  }
+}
@@ -0,0 +1,139 @@
+import { Command } from "commander";
+import { BatchAnalysisService } from "../../services/BatchAnalysisService";
+import { DividendAnalysisService } from "../../services/DividendAnalysisService";
+import { ScreenService } from "../../services/ScreenService";
+import { OutputFormatter } from "../../formatters/OutputFormatter";
+import { BatchFormatter } from "../../formatters/BatchFormatter";
+import { InputValidator } from "../../validation/InputValidator";
+import { JsonFormatter } from "../../formatters/JsonFormatter";
+import { CliSupport, OUTPUT_FORMATS } from "../CliSupport";
+import {
+  SCREEN_FIELDS,
+  DEFAULT_SCREEN_SORT,
+  EMPTY_SCREEN_CRITERIA,
+  type ScreenCriteria,
+  type ScreenDefinition
+} from "../../models/ScreenCriteria";
+import type { DividendAnalysis } from "../../models/DividendAnalysis";
+import type { Cassette } from "../../utils/Cassette";
+
+/**
+ * `divvy screen` - filters a universe of tickers by dividend criteria. Flags
+ * override the values saved in a `--screen` file.
+ */
+export class ScreenCommand {
+  static register(program: Command, analysisService: DividendAnalysisService): void {
+    const command = program
+      .command("screen")
+      .description("Filter tickers by yield, payout, streak, score, sector and trend")
+      .argument("[tickers...]", "Ticker symbols; use - to also read them from stdin");
+
+    CliSupport.addFormatOption(CliSupport.addDataOptions(command))
+      .option("-f, --file <path>", "File of tickers (whitespace or comma separated, # comments allowed)")
+      .option("--universe <name>", `Built-in ticker list: ${ScreenService.universeNames().join(', ')}`)
+      .option("--screen <file>", "Saved screen (JSON with universe, criteria, sort and limit)")
+      .option("--min-yield <ratio>", "Minimum forward yield (e.g. 0.03)")
+      .option("--max-fcf-payout <ratio>", "Maximum FCF payout ratio (e.g. 0.7)")
+      .option("--min-streak <years>", "Minimum years of dividend growth")
+      .option("--min-score <n>", "Minimum total score")
+      .option("--sector <list>", "Only these sectors or groups (comma separated, e.g. utility,Healthcare)")
+      .option("--exclude-sector <list>", "Skip these sectors or groups")
+      .option("--above-ema200", "Only stocks trading above their 200-day EMA")
+      .option("--sort <field>", `Sort by field[:asc|desc]; fields: ${SCREEN_FIELDS.join(', ')}`)
+      .option("--limit <n>", "Show at most n matches");
+
+    CliSupport.addBatchOptions(command, {
+      maxAgeHours: DividendAnalysisService.CACHE_MAX_AGE_HOURS,
+      verbose: "Show per-ticker service logs and why tickers were filtered out"
+    })
+      .action((tickers: string[], options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run(new BatchAnalysisService(analysisService), tickers, options)));
+  }
+
+  private static async run(service: BatchAnalysisService, args: string[], options: any): Promise<void> {
+    let cassette: Cassette | undefined;
+    let json: { command: string } | undefined;
+    
+    try {
+      json = CliSupport.parseFormat(options, OUTPUT_FORMATS) === 'json' ? { command: 'screen' } : undefined;
+      const settings = CliSupport.parseDataSettings(options);
+      const { concurrency, requestsPerSecond, maxCacheAgeHours } = CliSupport.parseBatchSettings(options);
+      const definition = await this.buildDefinition(args, options);
+      const session = await CliSupport.openDataSession(settings);
+      cassette = session.cassette;
+      
+      console.log(`🔎 Screening ${definition.universe.length} tickers...`);
+      
+      const analyzeAll = () => service.analyzeMany(definition.universe, {
+        years: settings.years,
+        requiredReturn: settings.requiredReturn,
+        saveToDb: session.saveToDb,
+        forceFresh: session.forceFresh,
+        provider: session.dataProvider,
+        profile: settings.profile,
+        concurrency,
+        requestsPerSecond,
+        maxCacheAgeHours,
+        onProgress: CliSupport.progressReporter()
+      });
+      
+      const screened = await CliSupport.withQuietConsole(analyzeAll, !options.verbose);
+      await CliSupport.saveCassette(cassette);
+      
+      const analyses = screened.flatMap(item => item.analysis ? [item.analysis] : [] as DividendAnalysis[]);
+      const result = ScreenService.run(analyses, definition);
+      
+      if (json) {
+        CliSupport.writeJson(JsonFormatter.screenDocument(result, screened, session.dataProvider.asOf));
+      } else {
+        BatchFormatter.formatScreenResults(result, screened, definition.sort, Boolean(options.verbose));
+        OutputFormatter.formatFooter();
+      }
+      
+      // A few failed tickers don't invalidate the screen; nothing analyzed does
+      process.exit(analyses.length > 0 ? 0 : 1);
+      
+    } catch (error) {
+      await CliSupport.saveCassette(cassette);
+      CliSupport.handleError(error, json);
+    }
+  }
+
+  private static async buildDefinition(args: string[], options: any): Promise<ScreenDefinition> {
+    const saved: Partial<ScreenDefinition> = options.screen ? ScreenService.loadScreenFile(options.screen) : {};
+    
+    let universe: string[];
+    if (args.length > 0 || options.file) {
+      universe = await CliSupport.readTickers(args, options.file);
+    } else if (options.universe) {
+      universe = ScreenService.resolveUniverse(options.universe);
+    } else if (saved.universe) {
+      universe = saved.universe;
+    } else {
+      // Falls back to stdin, or explains how to pass tickers
+      universe = await CliSupport.readTickers([]);
+    }
+    
+    const number = (value: string | undefined, field: string) =>
+      value !== undefined ? InputValidator.validateNonNegativeNumber(value, field) : undefined;
+    const list = (value: string | undefined) =>
+      value ? value.split(',').map(item => item.trim()).filter(item => item.length > 0) : [];
+    
+    const overrides: Partial<ScreenCriteria> = {
+      minForwardYield: number(options.minYield, 'minYield'),
+      maxFcfPayoutRatio: number(options.maxFcfPayout, 'maxFcfPayout'),
+      minStreak: number(options.minStreak, 'minStreak'),
+      minTotalScore: number(options.minScore, 'minScore'),
+      includeSectors: list(options.sector),
+      excludeSectors: list(options.excludeSector),
+      // Only a flag that was given can override the saved screen
+      ...(options.aboveEma200 ? { aboveEma200: true } : {})
+    };
+    
+    return {
+      universe,
+      criteria: ScreenService.mergeCriteria(saved.criteria ?? EMPTY_SCREEN_CRITERIA, overrides),
+      sort: options.sort ? ScreenService.parseSort(options.sort) : saved.sort ?? DEFAULT_SCREEN_SORT,
+      limit: options.limit !== undefined ? InputValidator.validatePositiveInteger(options.limit, 'limit') : saved.limit
+    };
+  }
+}
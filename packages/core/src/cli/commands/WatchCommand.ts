@@ -0,0 +1,122 @@
+import { Command } from "commander";
+import { BatchAnalysisService } from "../../services/BatchAnalysisService";
+import { DividendAnalysisService } from "../../services/DividendAnalysisService";
+import { WatchlistService } from "../../services/WatchlistService";
+import { NotificationService } from "../../services/NotificationService";
+import { OutputFormatter } from "../../formatters/OutputFormatter";
+import { WatchlistFormatter } from "../../formatters/WatchlistFormatter";
+import { JsonFormatter } from "../../formatters/JsonFormatter";
+import { ValidationError } from "../../errors/DivvyErrors";
+import { CliSupport, OUTPUT_FORMATS } from "../CliSupport";
+import type { Alert, Watchlist } from "../../models/Watchlist";
+import type { NotificationDelivery } from "../../models/Notification";
+import type { Cassette } from "../../utils/Cassette";
+
+/**
+ * `divvy watch [watchlists...]` - re-analyzes watchlist tickers, reports
+ * rules whose condition changed since the last run and notifies each
+ * watchlist's channels
+ */
+export class WatchCommand {
+  static register(program: Command, analysisService: DividendAnalysisService): void {
+    const command = program
+      .command("watch")
+      .description("Re-analyze watchlists and report alerts that tripped since the last run")
+      .argument("[watchlists...]", "Watchlist names (default: all)");
+
+    CliSupport.addBatchOptions(CliSupport.addFormatOption(CliSupport.addWatchlistStoreOptions(CliSupport.addDataOptions(command))), { maxAgeHours: DividendAnalysisService.CACHE_MAX_AGE_HOURS })
+      .option("--dry-run", "Evaluate and list notifications without sending them or updating alert state")
+      .action((names: string[], options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run(new BatchAnalysisService(analysisService), names, options)));
+  }
+
+  private static async run(service: BatchAnalysisService, names: string[], options: any): Promise<void> {
+    let cassette: Cassette | undefined;
+    let json: { command: string } | undefined;
+    
+    try {
+      json = CliSupport.parseFormat(options, OUTPUT_FORMATS) === 'json' ? { command: 'watch' } : undefined;
+      const settings = CliSupport.parseDataSettings(options);
+      const { concurrency, requestsPerSecond, maxCacheAgeHours } = CliSupport.parseBatchSettings(options);
+      const store = CliSupport.openWatchlistStore(options);
+      const watchlists = this.select(await store.list(), names, store.description);
+      const tickers = [...new Set(watchlists.flatMap(watchlist => watchlist.tickers))];
+      const session = await CliSupport.openDataSession(settings);
+      cassette = session.cassette;
+      
+      console.log(`👀 Checking ${watchlists.length} ${watchlists.length === 1 ? 'watchlist' : 'watchlists'} (${tickers.length} ${tickers.length === 1 ? 'ticker' : 'tickers'})...`);
+      
+      const analyzeAll = () => service.analyzeMany(tickers, {
+        years: settings.years,
+        requiredReturn: settings.requiredReturn,
+        saveToDb: session.saveToDb,
+        forceFresh: session.forceFresh,
+        provider: session.dataProvider,
+        profile: settings.profile,
+        concurrency,
+        requestsPerSecond,
+        maxCacheAgeHours,
+        onProgress: CliSupport.progressReporter()
+      });
+      
+      const results = await CliSupport.withQuietConsole(analyzeAll, !options.verbose);
+      await CliSupport.saveCassette(cassette);
+      
+      const asOf = session.dataProvider.asOf ?? new Date();
+      const dryRun = Boolean(options.dryRun);
+      const alerts: Alert[] = [];
+      const deliveries: NotificationDelivery[] = [];
+      
+      for (const watchlist of watchlists) {
+        const analyses = results.flatMap(result =>
+          result.analysis && watchlist.tickers.includes(result.ticker) ? [result.analysis] : []
+        );
+        const previous = await store.loadAlertStates(watchlist.name);
+        const pending = await store.loadPendingAlerts(watchlist.name);
+        const checked = WatchlistService.check(watchlist, analyses, previous, asOf);
+        const notification = { watchlist: watchlist.name, alerts: checked.alerts, sentAt: new Date() };
+        const sent = await NotificationService.deliver(watchlist.channels, notification, { dryRun, pending });
+        
+        // Failed channels keep their alerts and get them resent next run; the rest are not re-notified
+        if (!dryRun) {
+          await store.saveAlertStates(watchlist.name, checked.states);
+          await store.savePendingAlerts(watchlist.name, NotificationService.undelivered(watchlist.channels, notification, sent, pending));
+        }
+        alerts.push(...checked.alerts);
+        deliveries.push(...sent);
+      }
+      
+      const checkedNames = watchlists.map(watchlist => watchlist.name);
+      
+      if (json) {
+        CliSupport.writeJson(JsonFormatter.watchDocument(checkedNames, alerts, deliveries, results, session.dataProvider.asOf));
+      } else {
+        WatchlistFormatter.formatAlerts(checkedNames, alerts, deliveries, results);
+        OutputFormatter.formatFooter();
+      }
+      
+      const failed = results.some(result => result.error !== null) || deliveries.some(delivery => delivery.status === 'failed');
+      process.exit(failed ? 1 : 0);
+      
+    } catch (error) {
+      await CliSupport.saveCassette(cassette);
+      CliSupport.handleError(error, json);
+    }
+  }
+
+  private static select(watchlists: Watchlist[], names: string[], store: string): Watchlist[] {
+    if (names.length === 0) {
+      if (watchlists.length === 0) {
+        throw new ValidationError(`No watchlists in ${store}; create one with "divvy watchlist add"`, 'watchlist');
+      }
+      return watchlists;
+    }
+
+    return [...new Set(names)].map(name => {
+      const watchlist = watchlists.find(candidate => candidate.name === name);
+      if (!watchlist) {
+        throw new ValidationError(`No watchlist named "${name}" in ${store}`, 'watchlist');
+      }
+      return watchlist;
+    });
+  }
+}
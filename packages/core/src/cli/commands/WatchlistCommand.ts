@@ -0,0 +1,163 @@
+import { Command } from "commander";
+import { WatchlistService } from "../../services/WatchlistService";
+import { NotificationService, DEFAULT_WEBHOOK_SECRET_ENV } from "../../services/NotificationService";
+import { WatchlistFormatter, type WatchlistListing } from "../../formatters/WatchlistFormatter";
+import { JsonFormatter } from "../../formatters/JsonFormatter";
+import { InputValidator } from "../../validation/InputValidator";
+import { ValidationError } from "../../errors/DivvyErrors";
+import { CliSupport, OUTPUT_FORMATS } from "../CliSupport";
+import type { WatchlistStore } from "../../services/WatchlistStore";
+import type { Watchlist } from "../../models/Watchlist";
+import type { NotificationChannelConfig } from "../../models/Notification";
+
+type WatchlistAction = 'list' | 'show' | 'add' | 'remove' | 'delete';
+
+/**
+ * `divvy watchlist add income KO PEP --rule "yield>=0.035"` - manages the
+ * named watchlists `divvy watch` checks
+ */
+export class WatchlistCommand {
+  static register(program: Command): void {
+    const watchlist = program
+      .command("watchlist")
+      .description(`Manage watchlists and their alert rules (${WatchlistService.RULE_SYNTAX})`);
+
+    const subcommand = (name: WatchlistAction, description: string, args: string[] = []) => {
+      const command = watchlist.command(name).description(description);
+      args.forEach(arg => command.argument(arg));
+      return CliSupport.addFormatOption(CliSupport.addWatchlistStoreOptions(command));
+    };
+
+    subcommand("list", "List watchlists")
+      .action((options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run('list', undefined, [], options)));
+
+    subcommand("show", "Show one watchlist", ["<name>"])
+      .action((name: string, options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run('show', name, [], options)));
+
+    subcommand("add", "Create a watchlist or add tickers and rules to it", ["<name>", "[tickers...]"])
+      .option("--rule <spec...>", "Alert rules to add, e.g. yield>=0.035 score<60 ema200 cut upside>=0.2")
+      .option("--webhook <url>", "Send alerts to this URL as signed JSON")
+      .option("--secret-env <name>", "Environment variable holding the webhook HMAC secret", DEFAULT_WEBHOOK_SECRET_ENV)
+      .option("--email <addresses...>", "Email alerts to these addresses (SMTP server from DIVVY_SMTP_* variables)")
+      .action((name: string, tickers: string[], options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run('add', name, tickers, options)));
+
+    subcommand("remove", "Remove tickers and rules from a watchlist", ["<name>", "[tickers...]"])
+      .option("--rule <spec...>", "Alert rules to remove")
+      .option("--webhook <url>", "Stop sending alerts to this URL")
+      .option("--email <addresses...>", "Stop emailing these addresses")
+      .action((name: string, tickers: string[], options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run('remove', name, tickers, options)));
+
+    subcommand("delete", "Delete a watchlist and its alert state", ["<name>"])
+      .action((name: string, options: any) => CliSupport.withDiagnosticsToStderr(CliSupport.ownsStdout(options), () => this.run('delete', name, [], options)));
+  }
+
+  private static async run(action: WatchlistAction, name: string | undefined, tickers: string[], options: any): Promise<void> {
+    let json: { command: string } | undefined;
+    
+    try {
+      json = CliSupport.parseFormat(options, OUTPUT_FORMATS) === 'json' ? { command: 'watchlist' } : undefined;
+      const store = CliSupport.openWatchlistStore(options);
+      const watchlists = await this.apply(store, action, name, tickers, options);
+      
+      if (json) {
+        CliSupport.writeJson(JsonFormatter.watchlistDocument(watchlists, store.description));
+      } else {
+        WatchlistFormatter.formatWatchlists(watchlists.map(watchlist => this.listing(watchlist)), store.description);
+      }
+      
+      process.exit(0);
+      
+    } catch (error) {
+      CliSupport.handleError(error, json);
+    }
+  }
+
+  private static listing(watchlist: Watchlist): WatchlistListing {
+    return {
+      name: watchlist.name,
+      tickers: watchlist.tickers,
+      rules: watchlist.rules.map(rule => WatchlistService.ruleKey(rule)),
+      channels: watchlist.channels.map(channel => {
+        const secret = channel.type === 'webhook' ? ` (secret in ${channel.secretEnv})` : '';
+        return `${NotificationService.channelKey(channel)}${secret}`;
+      })
+    };
+  }
+
+  /**
+   * Performs the action and returns the watchlists to display
+   */
+  private static async apply(
+    store: WatchlistStore,
+    action: WatchlistAction,
+    rawName: string | undefined,
+    rawTickers: string[],
+    options: any
+  ): Promise<Watchlist[]> {
+    if (action === 'list') {
+      return store.list();
+    }
+
+    const name = WatchlistService.validateName(rawName ?? '');
+    const existing = await store.get(name);
+
+    if (action === 'add') {
+      const tickers = rawTickers.map(ticker => InputValidator.validateTicker(ticker));
+      const rules = (options.rule ?? []).map((spec: string) => WatchlistService.parseRule(spec));
+      const channels: NotificationChannelConfig[] = [
+        ...(options.webhook ? [{ type: 'webhook' as const, url: options.webhook, secretEnv: options.secretEnv }] : []),
+        ...(options.email ? [{ type: 'email' as const, to: options.email }] : [])
+      ];
+      const watchlist = WatchlistService.validateWatchlist({
+        name,
+        tickers: [...(existing?.tickers ?? []), ...tickers],
+        rules: [...(existing?.rules ?? []), ...rules],
+        channels: [...(existing?.channels ?? []), ...channels]
+      });
+
+      await store.save(watchlist);
+      console.log(`✅ ${existing ? 'Updated' : 'Created'} watchlist ${name} in ${store.description}`);
+      return [watchlist];
+    }
+
+    if (!existing) {
+      throw new ValidationError(`No watchlist named "${name}" in ${store.description}`, 'watchlist');
+    }
+
+    if (action === 'show') {
+      return [existing];
+    }
+
+    if (action === 'delete') {
+      await store.remove(name);
+      console.log(`🗑️  Deleted watchlist ${name} from ${store.description}`);
+      return [];
+    }
+
+    const tickers = new Set(rawTickers.map(ticker => InputValidator.validateTicker(ticker)));
+    const ruleKeys = new Set((options.rule ?? []).map((spec: string) => WatchlistService.ruleKey(WatchlistService.parseRule(spec))));
+    const webhook = options.webhook ? NotificationService.validateWebhookUrl(options.webhook) : null;
+    const addresses = new Set<string>((options.email ?? []).map((address: string) => NotificationService.validateEmail(address)));
+
+    if (tickers.size === 0 && ruleKeys.size === 0 && !webhook && addresses.size === 0) {
+      throw new ValidationError('Give tickers, --rule, --webhook or --email to remove (use "divvy watchlist delete" to drop the watchlist)', 'watchlist');
+    }
+
+    const watchlist: Watchlist = {
+      name,
+      tickers: existing.tickers.filter(ticker => !tickers.has(ticker)),
+      rules: existing.rules.filter(rule => !ruleKeys.has(WatchlistService.ruleKey(rule))),
+      channels: existing.channels.flatMap((channel): NotificationChannelConfig[] => {
+        if (channel.type === 'webhook') {
+          return channel.url === webhook ? [] : [channel];
+        }
+        const to = channel.to.filter(address => !addresses.has(address));
+        return to.length > 0 ? [{ ...channel, to }] : [];
+      })
+    };
+
+    await store.save(watchlist);
+    console.log(`✅ Updated watchlist ${name} in ${store.description}`);
+    return [watchlist];
+  }
+}
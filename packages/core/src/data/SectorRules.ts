@@ -0,0 +1,91 @@
+/**
+ * Sector groups with their own dividend norms. REITs must distribute most of
+ * their taxable income, utilities fund heavy capex with debt, and bank
+ * dividends are bounded by regulatory capital rather than free cash flow, so
+ * the generic EPS payout / FCF coverage rules misjudge all three.
+ */
+
+export type SectorGroup = 'reit' | 'utility' | 'bank' | 'financial' | 'technology' | 'general';
+
+export interface SectorScoringRule {
+  group: SectorGroup;
+  label: string;
+  // Payout measure and the bands mapping it onto 100 -> 0 points
+  payoutBasis: 'eps' | 'ffo';
+  payout: { full: number; zero: number } | null;  // null keeps the scoring profile's bands
+  // Coverage factor: FCF (profile threshold), AFFO or operating cash flow per dividend dollar,
+  // or the Tier 1 capital ratio between `zero` and `full`
+  coverageBasis: 'fcf' | 'affo' | 'ocf' | 'capital';
+  coverage: { full: number; zero: number } | null;
+}
+
+const GENERAL_RULE: SectorScoringRule = {
+  group: 'general',
+  label: 'General',
+  payoutBasis: 'eps',
+  payout: null,
+  coverageBasis: 'fcf',
+  coverage: null
+};
+
+export const SECTOR_SCORING_RULES: Record<SectorGroup, SectorScoringRule> = {
+  reit: {
+    group: 'reit',
+    label: 'REIT',
+    payoutBasis: 'ffo',
+    payout: { full: 0.80, zero: 1.10 },
+    coverageBasis: 'affo',
+    coverage: { full: 1.25, zero: 0 }
+  },
+  utility: {
+    group: 'utility',
+    label: 'Utility',
+    payoutBasis: 'eps',
+    payout: { full: 0.75, zero: 1.10 },
+    coverageBasis: 'ocf',
+    coverage: { full: 3, zero: 0 }
+  },
+  bank: {
+    group: 'bank',
+    label: 'Bank',
+    payoutBasis: 'eps',
+    payout: { full: 0.50, zero: 0.90 },
+    coverageBasis: 'capital',
+    coverage: { full: 0.12, zero: 0.07 }  // Tier 1 ratio: well above minimums at 12%, stressed at 7%
+  },
+  financial: { ...GENERAL_RULE, group: 'financial', label: 'Financial' },
+  technology: { ...GENERAL_RULE, group: 'technology', label: 'Technology' },
+  general: GENERAL_RULE
+};
+
+export class SectorClassifier {
+  /**
+   * Maps provider sector/industry strings (e.g. Yahoo's "Real Estate" /
+   * "REIT - Retail") onto a sector group
+   */
+  static classify(sector?: string | null, industry?: string | null): SectorGroup {
+    const s = (sector ?? '').toLowerCase();
+    const i = (industry ?? '').toLowerCase();
+
+    if (/\breits?\b|real estate investment trust/.test(i) || s === 'reits' || (s === 'real estate' && !i)) {
+      return 'reit';
+    }
+    if (s.includes('utilit') || i.startsWith('utilities')) {
+      return 'utility';
+    }
+    if (/\bbank/.test(i)) {
+      return 'bank';
+    }
+    if (s.includes('financ')) {
+      return 'financial';
+    }
+    if (s.includes('tech')) {
+      return 'technology';
+    }
+    return 'general';
+  }
+
+  static ruleFor(sector?: string | null, industry?: string | null): SectorScoringRule {
+    return SECTOR_SCORING_RULES[this.classify(sector, industry)];
+  }
+}
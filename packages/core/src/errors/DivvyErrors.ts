@@ -77,4 +77,12 @@ export class RateLimitError extends DivvyError {
     super(message, 'RATE_LIMIT', true);
     this.retryAfter = retryAfter;
   }
-}
\ No newline at end of file
+}
+export class NotificationError extends DivvyError {
+  public readonly channel: string;
+  
+  constructor(message: string, channel: string, isRetryable = true) {
+    super(message, `NOTIFICATION_${channel.toUpperCase()}`, isRetryable);
+    this.channel = channel;
+  }
+}
@@ -0,0 +1,99 @@
+import { OutputFormatter } from './OutputFormatter.js';
+import type { DividendAnalysis } from '../models/DividendAnalysis.js';
+import type { BatchItemResult } from '../services/BatchAnalysisService.js';
+import type { ScreenResult } from '../services/ScreenService.js';
+import type { ComparisonFormat, TickerComparison } from '../services/ComparisonService.js';
+import type { ScreenSort } from '../models/ScreenCriteria.js';
+
+/**
+ * Terminal tables for the multi-ticker commands: batch, screen and compare
+ */
+export class BatchFormatter {
+  static formatBatchSummary(results: BatchItemResult[]): void {
+    const columns: Array<{ header: string; width: number; value: (a: DividendAnalysis) => string }> = [
+      { header: "Ticker", width: 8, value: a => a.ticker },
+      { header: "Price", width: 10, value: a => OutputFormatter.formatNumber(a.quote.price) },
+      { header: "Yield", width: 9, value: a => OutputFormatter.formatPercentage(a.ttmYield) },
+      { header: "Fwd Yld", width: 9, value: a => OutputFormatter.formatPercentage(a.forwardYield) },
+      { header: "Streak", width: 8, value: a => String(a.streak) },
+      { header: "Score", width: 7, value: a => String(a.totalScore) },
+      { header: "DDM Upside", width: 12, value: a => OutputFormatter.formatPercentage(a.valuation.upside) }
+    ];
+    const row = (cells: string[]) => cells.map((cell, i) => i === 0 ? cell.padEnd(columns[i].width) : cell.padStart(columns[i].width)).join("");
+    const succeeded = results.filter(result => result.analysis !== null);
+    
+    console.log(`\n[Batch] ${succeeded.length}/${results.length} analyzed`);
+    
+    if (succeeded.length > 0) {
+      console.log(row(columns.map(column => column.header)));
+      succeeded.forEach(result => console.log(row(columns.map(column => column.value(result.analysis!)))));
+    }
+    
+    this.formatErrors(results);
+  }
+
+  static formatScreenResults(result: ScreenResult, screened: BatchItemResult[], sort: ScreenSort, showRejected: boolean): void {
+    const columns: Array<{ header: string; width: number; value: (a: DividendAnalysis) => string }> = [
+      { header: "Ticker", width: 8, value: a => a.ticker },
+      { header: "Sector", width: 20, value: a => (a.quote.sector ?? "-").slice(0, 18) },
+      { header: "Price", width: 10, value: a => OutputFormatter.formatNumber(a.quote.price) },
+      { header: "Fwd Yld", width: 9, value: a => OutputFormatter.formatPercentage(a.forwardYield) },
+      { header: "FCF Pay", width: 9, value: a => OutputFormatter.formatPercentage(isFinite(a.fundamentals.fcfPayoutRatio) ? a.fundamentals.fcfPayoutRatio : null) },
+      { header: "Streak", width: 8, value: a => String(a.streak) },
+      { header: "Score", width: 7, value: a => String(a.totalScore) },
+      { header: "DDM Upside", width: 12, value: a => OutputFormatter.formatPercentage(a.valuation.upside) }
+    ];
+    const row = (cells: string[]) => cells.map((cell, i) => i <= 1 ? cell.padEnd(columns[i].width) : cell.padStart(columns[i].width)).join("");
+    const analyzed = screened.filter(item => item.analysis !== null).length;
+    
+    console.log(`\n[Screen] ${result.matches.length} of ${analyzed} analyzed passed, sorted by ${sort.field} ${sort.descending ? "desc" : "asc"}`);
+    
+    if (result.matches.length > 0) {
+      console.log(row(columns.map(column => column.header)));
+      result.matches.forEach(analysis => console.log(row(columns.map(column => column.value(analysis)))));
+    }
+    
+    if (showRejected && result.rejected.length > 0) {
+      console.log(`\nFiltered out (${result.rejected.length}):`);
+      result.rejected.forEach(rejection => console.log(`  • ${rejection.ticker}: ${rejection.reasons.join("; ")}`));
+    }
+    
+    this.formatErrors(screened);
+  }
+
+  static formatComparison(comparison: TickerComparison): void {
+    const labelWidth = 16;
+    const width = Math.max(12, ...comparison.tickers.map(ticker => ticker.length + 4));
+    const format = (value: number | null, kind: ComparisonFormat) => {
+      if (value === null) return "—";
+      switch (kind) {
+        case "price": return OutputFormatter.formatNumber(value);
+        case "percent": return OutputFormatter.formatPercentage(value);
+        case "years": return `${value}y`;
+        case "points": return OutputFormatter.formatNumber(value, 0);
+      }
+    };
+    
+    console.log("\n[Compare]");
+    console.log("".padEnd(labelWidth) + comparison.tickers.map(ticker => ticker.padStart(width)).join(""));
+    
+    comparison.rows.forEach(row => {
+      const cells = comparison.tickers.map(ticker => {
+        const text = format(row.values[ticker] ?? null, row.format);
+        return (row.best.includes(ticker) ? `[${text}]` : text).padStart(width);
+      });
+      console.log(row.label.padEnd(labelWidth) + cells.join(""));
+    });
+    
+    console.log("[x] = best in row (higher yields, growth, streak, scores and upside; lower payout ratios)");
+  }
+
+  static formatErrors(results: BatchItemResult[]): void {
+    const failed = results.filter(result => result.error !== null);
+    
+    if (failed.length > 0) {
+      console.log(`\nErrors (${failed.length}):`);
+      failed.forEach(result => console.log(`  • ${result.ticker}: ${result.error!.message}`));
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { OutputFormatter } from './OutputFormatter.js';
+import { HISTORY_METRICS, type AnalysisHistory, type HistoryMetric } from '../models/AnalysisHistory.js';
+
+/**
+ * Terminal output for `divvy history`: sparklines, the latest change and a
+ * table of snapshots
+ */
+export class HistoryFormatter {
+  static formatHistory(history: AnalysisHistory): void {
+    const { ticker, snapshots, changes } = history;
+    
+    if (snapshots.length === 0) {
+      console.log(`\n[History] No saved analyses for ${ticker} with these settings; run "divvy ${ticker}" with the same options to save one`);
+      return;
+    }
+    
+    const day = (date: Date) => date.toISOString().slice(0, 10);
+    console.log(`\n[History] ${ticker}: ${snapshots.length} ${snapshots.length === 1 ? "snapshot" : "snapshots"}, ${day(snapshots[0].observedAt)} → ${day(snapshots[snapshots.length - 1].observedAt)}`);
+    
+    console.log("\nTrend (oldest → latest)");
+    for (const metric of HISTORY_METRICS) {
+      const values = snapshots.map(snapshot => snapshot[metric]);
+      console.log(`  ${this.HISTORY_LABELS[metric].padEnd(14)}${OutputFormatter.sparkline(values).padEnd(snapshots.length + 2)}${this.formatHistoryValue(metric, values[values.length - 1])}`);
+    }
+    
+    if (changes) {
+      console.log(`\nLatest change (${day(snapshots[snapshots.length - 2].observedAt)} → ${day(snapshots[snapshots.length - 1].observedAt)})`);
+      for (const { metric, previous, latest, change, relativeChange } of changes) {
+        let delta = "";
+        if (change !== null) {
+          const sign = change > 0 ? "+" : "";
+          // Yields move in percentage points; price also gets its relative move
+          delta = metric === 'ttmYield' || metric === 'forwardYield'
+            ? `${sign}${(change * 100).toFixed(2)}pp`
+            : metric === 'price'
+              ? `${sign}${change.toFixed(2)}${relativeChange === null ? "" : `, ${sign}${OutputFormatter.formatPercentage(relativeChange)}`}`
+              : `${sign}${OutputFormatter.formatNumber(change, 0)}`;
+        }
+        console.log(`  ${this.HISTORY_LABELS[metric].padEnd(14)}${this.formatHistoryValue(metric, previous)} → ${this.formatHistoryValue(metric, latest)}${delta ? `  (${delta})` : ""}`);
+      }
+    }
+    
+    console.log(`\n${"Date".padEnd(12)}${HISTORY_METRICS.map(metric => this.HISTORY_COLUMNS[metric].padStart(9)).join("")}`);
+    snapshots.forEach(snapshot => {
+      console.log(`${day(snapshot.observedAt).padEnd(12)}${HISTORY_METRICS.map(metric => this.formatHistoryValue(metric, snapshot[metric]).padStart(9)).join("")}`);
+    });
+  }
+
+  private static readonly HISTORY_LABELS: Record<HistoryMetric, string> = {
+    price: "Price",
+    ttmYield: "TTM Yield",
+    forwardYield: "Fwd Yield",
+    totalScore: "Total Score",
+    payoutScore: "Payout Score",
+    fcfScore: "FCF Score",
+    streakScore: "Streak Score",
+    growthScore: "Growth Score",
+    trendScore: "Trend Score",
+    macdScore: "MACD Score",
+    rsiScore: "RSI Score"
+  };
+
+  private static readonly HISTORY_COLUMNS: Record<HistoryMetric, string> = {
+    price: "Price",
+    ttmYield: "TTM Yld",
+    forwardYield: "Fwd Yld",
+    totalScore: "Score",
+    payoutScore: "Payout",
+    fcfScore: "FCF",
+    streakScore: "Streak",
+    growthScore: "Growth",
+    trendScore: "Trend",
+    macdScore: "MACD",
+    rsiScore: "RSI"
+  };
+
+  private static formatHistoryValue(metric: HistoryMetric, value: number | null): string {
+    if (metric === 'ttmYield' || metric === 'forwardYield') return OutputFormatter.formatPercentage(value);
+    return OutputFormatter.formatNumber(value, metric === 'price' ? 2 : 0);
+  }
+}
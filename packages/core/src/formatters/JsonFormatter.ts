@@ -0,0 +1,456 @@
+import { SCORE_FACTORS } from '../models/ScoringProfile.js';
+import { DivvyError } from '../errors/DivvyErrors.js';
+import type {
+  DividendAnalysis,
+  DdmSensitivityGrid,
+  DripProjection,
+  MonteCarloValuation,
+  MultiStageDdmValuation,
+  ScoreExplanations
+} from '../models/DividendAnalysis.js';
+import type { ScoreFactor } from '../models/ScoringProfile.js';
+import type { BatchItemResult } from '../services/BatchAnalysisService.js';
+import type { ScreenRejection, ScreenResult } from '../services/ScreenService.js';
+import type { ComparisonRow, TickerComparison } from '../services/ComparisonService.js';
+import type { DividendCalendar } from '../models/DividendCalendar.js';
+import type { CalendarItemResult } from '../services/DividendCalendarService.js';
+import type { Alert, Watchlist } from '../models/Watchlist.js';
+import type { NotificationDelivery } from '../models/Notification.js';
+import type { RefreshRun } from '../models/RefreshRun.js';
+import type { LeaderboardPage } from '../models/Leaderboard.js';
+import type { AnalysisHistory } from '../models/AnalysisHistory.js';
+import type { Holding, ImportIssue, IncomeShare, PortfolioSummary, PortfolioTotals, TransactionImport } from '../models/Portfolio.js';
+
+export interface DataQualityReport {
+  score: number;
+  level: 'poor' | 'fair' | 'good' | 'excellent';
+  recommendations: string[];
+}
+
+/**
+ * Public shape of one analysis. Field names are part of the CLI contract:
+ * add fields freely, but renaming or removing one needs a SCHEMA_VERSION bump.
+ * Non-finite numbers (missing data) are emitted as null.
+ */
+export interface AnalysisJson {
+  ticker: string;
+  name: string;
+  currency: string;
+  sector: string | null;
+  industry: string | null;
+  price: number | null;
+  dividends: {
+    ttm: number | null;
+    ttmYield: number | null;
+    forward: number | null;
+    forwardYield: number | null;
+    cagr3: number | null;
+    cagr5: number | null;
+    safeGrowth: number | null;
+    streak: number;
+    annual: Array<{ year: number; amount: number }>;
+  };
+  fundamentals: {
+    operatingCashFlow: number | null;
+    capitalExpenditure: number | null;
+    freeCashFlow: number | null;
+    cashDividendsPaid: number | null;
+    netIncome: number | null;
+    epsPayoutRatio: number | null;
+    fcfPayoutRatio: number | null;
+    fcfCoverage: number | null;
+  };
+  scores: {
+    profile: string;
+    total: number;
+    factors: Record<ScoreFactor, number>;
+    explanations: ScoreExplanations | null;
+  };
+  technicals: {
+    ema20: number | null;
+    ema50: number | null;
+    ema200: number | null;
+    macdLine: number | null;
+    macdSignal: number | null;
+    macdHistogram: number | null;
+    rsi: number | null;
+  };
+  valuation: {
+    ddmPrice: number | null;
+    upside: number | null;
+    requiredReturn: number;
+    growth: number;
+    multiStage: MultiStageDdmValuation | null;
+    sensitivity: DdmSensitivityGrid | null;
+    monteCarlo: MonteCarloValuation | null;
+  };
+}
+
+export interface JsonEnvelope {
+  schemaVersion: number;
+  command: string;
+  generatedAt: string;
+  asOf: string | null;   // frozen clock of fixture/replay runs
+}
+
+export interface AnalyzeJsonDocument extends JsonEnvelope {
+  analysis: AnalysisJson;
+  warnings: string[];
+  dataQuality: DataQualityReport;
+}
+
+export interface TickerErrorJson {
+  ticker: string;
+  error: JsonError;
+}
+
+export interface BatchJsonDocument extends JsonEnvelope {
+  results: Array<{ ticker: string; analysis: AnalysisJson | null; error: JsonError | null }>;
+}
+
+export interface ScreenJsonDocument extends JsonEnvelope {
+  matches: AnalysisJson[];
+  rejected: ScreenRejection[];
+  errors: TickerErrorJson[];
+}
+
+export interface CompareJsonDocument extends JsonEnvelope {
+  tickers: string[];
+  rows: ComparisonRow[];
+  errors: TickerErrorJson[];
+}
+
+export interface PortfolioJsonDocument extends JsonEnvelope {
+  positions: Array<{
+    holding: Holding;
+    marketValue: number | null;
+    annualIncome: number | null;
+    forwardIncome: number | null;
+    yieldOnCost: number | null;
+    analysis: AnalysisJson | null;
+    error: JsonError | null;
+  }>;
+  totals: PortfolioTotals;
+  concentration: { byTicker: IncomeShare[]; bySector: IncomeShare[] };
+}
+
+export interface ImportJsonDocument extends JsonEnvelope {
+  source: string;
+  transactions: number;
+  holdings: Holding[];
+  lots: Array<{ ticker: string; account: string | null; acquired: string; shares: number; costBasis: number; line: number }>;
+  dividends: Record<string, number>;
+  issues: ImportIssue[];
+}
+
+export interface DripJsonDocument extends JsonEnvelope, DripProjection {
+  ticker: string;
+}
+
+export interface CalendarJsonDocument extends JsonEnvelope {
+  from: string;
+  to: string;
+  entries: Array<Omit<DividendCalendar['entries'][number], 'exDate' | 'payDate'> & { exDate: string; payDate: string }>;
+  schedules: Array<{
+    ticker: string;
+    frequency: string | null;
+    paymentsPerYear: number;
+    lastExDate: string | null;
+    lastAmount: number | null;
+    payLagDays: number;
+    providerExDate: string | null;
+    providerPayDate: string | null;
+    notes: string[];
+  }>;
+  holdings: DividendCalendar['holdings'];
+  monthlyCash: DividendCalendar['monthlyCash'];
+  totalCash: number | null;
+  errors: TickerErrorJson[];
+}
+
+export interface WatchlistJsonDocument extends JsonEnvelope {
+  store: string;
+  watchlists: Watchlist[];
+}
+
+export interface WatchJsonDocument extends JsonEnvelope {
+  watchlists: string[];
+  alerts: Array<Omit<Alert, 'triggeredAt'> & { triggeredAt: string }>;
+  notifications: NotificationDelivery[];
+  errors: TickerErrorJson[];
+}
+
+export interface RefreshJsonDocument extends JsonEnvelope, Omit<RefreshRun, 'startedAt' | 'finishedAt'> {
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface LeaderboardJsonDocument extends JsonEnvelope, LeaderboardPage {}
+
+export interface HistoryJsonDocument extends JsonEnvelope, AnalysisHistory {}
+
+export interface JsonError {
+  type: string;
+  code: string | null;
+  message: string;
+}
+
+export interface ErrorJsonDocument extends JsonEnvelope {
+  error: JsonError;
+  exitCode: number;
+}
+
+export interface AnalyzeJsonExtras {
+  warnings: string[];
+  dataQuality: DataQualityReport;
+  sensitivity: DdmSensitivityGrid | null;
+  monteCarlo: MonteCarloValuation | null;
+  asOf: Date | undefined;
+}
+
+/**
+ * Builds the versioned JSON documents printed by `--format json`
+ */
+export class JsonFormatter {
+  static readonly SCHEMA_VERSION = 1;
+
+  static analysis(analysis: DividendAnalysis, sensitivity: DdmSensitivityGrid | null = null, monteCarlo: MonteCarloValuation | null = null): AnalysisJson {
+    const { quote, fundamentals, scores, ema, macd, rsi, valuation } = analysis;
+    const num = this.finite;
+
+    return {
+      ticker: analysis.ticker,
+      name: quote.name,
+      currency: quote.currency,
+      sector: quote.sector,
+      industry: quote.industry,
+      price: num(quote.price),
+      dividends: {
+        ttm: num(analysis.ttmDividends),
+        ttmYield: num(analysis.ttmYield),
+        forward: num(analysis.forwardDividend),
+        forwardYield: num(analysis.forwardYield),
+        cagr3: num(analysis.cagr3),
+        cagr5: num(analysis.cagr5),
+        safeGrowth: num(analysis.safeGrowth),
+        streak: analysis.streak,
+        annual: analysis.annualDividends.map(([year, amount]) => ({ year, amount }))
+      },
+      fundamentals: {
+        operatingCashFlow: num(fundamentals.operatingCashFlow),
+        capitalExpenditure: num(fundamentals.capitalExpenditure),
+        freeCashFlow: num(fundamentals.freeCashFlow),
+        cashDividendsPaid: num(fundamentals.cashDividendsPaid),
+        netIncome: num(fundamentals.netIncome),
+        epsPayoutRatio: num(fundamentals.epsPayoutRatio),
+        fcfPayoutRatio: num(fundamentals.fcfPayoutRatio),
+        fcfCoverage: num(fundamentals.fcfCoverage)
+      },
+      scores: {
+        profile: analysis.scoringProfile,
+        total: analysis.totalScore,
+        factors: Object.fromEntries(SCORE_FACTORS.map(factor => [factor, scores[factor]])) as Record<ScoreFactor, number>,
+        explanations: scores.explanations
+      },
+      technicals: {
+        ema20: num(ema.ema20),
+        ema50: num(ema.ema50),
+        ema200: num(ema.ema200),
+        macdLine: num(macd.macdLine),
+        macdSignal: num(macd.signalLine),
+        macdHistogram: num(macd.histogram),
+        rsi: num(rsi.rsi)
+      },
+      valuation: {
+        ddmPrice: num(valuation.ddmPrice),
+        upside: num(valuation.upside),
+        requiredReturn: valuation.requiredReturn,
+        growth: valuation.growth,
+        multiStage: analysis.multiStageDdm,
+        sensitivity,
+        monteCarlo
+      }
+    };
+  }
+
+  static analyzeDocument(analysis: DividendAnalysis, extras: AnalyzeJsonExtras): AnalyzeJsonDocument {
+    return {
+      ...this.envelope('analyze', extras.asOf),
+      analysis: this.analysis(analysis, extras.sensitivity, extras.monteCarlo),
+      warnings: extras.warnings,
+      dataQuality: extras.dataQuality
+    };
+  }
+
+  static batchDocument(results: BatchItemResult[], asOf?: Date): BatchJsonDocument {
+    return {
+      ...this.envelope('batch', asOf),
+      results: results.map(result => ({
+        ticker: result.ticker,
+        analysis: result.analysis ? this.analysis(result.analysis) : null,
+        error: result.error ? this.error(result.error) : null
+      }))
+    };
+  }
+
+  static screenDocument(result: ScreenResult, screened: BatchItemResult[], asOf?: Date): ScreenJsonDocument {
+    return {
+      ...this.envelope('screen', asOf),
+      matches: result.matches.map(analysis => this.analysis(analysis)),
+      rejected: result.rejected,
+      errors: this.errors(screened)
+    };
+  }
+
+  static compareDocument(comparison: TickerComparison, results: BatchItemResult[], asOf?: Date): CompareJsonDocument {
+    return {
+      ...this.envelope('compare', asOf),
+      tickers: comparison.tickers,
+      rows: comparison.rows,
+      errors: this.errors(results)
+    };
+  }
+
+  static portfolioDocument(summary: PortfolioSummary, asOf?: Date): PortfolioJsonDocument {
+    return {
+      ...this.envelope('portfolio', asOf),
+      positions: summary.positions.map(position => ({
+        holding: position.holding,
+        marketValue: position.marketValue,
+        annualIncome: position.annualIncome,
+        forwardIncome: position.forwardIncome,
+        yieldOnCost: position.yieldOnCost,
+        analysis: position.analysis ? this.analysis(position.analysis) : null,
+        error: position.error ? this.error(position.error) : null
+      })),
+      totals: summary.totals,
+      concentration: summary.concentration
+    };
+  }
+
+  static importDocument(result: TransactionImport, source: string): ImportJsonDocument {
+    return {
+      ...this.envelope('import'),
+      source,
+      transactions: result.transactions.length,
+      holdings: result.holdings,
+      lots: result.lots.map(lot => ({ ...lot, acquired: lot.acquired.toISOString().slice(0, 10) })),
+      dividends: result.dividends,
+      issues: result.issues
+    };
+  }
+
+  static dripDocument(ticker: string, projection: DripProjection, asOf?: Date): DripJsonDocument {
+    return {
+      ...this.envelope('drip', asOf),
+      ticker,
+      ...projection
+    };
+  }
+
+  static calendarDocument(calendar: DividendCalendar, results: CalendarItemResult[], asOf?: Date): CalendarJsonDocument {
+    const date = (value: Date | null) => value ? value.toISOString().slice(0, 10) : null;
+
+    return {
+      ...this.envelope('calendar', asOf),
+      from: date(calendar.from)!,
+      to: date(calendar.to)!,
+      entries: calendar.entries.map(entry => ({ ...entry, exDate: date(entry.exDate)!, payDate: date(entry.payDate)! })),
+      schedules: calendar.schedules.map(({ entries: _entries, ...schedule }) => ({
+        ...schedule,
+        lastExDate: date(schedule.lastExDate),
+        providerExDate: date(schedule.providerExDate),
+        providerPayDate: date(schedule.providerPayDate)
+      })),
+      holdings: calendar.holdings,
+      monthlyCash: calendar.monthlyCash,
+      totalCash: calendar.totalCash,
+      errors: results.flatMap(result => result.error ? [{ ticker: result.ticker, error: this.error(result.error) }] : [])
+    };
+  }
+
+  static watchlistDocument(watchlists: Watchlist[], store: string): WatchlistJsonDocument {
+    return {
+      ...this.envelope('watchlist'),
+      store,
+      watchlists
+    };
+  }
+
+  static watchDocument(
+    watchlists: string[],
+    alerts: Alert[],
+    notifications: NotificationDelivery[],
+    results: BatchItemResult[],
+    asOf?: Date
+  ): WatchJsonDocument {
+    return {
+      ...this.envelope('watch', asOf),
+      watchlists,
+      alerts: alerts.map(alert => ({ ...alert, triggeredAt: alert.triggeredAt.toISOString() })),
+      notifications,
+      errors: this.errors(results)
+    };
+  }
+
+  static refreshDocument(run: RefreshRun, asOf?: Date): RefreshJsonDocument {
+    return {
+      ...this.envelope('refresh', asOf),
+      ...run,
+      startedAt: run.startedAt.toISOString(),
+      finishedAt: run.finishedAt ? run.finishedAt.toISOString() : null
+    };
+  }
+
+  static leaderboardDocument(page: LeaderboardPage): LeaderboardJsonDocument {
+    return {
+      ...this.envelope('leaderboard'),
+      ...page
+    };
+  }
+
+  static historyDocument(history: AnalysisHistory): HistoryJsonDocument {
+    return {
+      ...this.envelope('history'),
+      ...history
+    };
+  }
+
+  static errorDocument(command: string, error: Error, exitCode: number): ErrorJsonDocument {
+    return {
+      ...this.envelope(command),
+      error: this.error(error),
+      exitCode
+    };
+  }
+
+  static stringify(document: JsonEnvelope): string {
+    return JSON.stringify(document, (_key, value) =>
+      typeof value === 'number' && !isFinite(value) ? null : value, 2) + '\n';
+  }
+
+  private static envelope(command: string, asOf?: Date): JsonEnvelope {
+    return {
+      schemaVersion: this.SCHEMA_VERSION,
+      command,
+      generatedAt: new Date().toISOString(),
+      asOf: asOf ? asOf.toISOString() : null
+    };
+  }
+
+  private static error(error: Error): JsonError {
+    return {
+      type: error.name,
+      code: error instanceof DivvyError ? error.code : null,
+      message: error.message
+    };
+  }
+
+  private static errors(results: BatchItemResult[]): TickerErrorJson[] {
+    return results.flatMap(result => result.error ? [{ ticker: result.ticker, error: this.error(result.error) }] : []);
+  }
+
+  private static finite(value: number | null | undefined): number | null {
+    return value !== null && value !== undefined && isFinite(value) ? value : null;
+  }
+}
@@ -0,0 +1,65 @@
+import { OutputFormatter } from './OutputFormatter.js';
+import type { RefreshRun } from '../models/RefreshRun.js';
+import type { LeaderboardPage } from '../models/Leaderboard.js';
+
+/**
+ * Terminal output for `divvy refresh` runs and the daily leaderboard
+ */
+export class LeaderboardFormatter {
+  static formatRefreshRun(run: RefreshRun): void {
+    const seconds = run.finishedAt ? ((run.finishedAt.getTime() - run.startedAt.getTime()) / 1000).toFixed(1) : "—";
+    const marks = { succeeded: "✅", partial: "⚠️ ", failed: "❌", running: "…" };
+    
+    console.log(`\n${marks[run.status]} Refresh ${run.status}${run.id ? ` (run ${run.id})` : ""} in ${seconds}s using ${run.provider}`);
+    console.log(`  Refreshed ${run.refreshed} of ${run.universe}, failed ${run.failed}, skipped ${run.skipped}; ${run.requests} provider ${run.requests === 1 ? "request" : "requests"}`);
+    
+    if (run.quotaExhausted) {
+      console.log(`  Provider quota exhausted; skipped tickers are picked up by the next run`);
+    }
+    console.log(`  Leaderboard ${run.leaderboardRefreshed ? "refreshed" : "not refreshed"}`);
+    
+    if (run.error) {
+      console.log(`  Error: ${run.error}`);
+    }
+    
+    const failed = run.results.filter(result => result.status === "failed");
+    if (failed.length > 0) {
+      console.log(`\nErrors (${failed.length}):`);
+      failed.forEach(result => console.log(`  • ${result.ticker}: ${result.error}`));
+    }
+  }
+
+  static formatLeaderboard(page: LeaderboardPage): void {
+    if (!page.date) {
+      console.log(`\n[Leaderboard] No leaderboard data yet; run "divvy refresh" first`);
+      return;
+    }
+    
+    const { query } = page;
+    const filters = [
+      query.sector ? `sector ${query.sector}` : null,
+      query.minYield !== null ? `yield >= ${OutputFormatter.formatPercentage(query.minYield)}` : null,
+      query.minStreak !== null ? `streak >= ${query.minStreak}` : null
+    ].filter(Boolean);
+    
+    console.log(`\n[Leaderboard] ${page.date}${filters.length > 0 ? ` (${filters.join(", ")})` : ""}: ${page.total} ${page.total === 1 ? "ticker" : "tickers"}, page ${query.page} of ${Math.max(page.totalPages, 1)}`);
+    
+    if (page.entries.length === 0) {
+      console.log("No tickers match");
+      return;
+    }
+    
+    console.log(`${"Rank".padStart(4)}  ${"Ticker".padEnd(8)}${"Score".padStart(6)}${"Fwd Yield".padStart(11)}${"Streak".padStart(8)}${"Price".padStart(10)}${"MoS".padStart(9)}  Sector`);
+    page.entries.forEach(entry => {
+      console.log(
+        `${String(entry.rank).padStart(4)}  ${entry.ticker.padEnd(8)}${String(entry.score).padStart(6)}` +
+        `${OutputFormatter.formatPercentage(entry.forwardYield).padStart(11)}${(entry.streak === null ? "—" : String(entry.streak)).padStart(8)}` +
+        `${OutputFormatter.formatNumber(entry.price).padStart(10)}${OutputFormatter.formatPercentage(entry.marginOfSafety).padStart(9)}  ${entry.sector ?? "—"}`
+      );
+    });
+    
+    if (query.page < page.totalPages) {
+      console.log(`\nNext page: --page ${query.page + 1}`);
+    }
+  }
+}
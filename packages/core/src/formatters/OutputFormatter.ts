@@ -1,7 +1,13 @@
-import type { DividendAnalysis } from '../models/DividendAnalysis.js';
+import type { DividendAnalysis, DividendScores, MultiStageDdmValuation, DdmSensitivityGrid, MonteCarloValuation } from '../models/DividendAnalysis.js';
+import { SCORE_FACTORS, type ScoreWeights } from '../models/ScoringProfile.js';
 import { DividendEliteDetector } from '../data/DividendAristocrats.js';
+import { SectorClassifier } from '../data/SectorRules.js';
 import { TechnicalIndicatorCalculator } from '../calculators/TechnicalIndicatorCalculator.js';
 
+/**
+ * Terminal output for a single analysis, plus the number formatting shared
+ * by the per-command formatters
+ */
 export class OutputFormatter {
   static formatPercentage(value: number | null): string {
     return value != null && isFinite(value) ? (value * 100).toFixed(2) + "%" : "—";
@@ -11,9 +17,28 @@ export class OutputFormatter {
     return value == null || !isFinite(value) ? "—" : value.toFixed(digits);
   }
 
+  /**
+   * Unicode block sparkline scaled between the series' min and max; gaps
+   * (null) render as spaces
+   */
+  static sparkline(values: Array<number | null>): string {
+    const blocks = "▁▂▃▄▅▆▇█";
+    const finite = values.filter((v): v is number => v !== null && isFinite(v));
+    if (finite.length === 0) return "";
+    
+    const min = Math.min(...finite);
+    const range = Math.max(...finite) - min;
+    
+    return values.map(value => {
+      if (value === null || !isFinite(value)) return " ";
+      const level = range === 0 ? 3 : Math.round(((value - min) / range) * (blocks.length - 1));
+      return blocks[level];
+    }).join("");
+  }
+
   static formatDividendAnalysis(analysis: DividendAnalysis, _requiredReturn: number): void {
     const { ticker, quote, ttmDividends, ttmYield, cagr3, cagr5, streak, fundamentals, 
-            safeGrowth, forwardDividend, forwardYield, scores, totalScore } = analysis;
+            safeGrowth, forwardDividend, forwardYield, scores, totalScore, scoringProfile } = analysis;
     
     console.log(`\n${quote.name} (${ticker}) — currency: ${quote.currency}`);
     console.log("──────────────────────────────────────────────────────────");
@@ -108,7 +133,13 @@ export class OutputFormatter {
       }
     }
     
-    console.log(`\nDividend Potential Score: ${totalScore}/100`);
+    console.log(`\nDividend Potential Score: ${totalScore}/100${scoringProfile === 'default' ? '' : ` (${scoringProfile} profile)`}`);
+    const sectorRule = SectorClassifier.ruleFor(quote.sector, quote.industry);
+    if (sectorRule.payout || sectorRule.coverage) {
+      const payoutBasis = sectorRule.payoutBasis === 'ffo' ? 'FFO payout' : 'EPS payout';
+      const coverageBasis = { fcf: 'FCF', affo: 'AFFO', ocf: 'operating cash flow', capital: 'Tier 1 capital' }[sectorRule.coverageBasis];
+      console.log(`• Sector rules: ${sectorRule.label} (${payoutBasis}, ${coverageBasis} coverage)`);
+    }
     console.log(`• Drivers → payout:${this.formatNumber(scores.payout, 0)} fcf:${this.formatNumber(scores.fcf, 0)} streak:${this.formatNumber(scores.streak, 0)} growth:${this.formatNumber(scores.growth, 0)} trend:${this.formatNumber(scores.trend, 0)} macd:${this.formatNumber(scores.macd, 0)} rsi:${this.formatNumber(scores.rsi, 0)}`);
   }
 
@@ -119,6 +150,76 @@ export class OutputFormatter {
     }
   }
 
+  static formatMultiStageDDM(valuation: MultiStageDdmValuation | null, currentPrice: number): void {
+    if (!valuation) return;
+    
+    const { highGrowth, highGrowthYears, fadeYears, terminalGrowth } = valuation.assumptions;
+    const upside = (price: number) => this.formatPercentage((price - currentPrice) / currentPrice);
+    
+    if (valuation.twoStage) {
+      console.log(`[DDM 2-stage] g1=${this.formatPercentage(highGrowth)} for ${highGrowthYears}y, then g2=${this.formatPercentage(terminalGrowth)}  ->  price*= ${this.formatNumber(valuation.twoStage)}  (${upside(valuation.twoStage)} vs current)`);
+    }
+    if (valuation.threeStage) {
+      console.log(`[DDM 3-stage] g1=${this.formatPercentage(highGrowth)} for ${highGrowthYears}y, fade ${fadeYears}y to g2=${this.formatPercentage(terminalGrowth)}  ->  price*= ${this.formatNumber(valuation.threeStage)}  (${upside(valuation.threeStage)} vs current)`);
+    }
+    if (valuation.hModel) {
+      console.log(`[DDM H-model] gS=${this.formatPercentage(highGrowth)} H=${fadeYears / 2}y gL=${this.formatPercentage(terminalGrowth)}  ->  price*= ${this.formatNumber(valuation.hModel)}  (${upside(valuation.hModel)} vs current)`);
+    }
+  }
+
+  static formatScoreExplanation(scores: DividendScores, weights: ScoreWeights): void {
+    console.log("\nScore breakdown:");
+    
+    if (!scores.explanations) {
+      console.log("  Explanations are not available for this cached analysis (use --force-fresh).");
+      return;
+    }
+    
+    const signed = (points: number) => `${points >= 0 ? '+' : ''}${this.formatNumber(points, 1)}`;
+    
+    for (const factor of SCORE_FACTORS) {
+      const { score, points, thresholds, fallbacks } = scores.explanations[factor];
+      console.log(`• ${factor.padEnd(7)} ${this.formatNumber(score, 0).padStart(3)} × ${weights[factor].toFixed(2)} = ${this.formatNumber(score * weights[factor], 1)}${thresholds.length ? `  [${thresholds.join('; ')}]` : ''}`);
+      for (const change of points) {
+        console.log(`    ${signed(change.points).padStart(7)}  ${change.reason}`);
+      }
+      for (const fallback of fallbacks) {
+        console.log(`    fallback: ${fallback}`);
+      }
+    }
+  }
+
+  static formatSensitivityGrid(grid: DdmSensitivityGrid): void {
+    const width = 10;
+    const pad = (text: string) => text.padStart(width);
+    
+    console.log("\n[DDM sensitivity] fair value by required return (rows) and growth (columns)");
+    console.log(pad("r \\ g") + grid.growthRates.map(g => pad(this.formatPercentage(g))).join(""));
+    
+    grid.cells.forEach((row, i) => {
+      const cells = row.map((cell, j) => {
+        if (cell.invalid) return pad("r≤g");
+        const value = this.formatNumber(cell.fairValue);
+        const nearest = grid.nearestToPrice?.row === i && grid.nearestToPrice.col === j;
+        return pad(nearest ? `[${value}]` : value);
+      });
+      console.log(pad(this.formatPercentage(grid.requiredReturns[i])) + cells.join(""));
+    });
+    
+    console.log("[x] = closest to current price, r≤g = undefined (required return must exceed growth)");
+  }
+
+  static formatMonteCarlo(result: MonteCarloValuation): void {
+    const draws = `${result.validIterations}/${result.iterations} draws, seed ${result.seed}, g from ${result.historicalGrowthRates.length} annual changes`;
+    
+    if (result.p50 == null) {
+      console.log(`[DDM Monte Carlo] ${draws}  ->  no valid fair values (need dividend history and r > g)`);
+      return;
+    }
+    
+    console.log(`[DDM Monte Carlo] ${draws}  ->  P10= ${this.formatNumber(result.p10)}  P50= ${this.formatNumber(result.p50)}  P90= ${this.formatNumber(result.p90)}  P(fair > price)= ${this.formatPercentage(result.probabilityAbovePrice)}`);
+  }
+
   static formatFooter(): void {
     console.log("\nNotes: This is an educational heuristic, not investment advice.");
   }
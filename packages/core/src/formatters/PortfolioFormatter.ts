@@ -0,0 +1,156 @@
+import { OutputFormatter } from './OutputFormatter.js';
+import type { DripProjection } from '../models/DividendAnalysis.js';
+import type { IncomeShare, PortfolioPosition, PortfolioSummary, TransactionImport } from '../models/Portfolio.js';
+import type { DividendCalendar } from '../models/DividendCalendar.js';
+import type { CalendarItemResult } from '../services/DividendCalendarService.js';
+
+/**
+ * Terminal output for holdings: portfolio, import, drip and calendar
+ */
+export class PortfolioFormatter {
+  static formatPortfolio(summary: PortfolioSummary): void {
+    const columns: Array<{ header: string; width: number; value: (p: PortfolioPosition) => string }> = [
+      { header: "Ticker", width: 8, value: p => p.holding.ticker },
+      { header: "Account", width: 12, value: p => (p.holding.account ?? "-").slice(0, 10) },
+      { header: "Shares", width: 10, value: p => OutputFormatter.formatNumber(p.holding.shares, Number.isInteger(p.holding.shares) ? 0 : 3) },
+      { header: "Value", width: 12, value: p => OutputFormatter.formatNumber(p.marketValue) },
+      { header: "Cost", width: 12, value: p => OutputFormatter.formatNumber(p.holding.costBasis) },
+      { header: "Fwd Income", width: 12, value: p => OutputFormatter.formatNumber(p.forwardIncome) },
+      { header: "YoC", width: 9, value: p => OutputFormatter.formatPercentage(p.yieldOnCost) },
+      { header: "Score", width: 7, value: p => p.analysis ? String(p.analysis.totalScore) : "—" }
+    ];
+    const row = (cells: string[]) => cells.map((cell, i) => i <= 1 ? cell.padEnd(columns[i].width) : cell.padStart(columns[i].width)).join("");
+    const { positions, totals, concentration } = summary;
+    const analyzed = positions.filter(position => position.analysis !== null);
+    const shares = (title: string, items: IncomeShare[]) => {
+      console.log(`\n${title}:`);
+      items.forEach(item => console.log(`  ${item.key.padEnd(24)}${OutputFormatter.formatNumber(item.income).padStart(12)}${OutputFormatter.formatPercentage(item.share).padStart(10)}`));
+    };
+    
+    console.log(`\n[Portfolio] ${analyzed.length}/${positions.length} positions analyzed`);
+    console.log(row(columns.map(column => column.header)));
+    positions.forEach(position => console.log(row(columns.map(column => column.value(position)))));
+    
+    console.log(`\nMarket value:          ${OutputFormatter.formatNumber(totals.marketValue)}`);
+    console.log(`Cost basis:            ${OutputFormatter.formatNumber(totals.costBasis)}`);
+    console.log(`Annual income (TTM):   ${OutputFormatter.formatNumber(totals.annualIncome)}`);
+    console.log(`Forward income:        ${OutputFormatter.formatNumber(totals.forwardIncome)} (${OutputFormatter.formatPercentage(totals.forwardYield)} yield)`);
+    console.log(`Yield on cost:         ${OutputFormatter.formatPercentage(totals.yieldOnCost)}`);
+    console.log(`Weighted score:        ${OutputFormatter.formatNumber(totals.weightedScore, 1)}/100 (by market value)`);
+    
+    if (analyzed.length > 0) {
+      shares("Income by ticker", concentration.byTicker);
+      shares("Income by sector", concentration.bySector);
+    }
+    
+    const failed = positions.filter(position => position.error !== null);
+    if (failed.length > 0) {
+      console.log(`\nNot analyzed (${failed.length}), excluded from totals:`);
+      failed.forEach(position => console.log(`  • ${position.holding.ticker}: ${position.error!.message}`));
+    }
+  }
+
+  static formatImport(result: TransactionImport, source: string): void {
+    const dividends = Object.values(result.dividends).reduce((total, amount) => total + amount, 0);
+    
+    console.log(`\n[Import] ${result.transactions.length} transactions from ${source}: ${result.holdings.length} positions in ${result.lots.length} tax lots`);
+    
+    if (result.holdings.length > 0) {
+      console.log(`${"Ticker".padEnd(8)}${"Account".padEnd(14)}${"Shares".padStart(12)}${"Cost".padStart(14)}${"Lots".padStart(6)}`);
+      result.holdings.forEach(holding => {
+        const lots = result.lots.filter(lot => lot.ticker === holding.ticker && lot.account === holding.account).length;
+        console.log(`${holding.ticker.padEnd(8)}${(holding.account ?? "-").slice(0, 12).padEnd(14)}${String(holding.shares).padStart(12)}${OutputFormatter.formatNumber(holding.costBasis).padStart(14)}${String(lots).padStart(6)}`);
+      });
+    }
+    
+    if (dividends > 0) {
+      console.log(`\nCash dividends received: ${OutputFormatter.formatNumber(dividends)}`);
+    }
+    
+    if (result.issues.length > 0) {
+      console.log(`\nSkipped rows (${result.issues.length}):`);
+      result.issues.forEach(issue => console.log(`  • Line ${issue.line}: ${issue.message}`));
+    }
+  }
+
+  static formatDripProjection(ticker: string, projection: DripProjection): void {
+    const { assumptions, drip, cash } = projection;
+    const table = (headers: string[], rows: string[][]) => {
+      const line = (cells: string[]) => cells.map((cell, i) => i === 0 ? cell.padEnd(6) : cell.padStart(13)).join("");
+      console.log(line(headers));
+      rows.forEach(row => console.log(line(row)));
+    };
+    
+    console.log(`\n[DRIP] ${ticker}: ${assumptions.shares} shares at ${OutputFormatter.formatNumber(assumptions.price)} (cost ${OutputFormatter.formatNumber(assumptions.costBasis)}), ${assumptions.years} years`);
+    console.log(`D1 ${OutputFormatter.formatNumber(assumptions.dividend)}, dividend growth ${OutputFormatter.formatPercentage(assumptions.dividendGrowth)}/yr, price growth ${OutputFormatter.formatPercentage(assumptions.priceGrowth)}/yr, reinvested ${assumptions.paymentsPerYear}x a year\n`);
+    
+    table(
+      ["Year", "Shares", "Div/Share", "Income", "YoC", "Price", "Value"],
+      drip.map(row => [
+        String(row.year),
+        OutputFormatter.formatNumber(row.shares, 3),
+        OutputFormatter.formatNumber(row.dividendPerShare),
+        OutputFormatter.formatNumber(row.income),
+        OutputFormatter.formatPercentage(row.yieldOnCost),
+        OutputFormatter.formatNumber(row.price),
+        OutputFormatter.formatNumber(row.positionValue)
+      ])
+    );
+    
+    if (cash) {
+      console.log(`\nDRIP vs. taking cash (total = position value + dividends collected):`);
+      table(
+        ["Year", "DRIP Income", "Cash Income", "DRIP Total", "Cash Total", "Difference"],
+        drip.map((row, i) => [
+          String(row.year),
+          OutputFormatter.formatNumber(row.income),
+          OutputFormatter.formatNumber(cash[i].income),
+          OutputFormatter.formatNumber(row.totalValue),
+          OutputFormatter.formatNumber(cash[i].totalValue),
+          OutputFormatter.formatNumber(row.totalValue - cash[i].totalValue)
+        ])
+      );
+    }
+  }
+
+  static formatDividendCalendar(calendar: DividendCalendar, results: CalendarItemResult[]): void {
+    const date = (value: Date | null) => value ? value.toISOString().slice(0, 10) : "—";
+    const markers = { projected: "", confirmed: " ✓", provider: " !" };
+    const withCash = calendar.totalCash !== null;
+    
+    console.log(`\n[Calendar] ${date(calendar.from)} to ${date(calendar.to)}: ${calendar.entries.length} expected payments from ${calendar.schedules.length} ${calendar.schedules.length === 1 ? "ticker" : "tickers"}`);
+    
+    if (calendar.entries.length > 0) {
+      console.log(`${"Ex-Date".padEnd(12)}${"Pay Date".padEnd(12)}${"Ticker".padEnd(8)}${"Per Share".padStart(10)}${withCash ? `${"Shares".padStart(12)}${"Cash".padStart(12)}` : ""}`);
+      calendar.entries.forEach(entry => {
+        const cash = withCash ? `${OutputFormatter.formatNumber(entry.shares, 3).padStart(12)}${OutputFormatter.formatNumber(entry.expectedCash).padStart(12)}` : "";
+        console.log(`${date(entry.exDate).padEnd(12)}${date(entry.payDate).padEnd(12)}${entry.ticker.padEnd(8)}${OutputFormatter.formatNumber(entry.amountPerShare, 4).padStart(10)}${cash}${markers[entry.source]}`);
+      });
+      console.log("✓ ex-date confirmed by the provider, ! announced date differs from the cadence; others projected at the latest amount");
+    }
+    
+    if (withCash) {
+      console.log(`\nExpected cash by month (pay date):`);
+      calendar.monthlyCash.forEach(({ month, cash }) => console.log(`  ${month}${OutputFormatter.formatNumber(cash).padStart(14)}`));
+      console.log(`  ${"Total".padEnd(7)}${OutputFormatter.formatNumber(calendar.totalCash).padStart(14)}`);
+      
+      console.log(`\nExpected cash by holding:`);
+      calendar.holdings.forEach(({ holding, expectedCash }) => {
+        console.log(`  ${holding.ticker.padEnd(8)}${(holding.account ?? "-").slice(0, 12).padEnd(14)}${OutputFormatter.formatNumber(expectedCash).padStart(12)}`);
+      });
+    }
+    
+    console.log(`\nPayment schedules:`);
+    calendar.schedules.forEach(schedule => {
+      const last = schedule.lastExDate ? `, last ex-date ${date(schedule.lastExDate)} (${OutputFormatter.formatNumber(schedule.lastAmount, 4)})` : "";
+      console.log(`  ${schedule.ticker.padEnd(8)}${schedule.frequency ?? "none"}${last}, paid ~${schedule.payLagDays} days after ex-date`);
+      schedule.notes.forEach(note => console.log(`    ⚠️  ${note}`));
+    });
+    
+    const failed = results.filter(result => result.error !== null);
+    if (failed.length > 0) {
+      console.log(`\nErrors (${failed.length}):`);
+      failed.forEach(result => console.log(`  • ${result.ticker}: ${result.error!.message}`));
+    }
+  }
+}
@@ -0,0 +1,276 @@
+import { OutputFormatter } from './OutputFormatter.js';
+import { SvgChart } from './SvgChart.js';
+import { SCORE_FACTORS } from '../models/ScoringProfile.js';
+import { DividendEliteDetector } from '../data/DividendAristocrats.js';
+import type { DdmSensitivityGrid, DividendAnalysis } from '../models/DividendAnalysis.js';
+import type { ReportData } from '../services/ReportService.js';
+
+export type ReportFormat = 'html' | 'markdown';
+
+type Row = [label: string, value: string];
+
+const STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #111827; max-width: 880px; margin: 2rem auto; padding: 0 1rem; line-height: 1.45; }
+  h1 { margin-bottom: 0.2rem; } h2 { margin-top: 2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.3rem; }
+  .meta { color: #6b7280; font-size: 0.9rem; }
+  table { border-collapse: collapse; width: 100%; margin: 0.8rem 0; font-size: 0.92rem; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 0.35rem 0.5rem; text-align: left; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  td.best { font-weight: 600; background: #ecfdf5; }
+  td.invalid { color: #9ca3af; }
+  .score { font-size: 2rem; font-weight: 700; }
+  details { margin: 0.3rem 0; } summary { cursor: pointer; }
+  footer { margin-top: 2.5rem; color: #6b7280; font-size: 0.85rem; }
+`;
+
+/**
+ * Renders a report as one self-contained HTML page (inline CSS and SVG, no
+ * scripts or external assets) or as Markdown for wikis. Both show the same
+ * figures as the terminal output.
+ */
+export class ReportFormatter {
+  private static readonly SPARKLINE_WIDTH = 60;
+
+  static render(report: ReportData, format: ReportFormat): string {
+    return format === 'html' ? this.html(report) : this.markdown(report);
+  }
+
+  static html(report: ReportData): string {
+    const { analysis, profile } = report;
+    const { quote, ticker } = analysis;
+    const esc = this.escape;
+    const table = (rows: Row[]) =>
+      `<table>${rows.map(([label, value]) => `<tr><th>${esc(label)}</th><td class="num">${esc(value)}</td></tr>`).join('')}</table>`;
+
+    const dividendChart = SvgChart.bars(
+      analysis.annualDividends.map(([year, amount]) => ({ label: String(year), value: amount })),
+      { format: value => value.toFixed(2) }
+    );
+
+    const history = report.priceHistory;
+    const priceChart = SvgChart.lines([
+      { label: 'Close', color: '#111827', values: history.map(p => p.close) },
+      { label: 'EMA20', color: '#f59e0b', values: history.map(p => p.ema20) },
+      { label: 'EMA50', color: '#2563eb', values: history.map(p => p.ema50) },
+      { label: 'EMA200', color: '#dc2626', values: history.map(p => p.ema200) }
+    ], history.map(p => p.date.toISOString().slice(0, 10)));
+
+    const scoreChart = SvgChart.horizontalBars(
+      SCORE_FACTORS.map(factor => ({ label: factor, value: analysis.scores[factor] })),
+      100
+    );
+
+    const scoreRows = this.scoreRows(report).map(row =>
+      `<tr><td>${esc(row.factor)}</td><td class="num">${esc(row.score)}</td><td class="num">${esc(row.weight)}</td><td class="num">${esc(row.contribution)}</td></tr>`
+    ).join('');
+
+    const explanations = analysis.scores.explanations
+      ? SCORE_FACTORS.map(factor => {
+          const explanation = analysis.scores.explanations![factor];
+          const items = [
+            ...explanation.points.map(change => `${change.points >= 0 ? '+' : ''}${change.points.toFixed(1)} ${change.reason}`),
+            ...explanation.fallbacks.map(fallback => `fallback: ${fallback}`)
+          ];
+          return `<details><summary>${esc(factor)} — ${explanation.score.toFixed(0)}</summary><ul>${items.map(item => `<li>${esc(item)}</li>`).join('')}</ul></details>`;
+        }).join('')
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(ticker)} dividend report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${esc(quote.name || ticker)} (${esc(ticker)})</h1>
+<p class="meta">${esc(this.metaLine(report))}</p>
+<p><span class="score">${analysis.totalScore}/100</span> dividend potential score${profile.name === 'default' ? '' : ` (${esc(profile.name)} profile)`}</p>
+
+<h2>Key metrics</h2>
+${table(this.metricRows(analysis))}
+
+<h2>Annual dividends</h2>
+${dividendChart}
+
+<h2>Price and moving averages</h2>
+${priceChart}
+
+<h2>Score breakdown</h2>
+${scoreChart}
+<table><tr><th>Factor</th><th class="num">Score</th><th class="num">Weight</th><th class="num">Points</th></tr>${scoreRows}</table>
+${explanations}
+
+<h2>Valuation</h2>
+${table(this.valuationRows(analysis))}
+${this.sensitivityHtml(analysis.ddmSensitivity)}
+
+<footer>This is an educational heuristic, not investment advice.</footer>
+</body>
+</html>
+`;
+  }
+
+  static markdown(report: ReportData): string {
+    const { analysis, profile } = report;
+    const { quote, ticker } = analysis;
+    const cell = (text: string) => text.replace(/\|/g, '\\|');
+    const table = (header: string[], rows: string[][], numeric: boolean[] = []) => [
+      `| ${header.map(cell).join(' | ')} |`,
+      `| ${header.map((_, i) => numeric[i] ? '---:' : '---').join(' | ')} |`,
+      ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+    ].join('\n');
+
+    const closes = report.priceHistory.map(p => p.close);
+    const last = report.priceHistory[report.priceHistory.length - 1];
+    const grid = analysis.ddmSensitivity;
+
+    const sections = [
+      `# ${quote.name || ticker} (${ticker})`,
+      `_${this.metaLine(report)}_`,
+      `**Dividend potential score: ${analysis.totalScore}/100**${profile.name === 'default' ? '' : ` (${profile.name} profile)`}`,
+      '## Key metrics',
+      table(['Metric', 'Value'], this.metricRows(analysis), [false, true]),
+      '## Annual dividends',
+      analysis.annualDividends.length > 0
+        ? `\`${OutputFormatter.sparkline(analysis.annualDividends.map(([, amount]) => amount))}\`\n\n` +
+          table(['Year', 'Dividends'], analysis.annualDividends.map(([year, amount]) => [String(year), amount.toFixed(4)]), [false, true])
+        : 'No dividend history.',
+      '## Price and moving averages',
+      last
+        ? `\`${OutputFormatter.sparkline(this.sample(closes, this.SPARKLINE_WIDTH))}\`\n\n` +
+          table(['', 'Value'], [
+            ['Close', OutputFormatter.formatNumber(last.close)],
+            ['EMA20', OutputFormatter.formatNumber(last.ema20)],
+            ['EMA50', OutputFormatter.formatNumber(last.ema50)],
+            ['EMA200', OutputFormatter.formatNumber(last.ema200)]
+          ], [false, true])
+        : 'No price history.',
+      '## Score breakdown',
+      table(['Factor', 'Score', 'Weight', 'Points'],
+        this.scoreRows(report).map(row => [row.factor, row.score, row.weight, row.contribution]),
+        [false, true, true, true]),
+      '## Valuation',
+      table(['Model', 'Value'], this.valuationRows(analysis), [false, true]),
+      grid.cells.length > 0
+        ? '### DDM sensitivity (fair value)\n\n' + table(
+            ['r \\ g', ...grid.growthRates.map(g => OutputFormatter.formatPercentage(g))],
+            grid.cells.map((row, i) => [
+              OutputFormatter.formatPercentage(grid.requiredReturns[i]),
+              ...row.map((c, j) => {
+                if (c.invalid) return 'r≤g';
+                const value = OutputFormatter.formatNumber(c.fairValue);
+                return grid.nearestToPrice?.row === i && grid.nearestToPrice.col === j ? `**${value}**` : value;
+              })
+            ]),
+            [false, ...grid.growthRates.map(() => true)])
+        : '',
+      '---',
+      '_This is an educational heuristic, not investment advice._'
+    ];
+
+    return sections.filter(section => section.length > 0).join('\n\n') + '\n';
+  }
+
+  private static metaLine(report: ReportData): string {
+    const { quote } = report.analysis;
+    const parts = [
+      quote.sector ? `${quote.sector}${quote.industry ? ` · ${quote.industry}` : ''}` : null,
+      `currency ${quote.currency}`,
+      report.asOf ? `data as of ${report.asOf.toISOString().slice(0, 10)}` : null,
+      `generated ${report.generatedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`
+    ];
+    return parts.filter(part => part !== null).join(' — ');
+  }
+
+  private static metricRows(analysis: DividendAnalysis): Row[] {
+    const { quote, fundamentals, ema, rsi } = analysis;
+    const pct = (value: number | null) => value == null || !isFinite(value) ? '—' : OutputFormatter.formatPercentage(value);
+    const elite = DividendEliteDetector.isKnownElite(analysis.ticker);
+    const versus = (average: number | null) => average ? `${OutputFormatter.formatNumber(average)} (${quote.price > average ? 'above' : 'below'})` : '—';
+
+    return [
+      ['Price', `${OutputFormatter.formatNumber(quote.price)} ${quote.currency}`],
+      ['TTM dividends', `${OutputFormatter.formatNumber(analysis.ttmDividends)} (${pct(analysis.ttmYield)})`],
+      ['Expected forward yield', `${pct(analysis.forwardYield)} (D1 = ${OutputFormatter.formatNumber(analysis.forwardDividend)})`],
+      ['3y / 5y dividend CAGR', `${pct(analysis.cagr3)} / ${pct(analysis.cagr5)}`],
+      ['Dividend streak', `${analysis.streak} year(s)${elite ? ` — ${elite.category === 'king' ? 'Dividend King' : 'Dividend Aristocrat'}` : ''}`],
+      ['EPS payout ratio', pct(fundamentals.epsPayoutRatio)],
+      ['FCF payout ratio', pct(fundamentals.fcfPayoutRatio)],
+      ['FCF coverage', isFinite(fundamentals.fcfCoverage) ? `${OutputFormatter.formatNumber(fundamentals.fcfCoverage)}x` : '—'],
+      ['Safe growth used', pct(analysis.safeGrowth)],
+      ['EMA200', versus(ema.ema200)],
+      ['EMA50', versus(ema.ema50)],
+      [`RSI(${rsi.period})`, OutputFormatter.formatNumber(rsi.rsi, 1)]
+    ];
+  }
+
+  private static valuationRows(analysis: DividendAnalysis): Row[] {
+    const { valuation, multiStageDdm, quote } = analysis;
+    const price = (value: number | null) => {
+      if (value == null || !quote.price) return OutputFormatter.formatNumber(value);
+      return `${OutputFormatter.formatNumber(value)} (${OutputFormatter.formatPercentage((value - quote.price) / quote.price)} vs current)`;
+    };
+
+    const rows: Row[] = [
+      [`Gordon Growth (r=${OutputFormatter.formatPercentage(valuation.requiredReturn)}, g=${OutputFormatter.formatPercentage(valuation.growth)})`, price(valuation.ddmPrice)]
+    ];
+
+    if (multiStageDdm) {
+      const { highGrowth, highGrowthYears, fadeYears, terminalGrowth } = multiStageDdm.assumptions;
+      rows.push(
+        [`2-stage (g1=${OutputFormatter.formatPercentage(highGrowth)} for ${highGrowthYears}y, g2=${OutputFormatter.formatPercentage(terminalGrowth)})`, price(multiStageDdm.twoStage)],
+        [`3-stage (fade ${fadeYears}y)`, price(multiStageDdm.threeStage)],
+        [`H-model (H=${fadeYears / 2}y)`, price(multiStageDdm.hModel)]
+      );
+    }
+
+    return rows;
+  }
+
+  private static scoreRows(report: ReportData): Array<{ factor: string; score: string; weight: string; contribution: string }> {
+    const { scores } = report.analysis;
+    const { weights } = report.profile;
+
+    return [
+      ...SCORE_FACTORS.map(factor => ({
+        factor,
+        score: OutputFormatter.formatNumber(scores[factor], 0),
+        weight: weights[factor].toFixed(2),
+        contribution: OutputFormatter.formatNumber(scores[factor] * weights[factor], 1)
+      })),
+      { factor: 'total', score: String(report.analysis.totalScore), weight: '1.00', contribution: String(report.analysis.totalScore) }
+    ];
+  }
+
+  private static sensitivityHtml(grid: DdmSensitivityGrid): string {
+    if (grid.cells.length === 0) return '';
+
+    const header = grid.growthRates.map(g => `<th class="num">g ${this.escape(OutputFormatter.formatPercentage(g))}</th>`).join('');
+    const rows = grid.cells.map((row, i) => {
+      const cells = row.map((c, j) => {
+        if (c.invalid) return '<td class="num invalid">r≤g</td>';
+        const nearest = grid.nearestToPrice?.row === i && grid.nearestToPrice.col === j;
+        return `<td class="num${nearest ? ' best' : ''}">${this.escape(OutputFormatter.formatNumber(c.fairValue))}</td>`;
+      }).join('');
+      return `<tr><th>r ${this.escape(OutputFormatter.formatPercentage(grid.requiredReturns[i]))}</th>${cells}</tr>`;
+    }).join('');
+
+    return `<h3>DDM sensitivity (fair value)</h3><table><tr><th></th>${header}</tr>${rows}</table>` +
+      '<p class="meta">Highlighted: closest to current price. r≤g: undefined (required return must exceed growth).</p>';
+  }
+
+  /**
+   * Evenly spaced values, always keeping the latest
+   */
+  private static sample(values: number[], max: number): number[] {
+    if (values.length <= max) return values;
+    const step = (values.length - 1) / (max - 1);
+    return Array.from({ length: max }, (_, i) => values[Math.round(i * step)]);
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
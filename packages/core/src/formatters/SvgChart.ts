@@ -0,0 +1,158 @@
+export interface BarPoint {
+  label: string;
+  value: number;
+}
+
+export interface LineSeries {
+  label: string;
+  color: string;
+  values: Array<number | null>;   // one per x position; null leaves a gap
+}
+
+interface ChartOptions {
+  width?: number;
+  height?: number;
+  format?: (value: number) => string;
+}
+
+const PADDING = { top: 16, right: 16, bottom: 28, left: 56 };
+const AXIS_COLOR = '#9ca3af';
+const TEXT_STYLE = 'font-family="system-ui, sans-serif" font-size="11" fill="#4b5563"';
+
+/**
+ * Small dependency-free SVG charts for self-contained reports. Output is
+ * deterministic for the same input.
+ */
+export class SvgChart {
+  static bars(points: BarPoint[], options: ChartOptions & { color?: string } = {}): string {
+    const { width = 640, height = 240, format = (v: number) => v.toFixed(2), color = '#2563eb' } = options;
+    const plotWidth = width - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const max = Math.max(0, ...points.map(p => p.value));
+
+    if (points.length === 0 || max <= 0) {
+      return this.empty(width, height, 'No data');
+    }
+
+    const slot = plotWidth / points.length;
+    const barWidth = Math.max(1, slot * 0.7);
+    // Label every nth bar so long histories stay legible
+    const labelEvery = Math.ceil(points.length / 12);
+
+    const bars = points.map((point, i) => {
+      const barHeight = (Math.max(0, point.value) / max) * plotHeight;
+      const x = PADDING.left + i * slot + (slot - barWidth) / 2;
+      const y = PADDING.top + plotHeight - barHeight;
+      const label = i % labelEvery === 0
+        ? `<text x="${this.n(x + barWidth / 2)}" y="${height - 10}" text-anchor="middle" ${TEXT_STYLE}>${this.escape(point.label)}</text>`
+        : '';
+      return `<rect x="${this.n(x)}" y="${this.n(y)}" width="${this.n(barWidth)}" height="${this.n(barHeight)}" fill="${color}"><title>${this.escape(point.label)}: ${this.escape(format(point.value))}</title></rect>${label}`;
+    });
+
+    return this.svg(width, height, [
+      this.yAxis(0, max, plotHeight, width, format),
+      ...bars
+    ].join(''));
+  }
+
+  static lines(series: LineSeries[], xLabels: string[], options: ChartOptions = {}): string {
+    const { width = 640, height = 260, format = (v: number) => v.toFixed(2) } = options;
+    const plotWidth = width - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const values = series.flatMap(s => s.values).filter((v): v is number => v !== null && isFinite(v));
+
+    if (values.length === 0 || xLabels.length < 2) {
+      return this.empty(width, height, 'No price history');
+    }
+
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+    if (min === max) {
+      min -= 1;
+      max += 1;
+    }
+
+    const x = (i: number) => PADDING.left + (i / (xLabels.length - 1)) * plotWidth;
+    const y = (v: number) => PADDING.top + plotHeight - ((v - min) / (max - min)) * plotHeight;
+
+    const paths = series.map(s => {
+      let d = '';
+      let penDown = false;
+      s.values.forEach((value, i) => {
+        if (value === null || !isFinite(value)) {
+          penDown = false;
+          return;
+        }
+        d += `${penDown ? 'L' : 'M'}${this.n(x(i))} ${this.n(y(value))}`;
+        penDown = true;
+      });
+      return d ? `<path d="${d}" fill="none" stroke="${s.color}" stroke-width="1.5"><title>${this.escape(s.label)}</title></path>` : '';
+    });
+
+    const ticks = [0, Math.floor((xLabels.length - 1) / 2), xLabels.length - 1].map((i, k) =>
+      `<text x="${this.n(x(i))}" y="${height - 10}" text-anchor="${['start', 'middle', 'end'][k]}" ${TEXT_STYLE}>${this.escape(xLabels[i])}</text>`
+    );
+
+    const legend = series.map((s, i) =>
+      `<rect x="${PADDING.left + 8 + i * 90}" y="${PADDING.top}" width="10" height="10" fill="${s.color}"/>` +
+      `<text x="${PADDING.left + 22 + i * 90}" y="${PADDING.top + 9}" ${TEXT_STYLE}>${this.escape(s.label)}</text>`
+    );
+
+    return this.svg(width, height, [
+      this.yAxis(min, max, plotHeight, width, format),
+      ...paths,
+      ...ticks,
+      ...legend
+    ].join(''));
+  }
+
+  /**
+   * One horizontal bar per item on a fixed 0..max scale, e.g. factor scores out of 100
+   */
+  static horizontalBars(points: BarPoint[], max: number, options: ChartOptions & { color?: string } = {}): string {
+    const { width = 640, format = (v: number) => v.toFixed(0), color = '#059669' } = options;
+    const rowHeight = 22;
+    const labelWidth = 90;
+    const valueWidth = 48;
+    const height = points.length * rowHeight + 8;
+    const barSpace = width - labelWidth - valueWidth;
+
+    const rows = points.map((point, i) => {
+      const y = 4 + i * rowHeight;
+      const barWidth = (Math.min(Math.max(point.value, 0), max) / max) * barSpace;
+      return `<text x="0" y="${y + 14}" ${TEXT_STYLE}>${this.escape(point.label)}</text>` +
+        `<rect x="${labelWidth}" y="${y + 3}" width="${this.n(barSpace)}" height="14" fill="#f3f4f6"/>` +
+        `<rect x="${labelWidth}" y="${y + 3}" width="${this.n(barWidth)}" height="14" fill="${color}"/>` +
+        `<text x="${width - valueWidth + 8}" y="${y + 14}" ${TEXT_STYLE}>${this.escape(format(point.value))}</text>`;
+    });
+
+    return this.svg(width, height, rows.join(''));
+  }
+
+  private static yAxis(min: number, max: number, plotHeight: number, width: number, format: (v: number) => string): string {
+    const ticks = [0, 0.5, 1].map(t => {
+      const value = min + (max - min) * t;
+      const y = PADDING.top + plotHeight - t * plotHeight;
+      return `<line x1="${PADDING.left}" x2="${width - PADDING.right}" y1="${this.n(y)}" y2="${this.n(y)}" stroke="#e5e7eb"/>` +
+        `<text x="${PADDING.left - 6}" y="${this.n(y + 4)}" text-anchor="end" ${TEXT_STYLE}>${this.escape(format(value))}</text>`;
+    });
+    return ticks.join('') +
+      `<line x1="${PADDING.left}" x2="${PADDING.left}" y1="${PADDING.top}" y2="${PADDING.top + plotHeight}" stroke="${AXIS_COLOR}"/>`;
+  }
+
+  private static empty(width: number, height: number, message: string): string {
+    return this.svg(width, height, `<text x="${width / 2}" y="${height / 2}" text-anchor="middle" ${TEXT_STYLE}>${this.escape(message)}</text>`);
+  }
+
+  private static svg(width: number, height: number, body: string): string {
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="100%" role="img">${body}</svg>`;
+  }
+
+  private static n(value: number): string {
+    return String(Math.round(value * 10) / 10);
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,117 @@
+import { JsonFormatter, type AnalysisJson } from './JsonFormatter.js';
+import { XlsxWriter, type CellValue } from './XlsxWriter.js';
+import type { BatchItemResult } from '../services/BatchAnalysisService.js';
+
+interface Column {
+  name: string;
+  value: (analysis: AnalysisJson) => CellValue;
+}
+
+/**
+ * Export columns, one row per ticker. Names and order are a public contract:
+ * only ever append new columns (before `error`, which stays last).
+ */
+const ANALYSIS_COLUMNS: Column[] = [
+  { name: 'ticker', value: a => a.ticker },
+  { name: 'name', value: a => a.name },
+  { name: 'currency', value: a => a.currency },
+  { name: 'sector', value: a => a.sector },
+  { name: 'industry', value: a => a.industry },
+  { name: 'price', value: a => a.price },
+  { name: 'ttm_dividends', value: a => a.dividends.ttm },
+  { name: 'ttm_yield', value: a => a.dividends.ttmYield },
+  { name: 'forward_dividend', value: a => a.dividends.forward },
+  { name: 'forward_yield', value: a => a.dividends.forwardYield },
+  { name: 'cagr3', value: a => a.dividends.cagr3 },
+  { name: 'cagr5', value: a => a.dividends.cagr5 },
+  { name: 'safe_growth', value: a => a.dividends.safeGrowth },
+  { name: 'streak', value: a => a.dividends.streak },
+  { name: 'operating_cash_flow', value: a => a.fundamentals.operatingCashFlow },
+  { name: 'capital_expenditure', value: a => a.fundamentals.capitalExpenditure },
+  { name: 'free_cash_flow', value: a => a.fundamentals.freeCashFlow },
+  { name: 'cash_dividends_paid', value: a => a.fundamentals.cashDividendsPaid },
+  { name: 'net_income', value: a => a.fundamentals.netIncome },
+  { name: 'payout_eps', value: a => a.fundamentals.epsPayoutRatio },
+  { name: 'payout_fcf', value: a => a.fundamentals.fcfPayoutRatio },
+  { name: 'fcf_coverage', value: a => a.fundamentals.fcfCoverage },
+  { name: 'scoring_profile', value: a => a.scores.profile },
+  { name: 'score_total', value: a => a.scores.total },
+  { name: 'score_payout', value: a => a.scores.factors.payout },
+  { name: 'score_fcf', value: a => a.scores.factors.fcf },
+  { name: 'score_streak', value: a => a.scores.factors.streak },
+  { name: 'score_growth', value: a => a.scores.factors.growth },
+  { name: 'score_trend', value: a => a.scores.factors.trend },
+  { name: 'score_macd', value: a => a.scores.factors.macd },
+  { name: 'score_rsi', value: a => a.scores.factors.rsi },
+  { name: 'ema20', value: a => a.technicals.ema20 },
+  { name: 'ema50', value: a => a.technicals.ema50 },
+  { name: 'ema200', value: a => a.technicals.ema200 },
+  { name: 'macd_line', value: a => a.technicals.macdLine },
+  { name: 'macd_signal', value: a => a.technicals.macdSignal },
+  { name: 'macd_histogram', value: a => a.technicals.macdHistogram },
+  { name: 'rsi', value: a => a.technicals.rsi },
+  { name: 'ddm_price', value: a => a.valuation.ddmPrice },
+  { name: 'ddm_upside', value: a => a.valuation.upside },
+  { name: 'required_return', value: a => a.valuation.requiredReturn },
+  { name: 'ddm_growth', value: a => a.valuation.growth },
+  { name: 'ddm_two_stage', value: a => a.valuation.multiStage?.twoStage ?? null },
+  { name: 'ddm_three_stage', value: a => a.valuation.multiStage?.threeStage ?? null },
+  { name: 'ddm_h_model', value: a => a.valuation.multiStage?.hModel ?? null }
+];
+
+const ANNUAL_DIVIDEND_HEADER = ['ticker', 'year', 'amount'];
+
+/**
+ * Flattens analyses into rows for CSV and spreadsheet export
+ */
+export class TabularFormatter {
+  static readonly COLUMNS: readonly string[] = [...ANALYSIS_COLUMNS.map(column => column.name), 'error'];
+  static readonly ANNUAL_DIVIDEND_COLUMNS: readonly string[] = ANNUAL_DIVIDEND_HEADER;
+
+  /**
+   * Header plus one row per ticker; failed tickers keep their row with only
+   * `ticker` and `error` filled in
+   */
+  static analysisRows(results: BatchItemResult[]): CellValue[][] {
+    const rows = results.map(result => {
+      if (!result.analysis) {
+        return [result.ticker, ...ANALYSIS_COLUMNS.slice(1).map(() => null), result.error.message];
+      }
+      const json = JsonFormatter.analysis(result.analysis);
+      return [...ANALYSIS_COLUMNS.map(column => column.value(json)), null];
+    });
+
+    return [[...this.COLUMNS], ...rows];
+  }
+
+  static annualDividendRows(results: BatchItemResult[]): CellValue[][] {
+    const rows = results.flatMap(result => result.analysis
+      ? result.analysis.annualDividends.map(([year, amount]): CellValue[] => [result.ticker, year, amount])
+      : []);
+
+    return [[...ANNUAL_DIVIDEND_HEADER], ...rows];
+  }
+
+  static csv(results: BatchItemResult[]): string {
+    return this.analysisRows(results).map(row => row.map(value => this.csvCell(value)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  static xlsx(results: BatchItemResult[]): Buffer {
+    return XlsxWriter.write([
+      { name: 'Analyses', rows: this.analysisRows(results) },
+      { name: 'AnnualDividends', rows: this.annualDividendRows(results) }
+    ]);
+  }
+
+  private static csvCell(value: CellValue): string {
+    if (value === null || (typeof value === 'number' && !isFinite(value))) {
+      return '';
+    }
+    if (typeof value === 'number') {
+      return String(value);
+    }
+    // Leading =, +, - or @ would run as a formula when opened in a spreadsheet
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,52 @@
+import { BatchFormatter } from './BatchFormatter.js';
+import type { Alert } from '../models/Watchlist.js';
+import type { NotificationDelivery } from '../models/Notification.js';
+import type { BatchItemResult } from '../services/BatchAnalysisService.js';
+
+/**
+ * A watchlist with its rules and channels already described for display
+ */
+export interface WatchlistListing {
+  name: string;
+  tickers: string[];
+  rules: string[];
+  channels: string[];
+}
+
+/**
+ * Terminal output for watchlists and the alerts `divvy watch` raised
+ */
+export class WatchlistFormatter {
+  static formatWatchlists(watchlists: WatchlistListing[], store: string): void {
+    if (watchlists.length === 0) {
+      console.log(`No watchlists in ${store}`);
+      return;
+    }
+    
+    watchlists.forEach(watchlist => {
+      console.log(`\n[${watchlist.name}] ${watchlist.tickers.length} ${watchlist.tickers.length === 1 ? "ticker" : "tickers"}: ${watchlist.tickers.join(", ") || "—"}`);
+      console.log(`  Rules: ${watchlist.rules.join(", ") || "none"}`);
+      watchlist.channels.forEach(channel => console.log(`  Notify: ${channel}`));
+    });
+  }
+
+  static formatAlerts(watchlists: string[], alerts: Alert[], deliveries: NotificationDelivery[], results: BatchItemResult[]): void {
+    console.log(`\n[Watch] ${alerts.length} new ${alerts.length === 1 ? "alert" : "alerts"} across ${watchlists.length} ${watchlists.length === 1 ? "watchlist" : "watchlists"}`);
+    
+    alerts.forEach(alert => {
+      console.log(`  🔔 ${alert.watchlist.padEnd(14)}${alert.ruleKey.padEnd(16)}${alert.message}`);
+    });
+    
+    if (deliveries.length > 0) {
+      const marks = { sent: "✅", "dry-run": "📝", failed: "❌" };
+      console.log(`\nNotifications:`);
+      deliveries.forEach(delivery => {
+        const tries = delivery.attempts > 0 ? ` after ${delivery.attempts} ${delivery.attempts === 1 ? "attempt" : "attempts"}` : "";
+        const detail = delivery.status === "failed" ? `failed${tries}: ${delivery.error}` : delivery.status;
+        console.log(`  ${marks[delivery.status]} ${delivery.watchlist.padEnd(14)}${delivery.channel} (${delivery.alerts} ${delivery.alerts === 1 ? "alert" : "alerts"}) ${detail}`);
+      });
+    }
+    
+    BatchFormatter.formatErrors(results);
+  }
+}
@@ -0,0 +1,133 @@
+import { ZipWriter } from '../utils/ZipWriter.js';
+
+export type CellValue = string | number | null;
+
+export interface Worksheet {
+  name: string;
+  rows: CellValue[][];   // first row is the header
+}
+
+/**
+ * Writes a plain .xlsx workbook: inline strings, numeric cells and a bold,
+ * frozen header row per sheet. No formulas, so exported text cannot run as one.
+ */
+export class XlsxWriter {
+  private static readonly MAX_SHEET_NAME = 31;
+
+  static write(sheets: Worksheet[]): Buffer {
+    const zip = new ZipWriter()
+      .addFile('[Content_Types].xml', this.contentTypes(sheets.length))
+      .addFile('_rels/.rels', this.xml(
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+      ))
+      .addFile('xl/workbook.xml', this.workbook(sheets))
+      .addFile('xl/_rels/workbook.xml.rels', this.workbookRels(sheets.length))
+      .addFile('xl/styles.xml', this.styles());
+
+    sheets.forEach((sheet, i) => zip.addFile(`xl/worksheets/sheet${i + 1}.xml`, this.worksheet(sheet)));
+
+    return zip.toBuffer();
+  }
+
+  static columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+  }
+
+  private static worksheet(sheet: Worksheet): string {
+    const rows = sheet.rows.map((row, r) => {
+      const cells = row.map((value, c) => {
+        const ref = `${this.columnName(c)}${r + 1}`;
+        const style = r === 0 ? ' s="1"' : '';
+
+        if (value === null || (typeof value === 'number' && !isFinite(value))) {
+          return '';
+        }
+        if (typeof value === 'number') {
+          return `<c r="${ref}"${style}><v>${value}</v></c>`;
+        }
+        return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${this.escape(value)}</t></is></c>`;
+      });
+      return `<row r="${r + 1}">${cells.join('')}</row>`;
+    });
+
+    return this.xml(
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+      `<sheetData>${rows.join('')}</sheetData>` +
+      '</worksheet>'
+    );
+  }
+
+  private static workbook(sheets: Worksheet[]): string {
+    const entries = sheets.map((sheet, i) =>
+      `<sheet name="${this.escape(sheet.name.slice(0, this.MAX_SHEET_NAME))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`
+    );
+
+    return this.xml(
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets>${entries.join('')}</sheets>` +
+      '</workbook>'
+    );
+  }
+
+  private static workbookRels(sheetCount: number): string {
+    const sheets = Array.from({ length: sheetCount }, (_, i) =>
+      `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+    );
+
+    return this.xml(
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheets.join('') +
+      `<Relationship Id="rId${sheetCount + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      '</Relationships>'
+    );
+  }
+
+  private static contentTypes(sheetCount: number): string {
+    const sheets = Array.from({ length: sheetCount }, (_, i) =>
+      `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    );
+
+    return this.xml(
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheets.join('') +
+      '</Types>'
+    );
+  }
+
+  private static styles(): string {
+    return this.xml(
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '</styleSheet>'
+    );
+  }
+
+  private static xml(body: string): string {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`;
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      // Control characters are not allowed in XML 1.0
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+  }
+}
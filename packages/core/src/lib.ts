@@ -4,20 +4,152 @@ export { YahooFinanceService } from './services/YahooFinanceService';
 export { AlphaVantageService } from './services/AlphaVantageService';
 export { DatabaseService } from './services/DatabaseService';
 export { FallbackDataProvider } from './services/FallbackDataProvider';
+export { CompositeMarketDataProvider, type MarketDataRoutes, type CompositeOptions } from './services/CompositeMarketDataProvider';
+export {
+  MarketDataProviderRegistry,
+  type MarketDataProviderFactory,
+  type ProviderOptions
+} from './services/MarketDataProviderRegistry';
+export {
+  FixtureMarketDataProvider,
+  FIXTURE_MANIFEST_FILE,
+  type TickerFixture,
+  type FixtureManifest
+} from './services/FixtureMarketDataProvider';
+export {
+  ScoringProfileRegistry,
+  DEFAULT_SCORING_CONFIG_FILE,
+  type ScoringConfigFile
+} from './services/ScoringProfileRegistry';
+export {
+  BatchAnalysisService,
+  type BatchAnalysisOptions,
+  type BatchItemResult
+} from './services/BatchAnalysisService';
+export {
+  ScreenService,
+  type ScreenFile,
+  type ScreenRejection,
+  type ScreenResult
+} from './services/ScreenService';
+export {
+  ComparisonService,
+  type ComparisonFormat,
+  type ComparisonPreference,
+  type ComparisonRow,
+  type TickerComparison
+} from './services/ComparisonService';
+export {
+  PortfolioService,
+  DEFAULT_PORTFOLIO_FILE,
+  type PortfolioFile
+} from './services/PortfolioService';
+export {
+  TransactionImportService,
+  TRANSACTION_FIELDS,
+  DATE_FORMATS,
+  type ColumnMapping,
+  type ColumnMappingFile,
+  type DateFormat,
+  type TransactionField
+} from './services/TransactionImportService';
+export {
+  DripProjectionService,
+  type DripInput,
+  type DripOptions
+} from './services/DripProjectionService';
+export {
+  DividendCalendarService,
+  type CalendarItemResult,
+  type CalendarOptions
+} from './services/DividendCalendarService';
+export {
+  WatchlistService,
+  type RuleEvaluation,
+  type WatchResult
+} from './services/WatchlistService';
+export {
+  FileWatchlistStore,
+  DatabaseWatchlistStore,
+  openWatchlistStore,
+  WATCHLIST_STORES,
+  DEFAULT_WATCHLIST_FILE,
+  type WatchlistStore,
+  type WatchlistStoreKind,
+  type WatchlistFile
+} from './services/WatchlistStore';
+export {
+  NotificationService,
+  WebhookChannel,
+  EmailChannel,
+  DEFAULT_WEBHOOK_SECRET_ENV,
+  type AlertNotification,
+  type NotificationChannel,
+  type DeliveryOptions,
+  type WebhookPayload
+} from './services/NotificationService';
+export { RefreshService, type RefreshOptions } from './services/RefreshService';
+export { LeaderboardService, type LeaderboardInput } from './services/LeaderboardService';
+export { HistoryService, type HistoryInput } from './services/HistoryService';
+export {
+  ReportService,
+  type PriceHistoryPoint,
+  type ReportData
+} from './services/ReportService';
+export { RateLimitedMarketDataProvider } from './services/RateLimitedMarketDataProvider';
+export { QuotaLimitedMarketDataProvider } from './services/QuotaLimitedMarketDataProvider';
+export type {
+  MarketDataProvider,
+  MarketDataCapability,
+  HistoricalPrice,
+  CompanyProfile,
+  ProviderHealth
+} from './services/MarketDataProvider';
 
 // Calculators
 export { DividendCalculator } from './calculators/DividendCalculator';
 export { ScoreCalculator } from './calculators/ScoreCalculator';
 export { TechnicalIndicatorCalculator } from './calculators/TechnicalIndicatorCalculator';
+export { MonteCarloCalculator } from './calculators/MonteCarloCalculator';
 
 // Models
 export * from './models/DividendAnalysis';
 export * from './models/StockData';
+export * from './models/ScoringProfile';
+export * from './models/ScreenCriteria';
+export * from './models/Portfolio';
+export * from './models/DividendCalendar';
+export * from './models/Watchlist';
+export * from './models/Notification';
+export * from './models/RefreshRun';
+export * from './models/Leaderboard';
+export * from './models/AnalysisHistory';
+export * from './data/SectorRules';
 
 // Utilities
 export * from './utils/MathUtils';
+export { Cassette, type CassetteMode, type CassetteFile } from './utils/Cassette';
+export { SeededRandom } from './utils/SeededRandom';
+export { RateLimiter } from './utils/RateLimiter';
+export { mapWithConcurrency, type Settled } from './utils/Concurrency';
+export { parseCsv, type CsvRecord } from './utils/Csv';
+export { SmtpClient, type SmtpSettings, type MailMessage } from './utils/SmtpClient';
 export { InputValidator } from './validation/InputValidator';
 export { OutputFormatter } from './formatters/OutputFormatter';
+export { BatchFormatter } from './formatters/BatchFormatter';
+export { PortfolioFormatter } from './formatters/PortfolioFormatter';
+export { WatchlistFormatter, type WatchlistListing } from './formatters/WatchlistFormatter';
+export { LeaderboardFormatter } from './formatters/LeaderboardFormatter';
+export { HistoryFormatter } from './formatters/HistoryFormatter';
+export * from './formatters/JsonFormatter';
+export { TabularFormatter } from './formatters/TabularFormatter';
+export { XlsxWriter, type CellValue, type Worksheet } from './formatters/XlsxWriter';
+export { ReportFormatter, type ReportFormat } from './formatters/ReportFormatter';
+export { SvgChart, type BarPoint, type LineSeries } from './formatters/SvgChart';
+export { ZipWriter, crc32 } from './utils/ZipWriter';
+
+// Errors
+export * from './errors/DivvyErrors';
 
 // CLI
 export { DivvyCliApp } from './cli/DivvyCliApp';
\ No newline at end of file
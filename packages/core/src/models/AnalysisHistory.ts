@@ -0,0 +1,40 @@
+export const HISTORY_METRICS = [
+  'price',
+  'ttmYield',
+  'forwardYield',
+  'totalScore',
+  'payoutScore',
+  'fcfScore',
+  'streakScore',
+  'growthScore',
+  'trendScore',
+  'macdScore',
+  'rsiScore'
+] as const;
+
+export type HistoryMetric = typeof HISTORY_METRICS[number];
+
+/**
+ * One saved analysis. Metrics are null when the analysis could not compute
+ * them (e.g. no dividends in the last twelve months).
+ */
+export type AnalysisSnapshot = { observedAt: Date } & Record<HistoryMetric, number | null>;
+
+export interface MetricChange {
+  metric: HistoryMetric;
+  previous: number | null;
+  latest: number | null;
+  change: number | null;
+  relativeChange: number | null;   // change / |previous|
+}
+
+/**
+ * Only analyses saved with one set of options (years, r, provider, scoring
+ * profile) are compared, so a change in settings never shows up as a trend
+ */
+export interface AnalysisHistory {
+  ticker: string;
+  optionsHash: string;
+  snapshots: AnalysisSnapshot[];   // oldest first
+  changes: MetricChange[] | null;  // latest vs previous snapshot; null with fewer than two
+}
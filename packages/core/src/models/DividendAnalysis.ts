@@ -1,4 +1,5 @@
 import type { Quote, Fundamentals } from './StockData.js';
+import type { ScoreFactor } from './ScoringProfile.js';
 import { MacdData, RsiData } from "../calculators/TechnicalIndicatorCalculator";
 
 export type AnnualDividendData = [year: number, amount: number];
@@ -18,9 +19,13 @@ export interface DividendAnalysisParams {
   forwardYield: number | null;
   scores: DividendScores;
   totalScore: number;
+  scoringProfile: string;
   ema: EmaData;
   macd: MacdData;
   rsi: RsiData;
+  valuation: DdmValuation;
+  multiStageDdm: MultiStageDdmValuation | null;
+  ddmSensitivity: DdmSensitivityGrid;
 }
 
 export class DividendAnalysis {
@@ -38,9 +43,13 @@ export class DividendAnalysis {
   public readonly forwardYield: number | null;
   public readonly scores: DividendScores;
   public readonly totalScore: number;
+  public readonly scoringProfile: string;
   public readonly ema: EmaData;
   public readonly macd: MacdData;
   public readonly rsi: RsiData;
+  public readonly valuation: DdmValuation;
+  public readonly multiStageDdm: MultiStageDdmValuation | null;
+  public readonly ddmSensitivity: DdmSensitivityGrid;
 
   constructor({
     ticker,
@@ -57,9 +66,13 @@ export class DividendAnalysis {
     forwardYield,
     scores,
     totalScore,
+    scoringProfile,
     ema,
     macd,
-    rsi
+    rsi,
+    valuation,
+    multiStageDdm,
+    ddmSensitivity
   }: DividendAnalysisParams) {
     this.ticker = ticker;
     this.quote = quote;
@@ -75,9 +88,13 @@ export class DividendAnalysis {
     this.forwardYield = forwardYield;
     this.scores = scores;
     this.totalScore = totalScore;
+    this.scoringProfile = scoringProfile;
     this.ema = ema;
     this.macd = macd;
     this.rsi = rsi;
+    this.valuation = valuation;
+    this.multiStageDdm = multiStageDdm;
+    this.ddmSensitivity = ddmSensitivity;
   }
 }
 
@@ -87,6 +104,114 @@ export interface EmaData {
   ema200: number | null;
 }
 
+export interface DdmValuation {
+  ddmPrice: number | null;   // Gordon Growth fair value, null when r <= g
+  upside: number | null;     // margin of safety: (ddmPrice - price) / price
+  requiredReturn: number;
+  growth: number;            // safeGrowth after the DDM clamp
+}
+
+export interface MultiStageDdmAssumptions {
+  requiredReturn: number;
+  highGrowth: number;       // stage 1 growth (g1)
+  highGrowthYears: number;  // stage 1 length
+  fadeYears: number;        // 3-stage linear fade length; H-model uses half of it
+  terminalGrowth: number;   // perpetual growth after the fade (g2)
+}
+
+export interface MultiStageDdmValuation {
+  assumptions: MultiStageDdmAssumptions;
+  twoStage: number | null;
+  threeStage: number | null;
+  hModel: number | null;
+}
+
+export interface DdmSensitivityCell {
+  requiredReturn: number;
+  growth: number;
+  fairValue: number | null;  // null when r <= g or no dividend
+  invalid: boolean;          // r <= g - Gordon Growth is undefined
+  upside: number | null;     // vs current price
+}
+
+export interface DdmSensitivityGrid {
+  requiredReturns: number[];
+  growthRates: number[];
+  cells: DdmSensitivityCell[][];  // cells[i][j] corresponds to requiredReturns[i], growthRates[j]
+  nearestToPrice: { row: number; col: number } | null;
+}
+
+export type RequiredReturnDistribution =
+  | { type: 'fixed'; value: number }
+  | { type: 'normal'; mean: number; stdDev: number }
+  | { type: 'uniform'; min: number; max: number };
+
+export interface MonteCarloOptions {
+  iterations: number;
+  seed: number;
+  requiredReturn: RequiredReturnDistribution;
+  completeThroughYear: number;  // last full calendar year of dividends; later years are partial
+}
+
+export interface MonteCarloValuation {
+  iterations: number;
+  validIterations: number;       // draws with r > g
+  seed: number;
+  historicalGrowthRates: number[];
+  p10: number | null;
+  p50: number | null;
+  p90: number | null;
+  probabilityAbovePrice: number | null;  // share of valid draws with fair value > current price
+}
+
+export interface DripAssumptions {
+  shares: number;
+  price: number;              // purchase price of the starting shares
+  costBasis: number;          // total paid for the starting shares
+  dividend: number;           // annual dividend per share in year 1 (D1)
+  dividendGrowth: number;     // yearly dividend per share growth
+  priceGrowth: number;        // yearly share price growth
+  years: number;
+  paymentsPerYear: number;    // reinvestment happens at each payment
+}
+
+export interface DripYear {
+  year: number;               // 1-based year of the projection
+  shares: number;             // at year end
+  dividendPerShare: number;   // paid during the year
+  income: number;             // dividends received during the year
+  yieldOnCost: number | null; // income / initial cost basis
+  price: number;              // at year end
+  positionValue: number;      // shares * price
+  cash: number;               // dividends taken as cash so far
+  totalValue: number;         // positionValue + cash
+}
+
+export interface DripProjection {
+  assumptions: DripAssumptions;
+  drip: DripYear[];
+  cash: DripYear[] | null;    // same position taking dividends as cash, when compared
+}
+
+export interface ScorePointChange {
+  reason: string;
+  points: number;
+}
+
+/**
+ * Why a factor scored what it did. `points` always add up to `score`.
+ */
+export interface ScoreExplanation {
+  factor: ScoreFactor;
+  score: number;
+  inputs: Record<string, number | string | null>;
+  thresholds: string[];         // thresholds crossed / bands the inputs fell in
+  points: ScorePointChange[];   // points gained or lost, in order
+  fallbacks: string[];          // substitutions made for missing data
+}
+
+export type ScoreExplanations = Record<ScoreFactor, ScoreExplanation>;
+
 export interface DividendScoresParams {
   payout: number;
   fcf: number;
@@ -95,6 +220,7 @@ export interface DividendScoresParams {
   trend: number;
   macd: number;
   rsi: number;
+  explanations?: ScoreExplanations | null;  // absent for analyses saved before explanations existed
 }
 
 export class DividendScores {
@@ -105,8 +231,9 @@ export class DividendScores {
   public readonly trend: number;
   public readonly macd: number;
   public readonly rsi: number;
+  public readonly explanations: ScoreExplanations | null;
 
-  constructor({ payout, fcf, streak, growth, trend, macd, rsi }: DividendScoresParams) {
+  constructor({ payout, fcf, streak, growth, trend, macd, rsi, explanations = null }: DividendScoresParams) {
     this.payout = payout;
     this.fcf = fcf;
     this.streak = streak;
@@ -114,5 +241,6 @@ export class DividendScores {
     this.trend = trend;
     this.macd = macd;
     this.rsi = rsi;
+    this.explanations = explanations;
   }
 }
\ No newline at end of file
@@ -0,0 +1,43 @@
+import type { Holding } from './Portfolio.js';
+
+export type PaymentFrequency = 'monthly' | 'quarterly' | 'semiannual' | 'annual' | 'irregular';
+
+/**
+ * Where a calendar date came from: projected from past payments, projected
+ * and matched by the provider's announced date, or taken from the provider
+ * because it disagrees with the projection
+ */
+export type CalendarDateSource = 'projected' | 'confirmed' | 'provider';
+
+export interface CalendarEntry {
+  ticker: string;
+  exDate: Date;
+  payDate: Date;
+  amountPerShare: number;
+  source: CalendarDateSource;
+  shares: number | null;        // held across all accounts; null for watchlists
+  expectedCash: number | null;
+}
+
+export interface DividendSchedule {
+  ticker: string;
+  frequency: PaymentFrequency | null;  // null without any dividend history
+  paymentsPerYear: number;
+  lastExDate: Date | null;
+  lastAmount: number | null;
+  payLagDays: number;                  // ex-date to pay date
+  providerExDate: Date | null;
+  providerPayDate: Date | null;
+  notes: string[];                     // discrepancies and reasons nothing was projected
+  entries: CalendarEntry[];
+}
+
+export interface DividendCalendar {
+  from: Date;
+  to: Date;
+  schedules: DividendSchedule[];
+  entries: CalendarEntry[];            // every ticker, by ex-date
+  holdings: Array<{ holding: Holding; expectedCash: number }>;
+  monthlyCash: Array<{ month: string; cash: number }>;  // by pay date, YYYY-MM
+  totalCash: number | null;            // null for watchlists
+}
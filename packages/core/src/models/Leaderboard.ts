@@ -0,0 +1,39 @@
+export const LEADERBOARD_SORTS = ['score', 'marginOfSafety'] as const;
+
+export type LeaderboardSort = typeof LEADERBOARD_SORTS[number];
+
+/**
+ * One page of one day's leaderboard. A null date means the latest day with
+ * data; the filters narrow the day's ranking without renumbering it.
+ */
+export interface LeaderboardQuery {
+  date: string | null;   // YYYY-MM-DD
+  sector: string | null;
+  minYield: number | null;
+  minStreak: number | null;
+  sort: LeaderboardSort;
+  page: number;
+  pageSize: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  ticker: string;
+  name: string | null;
+  sector: string | null;
+  score: number;
+  forwardYield: number | null;
+  ttmYield: number | null;
+  streak: number | null;
+  price: number;
+  ddmPrice: number | null;
+  marginOfSafety: number | null;
+}
+
+export interface LeaderboardPage {
+  date: string | null;
+  query: LeaderboardQuery;
+  entries: LeaderboardEntry[];
+  total: number;
+  totalPages: number;
+}
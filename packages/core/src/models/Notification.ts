@@ -0,0 +1,23 @@
+export const NOTIFICATION_CHANNEL_TYPES = ['webhook', 'email'] as const;
+
+export type NotificationChannelType = typeof NOTIFICATION_CHANNEL_TYPES[number];
+
+/**
+ * Where a watchlist's alerts are sent. Secrets stay out of the watchlist
+ * store: a webhook names the environment variable holding its HMAC key, and
+ * the SMTP server comes from DIVVY_SMTP_* variables.
+ */
+export type NotificationChannelConfig =
+  | { type: 'webhook'; url: string; secretEnv: string }
+  | { type: 'email'; to: string[] };
+
+export type DeliveryStatus = 'sent' | 'dry-run' | 'failed';
+
+export interface NotificationDelivery {
+  watchlist: string;
+  channel: string;
+  alerts: number;
+  status: DeliveryStatus;
+  attempts: number;
+  error: string | null;
+}
@@ -0,0 +1,108 @@
+import type { DividendAnalysis } from './DividendAnalysis.js';
+
+/**
+ * Shares of one ticker held in one account. `costBasis` is the total paid
+ * for the shares (not per share), in the quote currency.
+ */
+export interface Holding {
+  ticker: string;
+  shares: number;
+  costBasis: number;
+  account: string | null;
+}
+
+/**
+ * A holding priced with its analysis. Income figures are annual amounts for
+ * the whole position and are null when the ticker could not be analyzed.
+ */
+export interface PortfolioPosition {
+  holding: Holding;
+  analysis: DividendAnalysis | null;
+  error: Error | null;
+  marketValue: number | null;
+  annualIncome: number | null;
+  forwardIncome: number | null;
+  yieldOnCost: number | null;
+}
+
+/**
+ * Share of forward income contributed by one ticker or sector
+ */
+export interface IncomeShare {
+  key: string;
+  income: number;
+  share: number;
+}
+
+/**
+ * Totals over the positions that were analyzed. The score is weighted by
+ * market value.
+ */
+export interface PortfolioTotals {
+  costBasis: number;
+  marketValue: number;
+  annualIncome: number;
+  forwardIncome: number;
+  yieldOnCost: number | null;
+  forwardYield: number | null;
+  weightedScore: number | null;
+}
+
+export interface PortfolioSummary {
+  positions: PortfolioPosition[];
+  totals: PortfolioTotals;
+  concentration: {
+    byTicker: IncomeShare[];
+    bySector: IncomeShare[];
+  };
+}
+
+export const TRANSACTION_TYPES = ['buy', 'sell', 'dividend', 'reinvest', 'split'] as const;
+
+export type TransactionType = typeof TRANSACTION_TYPES[number];
+
+/**
+ * One row of a brokerage export after column mapping. `amount` is the cash
+ * value of the row (cost of a buy, dividend received); `ratio` is new shares
+ * per old share for splits.
+ */
+export interface Transaction {
+  line: number;
+  date: Date;
+  type: TransactionType;
+  ticker: string;
+  account: string | null;
+  shares: number | null;
+  price: number | null;
+  amount: number | null;
+  fees: number;
+  ratio: number | null;
+}
+
+/**
+ * Shares bought (or reinvested) together. Sells consume lots first in,
+ * first out; splits rescale shares and keep the cost.
+ */
+export interface TaxLot {
+  ticker: string;
+  account: string | null;
+  acquired: Date;
+  shares: number;
+  costBasis: number;
+  /** Line of the transaction that opened the lot */
+  line: number;
+}
+
+export interface ImportIssue {
+  line: number;
+  message: string;
+}
+
+export interface TransactionImport {
+  transactions: Transaction[];
+  lots: TaxLot[];
+  holdings: Holding[];
+  /** Cash dividends received per ticker, excluding reinvested ones */
+  dividends: Record<string, number>;
+  issues: ImportIssue[];
+}
@@ -0,0 +1,43 @@
+export const UNIVERSE_SOURCES = ['kings', 'aristocrats', 'watchlists'] as const;
+
+export type UniverseSource = typeof UNIVERSE_SOURCES[number];
+
+/**
+ * - refreshed: analyzed (or reused from a recent saved analysis)
+ * - failed: the analysis errored
+ * - skipped: not attempted because the provider quota ran out
+ */
+export type RefreshTickerStatus = 'refreshed' | 'failed' | 'skipped';
+
+export interface RefreshTickerResult {
+  ticker: string;
+  status: RefreshTickerStatus;
+  totalScore: number | null;
+  error: string | null;
+}
+
+/**
+ * - succeeded: every ticker refreshed and the leaderboard rebuilt
+ * - partial: some tickers failed or were skipped
+ * - failed: nothing refreshed, or the leaderboard could not be rebuilt
+ */
+export type RefreshRunStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+export interface RefreshRun {
+  id: string | null;
+  provider: string;
+  // Settings of the analyses this run saved; the leaderboard ranks only these
+  optionsHash: string;
+  startedAt: Date;
+  finishedAt: Date | null;
+  status: RefreshRunStatus;
+  universe: number;
+  refreshed: number;
+  failed: number;
+  skipped: number;
+  requests: number;
+  quotaExhausted: boolean;
+  leaderboardRefreshed: boolean;
+  error: string | null;
+  results: RefreshTickerResult[];
+}
@@ -0,0 +1,39 @@
+export const SCORE_FACTORS = ['payout', 'fcf', 'streak', 'growth', 'trend', 'macd', 'rsi'] as const;
+
+export type ScoreFactor = typeof SCORE_FACTORS[number];
+
+export type ScoreWeights = Record<ScoreFactor, number>;
+
+export interface ScoreThresholds {
+  payout: { full: number; zero: number };  // EPS payout ratio: 100 points at/below `full`, 0 at/above `zero`
+  fcf: { full: number };                   // FCF coverage earning 100 points
+  streak: { full: number };                // years of dividend growth earning 100 points
+  growth: { min: number; max: number };    // safe growth mapped linearly onto 0-100 points
+}
+
+export interface ScoringProfile {
+  name: string;
+  description?: string | undefined;
+  weights: ScoreWeights;
+  thresholds: ScoreThresholds;
+}
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: 'default',
+  description: 'Balanced dividend safety and growth',
+  weights: {
+    payout: 0.25,
+    fcf: 0.25,
+    streak: 0.17,
+    growth: 0.16,
+    trend: 0.07,
+    macd: 0.06,
+    rsi: 0.04
+  },
+  thresholds: {
+    payout: { full: 0.6, zero: 1.0 },
+    fcf: { full: 2 },
+    streak: { full: 20 },
+    growth: { min: -0.10, max: 0.10 }
+  }
+};
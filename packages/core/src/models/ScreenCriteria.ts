@@ -0,0 +1,45 @@
+export const SCREEN_FIELDS = [
+  'ticker', 'sector', 'price', 'ttmYield', 'forwardYield', 'epsPayoutRatio', 'fcfPayoutRatio',
+  'streak', 'cagr3', 'cagr5', 'totalScore', 'ddmUpside'
+] as const;
+
+export type ScreenField = typeof SCREEN_FIELDS[number];
+
+/**
+ * Filters applied to each analysis. Unset bounds are not checked; sectors
+ * match the provider's sector name or its scoring group (e.g. "reit"),
+ * case-insensitively.
+ */
+export interface ScreenCriteria {
+  minForwardYield: number | undefined;
+  maxFcfPayoutRatio: number | undefined;
+  minStreak: number | undefined;
+  minTotalScore: number | undefined;
+  includeSectors: string[];
+  excludeSectors: string[];
+  aboveEma200: boolean;
+}
+
+export interface ScreenSort {
+  field: ScreenField;
+  descending: boolean;
+}
+
+export interface ScreenDefinition {
+  universe: string[];
+  criteria: ScreenCriteria;
+  sort: ScreenSort;
+  limit: number | undefined;
+}
+
+export const EMPTY_SCREEN_CRITERIA: ScreenCriteria = {
+  minForwardYield: undefined,
+  maxFcfPayoutRatio: undefined,
+  minStreak: undefined,
+  minTotalScore: undefined,
+  includeSectors: [],
+  excludeSectors: [],
+  aboveEma200: false
+};
+
+export const DEFAULT_SCREEN_SORT: ScreenSort = { field: 'totalScore', descending: true };
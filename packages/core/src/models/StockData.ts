@@ -45,6 +45,8 @@ export class Fundamentals {
   public readonly cashDividendsPaid: number;
   public readonly netIncome: number;
   public readonly payoutRatio: number;
+  public readonly depreciation: number;   // depreciation & amortization, used for REIT FFO
+  public readonly capitalRatio: number;   // Tier 1 capital ratio, banks only
 
   constructor(data: YahooFundamentalsData = {}) {
     this.operatingCashFlow = this.extractValue(data.OperatingCashFlow);
@@ -52,6 +54,8 @@ export class Fundamentals {
     this.cashDividendsPaid = Math.abs(this.extractValue(data.CashDividendsPaid));
     this.netIncome = this.extractValue(data.NetIncome);
     this.payoutRatio = this.extractValue(data.payoutRatio);
+    this.depreciation = Math.abs(this.extractValue(data.DepreciationAndAmortization));
+    this.capitalRatio = this.extractValue(data.Tier1CapitalRatio);
   }
 
   private extractValue(field?: YahooFieldValue | number): number {
@@ -80,6 +84,41 @@ export class Fundamentals {
       : (this.cashDividendsPaid === 0 ? Infinity : NaN);
   }
 
+  /**
+   * Funds from operations: net income with real estate depreciation added
+   * back. Falls back to operating cash flow, a common proxy, without D&A.
+   */
+  get ffo(): number {
+    if (isFinite(this.netIncome) && isFinite(this.depreciation)) {
+      return this.netIncome + this.depreciation;
+    }
+    return isFinite(this.operatingCashFlow) ? this.operatingCashFlow : NaN;
+  }
+
+  get ffoPayoutRatio(): number {
+    const ffo = this.ffo;
+    return isFinite(this.cashDividendsPaid) && isFinite(ffo) && ffo > 0
+      ? this.cashDividendsPaid / ffo
+      : NaN;
+  }
+
+  /**
+   * Adjusted FFO (FFO less capital expenditure) per dollar of dividends
+   */
+  get affoCoverage(): number {
+    const ffo = this.ffo;
+    const affo = isFinite(ffo) && isFinite(this.capitalExpenditure) ? ffo - this.capitalExpenditure : NaN;
+    return isFinite(affo) && isFinite(this.cashDividendsPaid) && this.cashDividendsPaid > 0
+      ? affo / this.cashDividendsPaid
+      : NaN;
+  }
+
+  get operatingCashFlowCoverage(): number {
+    return isFinite(this.operatingCashFlow) && isFinite(this.cashDividendsPaid) && this.cashDividendsPaid > 0
+      ? this.operatingCashFlow / this.cashDividendsPaid
+      : NaN;
+  }
+
   get epsPayoutRatio(): number {
     if (isFinite(this.payoutRatio)) return this.payoutRatio;
     
@@ -0,0 +1,60 @@
+import type { NotificationChannelConfig } from './Notification.js';
+
+export const ALERT_RULE_TYPES = ['forwardYield', 'scoreFloor', 'ema200Cross', 'dividendCut', 'ddmUpside'] as const;
+
+export type AlertRuleType = typeof ALERT_RULE_TYPES[number];
+
+/**
+ * A condition checked against each fresh analysis:
+ * - forwardYield: forward yield at or beyond `target` in `direction`
+ * - scoreFloor: totalScore below `min`
+ * - ema200Cross: price moved to the other side of the 200-day EMA
+ * - dividendCut: the latest full year paid less than the year before
+ * - ddmUpside: Gordon DDM upside at least `min` (margin of safety)
+ */
+export type AlertRule =
+  | { type: 'forwardYield'; target: number; direction: 'above' | 'below' }
+  | { type: 'scoreFloor'; min: number }
+  | { type: 'ema200Cross' }
+  | { type: 'dividendCut' }
+  | { type: 'ddmUpside'; min: number };
+
+export interface Watchlist {
+  name: string;
+  tickers: string[];
+  rules: AlertRule[];
+  channels: NotificationChannelConfig[];
+}
+
+/**
+ * Last seen condition of one rule for one ticker. An alert fires only when
+ * the condition changes to a tripped value, so a standing condition is
+ * reported once.
+ */
+export interface AlertState {
+  ticker: string;
+  ruleKey: string;
+  condition: string | null;
+  updatedAt: Date;
+}
+
+export interface Alert {
+  watchlist: string;
+  ticker: string;
+  rule: AlertRule;
+  ruleKey: string;
+  condition: string;
+  value: number | null;
+  message: string;
+  triggeredAt: Date;
+}
+
+/**
+ * Alerts one channel has not received because its delivery failed. Alert
+ * state still advances, so these are resent to that channel alone on the
+ * next run instead of re-firing on every channel.
+ */
+export interface PendingAlerts {
+  channel: string;   // NotificationService.channelKey
+  alerts: Alert[];
+}
@@ -1,4 +1,8 @@
 import { RetryHandler } from "../utils/RetryHandler";
+import type { Cassette } from "../utils/Cassette";
+import { Quote, DividendEvent, Fundamentals } from "../models/StockData";
+import { DataQualityChecker } from "../validation/DataQualityChecker";
+import type { MarketDataProvider, HistoricalPrice, CompanyProfile, ProviderHealth } from "./MarketDataProvider";
 import { 
   NetworkError, 
   DataSourceError, 
@@ -22,6 +26,15 @@ export interface AlphaVantageOverview {
   PayoutRatio: string;
 }
 
+export interface AlphaVantageGlobalQuote {
+  "Global Quote": {
+    "01. symbol": string;
+    "05. price": string;
+    "07. latest trading day": string;
+    "08. previous close": string;
+  };
+}
+
 export interface AlphaVantageTimeSeriesDaily {
   "Meta Data": {
     "1. Information": string;
@@ -69,6 +82,7 @@ export interface AlphaVantageCashFlow {
     capitalExpenditures: string;
     dividendPayout: string;
     freeCashFlow: string;
+    depreciationDepletionAndAmortization: string;
   }>;
   quarterlyReports: Array<{
     fiscalDateEnding: string;
@@ -77,16 +91,25 @@ export interface AlphaVantageCashFlow {
   }>;
 }
 
-export class AlphaVantageService {
+export class AlphaVantageService implements MarketDataProvider {
+  readonly name = 'av';
+  readonly asOf: Date | undefined;
   private readonly apiKey: string;
   private readonly baseUrl = 'https://www.alphavantage.co/query';
   private readonly dailyCeiling: number;
+  private readonly cassette: Cassette | undefined;
+  // Dividends and price history share one full daily series per symbol
+  private readonly timeSeriesCache = new Map<string, Promise<AlphaVantageTimeSeriesDaily>>();
   
-  constructor(apiKey?: string, dailyCeiling: number = 25) {
+  constructor(apiKey?: string, dailyCeiling: number = 25, cassette?: Cassette) {
     this.apiKey = apiKey || process.env.ALPHA_VANTAGE_API_KEY || '';
     this.dailyCeiling = dailyCeiling;
+    this.cassette = cassette;
+    // Replays run against the clock the responses were recorded with
+    this.asOf = cassette?.isReplaying ? cassette.recordedAt : undefined;
     
-    if (!this.apiKey) {
+    // Replaying a cassette never reaches the API, so no key is needed
+    if (!this.apiKey && !cassette?.isReplaying) {
       throw new Error('Alpha Vantage API key is required. Set ALPHA_VANTAGE_API_KEY environment variable.');
     }
   }
@@ -99,16 +122,7 @@ export class AlphaVantageService {
         apikey: this.apiKey
       });
 
-      const response = await RetryHandler.withRetry(
-        async () => {
-          const res = await fetch(`${this.baseUrl}?${params}`);
-          if (!res.ok) {
-            throw new NetworkError(`HTTP ${res.status}: ${res.statusText}`);
-          }
-          return res.json();
-        },
-        RetryHandler.getNetworkRetryConfig()
-      );
+      const response = await this.query(params);
 
       if (response['Error Message']) {
         throw new TickerNotFoundError(symbol);
@@ -136,6 +150,38 @@ export class AlphaVantageService {
     }
   }
 
+  async getGlobalQuote(symbol: string): Promise<AlphaVantageGlobalQuote> {
+    try {
+      const params = new URLSearchParams({
+        function: 'GLOBAL_QUOTE',
+        symbol: symbol.toUpperCase(),
+        apikey: this.apiKey
+      });
+
+      const response = await this.query(params);
+
+      if (response['Error Message']) {
+        throw new TickerNotFoundError(symbol);
+      }
+
+      if (response['Note']) {
+        throw new RateLimitError(
+          'Alpha Vantage API rate limit exceeded',
+          60000
+        );
+      }
+
+      if (!response['Global Quote']?.['05. price']) {
+        throw new TickerNotFoundError(symbol);
+      }
+
+      return response as AlphaVantageGlobalQuote;
+      
+    } catch (error) {
+      throw this.handleAlphaVantageError(error, 'quote', symbol);
+    }
+  }
+
   async getTimeSeriesDaily(symbol: string, outputSize: 'compact' | 'full' = 'compact'): Promise<AlphaVantageTimeSeriesDaily> {
     try {
       const params = new URLSearchParams({
@@ -145,16 +191,7 @@ export class AlphaVantageService {
         apikey: this.apiKey
       });
 
-      const response = await RetryHandler.withRetry(
-        async () => {
-          const res = await fetch(`${this.baseUrl}?${params}`);
-          if (!res.ok) {
-            throw new NetworkError(`HTTP ${res.status}: ${res.statusText}`);
-          }
-          return res.json();
-        },
-        RetryHandler.getNetworkRetryConfig()
-      );
+      const response = await this.query(params);
 
       if (response['Error Message']) {
         throw new TickerNotFoundError(symbol);
@@ -190,16 +227,7 @@ export class AlphaVantageService {
         apikey: this.apiKey
       });
 
-      const response = await RetryHandler.withRetry(
-        async () => {
-          const res = await fetch(`${this.baseUrl}?${params}`);
-          if (!res.ok) {
-            throw new NetworkError(`HTTP ${res.status}: ${res.statusText}`);
-          }
-          return res.json();
-        },
-        RetryHandler.getNetworkRetryConfig()
-      );
+      const response = await this.query(params);
 
       if (response['Error Message']) {
         throw new TickerNotFoundError(symbol);
@@ -235,16 +263,7 @@ export class AlphaVantageService {
         apikey: this.apiKey
       });
 
-      const response = await RetryHandler.withRetry(
-        async () => {
-          const res = await fetch(`${this.baseUrl}?${params}`);
-          if (!res.ok) {
-            throw new NetworkError(`HTTP ${res.status}: ${res.statusText}`);
-          }
-          return res.json();
-        },
-        RetryHandler.getNetworkRetryConfig()
-      );
+      const response = await this.query(params);
 
       if (response['Error Message']) {
         throw new TickerNotFoundError(symbol);
@@ -272,6 +291,144 @@ export class AlphaVantageService {
     }
   }
 
+  async getQuote(ticker: string): Promise<Quote> {
+    const globalQuote = await this.getGlobalQuote(ticker);
+    
+    // Overview is optional enrichment - a missing profile should not fail the quote
+    let overview: AlphaVantageOverview | null = null;
+    try {
+      overview = await this.getCompanyOverview(ticker);
+    } catch (error) {
+      console.warn(`Failed to fetch Alpha Vantage overview for ${ticker}:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    return DataQualityChecker.validateQuote({
+      regularMarketPrice: parseFloat(globalQuote['Global Quote']['05. price']),
+      currency: this.presentOrUndefined(overview?.Currency),
+      shortName: this.presentOrUndefined(overview?.Name),
+      sector: this.presentOrUndefined(overview?.Sector),
+      industry: this.presentOrUndefined(overview?.Industry)
+    });
+  }
+
+  async getCompanyProfile(ticker: string): Promise<CompanyProfile> {
+    const overview = await this.getCompanyOverview(ticker);
+
+    return {
+      symbol: overview.Symbol,
+      name: this.presentOrUndefined(overview.Name) ?? null,
+      sector: this.presentOrUndefined(overview.Sector) ?? null,
+      industry: this.presentOrUndefined(overview.Industry) ?? null,
+      currency: this.presentOrUndefined(overview.Currency) ?? null,
+      exDividendDate: this.presentOrUndefined(overview.ExDividendDate) ?? null,
+      dividendDate: this.presentOrUndefined(overview.DividendDate) ?? null
+    };
+  }
+
+  async getDividendEvents(ticker: string, years: number = 15): Promise<DividendEvent[]> {
+    const dailyData = (await this.getCachedTimeSeries(ticker))["Time Series (Daily)"];
+    const cutoff = this.yearsAgo(years);
+
+    const dividendEvents = Object.entries(dailyData)
+      .filter(([date, bar]) => new Date(date) >= cutoff && parseFloat(bar["7. dividend amount"]) > 0)
+      .map(([date, bar]) => new DividendEvent({
+        date,
+        amount: parseFloat(bar["7. dividend amount"])
+      }));
+
+    return DataQualityChecker.validateDividendEvents(dividendEvents, ticker);
+  }
+
+  // Only the latest annual reports are used, so there is no history window to honour
+  async getFundamentals(ticker: string): Promise<Fundamentals> {
+    const [cashFlow, incomeStatement] = await Promise.all([
+      this.getCashFlow(ticker),
+      this.getIncomeStatement(ticker)
+    ]);
+
+    // Reports are ordered newest first
+    const latestCashFlow = cashFlow.annualReports[0];
+    const latestIncome = incomeStatement.annualReports[0];
+
+    const fundamentals = new Fundamentals({
+      OperatingCashFlow: { raw: this.parseReportValue(latestCashFlow?.operatingCashflow) },
+      CapitalExpenditure: { raw: this.parseReportValue(latestCashFlow?.capitalExpenditures) },
+      CashDividendsPaid: { raw: this.parseReportValue(latestCashFlow?.dividendPayout) },
+      NetIncome: { raw: this.parseReportValue(latestIncome?.netIncome) },
+      DepreciationAndAmortization: { raw: this.parseReportValue(latestCashFlow?.depreciationDepletionAndAmortization) }
+    });
+
+    const qualityReport = DataQualityChecker.validateFundamentals(fundamentals);
+    if (qualityReport.warnings.length > 0) {
+      console.warn(`Data quality warnings: ${qualityReport.warnings.join(', ')}`);
+    }
+
+    return fundamentals;
+  }
+
+  async getHistoricalPrices(ticker: string, years: number = 1): Promise<HistoricalPrice[]> {
+    const dailyData = (await this.getCachedTimeSeries(ticker))["Time Series (Daily)"];
+    const cutoff = this.yearsAgo(years);
+
+    return Object.entries(dailyData)
+      .map(([date, bar]) => ({ date: new Date(date), close: parseFloat(bar["4. close"]) }))
+      .filter(price => price.date >= cutoff && isFinite(price.close))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private query(params: URLSearchParams): Promise<any> {
+    const fetcher = () => RetryHandler.withRetry(
+      async () => {
+        const res = await fetch(`${this.baseUrl}?${params}`);
+        if (!res.ok) {
+          throw new NetworkError(`HTTP ${res.status}: ${res.statusText}`);
+        }
+        return res.json();
+      },
+      RetryHandler.getNetworkRetryConfig()
+    );
+
+    if (!this.cassette) {
+      return fetcher();
+    }
+
+    // Keep the API key out of cassette keys so recordings can be shared
+    const key = [...params.entries()]
+      .filter(([name]) => name !== 'apikey')
+      .map(([name, value]) => `${name}=${value}`)
+      .join('&');
+    return this.cassette.capture(`alphavantage:${key}`, fetcher);
+  }
+
+  private getCachedTimeSeries(symbol: string): Promise<AlphaVantageTimeSeriesDaily> {
+    const key = symbol.toUpperCase();
+    let pending = this.timeSeriesCache.get(key);
+    
+    if (!pending) {
+      pending = this.getTimeSeriesDaily(key, 'full');
+      this.timeSeriesCache.set(key, pending);
+      // Don't cache failures so the next call can retry
+      pending.catch(() => this.timeSeriesCache.delete(key));
+    }
+    
+    return pending;
+  }
+
+  private yearsAgo(years: number): Date {
+    const date = new Date(this.asOf ?? Date.now());
+    date.setFullYear(date.getFullYear() - years);
+    return date;
+  }
+
+  // Alpha Vantage reports missing values as the string "None"
+  private presentOrUndefined(value: string | undefined): string | undefined {
+    return value && value !== 'None' ? value : undefined;
+  }
+
+  private parseReportValue(value: string | undefined): number {
+    return value && value !== 'None' ? Number(value) : NaN;
+  }
+
   private handleAlphaVantageError(error: any, operation: string, symbol: string): Error {
     // Handle specific Alpha Vantage errors
     if (error?.message?.includes('Invalid API call') || error?.message?.includes('not found')) {
@@ -313,7 +470,11 @@ export class AlphaVantageService {
   }
 
   // Health check method to test if Alpha Vantage is accessible
-  async healthCheck(): Promise<{ available: boolean; latency: number; error?: string }> {
+  async healthCheck(): Promise<ProviderHealth> {
+    if (this.cassette?.isReplaying) {
+      return { available: true, latency: 0 };
+    }
+    
     const start = Date.now();
     
     try {
@@ -0,0 +1,75 @@
+import { DividendAnalysisService } from "./DividendAnalysisService";
+import { RateLimitedMarketDataProvider } from "./RateLimitedMarketDataProvider";
+import { InputValidator } from "../validation/InputValidator";
+import { RateLimiter } from "../utils/RateLimiter";
+import { mapWithConcurrency } from "../utils/Concurrency";
+import type { DividendAnalysis } from "../models/DividendAnalysis";
+import type { ScoringProfile } from "../models/ScoringProfile";
+import type { MarketDataProvider } from "./MarketDataProvider";
+
+export interface BatchAnalysisOptions {
+  years: number;
+  requiredReturn: number;
+  saveToDb: boolean;
+  forceFresh: boolean;
+  provider: MarketDataProvider;
+  profile: ScoringProfile;
+  concurrency: number;
+  requestsPerSecond: number;
+  maxCacheAgeHours?: number | undefined;
+  onProgress?: ((result: BatchItemResult, completed: number, total: number) => void) | undefined;
+}
+
+export type BatchItemResult =
+  | { ticker: string; analysis: DividendAnalysis; error: null }
+  | { ticker: string; analysis: null; error: Error };
+
+/**
+ * Analyzes many tickers with bounded concurrency. All workers share one
+ * provider behind one rate limiter; a failing ticker is recorded and the
+ * batch carries on.
+ */
+export class BatchAnalysisService {
+  static readonly DEFAULT_CONCURRENCY = 4;
+  static readonly DEFAULT_REQUESTS_PER_SECOND = 4;
+
+  private readonly analysisService: DividendAnalysisService;
+
+  constructor(analysisService: DividendAnalysisService = new DividendAnalysisService()) {
+    this.analysisService = analysisService;
+  }
+
+  async analyzeMany(tickers: string[], options: BatchAnalysisOptions): Promise<BatchItemResult[]> {
+    const provider = new RateLimitedMarketDataProvider(options.provider, new RateLimiter(options.requestsPerSecond));
+    let completed = 0;
+
+    const settled = await mapWithConcurrency(tickers, options.concurrency, async rawTicker => {
+      let result: BatchItemResult;
+
+      try {
+        const ticker = InputValidator.validateTicker(rawTicker);
+        const analysis = await this.analysisService.analyze(
+          ticker,
+          options.years,
+          options.requiredReturn,
+          options.saveToDb,
+          options.forceFresh,
+          provider,
+          options.profile,
+          options.maxCacheAgeHours
+        );
+        result = { ticker, analysis, error: null };
+      } catch (error) {
+        result = { ticker: rawTicker, analysis: null, error: error instanceof Error ? error : new Error(String(error)) };
+      }
+
+      options.onProgress?.(result, ++completed, tickers.length);
+      return result;
+    });
+
+    // Tasks never throw, but keep the types honest
+    return settled.map((entry, i) => entry.status === 'fulfilled'
+      ? entry.value
+      : { ticker: tickers[i], analysis: null, error: entry.reason instanceof Error ? entry.reason : new Error(String(entry.reason)) });
+  }
+}
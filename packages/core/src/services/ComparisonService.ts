@@ -0,0 +1,115 @@
+import { SCORE_FACTORS } from "../models/ScoringProfile";
+import type { DividendAnalysis } from "../models/DividendAnalysis";
+
+export type ComparisonFormat = 'price' | 'percent' | 'years' | 'points';
+
+/**
+ * Which end of a row wins; `none` rows are shown but never highlighted
+ */
+export type ComparisonPreference = 'higher' | 'lower' | 'none';
+
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  format: ComparisonFormat;
+  better: ComparisonPreference;
+  values: Record<string, number | null>;
+  best: string[];
+}
+
+export interface TickerComparison {
+  tickers: string[];
+  rows: ComparisonRow[];
+}
+
+interface RowDefinition {
+  key: string;
+  label: string;
+  format: ComparisonFormat;
+  better: ComparisonPreference;
+  value: (analysis: DividendAnalysis) => number | null;
+}
+
+const SCORE_LABELS: Record<typeof SCORE_FACTORS[number], string> = {
+  payout: 'Payout score',
+  fcf: 'FCF score',
+  streak: 'Streak score',
+  growth: 'Growth score',
+  trend: 'Trend score',
+  macd: 'MACD score',
+  rsi: 'RSI score'
+};
+
+const ROWS: RowDefinition[] = [
+  { key: 'price', label: 'Price', format: 'price', better: 'none', value: a => a.quote.price },
+  { key: 'ttmYield', label: 'TTM yield', format: 'percent', better: 'higher', value: a => a.ttmYield },
+  { key: 'forwardYield', label: 'Forward yield', format: 'percent', better: 'higher', value: a => a.forwardYield },
+  { key: 'cagr3', label: '3y CAGR', format: 'percent', better: 'higher', value: a => a.cagr3 },
+  { key: 'cagr5', label: '5y CAGR', format: 'percent', better: 'higher', value: a => a.cagr5 },
+  { key: 'streak', label: 'Streak', format: 'years', better: 'higher', value: a => a.streak },
+  { key: 'epsPayoutRatio', label: 'EPS payout', format: 'percent', better: 'lower', value: a => a.fundamentals.epsPayoutRatio },
+  { key: 'fcfPayoutRatio', label: 'FCF payout', format: 'percent', better: 'lower', value: a => a.fundamentals.fcfPayoutRatio },
+  ...SCORE_FACTORS.map((factor): RowDefinition => ({
+    key: `scores.${factor}`,
+    label: SCORE_LABELS[factor],
+    format: 'points',
+    better: 'higher',
+    value: a => a.scores[factor]
+  })),
+  { key: 'totalScore', label: 'Total score', format: 'points', better: 'higher', value: a => a.totalScore },
+  { key: 'ddmUpside', label: 'DDM upside', format: 'percent', better: 'higher', value: a => a.valuation.upside }
+];
+
+/**
+ * Lines several analyses up metric by metric and marks the best value in
+ * each row
+ */
+export class ComparisonService {
+  static compare(analyses: DividendAnalysis[]): TickerComparison {
+    const tickers = analyses.map(analysis => analysis.ticker);
+
+    const rows = ROWS.map(definition => {
+      const values: Record<string, number | null> = {};
+      for (const analysis of analyses) {
+        const value = definition.value(analysis);
+        values[analysis.ticker] = value !== null && isFinite(value) ? value : null;
+      }
+
+      return {
+        key: definition.key,
+        label: definition.label,
+        format: definition.format,
+        better: definition.better,
+        values,
+        best: this.bestTickers(values, definition.better, definition.format)
+      };
+    });
+
+    return { tickers, rows };
+  }
+
+  /**
+   * Tickers sharing the winning value. A row with nothing to choose between
+   * has no winner; negative payout ratios (losses) never win "lower".
+   */
+  private static bestTickers(values: Record<string, number | null>, better: ComparisonPreference, format: ComparisonFormat): string[] {
+    if (better === 'none') {
+      return [];
+    }
+
+    const candidates = Object.entries(values).filter((entry): entry is [string, number] =>
+      entry[1] !== null && (better === 'higher' || format !== 'percent' || entry[1] >= 0)
+    );
+
+    if (candidates.length < 2) {
+      return [];
+    }
+
+    const target = better === 'higher'
+      ? Math.max(...candidates.map(([, value]) => value))
+      : Math.min(...candidates.map(([, value]) => value));
+    const best = candidates.filter(([, value]) => value === target).map(([ticker]) => ticker);
+
+    return best.length === candidates.length ? [] : best;
+  }
+}
@@ -0,0 +1,124 @@
+import { Quote, type DividendEvent, type Fundamentals } from "../models/StockData";
+import type {
+  MarketDataProvider,
+  MarketDataCapability,
+  HistoricalPrice,
+  CompanyProfile,
+  ProviderHealth
+} from "./MarketDataProvider";
+import { ConfigurationError } from "../errors/DivvyErrors";
+
+export type MarketDataRoutes = Record<MarketDataCapability, MarketDataProvider[]>;
+
+export interface CompositeOptions {
+  // Provider whose company profile replaces the quote's sector and industry
+  classifyWith?: MarketDataProvider;
+}
+
+/**
+ * Routes each capability to an ordered list of providers, falling back to the
+ * next provider when one fails. The last provider's error is surfaced.
+ */
+export class CompositeMarketDataProvider implements MarketDataProvider {
+  readonly name: string;
+  readonly asOf: Date | undefined;
+  private readonly routes: MarketDataRoutes;
+  private readonly classifyWith: MarketDataProvider | undefined;
+
+  constructor(name: string, routes: MarketDataRoutes, { classifyWith }: CompositeOptions = {}) {
+    for (const [capability, providers] of Object.entries(routes)) {
+      if (providers.length === 0) {
+        throw new ConfigurationError(`Provider "${name}" has no data source for ${capability}`);
+      }
+    }
+
+    this.name = name;
+    this.routes = routes;
+    this.classifyWith = classifyWith;
+    this.asOf = routes.quote[0].asOf;
+  }
+
+  /**
+   * Uses the same provider order for every capability
+   */
+  static withFallback(name: string, providers: MarketDataProvider[]): CompositeMarketDataProvider {
+    return new CompositeMarketDataProvider(name, {
+      quote: providers,
+      dividends: providers,
+      fundamentals: providers,
+      historicalPrices: providers,
+      companyProfile: providers
+    });
+  }
+
+  async getQuote(ticker: string): Promise<Quote> {
+    const quote = await this.route('quote', provider => provider.getQuote(ticker));
+    return this.classifyWith ? this.classify(ticker, quote, this.classifyWith) : quote;
+  }
+
+  getDividendEvents(ticker: string, years?: number): Promise<DividendEvent[]> {
+    return this.route('dividends', provider => provider.getDividendEvents(ticker, years));
+  }
+
+  getFundamentals(ticker: string, years?: number): Promise<Fundamentals> {
+    return this.route('fundamentals', provider => provider.getFundamentals(ticker, years));
+  }
+
+  getHistoricalPrices(ticker: string, years?: number): Promise<HistoricalPrice[]> {
+    return this.route('historicalPrices', provider => provider.getHistoricalPrices(ticker, years));
+  }
+
+  getCompanyProfile(ticker: string): Promise<CompanyProfile> {
+    return this.route('companyProfile', provider => provider.getCompanyProfile(ticker));
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    // The quote source is the one every analysis depends on
+    return this.routes.quote[0].healthCheck();
+  }
+
+  /**
+   * Sector rules key off the quote's sector and industry, so a profile that
+   * has both wins. Without one the quote source's classification stays.
+   */
+  private async classify(ticker: string, quote: Quote, provider: MarketDataProvider): Promise<Quote> {
+    try {
+      const { sector, industry } = await provider.getCompanyProfile(ticker);
+      if (sector && industry) {
+        return new Quote({
+          regularMarketPrice: quote.price,
+          currency: quote.currency,
+          shortName: quote.name,
+          sector,
+          industry
+        });
+      }
+    } catch (error) {
+      console.warn(`⚠️  ${provider.name} company profile failed, keeping the quote's sector: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return quote;
+  }
+
+  private async route<T>(
+    capability: MarketDataCapability,
+    operation: (provider: MarketDataProvider) => Promise<T>
+  ): Promise<T> {
+    const providers = this.routes[capability];
+    let lastError: unknown;
+
+    for (let i = 0; i < providers.length; i++) {
+      try {
+        return await operation(providers[i]);
+      } catch (error) {
+        lastError = error;
+
+        if (i < providers.length - 1) {
+          console.warn(`⚠️  ${providers[i].name} ${capability} failed, falling back to ${providers[i + 1].name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+}
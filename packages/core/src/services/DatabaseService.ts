@@ -1,6 +1,10 @@
-import { supabase } from '../supabase/supabaseClient.js';
-import { DividendAnalysis, DividendScores } from '../models/DividendAnalysis.js';
+import { getSupabase } from '../supabase/supabaseClient.js';
+import { DividendAnalysis, DividendScores, type DdmValuation } from '../models/DividendAnalysis.js';
 import { Quote, Fundamentals } from '../models/StockData.js';
+import { DividendCalculator } from '../calculators/DividendCalculator.js';
+import { DEFAULT_SCORING_PROFILE } from '../models/ScoringProfile.js';
+import type { RefreshRun } from '../models/RefreshRun.js';
+import type { LeaderboardQuery, LeaderboardSort } from '../models/Leaderboard.js';
 import { createHash } from 'crypto';
 
 export interface AnalysisOptions {
@@ -10,6 +14,8 @@ export interface AnalysisOptions {
   [key: string]: any;
 }
 
+export type { LeaderboardSort };
+
 export interface TickerRecord {
   id: string;
   symbol: string;
@@ -36,6 +42,9 @@ export interface AnalysisRecord {
   payout_fcf: number | null;
   fcf_coverage: number | null;
   ddm_price: number | null;
+  ddm_upside: number | null;
+  required_return: number | null;
+  ddm_growth: number | null;
   score_payout: number | null;
   score_fcf: number | null;
   score_streak: number | null;
@@ -44,6 +53,63 @@ export interface AnalysisRecord {
   raw: any;
 }
 
+export interface LeaderboardRecord {
+  as_of_date: string;
+  ticker_id: string;
+  symbol: string;
+  name: string | null;
+  sector: string | null;
+  score: number;
+  forward_yield: number | null;
+  ttm_yield: number | null;
+  streak: number | null;
+  price: number;
+  ddm_price: number | null;
+  margin_of_safety: number | null;
+  rank: number;
+}
+
+export interface WatchlistRecord {
+  name: string;
+  tickers: string[];
+  rules: unknown[];
+  channels: unknown[];
+  updated_at?: string;
+}
+
+export interface RefreshRunRecord {
+  id: string;
+  provider: string;
+  options_hash: string | null;
+  started_at: string;
+  finished_at: string | null;
+  status: RefreshRun['status'];
+  universe_size: number;
+  refreshed: number;
+  failed: number;
+  skipped: number;
+  requests: number;
+  quota_exhausted: boolean;
+  leaderboard_refreshed: boolean;
+  error: string | null;
+  results: RefreshRun['results'];
+}
+
+export interface WatchlistAlertStateRecord {
+  watchlist: string;
+  ticker: string;
+  rule_key: string;
+  condition: string | null;
+  updated_at: string;
+}
+
+export interface WatchlistPendingAlertsRecord {
+  watchlist: string;
+  channel: string;
+  alerts: any;   // Alert[] as JSON
+  updated_at: string;
+}
+
 export class DatabaseService {
   static createOptionsHash(options: AnalysisOptions): string {
     const normalized = JSON.stringify(options, Object.keys(options).sort());
@@ -52,7 +118,7 @@ export class DatabaseService {
 
   static async ensureTicker(symbol: string, name?: string, sector?: string, industry?: string): Promise<string> {
     // Try to get existing ticker
-    const { data: existingTicker, error: selectError } = await supabase
+    const { data: existingTicker, error: selectError } = await getSupabase()
       .from('tickers')
       .select('id')
       .eq('symbol', symbol)
@@ -67,7 +133,7 @@ export class DatabaseService {
     }
 
     // Insert new ticker
-    const { data: newTicker, error: insertError } = await supabase
+    const { data: newTicker, error: insertError } = await getSupabase()
       .from('tickers')
       .insert({
         symbol: symbol.toUpperCase(),
@@ -116,7 +182,10 @@ export class DatabaseService {
         payout_eps: isFinite(analysis.fundamentals.epsPayoutRatio) ? analysis.fundamentals.epsPayoutRatio : null,
         payout_fcf: isFinite(analysis.fundamentals.fcfPayoutRatio) ? analysis.fundamentals.fcfPayoutRatio : null,
         fcf_coverage: isFinite(analysis.fundamentals.fcfCoverage) ? analysis.fundamentals.fcfCoverage : null,
-        ddm_price: null, // Would need to add Gordon Growth Model result to analysis
+        ddm_price: analysis.valuation.ddmPrice,
+        ddm_upside: analysis.valuation.upside,
+        required_return: analysis.valuation.requiredReturn,
+        ddm_growth: analysis.valuation.growth,
         score_payout: Math.round(analysis.scores.payout),
         score_fcf: Math.round(analysis.scores.fcf),
         score_streak: Math.round(analysis.scores.streak),
@@ -138,6 +207,8 @@ export class DatabaseService {
               cashDividendsPaid: analysis.fundamentals.cashDividendsPaid,
               netIncome: analysis.fundamentals.netIncome,
               payoutRatio: analysis.fundamentals.payoutRatio,
+              depreciation: analysis.fundamentals.depreciation,
+              capitalRatio: analysis.fundamentals.capitalRatio,
               freeCashFlow: analysis.fundamentals.freeCashFlow,
               fcfPayoutRatio: analysis.fundamentals.fcfPayoutRatio,
               fcfCoverage: analysis.fundamentals.fcfCoverage,
@@ -148,16 +219,20 @@ export class DatabaseService {
             forwardYield: analysis.forwardYield,
             scores: analysis.scores,
             totalScore: analysis.totalScore,
+            scoringProfile: analysis.scoringProfile,
             ema: analysis.ema,
             macd: analysis.macd,
-            rsi: analysis.rsi
+            rsi: analysis.rsi,
+            valuation: analysis.valuation,
+            multiStageDdm: analysis.multiStageDdm,
+            ddmSensitivity: analysis.ddmSensitivity
           },
           options,
           savedAt: new Date().toISOString()
         }
       };
 
-      const { data, error } = await supabase
+      const { data, error } = await getSupabase()
         .from('analyses')
         .insert(record)
         .select('id')
@@ -182,7 +257,7 @@ export class DatabaseService {
     const cutoffTime = new Date();
     cutoffTime.setHours(cutoffTime.getHours() - hoursThreshold);
 
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('analyses')
       .select(`
         *,
@@ -208,15 +283,22 @@ export class DatabaseService {
 
   static async getAnalysisHistory(
     symbol: string,
-    limit: number = 30
+    limit: number = 30,
+    optionsHash?: string
   ): Promise<AnalysisRecord[]> {
-    const { data, error } = await supabase
+    let query = getSupabase()
       .from('analyses')
       .select(`
         *,
         tickers!inner (symbol)
       `)
-      .eq('tickers.symbol', symbol.toUpperCase())
+      .eq('tickers.symbol', symbol.toUpperCase());
+
+    if (optionsHash) {
+      query = query.eq('options_hash', optionsHash);
+    }
+
+    const { data, error } = await query
       .order('observed_at', { ascending: false })
       .limit(limit);
 
@@ -227,16 +309,24 @@ export class DatabaseService {
     return data || [];
   }
 
-  static async getLeaderboard(date?: Date, limit: number = 50): Promise<any[]> {
+  static async getLeaderboard(
+    date?: Date,
+    limit: number = 50,
+    sortBy: LeaderboardSort = 'score'
+  ): Promise<any[]> {
     const targetDate = date || new Date();
     const dateStr = targetDate.toISOString().split('T')[0];
 
-    const { data, error } = await supabase
+    let query = getSupabase()
       .from('leaderboard_daily')
       .select('*')
-      .eq('as_of_date', dateStr)
-      .order('rank')
-      .limit(limit);
+      .eq('as_of_date', dateStr);
+
+    query = sortBy === 'marginOfSafety'
+      ? query.order('margin_of_safety', { ascending: false, nullsFirst: false })
+      : query.order('rank');
+
+    const { data, error } = await query.limit(limit);
 
     if (error) {
       throw new Error(`Failed to get leaderboard: ${error.message}`);
@@ -245,14 +335,249 @@ export class DatabaseService {
     return data || [];
   }
 
+  /**
+   * One filtered page of a day's leaderboard with the filtered row count.
+   * Without a date the latest day in the view is used.
+   */
+  static async queryLeaderboard(query: LeaderboardQuery): Promise<{ date: string | null; records: LeaderboardRecord[]; total: number }> {
+    let date = query.date;
+
+    if (!date) {
+      const { data, error } = await getSupabase()
+        .from('leaderboard_daily')
+        .select('as_of_date')
+        .order('as_of_date', { ascending: false })
+        .limit(1);
+
+      if (error) {
+        throw new Error(`Failed to get leaderboard: ${error.message}`);
+      }
+      date = data?.[0]?.as_of_date ?? null;
+      if (!date) {
+        return { date: null, records: [], total: 0 };
+      }
+    }
+
+    const request = this.filteredLeaderboard(date, query, false);
+    const sorted = query.sort === 'marginOfSafety'
+      ? request.order('margin_of_safety', { ascending: false, nullsFirst: false }).order('rank')
+      : request.order('rank');
+
+    const from = (query.page - 1) * query.pageSize;
+    const { data, error, count } = await sorted.range(from, from + query.pageSize - 1);
+
+    // PostgREST answers 416 for a page past the end, which is just an empty page
+    if (error?.code === 'PGRST103') {
+      const { error: countError, count: total } = await this.filteredLeaderboard(date, query, true);
+      if (countError) {
+        throw new Error(`Failed to get leaderboard: ${countError.message}`);
+      }
+      return { date, records: [], total: total ?? 0 };
+    }
+
+    if (error) {
+      throw new Error(`Failed to get leaderboard: ${error.message}`);
+    }
+
+    return { date, records: data || [], total: count ?? 0 };
+  }
+
+  /** A day's leaderboard rows narrowed by the query's filters, counted exactly */
+  private static filteredLeaderboard(date: string, query: LeaderboardQuery, head: boolean) {
+    let request = getSupabase()
+      .from('leaderboard_daily')
+      .select('*', { count: 'exact', head })
+      .eq('as_of_date', date);
+
+    if (query.sector) {
+      request = request.ilike('sector', query.sector.replace(/[\\%_]/g, match => `\\${match}`));
+    }
+    if (query.minYield !== null) {
+      request = request.gte('forward_yield', query.minYield);
+    }
+    if (query.minStreak !== null) {
+      request = request.gte('streak', query.minStreak);
+    }
+
+    return request;
+  }
+
   static async refreshLeaderboard(): Promise<void> {
-    const { error } = await supabase.rpc('refresh_leaderboard_daily');
+    const { error } = await getSupabase().rpc('refresh_leaderboard_daily');
 
     if (error) {
       throw new Error(`Failed to refresh leaderboard: ${error.message}`);
     }
   }
 
+  static async getWatchlists(): Promise<WatchlistRecord[]> {
+    const { data, error } = await getSupabase()
+      .from('watchlists')
+      .select('name, tickers, rules, channels, updated_at')
+      .order('name');
+
+    if (error) {
+      throw new Error(`Failed to get watchlists: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  static async saveWatchlist(record: WatchlistRecord): Promise<void> {
+    const { error } = await getSupabase()
+      .from('watchlists')
+      .upsert({ ...record, updated_at: new Date().toISOString() }, { onConflict: 'name' });
+
+    if (error) {
+      throw new Error(`Failed to save watchlist: ${error.message}`);
+    }
+  }
+
+  static async deleteWatchlist(name: string): Promise<boolean> {
+    const { data, error } = await getSupabase()
+      .from('watchlists')
+      .delete()
+      .eq('name', name)
+      .select('name');
+
+    if (error) {
+      throw new Error(`Failed to delete watchlist: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  static async getWatchlistAlertStates(watchlist: string): Promise<WatchlistAlertStateRecord[]> {
+    const { data, error } = await getSupabase()
+      .from('watchlist_alert_state')
+      .select('*')
+      .eq('watchlist', watchlist);
+
+    if (error) {
+      throw new Error(`Failed to get watchlist alert state: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  static async saveWatchlistAlertStates(records: WatchlistAlertStateRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    const { error } = await getSupabase()
+      .from('watchlist_alert_state')
+      .upsert(records, { onConflict: 'watchlist,ticker,rule_key' });
+
+    if (error) {
+      throw new Error(`Failed to save watchlist alert state: ${error.message}`);
+    }
+  }
+
+  static async getWatchlistPendingAlerts(watchlist: string): Promise<WatchlistPendingAlertsRecord[]> {
+    const { data, error } = await getSupabase()
+      .from('watchlist_pending_alerts')
+      .select('*')
+      .eq('watchlist', watchlist);
+
+    if (error) {
+      throw new Error(`Failed to get pending watchlist alerts: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Replaces the watchlist's pending alerts; channels missing from `records`
+   * have nothing left to resend
+   */
+  static async saveWatchlistPendingAlerts(watchlist: string, records: WatchlistPendingAlertsRecord[]): Promise<void> {
+    const { error: deleteError } = await getSupabase()
+      .from('watchlist_pending_alerts')
+      .delete()
+      .eq('watchlist', watchlist);
+
+    if (deleteError) {
+      throw new Error(`Failed to save pending watchlist alerts: ${deleteError.message}`);
+    }
+
+    if (records.length === 0) {
+      return;
+    }
+
+    const { error } = await getSupabase()
+      .from('watchlist_pending_alerts')
+      .insert(records);
+
+    if (error) {
+      throw new Error(`Failed to save pending watchlist alerts: ${error.message}`);
+    }
+  }
+
+  static async startRefreshRun(run: RefreshRun): Promise<string> {
+    const { data, error } = await getSupabase()
+      .from('refresh_runs')
+      .insert({
+        provider: run.provider,
+        options_hash: run.optionsHash,
+        started_at: run.startedAt.toISOString(),
+        status: 'running',
+        universe_size: run.universe
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record refresh run: ${error.message}`);
+    }
+
+    return data.id;
+  }
+
+  static async finishRefreshRun(run: RefreshRun): Promise<void> {
+    const { error } = await getSupabase()
+      .from('refresh_runs')
+      .update({
+        finished_at: (run.finishedAt ?? new Date()).toISOString(),
+        status: run.status,
+        refreshed: run.refreshed,
+        failed: run.failed,
+        skipped: run.skipped,
+        requests: run.requests,
+        quota_exhausted: run.quotaExhausted,
+        leaderboard_refreshed: run.leaderboardRefreshed,
+        error: run.error,
+        results: run.results
+      })
+      .eq('id', run.id);
+
+    if (error) {
+      throw new Error(`Failed to record refresh run: ${error.message}`);
+    }
+  }
+
+  /**
+   * The newest run still marked running that started within `maxAgeHours`;
+   * older ones are assumed to have crashed
+   */
+  static async getActiveRefreshRun(maxAgeHours: number): Promise<RefreshRunRecord | null> {
+    const since = new Date(Date.now() - maxAgeHours * 60 * 60 * 1000);
+
+    const { data, error } = await getSupabase()
+      .from('refresh_runs')
+      .select('*')
+      .eq('status', 'running')
+      .gte('started_at', since.toISOString())
+      .order('started_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to get refresh runs: ${error.message}`);
+    }
+
+    return data?.[0] ?? null;
+  }
+
   static hydrateAnalysisFromRecord(record: AnalysisRecord): DividendAnalysis {
     // The raw field contains the full analysis data
     const rawAnalysis = record.raw.analysis;
@@ -272,7 +597,9 @@ export class DatabaseService {
       CapitalExpenditure: { raw: rawAnalysis.fundamentals.capitalExpenditure },
       CashDividendsPaid: { raw: rawAnalysis.fundamentals.cashDividendsPaid },
       NetIncome: { raw: rawAnalysis.fundamentals.netIncome },
-      payoutRatio: { raw: rawAnalysis.fundamentals.payoutRatio }
+      payoutRatio: { raw: rawAnalysis.fundamentals.payoutRatio },
+      DepreciationAndAmortization: { raw: rawAnalysis.fundamentals.depreciation },
+      Tier1CapitalRatio: { raw: rawAnalysis.fundamentals.capitalRatio }
     });
 
     // Reconstruct the DividendScores object
@@ -283,7 +610,8 @@ export class DatabaseService {
       growth: rawAnalysis.scores.growth,
       trend: rawAnalysis.scores.trend || 0, // Default to 0 if not present in old data
       macd: rawAnalysis.scores.macd || 50, // Default to 50 (neutral) if not present in old data
-      rsi: rawAnalysis.scores.rsi || 50 // Default to 50 (neutral) if not present in old data
+      rsi: rawAnalysis.scores.rsi || 50, // Default to 50 (neutral) if not present in old data
+      explanations: rawAnalysis.scores.explanations ?? null
     });
 
     // Reconstruct EMA data (default to null if not present in old data)
@@ -322,9 +650,30 @@ export class DatabaseService {
       forwardYield: rawAnalysis.forwardYield,
       scores,
       totalScore: rawAnalysis.totalScore,
+      scoringProfile: rawAnalysis.scoringProfile ?? record.raw.options?.profile ?? DEFAULT_SCORING_PROFILE.name,
       ema,
       macd,
-      rsi
+      rsi,
+      valuation: rawAnalysis.valuation ?? this.hydrateValuation(record),
+      multiStageDdm: rawAnalysis.multiStageDdm ?? null, // Not present in old data
+      ddmSensitivity: rawAnalysis.ddmSensitivity ??
+        DividendCalculator.calculateSensitivityGrid(rawAnalysis.ttmDividends, rawAnalysis.quote.price)
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * Rebuilds the Gordon Growth valuation for records saved before it was
+   * stored, using the required return from the saved options
+   */
+  private static hydrateValuation(record: AnalysisRecord): DdmValuation {
+    const rawAnalysis = record.raw.analysis;
+    const requiredReturn = record.required_return ?? record.raw.options?.requiredReturn ?? 0.09;
+
+    return DividendCalculator.calculateDdmValuation(
+      rawAnalysis.forwardDividend,
+      rawAnalysis.quote.price,
+      requiredReturn,
+      rawAnalysis.safeGrowth
+    );
+  }
+}
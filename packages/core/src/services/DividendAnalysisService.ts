@@ -1,54 +1,73 @@
-import { YahooFinanceService } from "./YahooFinanceService";
-import { AlphaVantageService } from "./AlphaVantageService";
 import { DividendCalculator } from "../calculators/DividendCalculator";
 import { ScoreCalculator } from "../calculators/ScoreCalculator";
 import { DividendAnalysis, EmaData } from "../models/DividendAnalysis";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "../models/ScoringProfile";
 import { DividendEliteDetector } from "../data/DividendAristocrats";
 import { calculateCAGR } from "../utils/MathUtils";
 import { DatabaseService, type AnalysisOptions } from "./DatabaseService";
 import { TechnicalIndicatorCalculator, MacdData, RsiData } from "../calculators/TechnicalIndicatorCalculator";
+import type { MarketDataProvider, ProviderHealth } from "./MarketDataProvider";
+import { MarketDataProviderRegistry } from "./MarketDataProviderRegistry";
+import { ScoringProfileRegistry } from "./ScoringProfileRegistry";
+import { RateLimitError } from "../errors/DivvyErrors";
 
 export class DividendAnalysisService {
-  private readonly yahooService: YahooFinanceService;
-  private readonly alphaVantageService: AlphaVantageService | null;
+  static readonly CACHE_MAX_AGE_HOURS = 24;
+  static readonly DEFAULT_YEARS = 15;
+  static readonly DEFAULT_REQUIRED_RETURN = 0.09;
+  static readonly DEFAULT_PROVIDER = 'yahoo';
 
-  constructor() {
-    this.yahooService = new YahooFinanceService();
-    
-    // Initialize Alpha Vantage service if API key is available
-    try {
-      this.alphaVantageService = new AlphaVantageService();
-    } catch (error) {
-      console.warn('Alpha Vantage service not available:', error instanceof Error ? error.message : 'Unknown error');
-      this.alphaVantageService = null;
-    }
+  /**
+   * Options saved analyses are keyed by: the provider and the profile's actual
+   * weights and thresholds change the result as much as r does
+   */
+  static analysisOptions(
+    years: number = DividendAnalysisService.DEFAULT_YEARS,
+    requiredReturn: number = DividendAnalysisService.DEFAULT_REQUIRED_RETURN,
+    provider: string = DividendAnalysisService.DEFAULT_PROVIDER,
+    profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+  ): AnalysisOptions {
+    return {
+      requiredReturn,
+      years,
+      periods: years,
+      provider,
+      profile: profile.name,
+      scoring: ScoringProfileRegistry.fingerprint(profile)
+    };
   }
-  
-  async healthCheck(): Promise<{ available: boolean; latency: number; error?: string }> {
-    return this.yahooService.healthCheck();
+
+  /**
+   * `options_hash` of analyses saved with these settings; the defaults match
+   * a plain `divvy KO` and the web app
+   */
+  static optionsHash(years?: number, requiredReturn?: number, provider?: string, profile?: ScoringProfile): string {
+    return DatabaseService.createOptionsHash(this.analysisOptions(years, requiredReturn, provider, profile));
+  }
+
+  async healthCheck(provider: string = 'yahoo'): Promise<ProviderHealth> {
+    return MarketDataProviderRegistry.resolve(provider).healthCheck();
   }
 
   async analyze(
     ticker: string, 
-    years: number = 15, 
-    requiredReturn: number = 0.09,
+    years: number = DividendAnalysisService.DEFAULT_YEARS, 
+    requiredReturn: number = DividendAnalysisService.DEFAULT_REQUIRED_RETURN,
     saveToDb: boolean = true,
     forceFresh: boolean = false,
-    provider: string = 'yahoo'
+    provider: string | MarketDataProvider = DividendAnalysisService.DEFAULT_PROVIDER,
+    profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+    maxCacheAgeHours: number = DividendAnalysisService.CACHE_MAX_AGE_HOURS
   ): Promise<DividendAnalysis> {
-    // Create options hash for caching (include provider)
-    const options: AnalysisOptions = {
-      requiredReturn,
-      years,
-      periods: years,
-      provider
-    };
+    const providerName = typeof provider === 'string' ? provider : provider.name;
+
+    const options = DividendAnalysisService.analysisOptions(years, requiredReturn, providerName, profile);
     const optionsHash = DatabaseService.createOptionsHash(options);
 
-    // Check for recent cached analysis (within 24 hours) unless forced fresh
+    // Check for recent cached analysis (within 24 hours by default) unless forced fresh
     if (saveToDb && !forceFresh) {
       try {
-        const cachedRecord = await DatabaseService.getRecentAnalysis(ticker, optionsHash, 24);
+        const cachedRecord = await DatabaseService.getRecentAnalysis(ticker, optionsHash, maxCacheAgeHours);
         if (cachedRecord) {
           console.log(`📋 Using cached analysis for ${ticker} (${new Date(cachedRecord.observed_at).toLocaleString()})`);
           return DatabaseService.hydrateAnalysisFromRecord(cachedRecord);
@@ -65,36 +84,15 @@ export class DividendAnalysisService {
     // Perform fresh analysis
     console.log(`🔍 Performing fresh analysis for ${ticker}...`);
     
-    // Get quote and enhance with Alpha Vantage data if requested
-    let quote = await this.yahooService.getQuote(ticker);
+    const dataProvider = typeof provider === 'string'
+      ? MarketDataProviderRegistry.resolve(provider)
+      : provider;
     
-    // Get company overview from Alpha Vantage if provider is 'av' and service is available
-    let companyOverview = null;
-    if (provider === 'av' && this.alphaVantageService) {
-      try {
-        companyOverview = await this.alphaVantageService.getCompanyOverview(ticker);
-        console.log(`📊 Using Alpha Vantage company overview for ${ticker}`);
-        
-        // Create new enhanced quote with AV data if available
-        if (companyOverview.Sector && companyOverview.Industry) {
-          const { Quote } = await import("../models/StockData.js");
-          quote = new Quote({
-            regularMarketPrice: quote.price,
-            currency: quote.currency,
-            shortName: quote.name,
-            sector: companyOverview.Sector,
-            industry: companyOverview.Industry
-          });
-        }
-      } catch (error) {
-        console.warn(`⚠️  Alpha Vantage company overview failed, falling back to Yahoo Finance: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-    }
-    
-    const dividendEvents = await this.yahooService.getDividendEvents(ticker, years);
-    const fundamentals = await this.yahooService.getFundamentals(ticker, years);
+    const quote = await dataProvider.getQuote(ticker);
+    const dividendEvents = await dataProvider.getDividendEvents(ticker, years);
+    const fundamentals = await dataProvider.getFundamentals(ticker, years);
 
-    const ttmDividends = DividendCalculator.calculateTTMDividends(dividendEvents);
+    const ttmDividends = DividendCalculator.calculateTTMDividends(dividendEvents, dataProvider.asOf ?? new Date());
     const ttmYield = quote.price ? ttmDividends / quote.price : null;
 
     const annualDividends = DividendCalculator.annualizeDividends(dividendEvents);
@@ -125,106 +123,59 @@ export class DividendAnalysisService {
     const safeGrowth = DividendCalculator.calculateSafeGrowth(cagr5, cagr3, fundamentals, streak);
     const forwardDividend = isFinite(ttmDividends) ? ttmDividends * (1 + safeGrowth) : NaN;
     const forwardYield = quote.price ? forwardDividend / quote.price : null;
+    const valuation = DividendCalculator.calculateDdmValuation(forwardDividend, quote.price, requiredReturn, safeGrowth);
+    const multiStageDdm = DividendCalculator.calculateMultiStageValuation(ttmDividends, requiredReturn, safeGrowth);
+    const ddmSensitivity = DividendCalculator.calculateSensitivityGrid(ttmDividends, quote.price);
 
     let ema: EmaData = { ema20: null, ema50: null, ema200: null };
     let macd: MacdData = { macdLine: null, signalLine: null, histogram: null };
     let rsi: RsiData = { rsi: null, period: 14 };
-    let emaSource = 'none';
-    let macdSource = 'none';
-    let rsiSource = 'none';
     
-    // Try Alpha Vantage first for EMA calculations
-    if (this.alphaVantageService && (provider === 'av' || provider === 'auto')) {
-      try {
-        const timeSeries = await this.alphaVantageService.getTimeSeriesDaily(ticker, 'full');
-        const closePrices = TechnicalIndicatorCalculator.extractClosePrices(timeSeries);
+    try {
+      const historicalPrices = await dataProvider.getHistoricalPrices(ticker, 2); // Get 2 years for EMA200
+      const closePrices = TechnicalIndicatorCalculator.extractClosePrices(historicalPrices);
+      
+      if (closePrices.length >= 200) { // Need at least 200 data points for EMA200
+        const ema20 = TechnicalIndicatorCalculator.calculateEMA(closePrices, 20);
+        const ema50 = TechnicalIndicatorCalculator.calculateEMA(closePrices, 50);
+        const ema200 = TechnicalIndicatorCalculator.calculateEMA(closePrices, 200);
         
-        if (closePrices.length >= 200) { // Need at least 200 data points for EMA200
-          const ema20 = TechnicalIndicatorCalculator.calculateEMA(closePrices, 20);
-          const ema50 = TechnicalIndicatorCalculator.calculateEMA(closePrices, 50);
-          const ema200 = TechnicalIndicatorCalculator.calculateEMA(closePrices, 200);
-          
-          ema = {
-            ema20: ema20.length > 0 ? ema20[ema20.length - 1] : null,
-            ema50: ema50.length > 0 ? ema50[ema50.length - 1] : null,
-            ema200: ema200.length > 0 ? ema200[ema200.length - 1] : null,
-          };
-          emaSource = 'alphavantage';
-          
-          // Calculate MACD and RSI using the same data 
-          const indicators = [];
-          if (closePrices.length >= 35) {
-            macd = TechnicalIndicatorCalculator.calculateMACD(closePrices);
-            macdSource = 'alphavantage';
-            indicators.push('MACD');
-          }
-          
-          if (closePrices.length >= 15) { // Need at least 15 points for RSI (14 + 1)
-            rsi = TechnicalIndicatorCalculator.calculateRSI(closePrices);
-            rsiSource = 'alphavantage';
-            indicators.push('RSI');
-          }
-          
-          if (indicators.length > 0) {
-            console.log(`📊 EMA & ${indicators.join(' & ')} calculated using Alpha Vantage data (${closePrices.length} data points)`);
-          } else {
-            console.log(`📊 EMA calculated using Alpha Vantage data (${closePrices.length} data points)`);
-          }
-        } else {
-          console.warn(`⚠️  Insufficient Alpha Vantage data for EMA calculation (${closePrices.length} points, need 200+)`);
+        ema = {
+          ema20: ema20.length > 0 ? ema20[ema20.length - 1] : null,
+          ema50: ema50.length > 0 ? ema50[ema50.length - 1] : null,
+          ema200: ema200.length > 0 ? ema200[ema200.length - 1] : null,
+        };
+        
+        // Calculate MACD and RSI using the same data
+        const indicators = [];
+        if (closePrices.length >= 35) {
+          macd = TechnicalIndicatorCalculator.calculateMACD(closePrices);
+          indicators.push('MACD');
         }
-      } catch (error) {
-        console.warn(`⚠️  Alpha Vantage EMA calculation failed, falling back to Yahoo Finance: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-    }
-    
-    // Fallback to Yahoo Finance if Alpha Vantage failed or not available
-    if (emaSource === 'none') {
-      try {
-        const historicalPrices = await this.yahooService.getHistoricalPrices(ticker, 2); // Get 2 years for EMA200
-        const closePrices = TechnicalIndicatorCalculator.extractClosePrices(historicalPrices);
         
-        if (closePrices.length >= 200) {
-          const ema20 = TechnicalIndicatorCalculator.calculateEMA(closePrices, 20);
-          const ema50 = TechnicalIndicatorCalculator.calculateEMA(closePrices, 50);
-          const ema200 = TechnicalIndicatorCalculator.calculateEMA(closePrices, 200);
-          
-          ema = {
-            ema20: ema20.length > 0 ? ema20[ema20.length - 1] : null,
-            ema50: ema50.length > 0 ? ema50[ema50.length - 1] : null,
-            ema200: ema200.length > 0 ? ema200[ema200.length - 1] : null,
-          };
-          emaSource = 'yahoo';
-          
-          // Calculate MACD and RSI using Yahoo Finance data if not already calculated
-          const indicators = [];
-          if (macdSource === 'none' && closePrices.length >= 35) {
-            macd = TechnicalIndicatorCalculator.calculateMACD(closePrices);
-            macdSource = 'yahoo';
-            indicators.push('MACD');
-          }
-          
-          if (rsiSource === 'none' && closePrices.length >= 15) {
-            rsi = TechnicalIndicatorCalculator.calculateRSI(closePrices);
-            rsiSource = 'yahoo';
-            indicators.push('RSI');
-          }
-          
-          if (indicators.length > 0) {
-            console.log(`📊 EMA & ${indicators.join(' & ')} calculated using Yahoo Finance data (${closePrices.length} data points)`);
-          } else {
-            console.log(`📊 EMA calculated using Yahoo Finance data (${closePrices.length} data points)`);
-          }
+        if (closePrices.length >= 15) { // Need at least 15 points for RSI (14 + 1)
+          rsi = TechnicalIndicatorCalculator.calculateRSI(closePrices);
+          indicators.push('RSI');
+        }
+        
+        if (indicators.length > 0) {
+          console.log(`📊 EMA & ${indicators.join(' & ')} calculated using ${dataProvider.name} data (${closePrices.length} data points)`);
         } else {
-          console.warn(`⚠️  Insufficient Yahoo Finance data for EMA calculation (${closePrices.length} points, need 200+)`);
+          console.log(`📊 EMA calculated using ${dataProvider.name} data (${closePrices.length} data points)`);
         }
-      } catch (error) {
-        console.warn(`⚠️  Yahoo Finance EMA calculation also failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      } else {
+        console.warn(`⚠️  Insufficient ${dataProvider.name} data for EMA calculation (${closePrices.length} points, need 200+)`);
+      }
+    } catch (error) {
+      // Scoring without indicators would save and publish a degraded score
+      if (error instanceof RateLimitError) {
+        throw error;
       }
+      console.warn(`⚠️  EMA calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 
-    const scores = ScoreCalculator.calculateDividendScores(fundamentals, streak, safeGrowth, quote, ema, macd, rsi);
-    const totalScore = ScoreCalculator.calculateTotalScore(scores);
+    const scores = ScoreCalculator.calculateDividendScores(fundamentals, streak, safeGrowth, quote, ema, macd, rsi, profile.thresholds);
+    const totalScore = ScoreCalculator.calculateTotalScore(scores, profile.weights);
     
     // Analyze EMA trends for fundamental concerns
     const emaAnalysis = ScoreCalculator.analyzeEMATrends(quote.price, ema);
@@ -252,9 +203,13 @@ export class DividendAnalysisService {
       forwardYield,
       scores,
       totalScore,
+      scoringProfile: profile.name,
       ema,
       macd,
-      rsi
+      rsi,
+      valuation,
+      multiStageDdm,
+      ddmSensitivity
     });
 
     // Save to database if requested
@@ -0,0 +1,246 @@
+import { RateLimitedMarketDataProvider } from "./RateLimitedMarketDataProvider";
+import { RateLimiter } from "../utils/RateLimiter";
+import { mapWithConcurrency } from "../utils/Concurrency";
+import type { MarketDataProvider, CompanyProfile } from "./MarketDataProvider";
+import type { DividendEvent } from "../models/StockData";
+import type { Holding } from "../models/Portfolio";
+import type {
+  CalendarEntry,
+  DividendCalendar,
+  DividendSchedule,
+  PaymentFrequency
+} from "../models/DividendCalendar";
+
+export interface CalendarOptions {
+  from: Date;
+  months: number;
+  concurrency: number;
+  requestsPerSecond: number;
+}
+
+export type CalendarItemResult =
+  | { ticker: string; schedule: DividendSchedule; error: null }
+  | { ticker: string; schedule: null; error: Error };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FREQUENCIES: Array<{ frequency: PaymentFrequency; paymentsPerYear: number; maxGapDays: number }> = [
+  { frequency: 'monthly', paymentsPerYear: 12, maxGapDays: 45 },
+  { frequency: 'quarterly', paymentsPerYear: 4, maxGapDays: 120 },
+  { frequency: 'semiannual', paymentsPerYear: 2, maxGapDays: 240 },
+  { frequency: 'annual', paymentsPerYear: 1, maxGapDays: 400 }
+];
+
+/**
+ * Projects upcoming ex-dividend and payment dates from each ticker's past
+ * cadence: the most recent cycle of payments is repeated a year at a time at
+ * the latest amount. Dates announced by the provider replace projected ones.
+ */
+export class DividendCalendarService {
+  static readonly DEFAULT_MONTHS = 12;
+  static readonly HISTORY_YEARS = 3;
+  /** Used when the provider doesn't report a matching ex/pay date pair */
+  static readonly DEFAULT_PAY_LAG_DAYS = 14;
+  /** Projected and announced ex-dates this close are the same payment */
+  static readonly MATCH_TOLERANCE_DAYS = 10;
+  private static readonly RECENT_GAPS = 8;
+
+  static async build(tickers: string[], provider: MarketDataProvider, options: CalendarOptions): Promise<CalendarItemResult[]> {
+    const limited = new RateLimitedMarketDataProvider(provider, new RateLimiter(options.requestsPerSecond));
+    const to = this.addMonths(options.from, options.months);
+
+    const settled = await mapWithConcurrency(tickers, options.concurrency, async ticker => {
+      const events = await limited.getDividendEvents(ticker, this.HISTORY_YEARS);
+      // The calendar still works from history alone
+      const profile = await limited.getCompanyProfile(ticker).catch(() => null);
+      return this.schedule(ticker, events, profile, options.from, to);
+    });
+
+    return settled.map((entry, i): CalendarItemResult => entry.status === 'fulfilled'
+      ? { ticker: tickers[i], schedule: entry.value, error: null }
+      : { ticker: tickers[i], schedule: null, error: entry.reason instanceof Error ? entry.reason : new Error(String(entry.reason)) });
+  }
+
+  static schedule(ticker: string, events: DividendEvent[], profile: CompanyProfile | null, from: Date, to: Date): DividendSchedule {
+    const history = events
+      .filter(event => event.isValid() && event.date <= from)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+    const providerExDate = this.parseDate(profile?.exDividendDate);
+    const providerPayDate = this.parseDate(profile?.dividendDate);
+    const providerLag = providerExDate && providerPayDate ? this.days(providerPayDate.getTime() - providerExDate.getTime()) : null;
+    const payLagDays = providerLag !== null && providerLag >= 0 && providerLag <= 90 ? providerLag : this.DEFAULT_PAY_LAG_DAYS;
+    const last = history[history.length - 1];
+
+    const schedule: DividendSchedule = {
+      ticker,
+      frequency: null,
+      paymentsPerYear: 0,
+      lastExDate: last?.date ?? null,
+      lastAmount: last?.amount ?? null,
+      payLagDays,
+      providerExDate,
+      providerPayDate,
+      notes: [],
+      entries: []
+    };
+
+    if (!last) {
+      schedule.notes.push('No dividend history');
+      return schedule;
+    }
+
+    const recent = history.slice(-(this.RECENT_GAPS + 1));
+    const gaps = recent.slice(1).map((event, i) => this.days(event.date.getTime() - recent[i].date.getTime()));
+    const medianGap = gaps.length > 0 ? this.median(gaps) : 365;
+    const match = FREQUENCIES.find(f => medianGap <= f.maxGapDays);
+
+    schedule.frequency = match?.frequency ?? 'irregular';
+    schedule.paymentsPerYear = match?.paymentsPerYear ?? 0;
+
+    if (!match) {
+      schedule.notes.push(`Irregular payments (about every ${Math.round(medianGap)} days); nothing projected`);
+      return schedule;
+    }
+
+    if (this.days(from.getTime() - last.date.getTime()) > 2 * medianGap + this.MATCH_TOLERANCE_DAYS) {
+      schedule.notes.push(`No dividend since ${this.isoDate(last.date)}; payments may be suspended`);
+      return schedule;
+    }
+
+    const cycle = history.slice(-match.paymentsPerYear);
+    const projected: Date[] = [];
+    for (let years = 1; ; years++) {
+      const dates = cycle.map(event => this.addYears(event.date, years));
+      if (dates[0] > to) break;
+      projected.push(...dates.filter(date => date > from && date <= to && date > last.date));
+    }
+
+    schedule.entries = projected.map(exDate => this.entry(ticker, exDate, this.addDays(exDate, payLagDays), last.amount, 'projected'));
+    this.crossCheck(schedule, from, to, medianGap);
+    schedule.entries.sort((a, b) => a.exDate.getTime() - b.exDate.getTime());
+
+    return schedule;
+  }
+
+  /**
+   * Combines schedules into one calendar; with holdings, each payment is
+   * multiplied by the shares held across accounts
+   */
+  static calendar(schedules: DividendSchedule[], holdings: Holding[] | null, from: Date, to: Date): DividendCalendar {
+    const shares = new Map<string, number>();
+    holdings?.forEach(holding => shares.set(holding.ticker, (shares.get(holding.ticker) ?? 0) + holding.shares));
+
+    const withCash = schedules.map(schedule => ({
+      ...schedule,
+      entries: schedule.entries.map(entry => {
+        const held = holdings ? shares.get(entry.ticker) ?? 0 : null;
+        return { ...entry, shares: held, expectedCash: held === null ? null : held * entry.amountPerShare };
+      })
+    }));
+    const entries = withCash.flatMap(schedule => schedule.entries)
+      .sort((a, b) => a.exDate.getTime() - b.exDate.getTime() || a.ticker.localeCompare(b.ticker));
+
+    const monthly = new Map<string, number>();
+    if (holdings) {
+      entries.forEach(entry => {
+        const month = this.isoDate(entry.payDate).slice(0, 7);
+        monthly.set(month, (monthly.get(month) ?? 0) + entry.expectedCash!);
+      });
+    }
+
+    const perShare = (ticker: string) => entries
+      .filter(entry => entry.ticker === ticker)
+      .reduce((total, entry) => total + entry.amountPerShare, 0);
+
+    return {
+      from,
+      to,
+      schedules: withCash,
+      entries,
+      holdings: (holdings ?? []).map(holding => ({ holding, expectedCash: holding.shares * perShare(holding.ticker) })),
+      monthlyCash: [...monthly.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([month, cash]) => ({ month, cash })),
+      totalCash: holdings ? entries.reduce((total, entry) => total + entry.expectedCash!, 0) : null
+    };
+  }
+
+  static addMonths(date: Date, months: number): Date {
+    const result = new Date(date.getTime());
+    result.setUTCMonth(result.getUTCMonth() + months);
+    return result;
+  }
+
+  /**
+   * Lets an announced ex-date confirm or replace the projected payment
+   * closest to it
+   */
+  private static crossCheck(schedule: DividendSchedule, from: Date, to: Date, medianGap: number): void {
+    const { providerExDate, providerPayDate, lastExDate } = schedule;
+    if (!providerExDate || !lastExDate) return;
+
+    if (providerExDate <= from) {
+      if (providerExDate > lastExDate) {
+        schedule.notes.push(`Provider reports ex-date ${this.isoDate(providerExDate)}, missing from payment history`);
+      }
+      return;
+    }
+
+    if (providerExDate > to) return;
+
+    const payDate = providerPayDate && providerPayDate >= providerExDate
+      ? providerPayDate
+      : this.addDays(providerExDate, schedule.payLagDays);
+    const distance = (entry: CalendarEntry) => Math.abs(this.days(entry.exDate.getTime() - providerExDate.getTime()));
+    const nearest = schedule.entries.reduce<CalendarEntry | null>(
+      (best, entry) => best === null || distance(entry) < distance(best) ? entry : best, null);
+
+    if (nearest && distance(nearest) <= this.MATCH_TOLERANCE_DAYS) {
+      Object.assign(nearest, { exDate: providerExDate, payDate, source: 'confirmed' });
+      return;
+    }
+
+    schedule.notes.push(nearest
+      ? `Provider reports ex-date ${this.isoDate(providerExDate)}; cadence projected ${this.isoDate(nearest.exDate)}`
+      : `Provider reports ex-date ${this.isoDate(providerExDate)}; cadence projected none`);
+
+    const provided = this.entry(schedule.ticker, providerExDate, payDate, schedule.lastAmount!, 'provider');
+    if (nearest && distance(nearest) <= medianGap / 2) {
+      Object.assign(nearest, provided);
+    } else {
+      schedule.entries.push(provided);
+    }
+  }
+
+  private static entry(ticker: string, exDate: Date, payDate: Date, amountPerShare: number, source: CalendarEntry['source']): CalendarEntry {
+    return { ticker, exDate, payDate, amountPerShare, source, shares: null, expectedCash: null };
+  }
+
+  private static parseDate(value: string | null | undefined): Date | null {
+    if (!value) return null;
+    const date = new Date(`${value.slice(0, 10)}T00:00:00.000Z`);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private static addYears(date: Date, years: number): Date {
+    const result = new Date(date.getTime());
+    result.setUTCFullYear(result.getUTCFullYear() + years);
+    return result;
+  }
+
+  private static addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * DAY_MS);
+  }
+
+  private static days(ms: number): number {
+    return Math.round(ms / DAY_MS);
+  }
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  }
+
+  private static isoDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
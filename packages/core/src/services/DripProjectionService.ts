@@ -0,0 +1,84 @@
+import { DividendCalculator } from "../calculators/DividendCalculator";
+import { InputValidator } from "../validation/InputValidator";
+import { DataQualityError } from "../errors/DivvyErrors";
+import type { DividendAnalysis, DripAssumptions, DripProjection } from "../models/DividendAnalysis";
+
+/**
+ * Projection settings. Unset growth rates fall back to the analysis' safe
+ * growth; price growing with the dividend keeps the yield constant.
+ */
+export interface DripOptions {
+  shares: number;
+  costBasis: number | undefined;
+  years: number;
+  dividendGrowth: number | undefined;
+  priceGrowth: number | undefined;
+  compare: boolean;
+}
+
+/**
+ * Raw settings as they arrive from CLI flags or query parameters
+ */
+export interface DripInput {
+  shares?: string | number | undefined;
+  costBasis?: string | number | undefined;
+  years?: string | number | undefined;
+  dividendGrowth?: string | number | undefined;
+  priceGrowth?: string | number | undefined;
+  compare?: boolean | undefined;
+}
+
+/**
+ * Reinvestment projections for an analyzed position, shared by
+ * `divvy drip` and the web API
+ */
+export class DripProjectionService {
+  static readonly DEFAULT_SHARES = 100;
+  static readonly DEFAULT_YEARS = 10;
+  static readonly MAX_YEARS = 50;
+
+  static parseOptions(input: DripInput): DripOptions {
+    const optional = <T>(value: string | number | undefined, parse: (value: string | number) => T) =>
+      value === undefined || value === '' ? undefined : parse(value);
+
+    return {
+      shares: InputValidator.validatePositiveNumber(input.shares ?? this.DEFAULT_SHARES, 'shares'),
+      costBasis: optional(input.costBasis, value => InputValidator.validateNonNegativeNumber(value, 'costBasis')),
+      years: InputValidator.validatePositiveInteger(input.years ?? this.DEFAULT_YEARS, 'years', this.MAX_YEARS),
+      dividendGrowth: optional(input.dividendGrowth, value => InputValidator.validateRate(value, 'dividendGrowth')),
+      priceGrowth: optional(input.priceGrowth, value => InputValidator.validateRate(value, 'priceGrowth')),
+      compare: Boolean(input.compare)
+    };
+  }
+
+  static assumptions(analysis: DividendAnalysis, options: DripOptions): DripAssumptions {
+    const { price } = analysis.quote;
+
+    if (!(analysis.forwardDividend > 0) || !(price > 0)) {
+      throw new DataQualityError(`${analysis.ticker} has no forward dividend and price to project`, 'dividends');
+    }
+
+    const dividendGrowth = options.dividendGrowth ?? analysis.safeGrowth;
+
+    return {
+      shares: options.shares,
+      price,
+      costBasis: options.costBasis ?? options.shares * price,
+      dividend: analysis.forwardDividend,
+      dividendGrowth,
+      priceGrowth: options.priceGrowth ?? dividendGrowth,
+      years: options.years,
+      paymentsPerYear: DividendCalculator.DEFAULT_PAYMENTS_PER_YEAR
+    };
+  }
+
+  static project(analysis: DividendAnalysis, options: DripOptions): DripProjection {
+    const assumptions = this.assumptions(analysis, options);
+
+    return {
+      assumptions,
+      drip: DividendCalculator.projectDrip(assumptions, true),
+      cash: options.compare ? DividendCalculator.projectDrip(assumptions, false) : null
+    };
+  }
+}
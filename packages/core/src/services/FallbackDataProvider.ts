@@ -1,6 +1,7 @@
 import { Fundamentals } from '../models/StockData.js';
 import type { AnnualDividendData } from '../models/DividendAnalysis.js';
 import { InsufficientDataError } from '../errors/DivvyErrors.js';
+import { SectorClassifier, type SectorGroup } from '../data/SectorRules.js';
 
 export interface FallbackEstimate {
   value: number;
@@ -152,7 +153,7 @@ export class FallbackDataProvider {
   /**
    * Provides industry-average estimates for missing data
    */
-  static getIndustryAverages(sector?: string): {
+  static getIndustryAverages(sector?: string, industry?: string): {
     payoutRatio: FallbackEstimate;
     dividendYield: FallbackEstimate;
     fcfMargin: FallbackEstimate;
@@ -165,14 +166,15 @@ export class FallbackDataProvider {
     };
     
     // Sector-specific adjustments (simplified for demo)
-    const sectorAdjustments: Record<string, Partial<typeof defaults>> = {
-      'utilities': { payoutRatio: 0.7, dividendYield: 0.04 },
-      'reits': { payoutRatio: 0.9, dividendYield: 0.05 },
-      'technology': { payoutRatio: 0.3, dividendYield: 0.015 },
-      'financials': { payoutRatio: 0.5, dividendYield: 0.03 }
+    const sectorAdjustments: Partial<Record<SectorGroup, Partial<typeof defaults>>> = {
+      utility: { payoutRatio: 0.7, dividendYield: 0.04 },
+      reit: { payoutRatio: 0.9, dividendYield: 0.05 },
+      technology: { payoutRatio: 0.3, dividendYield: 0.015 },
+      bank: { payoutRatio: 0.4, dividendYield: 0.035 },
+      financial: { payoutRatio: 0.5, dividendYield: 0.03 }
     };
     
-    const adjustments = sector ? sectorAdjustments[sector.toLowerCase()] || {} : {};
+    const adjustments = sector || industry ? sectorAdjustments[SectorClassifier.classify(sector, industry)] || {} : {};
     const finalValues = { ...defaults, ...adjustments };
     
     return {
@@ -0,0 +1,198 @@
+import { readFile } from "fs/promises";
+import { readFileSync, existsSync } from "fs";
+import { join } from "path";
+import { Quote, DividendEvent, Fundamentals } from "../models/StockData";
+import { DataQualityChecker } from "../validation/DataQualityChecker";
+import type { YahooFundamentalsData } from "../types/yahoo-finance";
+import { ConfigurationError, DataSourceError, TickerNotFoundError } from "../errors/DivvyErrors";
+import type { MarketDataProvider, HistoricalPrice, CompanyProfile, ProviderHealth } from "./MarketDataProvider";
+
+/**
+ * On-disk shape of `<fixturesDir>/<TICKER>.json`. Field names follow the
+ * serialized analysis stored in `analyses.raw` so saved records can be
+ * turned into fixtures with little effort.
+ */
+export interface TickerFixture {
+  quote: {
+    price: number;
+    currency?: string;
+    name?: string;
+    sector?: string | null;
+    industry?: string | null;
+  };
+  dividends: Array<{ date: string; amount: number }>;
+  fundamentals?: {
+    operatingCashFlow?: number | null;
+    capitalExpenditure?: number | null;
+    cashDividendsPaid?: number | null;
+    netIncome?: number | null;
+    payoutRatio?: number | null;
+    depreciation?: number | null;
+    capitalRatio?: number | null;
+  };
+  prices?: Array<{ date: string; close: number }>;
+  profile?: Partial<CompanyProfile>;
+}
+
+/**
+ * `<fixturesDir>/fixtures.json` - directory-wide settings
+ */
+export interface FixtureManifest {
+  asOf: string;
+}
+
+export const FIXTURE_MANIFEST_FILE = 'fixtures.json';
+
+/**
+ * Serves market data from a directory of JSON fixtures so analyses can run
+ * without network access. All date windows are measured from the manifest's
+ * frozen `asOf` date, which makes results fully deterministic.
+ */
+export class FixtureMarketDataProvider implements MarketDataProvider {
+  readonly name = 'fixtures';
+  readonly asOf: Date;
+  private readonly fixturesDir: string;
+  private readonly fixtures = new Map<string, Promise<TickerFixture>>();
+
+  constructor(fixturesDir: string) {
+    const manifestPath = join(fixturesDir, FIXTURE_MANIFEST_FILE);
+
+    if (!existsSync(manifestPath)) {
+      throw new ConfigurationError(`Fixtures directory must contain ${FIXTURE_MANIFEST_FILE} with an "asOf" date: ${fixturesDir}`);
+    }
+
+    let manifest: Partial<FixtureManifest>;
+    try {
+      manifest = JSON.parse(readFileSync(manifestPath, 'utf8'));
+    } catch (error) {
+      throw new ConfigurationError(`Invalid ${manifestPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const asOf = new Date(manifest.asOf ?? '');
+    if (isNaN(asOf.getTime())) {
+      throw new ConfigurationError(`${manifestPath} must define a valid "asOf" date`);
+    }
+
+    this.fixturesDir = fixturesDir;
+    this.asOf = asOf;
+  }
+
+  async getQuote(ticker: string): Promise<Quote> {
+    const { quote } = await this.loadFixture(ticker);
+
+    return DataQualityChecker.validateQuote({
+      regularMarketPrice: quote.price,
+      currency: quote.currency,
+      shortName: quote.name,
+      sector: quote.sector ?? undefined,
+      industry: quote.industry ?? undefined
+    });
+  }
+
+  async getDividendEvents(ticker: string, years: number = 15): Promise<DividendEvent[]> {
+    const { dividends } = await this.loadFixture(ticker);
+    const cutoff = this.yearsBeforeAsOf(years);
+
+    const dividendEvents = dividends
+      .map(d => new DividendEvent({ date: d.date, amount: d.amount }))
+      .filter(d => d.date >= cutoff && d.date <= this.asOf);
+
+    return DataQualityChecker.validateDividendEvents(dividendEvents, ticker);
+  }
+
+  async getFundamentals(ticker: string, _years: number = 15): Promise<Fundamentals> {
+    const { fundamentals = {} } = await this.loadFixture(ticker);
+    const data: YahooFundamentalsData = {};
+
+    if (fundamentals.operatingCashFlow != null) data.OperatingCashFlow = { raw: fundamentals.operatingCashFlow };
+    if (fundamentals.capitalExpenditure != null) data.CapitalExpenditure = { raw: fundamentals.capitalExpenditure };
+    if (fundamentals.cashDividendsPaid != null) data.CashDividendsPaid = { raw: fundamentals.cashDividendsPaid };
+    if (fundamentals.netIncome != null) data.NetIncome = { raw: fundamentals.netIncome };
+    if (fundamentals.payoutRatio != null) data.payoutRatio = { raw: fundamentals.payoutRatio };
+    if (fundamentals.depreciation != null) data.DepreciationAndAmortization = { raw: fundamentals.depreciation };
+    if (fundamentals.capitalRatio != null) data.Tier1CapitalRatio = { raw: fundamentals.capitalRatio };
+
+    return new Fundamentals(data);
+  }
+
+  async getHistoricalPrices(ticker: string, years: number = 1): Promise<HistoricalPrice[]> {
+    const { prices = [] } = await this.loadFixture(ticker);
+    const cutoff = this.yearsBeforeAsOf(years);
+
+    return prices
+      .map(p => ({ date: new Date(p.date), close: Number(p.close) }))
+      .filter(p => p.date >= cutoff && p.date <= this.asOf && isFinite(p.close))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  async getCompanyProfile(ticker: string): Promise<CompanyProfile> {
+    const { quote, profile = {} } = await this.loadFixture(ticker);
+
+    return {
+      symbol: ticker.toUpperCase(),
+      name: profile.name ?? quote.name ?? null,
+      sector: profile.sector ?? quote.sector ?? null,
+      industry: profile.industry ?? quote.industry ?? null,
+      currency: profile.currency ?? quote.currency ?? null,
+      exDividendDate: profile.exDividendDate ?? null,
+      dividendDate: profile.dividendDate ?? null
+    };
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    return {
+      available: existsSync(this.fixturesDir),
+      latency: 0
+    };
+  }
+
+  private loadFixture(ticker: string): Promise<TickerFixture> {
+    const symbol = ticker.toUpperCase();
+    let pending = this.fixtures.get(symbol);
+
+    if (!pending) {
+      pending = this.readFixture(symbol);
+      this.fixtures.set(symbol, pending);
+    }
+
+    return pending;
+  }
+
+  private async readFixture(symbol: string): Promise<TickerFixture> {
+    const fixturePath = join(this.fixturesDir, `${symbol}.json`);
+
+    let content: string;
+    try {
+      content = await readFile(fixturePath, 'utf8');
+    } catch {
+      throw new TickerNotFoundError(symbol);
+    }
+
+    let fixture: TickerFixture;
+    try {
+      fixture = JSON.parse(content);
+    } catch (error) {
+      throw new DataSourceError(
+        `Invalid fixture ${fixturePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'fixtures',
+        false
+      );
+    }
+
+    if (!fixture?.quote || !Array.isArray(fixture.dividends)) {
+      throw new DataSourceError(
+        `Fixture ${fixturePath} must contain "quote" and "dividends"`,
+        'fixtures',
+        false
+      );
+    }
+
+    return fixture;
+  }
+
+  private yearsBeforeAsOf(years: number): Date {
+    const date = new Date(this.asOf);
+    date.setUTCFullYear(date.getUTCFullYear() - years);
+    return date;
+  }
+}
@@ -0,0 +1,110 @@
+import { DatabaseService, type AnalysisRecord } from "./DatabaseService";
+import { DividendAnalysisService } from "./DividendAnalysisService";
+import { ScoringProfileRegistry } from "./ScoringProfileRegistry";
+import { InputValidator } from "../validation/InputValidator";
+import {
+  HISTORY_METRICS,
+  type AnalysisHistory,
+  type AnalysisSnapshot,
+  type MetricChange
+} from "../models/AnalysisHistory";
+
+/**
+ * Analysis settings as they arrive from CLI flags or query parameters; each
+ * defaults to what a plain `divvy KO` uses
+ */
+export interface HistoryInput {
+  years?: string | number | undefined;
+  requiredReturn?: string | number | undefined;
+  provider?: string | undefined;
+  profile?: string | undefined;
+  config?: string | undefined;
+}
+
+/**
+ * Turns the analyses saved for a ticker into a trend, shared by
+ * `divvy history` and the web API
+ */
+export class HistoryService {
+  static readonly DEFAULT_LIMIT = 30;
+  static readonly MAX_LIMIT = 365;
+
+  static parseOptionsHash(input: HistoryInput): string {
+    const present = (value: string | number | undefined): value is string | number => value !== undefined && value !== '';
+
+    return DividendAnalysisService.optionsHash(
+      present(input.years) ? InputValidator.validateYears(input.years) : undefined,
+      present(input.requiredReturn) ? InputValidator.validateRequiredReturn(input.requiredReturn) : undefined,
+      present(input.provider) ? InputValidator.validateProvider(input.provider) : undefined,
+      present(input.profile) ? ScoringProfileRegistry.resolve(input.profile, input.config) : undefined
+    );
+  }
+
+  static async fetch(
+    ticker: string,
+    limit: number = this.DEFAULT_LIMIT,
+    optionsHash: string = DividendAnalysisService.optionsHash()
+  ): Promise<AnalysisHistory> {
+    const records = await DatabaseService.getAnalysisHistory(ticker, limit, optionsHash);
+    // Stored newest first; trends read left to right
+    const snapshots = records.map(record => this.toSnapshot(record)).reverse();
+
+    return {
+      ticker: ticker.toUpperCase(),
+      optionsHash,
+      snapshots,
+      changes: this.compare(snapshots)
+    };
+  }
+
+  static toSnapshot(record: AnalysisRecord): AnalysisSnapshot {
+    // Only the classic sub-scores have columns; the indicator scores live in the raw analysis
+    const raw = record.raw?.analysis?.scores;
+    const rawScore = (value: unknown) => typeof value === 'number' && isFinite(value) ? Math.round(value) : null;
+
+    return {
+      observedAt: new Date(record.observed_at),
+      price: record.price,
+      ttmYield: record.ttm_yield,
+      forwardYield: record.forward_yield,
+      totalScore: record.score_total,
+      payoutScore: record.score_payout,
+      fcfScore: record.score_fcf,
+      streakScore: record.score_streak,
+      growthScore: record.score_growth,
+      trendScore: rawScore(raw?.trend),
+      macdScore: rawScore(raw?.macd),
+      rsiScore: rawScore(raw?.rsi)
+    };
+  }
+
+  /**
+   * Change of every metric between the last two snapshots
+   */
+  static compare(snapshots: AnalysisSnapshot[]): MetricChange[] | null {
+    if (snapshots.length < 2) {
+      return null;
+    }
+
+    const previous = snapshots[snapshots.length - 2];
+    const latest = snapshots[snapshots.length - 1];
+
+    return HISTORY_METRICS.map(metric => {
+      const before = previous[metric];
+      const after = latest[metric];
+
+      if (before === null || after === null) {
+        return { metric, previous: before, latest: after, change: null, relativeChange: null };
+      }
+
+      const change = after - before;
+      return {
+        metric,
+        previous: before,
+        latest: after,
+        change,
+        relativeChange: before === 0 ? null : change / Math.abs(before)
+      };
+    });
+  }
+}
@@ -0,0 +1,84 @@
+import { DatabaseService, type LeaderboardRecord } from "./DatabaseService";
+import { InputValidator } from "../validation/InputValidator";
+import { ValidationError } from "../errors/DivvyErrors";
+import { LEADERBOARD_SORTS, type LeaderboardEntry, type LeaderboardPage, type LeaderboardQuery } from "../models/Leaderboard";
+
+/**
+ * Raw filters as they arrive from CLI flags or query parameters
+ */
+export interface LeaderboardInput {
+  date?: string | undefined;
+  sector?: string | undefined;
+  minYield?: string | number | undefined;
+  minStreak?: string | number | undefined;
+  sort?: string | undefined;
+  page?: string | number | undefined;
+  limit?: string | number | undefined;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reads the daily leaderboard built by `divvy refresh`, shared by
+ * `divvy leaderboard` and the web API
+ */
+export class LeaderboardService {
+  static readonly DEFAULT_PAGE_SIZE = 25;
+  static readonly MAX_PAGE_SIZE = 100;
+
+  static parseQuery(input: LeaderboardInput): LeaderboardQuery {
+    const present = (value: string | number | undefined): value is string | number => value !== undefined && value !== '';
+    const sort = input.sort ?? 'score';
+
+    if (!(LEADERBOARD_SORTS as readonly string[]).includes(sort)) {
+      throw new ValidationError(`Invalid sort "${sort}". Valid sorts: ${LEADERBOARD_SORTS.join(', ')}`, 'sort');
+    }
+
+    return {
+      date: present(input.date) ? this.validateDate(input.date) : null,
+      sector: present(input.sector) ? InputValidator.sanitizeInput(input.sector).trim() || null : null,
+      minYield: present(input.minYield) ? InputValidator.validateNonNegativeNumber(input.minYield, 'minYield') : null,
+      minStreak: present(input.minStreak) ? InputValidator.validateNonNegativeNumber(input.minStreak, 'minStreak') : null,
+      sort: sort as LeaderboardQuery['sort'],
+      page: InputValidator.validatePositiveInteger(present(input.page) ? input.page : 1, 'page'),
+      pageSize: InputValidator.validatePositiveInteger(present(input.limit) ? input.limit : this.DEFAULT_PAGE_SIZE, 'limit', this.MAX_PAGE_SIZE)
+    };
+  }
+
+  static validateDate(value: string): string {
+    const date = new Date(`${value}T00:00:00.000Z`);
+
+    if (!ISO_DATE.test(value) || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+      throw new ValidationError(`Invalid date "${value}" (expected YYYY-MM-DD)`, 'date');
+    }
+    return value;
+  }
+
+  static async fetch(query: LeaderboardQuery): Promise<LeaderboardPage> {
+    const { date, records, total } = await DatabaseService.queryLeaderboard(query);
+
+    return {
+      date,
+      query,
+      entries: records.map(record => this.toEntry(record)),
+      total,
+      totalPages: Math.ceil(total / query.pageSize)
+    };
+  }
+
+  static toEntry(record: LeaderboardRecord): LeaderboardEntry {
+    return {
+      rank: record.rank,
+      ticker: record.symbol,
+      name: record.name ?? null,
+      sector: record.sector ?? null,
+      score: record.score,
+      forwardYield: record.forward_yield,
+      ttmYield: record.ttm_yield ?? null,
+      streak: record.streak ?? null,
+      price: record.price,
+      ddmPrice: record.ddm_price,
+      marginOfSafety: record.margin_of_safety
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import type { Quote, DividendEvent, Fundamentals } from "../models/StockData";
+
+export interface HistoricalPrice {
+  date: Date;
+  close: number;
+}
+
+export interface CompanyProfile {
+  symbol: string;
+  name: string | null;
+  sector: string | null;
+  industry: string | null;
+  currency: string | null;
+  exDividendDate: string | null;
+  dividendDate: string | null;
+}
+
+export interface ProviderHealth {
+  available: boolean;
+  latency: number;
+  error?: string;
+}
+
+export type MarketDataCapability =
+  | 'quote'
+  | 'dividends'
+  | 'fundamentals'
+  | 'historicalPrices'
+  | 'companyProfile';
+
+/**
+ * Common contract for every market data source used by DividendAnalysisService.
+ * Implementations are expected to throw DivvyError subclasses on failure.
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+  // Frozen "now" for reproducible analyses; live providers leave it unset
+  readonly asOf?: Date | undefined;
+
+  getQuote(ticker: string): Promise<Quote>;
+  getDividendEvents(ticker: string, years?: number): Promise<DividendEvent[]>;
+  getFundamentals(ticker: string, years?: number): Promise<Fundamentals>;
+  getHistoricalPrices(ticker: string, years?: number): Promise<HistoricalPrice[]>;
+  getCompanyProfile(ticker: string): Promise<CompanyProfile>;
+  healthCheck(): Promise<ProviderHealth>;
+}
@@ -0,0 +1,110 @@
+import type { MarketDataProvider } from "./MarketDataProvider";
+import { YahooFinanceService } from "./YahooFinanceService";
+import { AlphaVantageService } from "./AlphaVantageService";
+import { CompositeMarketDataProvider } from "./CompositeMarketDataProvider";
+import { FixtureMarketDataProvider } from "./FixtureMarketDataProvider";
+import { ValidationError } from "../errors/DivvyErrors";
+import type { Cassette } from "../utils/Cassette";
+
+export interface ProviderOptions {
+  fixturesDir?: string | undefined;
+  // Records or replays raw responses of network-backed providers
+  cassette?: Cassette | undefined;
+}
+
+export type MarketDataProviderFactory = (options: ProviderOptions) => MarketDataProvider;
+
+/**
+ * Maps `--provider` names to provider factories. Factories are invoked once per
+ * resolve so stateful providers (e.g. request caches) don't leak across analyses.
+ */
+export class MarketDataProviderRegistry {
+  private static readonly factories = new Map<string, MarketDataProviderFactory>();
+
+  static register(name: string, factory: MarketDataProviderFactory): void {
+    this.factories.set(this.normalize(name), factory);
+  }
+
+  static unregister(name: string): boolean {
+    return this.factories.delete(this.normalize(name));
+  }
+
+  static has(name: string): boolean {
+    return this.factories.has(this.normalize(name));
+  }
+
+  static names(): string[] {
+    return [...this.factories.keys()];
+  }
+
+  static resolve(name: string, options: ProviderOptions = {}): MarketDataProvider {
+    const factory = this.factories.get(this.normalize(name));
+
+    if (!factory) {
+      throw new ValidationError(
+        `Unknown data provider "${name}". Registered providers: ${this.names().join(', ')}`,
+        'provider'
+      );
+    }
+
+    return factory(options);
+  }
+
+  private static normalize(name: string): string {
+    return name.trim().toLowerCase();
+  }
+}
+
+const createAlphaVantageService = (cassette?: Cassette): AlphaVantageService | null => {
+  try {
+    return new AlphaVantageService(undefined, undefined, cassette);
+  } catch (error) {
+    console.warn('Alpha Vantage service not available:', error instanceof Error ? error.message : 'Unknown error');
+    return null;
+  }
+};
+
+MarketDataProviderRegistry.register('yahoo', ({ cassette }) => new YahooFinanceService(cassette));
+
+// Yahoo Finance for quote, dividends and fundamentals; Alpha Vantage preferred for the
+// company profile and price history, and its sector/industry classify the quote.
+// Keeps the free 25 calls/day quota for what it adds.
+MarketDataProviderRegistry.register('av', ({ cassette }) => {
+  const alphaVantage = createAlphaVantageService(cassette);
+  const yahoo = new YahooFinanceService(cassette);
+  if (!alphaVantage) {
+    return yahoo;
+  }
+
+  return new CompositeMarketDataProvider('av', {
+    quote: [yahoo],
+    dividends: [yahoo],
+    fundamentals: [yahoo],
+    historicalPrices: [alphaVantage, yahoo],
+    companyProfile: [alphaVantage, yahoo]
+  }, { classifyWith: alphaVantage });
+});
+
+// Yahoo Finance for fundamentals, Alpha Vantage preferred only for price history
+MarketDataProviderRegistry.register('auto', ({ cassette }) => {
+  const alphaVantage = createAlphaVantageService(cassette);
+  const yahoo = new YahooFinanceService(cassette);
+  if (!alphaVantage) {
+    return yahoo;
+  }
+
+  return new CompositeMarketDataProvider('auto', {
+    quote: [yahoo],
+    dividends: [yahoo],
+    fundamentals: [yahoo],
+    historicalPrices: [alphaVantage, yahoo],
+    companyProfile: [yahoo, alphaVantage]
+  });
+});
+
+MarketDataProviderRegistry.register('fixtures', ({ fixturesDir }) => {
+  if (!fixturesDir) {
+    throw new ValidationError('The fixtures provider requires --fixtures-dir <path>', 'fixturesDir');
+  }
+  return new FixtureMarketDataProvider(fixturesDir);
+});
@@ -0,0 +1,341 @@
+import { createHmac } from "crypto";
+import { RetryHandler, type RetryConfig } from "../utils/RetryHandler";
+import { SmtpClient, type MailMessage, type SmtpSettings } from "../utils/SmtpClient";
+import { ConfigurationError, NotificationError, ValidationError } from "../errors/DivvyErrors";
+import { NOTIFICATION_CHANNEL_TYPES, type NotificationChannelConfig, type NotificationDelivery } from "../models/Notification";
+import type { Alert, PendingAlerts } from "../models/Watchlist";
+
+/**
+ * The alerts one `divvy watch` run raised for one watchlist
+ */
+export interface AlertNotification {
+  watchlist: string;
+  alerts: Alert[];
+  sentAt: Date;
+}
+
+export interface WebhookPayload {
+  event: 'divvy.alerts';
+  watchlist: string;
+  sentAt: string;
+  alerts: Array<{ ticker: string; rule: string; condition: string; value: number | null; message: string; triggeredAt: string }>;
+}
+
+export interface NotificationChannel {
+  readonly description: string;
+  send(notification: AlertNotification): Promise<void>;
+}
+
+export interface DeliveryOptions {
+  dryRun: boolean;
+  // Alerts owed to channels from earlier failed deliveries
+  pending?: PendingAlerts[] | undefined;
+  env?: NodeJS.ProcessEnv | undefined;
+  retry?: Partial<RetryConfig> | undefined;
+}
+
+export const DEFAULT_WEBHOOK_SECRET_ENV = 'DIVVY_WEBHOOK_SECRET';
+
+const EMAIL_ADDRESS = /^[^\s@<>,]+@[^\s@<>,]+\.[^\s@<>,]+$/;
+const ENV_NAME = /^[A-Z_][A-Z0-9_]*$/;
+
+/**
+ * POSTs the alerts as JSON. `X-Divvy-Signature` is `sha256=` plus the hex
+ * HMAC-SHA256 of `<X-Divvy-Timestamp>.<body>`, so receivers can verify the
+ * sender and reject replays.
+ */
+export class WebhookChannel implements NotificationChannel {
+  static readonly TIMEOUT_MS = 10000;
+
+  readonly url: string;
+  private readonly secret: string;
+
+  constructor(url: string, secret: string) {
+    this.url = url;
+    this.secret = secret;
+  }
+
+  get description(): string {
+    return `webhook ${this.url}`;
+  }
+
+  async send(notification: AlertNotification): Promise<void> {
+    const body = JSON.stringify(NotificationService.webhookPayload(notification));
+    const timestamp = String(Math.floor(notification.sentAt.getTime() / 1000));
+    let response: Response;
+
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'divvy-watch',
+          'X-Divvy-Timestamp': timestamp,
+          'X-Divvy-Signature': NotificationService.sign(this.secret, timestamp, body)
+        },
+        body,
+        signal: AbortSignal.timeout(WebhookChannel.TIMEOUT_MS)
+      });
+    } catch (error) {
+      const cause = (error as { cause?: { code?: string } }).cause?.code;
+      throw new NotificationError(`Webhook ${this.url} unreachable: ${cause ?? (error instanceof Error ? error.message : 'Unknown error')}`, 'webhook', true);
+    }
+
+    // Drain the body so the connection is released
+    await response.text().catch(() => undefined);
+
+    if (!response.ok) {
+      const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+      throw new NotificationError(`Webhook ${this.url} responded ${response.status} ${response.statusText}`, 'webhook', retryable);
+    }
+  }
+}
+
+export class EmailChannel implements NotificationChannel {
+  readonly to: string[];
+  private readonly settings: SmtpSettings;
+
+  constructor(to: string[], settings: SmtpSettings) {
+    this.to = to;
+    this.settings = settings;
+  }
+
+  get description(): string {
+    return `email ${this.to.join(', ')}`;
+  }
+
+  send(notification: AlertNotification): Promise<void> {
+    return SmtpClient.send(this.settings, NotificationService.emailMessage(notification, this.to));
+  }
+}
+
+/**
+ * Validates per-watchlist channel settings and delivers alerts to them with
+ * retries. Each channel is attempted independently; a failure is reported,
+ * not thrown, so one broken endpoint doesn't silence the others.
+ */
+export class NotificationService {
+  static readonly DEFAULT_SMTP_PORT = 587;
+  static readonly DEFAULT_SMTPS_PORT = 465;
+  static readonly SMTP_TIMEOUT_MS = 15000;
+
+  static validateChannel(raw: unknown): NotificationChannelConfig {
+    const channel = raw as Partial<Record<string, unknown>> | null;
+    const type = channel?.type;
+
+    if (!channel || typeof type !== 'string' || !(NOTIFICATION_CHANNEL_TYPES as readonly string[]).includes(type)) {
+      throw new ValidationError(`Unknown notification channel ${JSON.stringify(type)} (expected one of: ${NOTIFICATION_CHANNEL_TYPES.join(', ')})`, 'channel');
+    }
+
+    if (type === 'webhook') {
+      return {
+        type,
+        url: this.validateWebhookUrl(channel.url),
+        secretEnv: this.validateEnvName(channel.secretEnv ?? DEFAULT_WEBHOOK_SECRET_ENV)
+      };
+    }
+
+    const to = Array.isArray(channel.to) ? channel.to : [channel.to];
+    if (to.length === 0) {
+      throw new ValidationError('email channel needs at least one recipient', 'channel');
+    }
+    return { type: 'email', to: to.map(address => this.validateEmail(address)) };
+  }
+
+  static validateWebhookUrl(value: unknown): string {
+    let url: URL;
+    try {
+      url = new URL(String(value));
+    } catch {
+      throw new ValidationError(`Invalid webhook URL "${value}"`, 'channel');
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new ValidationError(`Webhook URL must use http or https: "${value}"`, 'channel');
+    }
+    return url.toString();
+  }
+
+  static validateEmail(value: unknown): string {
+    if (typeof value !== 'string' || !EMAIL_ADDRESS.test(value.trim())) {
+      throw new ValidationError(`Invalid email address "${value}"`, 'channel');
+    }
+    return value.trim();
+  }
+
+  static validateEnvName(value: unknown): string {
+    if (typeof value !== 'string' || !ENV_NAME.test(value)) {
+      throw new ValidationError(`Invalid environment variable name "${value}"`, 'channel');
+    }
+    return value;
+  }
+
+  /**
+   * Identity of a channel within a watchlist, for removal and display
+   */
+  static channelKey(config: NotificationChannelConfig): string {
+    return config.type === 'webhook' ? `webhook ${config.url}` : `email ${config.to.join(', ')}`;
+  }
+
+  /**
+   * SMTP server from DIVVY_SMTP_HOST, _PORT, _SECURE, _USER, _PASS and _FROM
+   */
+  static smtpSettings(env: NodeJS.ProcessEnv = process.env): SmtpSettings {
+    const host = env.DIVVY_SMTP_HOST?.trim();
+    if (!host) {
+      throw new ConfigurationError('Email notifications need DIVVY_SMTP_HOST (and usually DIVVY_SMTP_USER, DIVVY_SMTP_PASS, DIVVY_SMTP_FROM)');
+    }
+
+    const secure = env.DIVVY_SMTP_SECURE === 'true';
+    const port = env.DIVVY_SMTP_PORT ? Number(env.DIVVY_SMTP_PORT) : secure ? this.DEFAULT_SMTPS_PORT : this.DEFAULT_SMTP_PORT;
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new ConfigurationError(`Invalid DIVVY_SMTP_PORT "${env.DIVVY_SMTP_PORT}"`);
+    }
+
+    const user = env.DIVVY_SMTP_USER || null;
+    return {
+      host,
+      port,
+      secure,
+      allowPlaintextAuth: env.DIVVY_SMTP_ALLOW_PLAINTEXT_AUTH === 'true',
+      user,
+      pass: env.DIVVY_SMTP_PASS || null,
+      from: this.validateEmailSetting(env.DIVVY_SMTP_FROM || user || `divvy@${host}`),
+      timeoutMs: this.SMTP_TIMEOUT_MS
+    };
+  }
+
+  static createChannel(config: NotificationChannelConfig, env: NodeJS.ProcessEnv = process.env): NotificationChannel {
+    if (config.type === 'email') {
+      return new EmailChannel(config.to, this.smtpSettings(env));
+    }
+
+    const secret = env[config.secretEnv];
+    if (!secret) {
+      throw new ConfigurationError(`Webhook ${config.url} needs its HMAC secret in ${config.secretEnv}`);
+    }
+    return new WebhookChannel(config.url, secret);
+  }
+
+  static sign(secret: string, timestamp: string, body: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+
+  static webhookPayload(notification: AlertNotification): WebhookPayload {
+    return {
+      event: 'divvy.alerts',
+      watchlist: notification.watchlist,
+      sentAt: notification.sentAt.toISOString(),
+      alerts: notification.alerts.map(alert => ({
+        ticker: alert.ticker,
+        rule: alert.ruleKey,
+        condition: alert.condition,
+        value: alert.value,
+        message: alert.message,
+        triggeredAt: alert.triggeredAt.toISOString()
+      }))
+    };
+  }
+
+  static emailMessage(notification: AlertNotification, to: string[]): MailMessage {
+    const count = notification.alerts.length;
+
+    return {
+      to,
+      subject: `[divvy] ${count} ${count === 1 ? 'alert' : 'alerts'} on watchlist ${notification.watchlist}`,
+      text: [
+        `divvy watch raised ${count} ${count === 1 ? 'alert' : 'alerts'} on watchlist ${notification.watchlist}:`,
+        '',
+        ...notification.alerts.map(alert => `- [${alert.ruleKey}] ${alert.message}`),
+        '',
+        `Checked at ${notification.sentAt.toISOString()}. This is an educational heuristic, not investment advice.`
+      ].join('\n')
+    };
+  }
+
+  /**
+   * What one channel is sent: its pending alerts, then the new ones it has
+   * not already been owed
+   */
+  static channelAlerts(config: NotificationChannelConfig, notification: AlertNotification, pending: PendingAlerts[] = []): Alert[] {
+    const key = this.channelKey(config);
+    const owed = pending.find(entry => entry.channel === key)?.alerts ?? [];
+    const alertKey = (alert: Alert) => `${alert.ticker}|${alert.ruleKey}|${alert.condition}`;
+    const owedKeys = new Set(owed.map(alertKey));
+
+    return [...owed, ...notification.alerts.filter(alert => !owedKeys.has(alertKey(alert)))];
+  }
+
+  /**
+   * The alerts to keep for the next run: everything each failed channel was
+   * meant to receive. Channels no longer configured are dropped.
+   */
+  static undelivered(
+    channels: NotificationChannelConfig[],
+    notification: AlertNotification,
+    deliveries: NotificationDelivery[],
+    pending: PendingAlerts[] = []
+  ): PendingAlerts[] {
+    const failed = new Set(deliveries.filter(delivery => delivery.status === 'failed').map(delivery => delivery.channel));
+
+    return channels
+      .filter(config => failed.has(this.channelKey(config)))
+      .map(config => ({ channel: this.channelKey(config), alerts: this.channelAlerts(config, notification, pending) }));
+  }
+
+  /**
+   * Sends the notification to every channel, with the alerts each channel
+   * is still owed. A channel with nothing to send is skipped; in dry-run
+   * mode channels are listed but not contacted.
+   */
+  static async deliver(
+    channels: NotificationChannelConfig[],
+    notification: AlertNotification,
+    options: DeliveryOptions
+  ): Promise<NotificationDelivery[]> {
+    const deliveries: NotificationDelivery[] = [];
+
+    for (const config of channels) {
+      const alerts = this.channelAlerts(config, notification, options.pending);
+      if (alerts.length === 0) {
+        continue;
+      }
+
+      const delivery: NotificationDelivery = {
+        watchlist: notification.watchlist,
+        channel: this.channelKey(config),
+        alerts: alerts.length,
+        status: options.dryRun ? 'dry-run' : 'sent',
+        attempts: 0,
+        error: null
+      };
+      deliveries.push(delivery);
+
+      if (options.dryRun) {
+        continue;
+      }
+
+      try {
+        const channel = this.createChannel(config, options.env);
+        await RetryHandler.withRetry(async () => {
+          delivery.attempts++;
+          await channel.send({ ...notification, alerts });
+          return true;
+        }, { ...RetryHandler.getNotificationRetryConfig(), ...options.retry });
+      } catch (error) {
+        delivery.status = 'failed';
+        delivery.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+
+    return deliveries;
+  }
+
+  private static validateEmailSetting(value: string): string {
+    try {
+      return this.validateEmail(value);
+    } catch {
+      throw new ConfigurationError(`Invalid sender address "${value}"; set DIVVY_SMTP_FROM`);
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { readFileSync } from "fs";
+import { resolve as resolvePath } from "path";
+import { InputValidator } from "../validation/InputValidator";
+import { ConfigurationError, ValidationError } from "../errors/DivvyErrors";
+import type { BatchItemResult } from "./BatchAnalysisService";
+import type {
+  Holding,
+  IncomeShare,
+  PortfolioPosition,
+  PortfolioSummary,
+  PortfolioTotals
+} from "../models/Portfolio";
+
+export const DEFAULT_PORTFOLIO_FILE = 'divvy-portfolio.json';
+
+/**
+ * On-disk shape of a holdings file. The same ticker may appear once per
+ * account. `lots` is written by `divvy import` for reference; totals only
+ * use `shares` and `costBasis`.
+ */
+export interface PortfolioFile {
+  holdings: Array<{
+    ticker: string;
+    shares: number;
+    costBasis: number;
+    account?: string;
+    lots?: Array<{ acquired: string; shares: number; costBasis: number }>;
+  }>;
+}
+
+/**
+ * Loads holdings and rolls per-ticker analyses up into portfolio income,
+ * yield on cost, weighted score and concentration
+ */
+export class PortfolioService {
+  static readonly UNKNOWN_SECTOR = 'Unknown';
+
+  static loadHoldingsFile(path: string = DEFAULT_PORTFOLIO_FILE): Holding[] {
+    const fullPath = resolvePath(path);
+    let file: PortfolioFile;
+
+    try {
+      file = JSON.parse(readFileSync(fullPath, 'utf8'));
+    } catch (error) {
+      throw new ConfigurationError(`Invalid holdings file ${fullPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!file || !Array.isArray(file.holdings)) {
+      throw new ConfigurationError(`Holdings file ${fullPath} must contain a "holdings" list`);
+    }
+
+    try {
+      return this.validateHoldings(file.holdings);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new ConfigurationError(`Holdings file ${fullPath}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  static validateHoldings(entries: PortfolioFile['holdings']): Holding[] {
+    if (entries.length === 0) {
+      throw new ValidationError('holdings must not be empty', 'holdings');
+    }
+
+    const seen = new Set<string>();
+
+    return entries.map((entry, i) => {
+      const field = (name: string) => `holdings[${i}].${name}`;
+
+      if (!entry || typeof entry !== 'object') {
+        throw new ValidationError(`holdings[${i}] must be an object`, 'holdings');
+      }
+      if (typeof entry.ticker !== 'string') {
+        throw new ValidationError(`${field('ticker')} is required`, field('ticker'));
+      }
+      if (entry.account !== undefined && typeof entry.account !== 'string') {
+        throw new ValidationError(`${field('account')} must be a string`, field('account'));
+      }
+
+      const holding: Holding = {
+        ticker: InputValidator.validateTicker(entry.ticker),
+        shares: InputValidator.validatePositiveNumber(entry.shares, field('shares')),
+        costBasis: InputValidator.validateNonNegativeNumber(entry.costBasis, field('costBasis')),
+        account: entry.account?.trim() || null
+      };
+
+      const key = `${holding.account ?? ''}\u0000${holding.ticker}`;
+      if (seen.has(key)) {
+        throw new ValidationError(`${holding.ticker} is listed twice${holding.account ? ` in account ${holding.account}` : ''}`, field('ticker'));
+      }
+      seen.add(key);
+
+      return holding;
+    });
+  }
+
+  /**
+   * Distinct tickers in holding order
+   */
+  static tickers(holdings: Holding[]): string[] {
+    return [...new Set(holdings.map(holding => holding.ticker))];
+  }
+
+  static summarize(holdings: Holding[], results: BatchItemResult[]): PortfolioSummary {
+    const byTicker = new Map(results.map(result => [result.ticker, result]));
+
+    const positions = holdings.map((holding): PortfolioPosition => {
+      const result = byTicker.get(holding.ticker);
+      const analysis = result?.analysis ?? null;
+
+      if (!analysis) {
+        return {
+          holding,
+          analysis: null,
+          error: result?.error ?? new Error(`${holding.ticker} was not analyzed`),
+          marketValue: null,
+          annualIncome: null,
+          forwardIncome: null,
+          yieldOnCost: null
+        };
+      }
+
+      const forwardIncome = analysis.forwardDividend * holding.shares;
+
+      return {
+        holding,
+        analysis,
+        error: null,
+        marketValue: analysis.quote.price * holding.shares,
+        annualIncome: analysis.ttmDividends * holding.shares,
+        forwardIncome,
+        yieldOnCost: holding.costBasis > 0 ? forwardIncome / holding.costBasis : null
+      };
+    });
+
+    const analyzed = positions.filter(position => position.analysis !== null);
+
+    return {
+      positions,
+      totals: this.totals(analyzed),
+      concentration: {
+        byTicker: this.incomeShares(analyzed, position => position.holding.ticker),
+        bySector: this.incomeShares(analyzed, position => position.analysis!.quote.sector ?? this.UNKNOWN_SECTOR)
+      }
+    };
+  }
+
+  private static totals(analyzed: PortfolioPosition[]): PortfolioTotals {
+    const sum = (value: (position: PortfolioPosition) => number) =>
+      analyzed.reduce((total, position) => total + value(position), 0);
+
+    const costBasis = sum(position => position.holding.costBasis);
+    const marketValue = sum(position => position.marketValue!);
+    const forwardIncome = sum(position => position.forwardIncome!);
+    const weightedScore = marketValue > 0
+      ? sum(position => position.analysis!.totalScore * position.marketValue!) / marketValue
+      : null;
+
+    return {
+      costBasis,
+      marketValue,
+      annualIncome: sum(position => position.annualIncome!),
+      forwardIncome,
+      yieldOnCost: costBasis > 0 ? forwardIncome / costBasis : null,
+      forwardYield: marketValue > 0 ? forwardIncome / marketValue : null,
+      weightedScore
+    };
+  }
+
+  /**
+   * Forward income grouped by `key`, largest first
+   */
+  private static incomeShares(analyzed: PortfolioPosition[], key: (position: PortfolioPosition) => string): IncomeShare[] {
+    const income = new Map<string, number>();
+    analyzed.forEach(position => {
+      income.set(key(position), (income.get(key(position)) ?? 0) + position.forwardIncome!);
+    });
+
+    const total = [...income.values()].reduce((sum, value) => sum + value, 0);
+
+    return [...income.entries()]
+      .map(([group, amount]) => ({ key: group, income: amount, share: total > 0 ? amount / total : 0 }))
+      .sort((a, b) => b.income - a.income || a.key.localeCompare(b.key));
+  }
+}
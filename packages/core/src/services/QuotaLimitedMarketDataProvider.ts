@@ -0,0 +1,77 @@
+import type { Quote, DividendEvent, Fundamentals } from "../models/StockData";
+import type { MarketDataProvider, HistoricalPrice, CompanyProfile, ProviderHealth } from "./MarketDataProvider";
+import { RateLimitError } from "../errors/DivvyErrors";
+
+/**
+ * Stops calling the upstream source once a request budget is spent or the
+ * source reports a rate limit. Every later request fails fast with
+ * RateLimitError instead of burning quota on calls that will be refused.
+ */
+export class QuotaLimitedMarketDataProvider implements MarketDataProvider {
+  readonly name: string;
+  readonly asOf: Date | undefined;
+  private readonly provider: MarketDataProvider;
+  private readonly maxRequests: number | null;
+  private requestCount = 0;
+  private exhaustedBy: string | null = null;
+
+  constructor(provider: MarketDataProvider, maxRequests: number | null) {
+    this.name = provider.name;
+    this.asOf = provider.asOf;
+    this.provider = provider;
+    this.maxRequests = maxRequests;
+  }
+
+  get requests(): number {
+    return this.requestCount;
+  }
+
+  get isExhausted(): boolean {
+    return this.exhaustedBy !== null;
+  }
+
+  getQuote(ticker: string): Promise<Quote> {
+    return this.call(() => this.provider.getQuote(ticker));
+  }
+
+  getDividendEvents(ticker: string, years?: number): Promise<DividendEvent[]> {
+    return this.call(() => this.provider.getDividendEvents(ticker, years));
+  }
+
+  getFundamentals(ticker: string, years?: number): Promise<Fundamentals> {
+    return this.call(() => this.provider.getFundamentals(ticker, years));
+  }
+
+  getHistoricalPrices(ticker: string, years?: number): Promise<HistoricalPrice[]> {
+    return this.call(() => this.provider.getHistoricalPrices(ticker, years));
+  }
+
+  getCompanyProfile(ticker: string): Promise<CompanyProfile> {
+    return this.call(() => this.provider.getCompanyProfile(ticker));
+  }
+
+  healthCheck(): Promise<ProviderHealth> {
+    return this.provider.healthCheck();
+  }
+
+  private async call<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.exhaustedBy === null && this.maxRequests !== null && this.requestCount >= this.maxRequests) {
+      this.exhaustedBy = `request budget of ${this.maxRequests} reached`;
+    }
+
+    if (this.exhaustedBy !== null) {
+      throw new RateLimitError(`${this.name} quota exhausted: ${this.exhaustedBy}`);
+    }
+
+    this.requestCount++;
+
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        this.exhaustedBy = error.message;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import type { Quote, DividendEvent, Fundamentals } from "../models/StockData";
+import type { MarketDataProvider, HistoricalPrice, CompanyProfile, ProviderHealth } from "./MarketDataProvider";
+import type { RateLimiter } from "../utils/RateLimiter";
+
+/**
+ * Passes every data request through a shared rate limiter so concurrent
+ * analyses stay within the upstream source's limits.
+ */
+export class RateLimitedMarketDataProvider implements MarketDataProvider {
+  readonly name: string;
+  readonly asOf: Date | undefined;
+  private readonly provider: MarketDataProvider;
+  private readonly limiter: RateLimiter;
+
+  constructor(provider: MarketDataProvider, limiter: RateLimiter) {
+    this.name = provider.name;
+    this.asOf = provider.asOf;
+    this.provider = provider;
+    this.limiter = limiter;
+  }
+
+  getQuote(ticker: string): Promise<Quote> {
+    return this.limiter.schedule(() => this.provider.getQuote(ticker));
+  }
+
+  getDividendEvents(ticker: string, years?: number): Promise<DividendEvent[]> {
+    return this.limiter.schedule(() => this.provider.getDividendEvents(ticker, years));
+  }
+
+  getFundamentals(ticker: string, years?: number): Promise<Fundamentals> {
+    return this.limiter.schedule(() => this.provider.getFundamentals(ticker, years));
+  }
+
+  getHistoricalPrices(ticker: string, years?: number): Promise<HistoricalPrice[]> {
+    return this.limiter.schedule(() => this.provider.getHistoricalPrices(ticker, years));
+  }
+
+  getCompanyProfile(ticker: string): Promise<CompanyProfile> {
+    return this.limiter.schedule(() => this.provider.getCompanyProfile(ticker));
+  }
+
+  healthCheck(): Promise<ProviderHealth> {
+    return this.provider.healthCheck();
+  }
+}
@@ -0,0 +1,157 @@
+import { BatchAnalysisService, type BatchItemResult } from "./BatchAnalysisService";
+import { DatabaseService } from "./DatabaseService";
+import { QuotaLimitedMarketDataProvider } from "./QuotaLimitedMarketDataProvider";
+import { DividendAnalysisService } from "./DividendAnalysisService";
+import { DividendEliteDetector } from "../data/DividendAristocrats";
+import { InputValidator } from "../validation/InputValidator";
+import { ConfigurationError, RateLimitError } from "../errors/DivvyErrors";
+import type { MarketDataProvider } from "./MarketDataProvider";
+import type { ScoringProfile } from "../models/ScoringProfile";
+import type { Watchlist } from "../models/Watchlist";
+import type { RefreshRun, RefreshRunStatus, RefreshTickerResult, UniverseSource } from "../models/RefreshRun";
+
+export interface RefreshOptions {
+  years: number;
+  requiredReturn: number;
+  provider: MarketDataProvider;
+  profile: ScoringProfile;
+  concurrency: number;
+  requestsPerSecond: number;
+  // Upstream requests allowed this run; null for no budget
+  maxRequests: number | null;
+  maxCacheAgeHours: number;
+  // Save analyses, record the run and rebuild the leaderboard
+  record: boolean;
+  onProgress?: ((result: BatchItemResult, completed: number, total: number) => void) | undefined;
+}
+
+/**
+ * Re-analyzes the leaderboard universe, records the run in `refresh_runs`
+ * and rebuilds `leaderboard_daily`. Analyses saved within `maxCacheAgeHours`
+ * are reused, so a run cut short by a provider quota resumes where it
+ * stopped. The run records its options hash and the leaderboard ranks only
+ * analyses saved with it, so scores and margins stay comparable.
+ */
+export class RefreshService {
+  static readonly DEFAULT_UNIVERSE: readonly UniverseSource[] = ['kings', 'aristocrats'];
+  static readonly DEFAULT_MAX_AGE_HOURS = 12;
+  /** A run still marked running after this long is assumed to have crashed */
+  static readonly STALE_RUN_HOURS = 6;
+
+  private readonly batchService: BatchAnalysisService;
+
+  constructor(batchService: BatchAnalysisService = new BatchAnalysisService()) {
+    this.batchService = batchService;
+  }
+
+  /**
+   * Tickers of the chosen built-in lists, watchlists and extra tickers,
+   * de-duplicated in that order
+   */
+  static universe(sources: readonly UniverseSource[], watchlists: Watchlist[], extra: string[]): string[] {
+    const tickers = [
+      ...(sources.includes('kings') ? DividendEliteDetector.getKings() : []),
+      ...(sources.includes('aristocrats') ? DividendEliteDetector.getAristocrats() : []),
+      ...(sources.includes('watchlists') ? watchlists.flatMap(watchlist => watchlist.tickers) : []),
+      ...extra
+    ];
+
+    return [...new Set(tickers.map(ticker => InputValidator.validateTicker(ticker)))];
+  }
+
+  static status(run: Pick<RefreshRun, 'refreshed' | 'failed' | 'skipped' | 'leaderboardRefreshed' | 'error'>, record: boolean): RefreshRunStatus {
+    if (run.refreshed === 0 || (record && !run.leaderboardRefreshed)) {
+      return 'failed';
+    }
+    return run.failed + run.skipped > 0 || run.error !== null ? 'partial' : 'succeeded';
+  }
+
+  async run(tickers: string[], options: RefreshOptions): Promise<RefreshRun> {
+    if (options.record) {
+      const active = await DatabaseService.getActiveRefreshRun(RefreshService.STALE_RUN_HOURS);
+      if (active) {
+        throw new ConfigurationError(`Refresh run ${active.id} started at ${active.started_at} is still running`);
+      }
+    }
+
+    const run: RefreshRun = {
+      id: null,
+      provider: options.provider.name,
+      optionsHash: DividendAnalysisService.optionsHash(options.years, options.requiredReturn, options.provider.name, options.profile),
+      startedAt: new Date(),
+      finishedAt: null,
+      status: 'running',
+      universe: tickers.length,
+      refreshed: 0,
+      failed: 0,
+      skipped: 0,
+      requests: 0,
+      quotaExhausted: false,
+      leaderboardRefreshed: false,
+      error: null,
+      results: []
+    };
+
+    if (options.record) {
+      run.id = await DatabaseService.startRefreshRun(run);
+    }
+
+    const provider = new QuotaLimitedMarketDataProvider(options.provider, options.maxRequests);
+
+    try {
+      const results = await this.batchService.analyzeMany(tickers, {
+        years: options.years,
+        requiredReturn: options.requiredReturn,
+        saveToDb: options.record,
+        forceFresh: false,
+        provider,
+        profile: options.profile,
+        concurrency: options.concurrency,
+        requestsPerSecond: options.requestsPerSecond,
+        maxCacheAgeHours: options.maxCacheAgeHours,
+        onProgress: options.onProgress
+      });
+
+      run.results = results.map(result => RefreshService.tickerResult(result));
+
+      if (options.record && run.results.some(result => result.status === 'refreshed')) {
+        await DatabaseService.refreshLeaderboard();
+        run.leaderboardRefreshed = true;
+      }
+    } catch (error) {
+      run.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    run.refreshed = run.results.filter(result => result.status === 'refreshed').length;
+    run.failed = run.results.filter(result => result.status === 'failed').length;
+    run.skipped = run.results.filter(result => result.status === 'skipped').length;
+    run.requests = provider.requests;
+    run.quotaExhausted = provider.isExhausted;
+    run.status = RefreshService.status(run, options.record);
+    run.finishedAt = new Date();
+
+    if (run.id) {
+      try {
+        await DatabaseService.finishRefreshRun(run);
+      } catch (error) {
+        console.warn(`Failed to record the refresh run: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return run;
+  }
+
+  private static tickerResult(result: BatchItemResult): RefreshTickerResult {
+    if (result.analysis) {
+      return { ticker: result.ticker, status: 'refreshed', totalScore: result.analysis.totalScore, error: null };
+    }
+
+    // The quota provider latches on the first rate limit, so every later ticker fails the same way
+    return {
+      ticker: result.ticker,
+      status: result.error instanceof RateLimitError ? 'skipped' : 'failed',
+      totalScore: null,
+      error: result.error.message
+    };
+  }
+}
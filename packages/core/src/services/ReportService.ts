@@ -0,0 +1,72 @@
+import { TechnicalIndicatorCalculator } from "../calculators/TechnicalIndicatorCalculator";
+import type { DividendAnalysis } from "../models/DividendAnalysis";
+import type { ScoringProfile } from "../models/ScoringProfile";
+import type { MarketDataProvider } from "./MarketDataProvider";
+
+export interface PriceHistoryPoint {
+  date: Date;
+  close: number;
+  ema20: number | null;
+  ema50: number | null;
+  ema200: number | null;
+}
+
+export interface ReportData {
+  analysis: DividendAnalysis;
+  profile: ScoringProfile;
+  priceHistory: PriceHistoryPoint[];
+  generatedAt: Date;
+  asOf: Date | undefined;
+}
+
+/**
+ * Gathers what a standalone report needs beyond the analysis itself
+ */
+export class ReportService {
+  static readonly PRICE_HISTORY_YEARS = 2;
+  private static readonly EMA_PERIODS = [20, 50, 200] as const;
+
+  static async build(analysis: DividendAnalysis, provider: MarketDataProvider, profile: ScoringProfile): Promise<ReportData> {
+    let priceHistory: PriceHistoryPoint[] = [];
+
+    try {
+      const prices = await provider.getHistoricalPrices(analysis.ticker, this.PRICE_HISTORY_YEARS);
+      priceHistory = this.withEmaOverlays(prices);
+    } catch (error) {
+      // The report is still useful without the chart
+      console.warn(`⚠️  Price history unavailable for ${analysis.ticker}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return {
+      analysis,
+      profile,
+      priceHistory,
+      generatedAt: new Date(),
+      asOf: provider.asOf
+    };
+  }
+
+  /**
+   * Pairs each close with the EMAs ending on that day; an EMA is null until
+   * enough history has accumulated
+   */
+  static withEmaOverlays(prices: Array<{ date: Date; close: number }>): PriceHistoryPoint[] {
+    const sorted = [...prices]
+      .filter(price => isFinite(price.close))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+    const closes = sorted.map(price => price.close);
+    const [ema20, ema50, ema200] = this.EMA_PERIODS.map(period => TechnicalIndicatorCalculator.calculateEMA(closes, period));
+    const at = (series: number[], i: number) => {
+      const value = series[i];
+      return value !== undefined && isFinite(value) ? value : null;
+    };
+
+    return sorted.map((price, i) => ({
+      date: price.date,
+      close: price.close,
+      ema20: at(ema20, i),
+      ema50: at(ema50, i),
+      ema200: at(ema200, i)
+    }));
+  }
+}
@@ -0,0 +1,181 @@
+import { createHash } from "crypto";
+import { readFileSync, existsSync } from "fs";
+import { resolve as resolvePath } from "path";
+import {
+  DEFAULT_SCORING_PROFILE,
+  SCORE_FACTORS,
+  type ScoringProfile,
+  type ScoreThresholds,
+  type ScoreWeights
+} from "../models/ScoringProfile";
+import { ConfigurationError, ValidationError } from "../errors/DivvyErrors";
+
+/**
+ * On-disk shape of the scoring config file. Thresholds may be partial and
+ * are merged over the default profile's; weights must list every factor.
+ */
+export interface ScoringConfigFile {
+  profiles: Record<string, {
+    description?: string;
+    weights: ScoreWeights;
+    thresholds?: { [K in keyof ScoreThresholds]?: Partial<ScoreThresholds[K]> };
+  }>;
+}
+
+export const DEFAULT_SCORING_CONFIG_FILE = 'divvy.config.json';
+
+const BUILT_IN_PROFILES: ScoringProfile[] = [
+  DEFAULT_SCORING_PROFILE,
+  {
+    name: 'income',
+    description: 'Current income with well-covered payouts',
+    weights: { payout: 0.30, fcf: 0.30, streak: 0.15, growth: 0.10, trend: 0.05, macd: 0.05, rsi: 0.05 },
+    thresholds: { ...DEFAULT_SCORING_PROFILE.thresholds, fcf: { full: 2.5 } }
+  },
+  {
+    name: 'growth',
+    description: 'Dividend growth over current yield',
+    weights: { payout: 0.15, fcf: 0.20, streak: 0.10, growth: 0.35, trend: 0.10, macd: 0.05, rsi: 0.05 },
+    thresholds: { ...DEFAULT_SCORING_PROFILE.thresholds, growth: { min: -0.05, max: 0.15 } }
+  },
+  {
+    name: 'defensive',
+    description: 'Long streaks and conservative payouts',
+    weights: { payout: 0.25, fcf: 0.30, streak: 0.25, growth: 0.10, trend: 0.05, macd: 0.00, rsi: 0.05 },
+    thresholds: {
+      ...DEFAULT_SCORING_PROFILE.thresholds,
+      payout: { full: 0.5, zero: 0.9 },
+      streak: { full: 25 }
+    }
+  }
+];
+
+/**
+ * Resolves `--profile` names to scoring profiles. Profiles from the config
+ * file (`divvy.config.json` in the working directory unless a path is given)
+ * are layered over the built-in ones and may replace them.
+ */
+export class ScoringProfileRegistry {
+  private static readonly WEIGHT_TOLERANCE = 1e-6;
+  private static readonly PROFILE_NAME_PATTERN = /^[a-z0-9_-]+$/;
+
+  static builtIn(): ScoringProfile[] {
+    return [...BUILT_IN_PROFILES];
+  }
+
+  static load(configPath?: string): ScoringProfile[] {
+    const profiles = new Map(BUILT_IN_PROFILES.map(profile => [profile.name, profile]));
+    const path = resolvePath(configPath ?? DEFAULT_SCORING_CONFIG_FILE);
+
+    if (!existsSync(path)) {
+      if (configPath) {
+        throw new ConfigurationError(`Scoring config file not found: ${path}`);
+      }
+      return [...profiles.values()];
+    }
+
+    let config: Partial<ScoringConfigFile>;
+    try {
+      config = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new ConfigurationError(`Invalid scoring config ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!config.profiles || typeof config.profiles !== 'object') {
+      throw new ConfigurationError(`Scoring config ${path} must define a "profiles" object`);
+    }
+
+    for (const [name, definition] of Object.entries(config.profiles)) {
+      const profile = this.validateProfile({
+        name: name.trim().toLowerCase(),
+        description: definition.description,
+        weights: definition.weights,
+        thresholds: {
+          payout: { ...DEFAULT_SCORING_PROFILE.thresholds.payout, ...definition.thresholds?.payout },
+          fcf: { ...DEFAULT_SCORING_PROFILE.thresholds.fcf, ...definition.thresholds?.fcf },
+          streak: { ...DEFAULT_SCORING_PROFILE.thresholds.streak, ...definition.thresholds?.streak },
+          growth: { ...DEFAULT_SCORING_PROFILE.thresholds.growth, ...definition.thresholds?.growth }
+        }
+      }, path);
+      profiles.set(profile.name, profile);
+    }
+
+    return [...profiles.values()];
+  }
+
+  static resolve(name: string, configPath?: string): ScoringProfile {
+    const profiles = this.load(configPath);
+    const profile = profiles.find(p => p.name === name.trim().toLowerCase());
+
+    if (!profile) {
+      throw new ValidationError(
+        `Unknown scoring profile "${name}". Available profiles: ${profiles.map(p => p.name).join(', ')}`,
+        'profile'
+      );
+    }
+
+    return profile;
+  }
+
+  /**
+   * Short hash of the weights and thresholds. Config profiles can redefine a
+   * name (even `default`), so cached analyses are keyed by this as well.
+   */
+  static fingerprint(profile: ScoringProfile): string {
+    const { weights, thresholds } = profile;
+    const values = [
+      ...SCORE_FACTORS.map(factor => weights[factor]),
+      thresholds.payout.full, thresholds.payout.zero, thresholds.fcf.full,
+      thresholds.streak.full, thresholds.growth.min, thresholds.growth.max
+    ];
+
+    return createHash('md5').update(values.join(',')).digest('hex').substring(0, 12);
+  }
+
+  static validateProfile(profile: ScoringProfile, source: string = 'scoring config'): ScoringProfile {
+    const { name, weights, thresholds } = profile;
+
+    if (!this.PROFILE_NAME_PATTERN.test(name)) {
+      throw new ConfigurationError(`Invalid profile name "${name}" in ${source} (use letters, digits, - and _)`);
+    }
+
+    if (!weights || typeof weights !== 'object') {
+      throw new ConfigurationError(`Profile "${name}" in ${source} must define weights`);
+    }
+
+    for (const factor of SCORE_FACTORS) {
+      const weight = weights[factor];
+      if (typeof weight !== 'number' || !isFinite(weight) || weight < 0) {
+        throw new ConfigurationError(`Profile "${name}" in ${source}: weight for ${factor} must be a non-negative number`);
+      }
+    }
+
+    const unknown = Object.keys(weights).filter(key => !(SCORE_FACTORS as readonly string[]).includes(key));
+    if (unknown.length > 0) {
+      throw new ConfigurationError(`Profile "${name}" in ${source}: unknown factor(s) ${unknown.join(', ')}`);
+    }
+
+    const total = SCORE_FACTORS.reduce((acc, factor) => acc + weights[factor], 0);
+    if (Math.abs(total - 1) > this.WEIGHT_TOLERANCE) {
+      throw new ConfigurationError(`Profile "${name}" in ${source}: weights must sum to 1 (got ${total.toFixed(4)})`);
+    }
+
+    const numbers = [
+      thresholds.payout.full, thresholds.payout.zero, thresholds.fcf.full,
+      thresholds.streak.full, thresholds.growth.min, thresholds.growth.max
+    ];
+    if (numbers.some(value => typeof value !== 'number' || !isFinite(value))) {
+      throw new ConfigurationError(`Profile "${name}" in ${source}: thresholds must be numbers`);
+    }
+
+    if (thresholds.payout.full >= thresholds.payout.zero || thresholds.growth.min >= thresholds.growth.max) {
+      throw new ConfigurationError(`Profile "${name}" in ${source}: threshold ranges must be increasing`);
+    }
+
+    if (thresholds.fcf.full <= 0 || thresholds.streak.full <= 0) {
+      throw new ConfigurationError(`Profile "${name}" in ${source}: fcf and streak thresholds must be positive`);
+    }
+
+    return profile;
+  }
+}
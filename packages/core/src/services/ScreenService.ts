@@ -0,0 +1,306 @@
+import { readFileSync } from "fs";
+import { resolve as resolvePath } from "path";
+import { SectorClassifier } from "../data/SectorRules";
+import { DIVIDEND_ARISTOCRATS, DIVIDEND_KINGS } from "../data/DividendAristocrats";
+import { InputValidator } from "../validation/InputValidator";
+import {
+  SCREEN_FIELDS,
+  EMPTY_SCREEN_CRITERIA,
+  type ScreenCriteria,
+  type ScreenDefinition,
+  type ScreenField,
+  type ScreenSort
+} from "../models/ScreenCriteria";
+import type { DividendAnalysis } from "../models/DividendAnalysis";
+import { ConfigurationError, ValidationError } from "../errors/DivvyErrors";
+
+/**
+ * On-disk shape of a saved screen. `universe` is a ticker list or the name
+ * of a built-in list; `sort` uses the `--sort` syntax (`field[:asc|desc]`).
+ */
+export interface ScreenFile {
+  universe?: string[] | string;
+  criteria?: Partial<ScreenCriteria>;
+  sort?: string;
+  limit?: number;
+}
+
+export interface ScreenRejection {
+  ticker: string;
+  reasons: string[];
+}
+
+export interface ScreenResult {
+  matches: DividendAnalysis[];
+  rejected: ScreenRejection[];
+}
+
+const BUILT_IN_UNIVERSES: Record<string, () => string[]> = {
+  kings: () => DIVIDEND_KINGS.map(stock => stock.ticker),
+  aristocrats: () => DIVIDEND_ARISTOCRATS.map(stock => stock.ticker),
+  elite: () => [...new Set([...DIVIDEND_KINGS, ...DIVIDEND_ARISTOCRATS].map(stock => stock.ticker))]
+};
+
+/**
+ * Filters and ranks analyses by screen criteria
+ */
+export class ScreenService {
+  static universeNames(): string[] {
+    return Object.keys(BUILT_IN_UNIVERSES);
+  }
+
+  static resolveUniverse(name: string): string[] {
+    const universe = BUILT_IN_UNIVERSES[name.trim().toLowerCase()];
+
+    if (!universe) {
+      throw new ValidationError(`Unknown universe "${name}". Available universes: ${this.universeNames().join(', ')}`, 'universe');
+    }
+
+    return universe();
+  }
+
+  static fieldValue(analysis: DividendAnalysis, field: ScreenField): number | string | null {
+    const finite = (value: number | null) => value !== null && isFinite(value) ? value : null;
+
+    switch (field) {
+      case 'ticker': return analysis.ticker;
+      case 'sector': return analysis.quote.sector;
+      case 'price': return finite(analysis.quote.price);
+      case 'ttmYield': return finite(analysis.ttmYield);
+      case 'forwardYield': return finite(analysis.forwardYield);
+      case 'epsPayoutRatio': return finite(analysis.fundamentals.epsPayoutRatio);
+      case 'fcfPayoutRatio': return finite(analysis.fundamentals.fcfPayoutRatio);
+      case 'streak': return analysis.streak;
+      case 'cagr3': return finite(analysis.cagr3);
+      case 'cagr5': return finite(analysis.cagr5);
+      case 'totalScore': return analysis.totalScore;
+      case 'ddmUpside': return finite(analysis.valuation.upside);
+    }
+  }
+
+  /**
+   * Reasons the analysis fails the criteria; empty when it passes. Missing
+   * data fails any bound that needs it.
+   */
+  static evaluate(analysis: DividendAnalysis, criteria: ScreenCriteria): string[] {
+    const reasons: string[] = [];
+    const pct = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+    const forwardYield = this.fieldValue(analysis, 'forwardYield') as number | null;
+    if (criteria.minForwardYield !== undefined) {
+      if (forwardYield === null) {
+        reasons.push('forward yield unavailable');
+      } else if (forwardYield < criteria.minForwardYield) {
+        reasons.push(`forward yield ${pct(forwardYield)} < ${pct(criteria.minForwardYield)}`);
+      }
+    }
+
+    const fcfPayout = this.fieldValue(analysis, 'fcfPayoutRatio') as number | null;
+    if (criteria.maxFcfPayoutRatio !== undefined) {
+      if (fcfPayout === null) {
+        reasons.push('FCF payout unavailable');
+      } else if (fcfPayout > criteria.maxFcfPayoutRatio) {
+        reasons.push(`FCF payout ${pct(fcfPayout)} > ${pct(criteria.maxFcfPayoutRatio)}`);
+      }
+    }
+
+    if (criteria.minStreak !== undefined && analysis.streak < criteria.minStreak) {
+      reasons.push(`streak ${analysis.streak}y < ${criteria.minStreak}y`);
+    }
+
+    if (criteria.minTotalScore !== undefined && analysis.totalScore < criteria.minTotalScore) {
+      reasons.push(`score ${analysis.totalScore} < ${criteria.minTotalScore}`);
+    }
+
+    const sectorNames = this.sectorNames(analysis);
+    const inSectors = (sectors: string[]) => sectors.some(sector => sectorNames.includes(sector.trim().toLowerCase()));
+
+    if (criteria.includeSectors.length > 0 && !inSectors(criteria.includeSectors)) {
+      reasons.push(`sector ${analysis.quote.sector ?? 'unknown'} not in ${criteria.includeSectors.join(', ')}`);
+    }
+
+    if (criteria.excludeSectors.length > 0 && inSectors(criteria.excludeSectors)) {
+      reasons.push(`sector ${analysis.quote.sector ?? 'unknown'} excluded`);
+    }
+
+    if (criteria.aboveEma200) {
+      const { ema200 } = analysis.ema;
+      if (!ema200) {
+        reasons.push('EMA200 unavailable');
+      } else if (analysis.quote.price <= ema200) {
+        reasons.push(`price ${analysis.quote.price.toFixed(2)} not above EMA200 ${ema200.toFixed(2)}`);
+      }
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Orders analyses by one field. Missing values always sort last.
+   */
+  static sort(analyses: DividendAnalysis[], sort: ScreenSort): DividendAnalysis[] {
+    const direction = sort.descending ? -1 : 1;
+
+    return [...analyses].sort((a, b) => {
+      const left = this.fieldValue(a, sort.field);
+      const right = this.fieldValue(b, sort.field);
+
+      if (left === null || right === null) {
+        return left === right ? 0 : left === null ? 1 : -1;
+      }
+
+      const order = typeof left === 'string' || typeof right === 'string'
+        ? String(left).localeCompare(String(right))
+        : left - right;
+
+      return order * direction || a.ticker.localeCompare(b.ticker);
+    });
+  }
+
+  static run(analyses: DividendAnalysis[], definition: Omit<ScreenDefinition, 'universe'>): ScreenResult {
+    const matches: DividendAnalysis[] = [];
+    const rejected: ScreenRejection[] = [];
+
+    for (const analysis of analyses) {
+      const reasons = this.evaluate(analysis, definition.criteria);
+      if (reasons.length === 0) {
+        matches.push(analysis);
+      } else {
+        rejected.push({ ticker: analysis.ticker, reasons });
+      }
+    }
+
+    const sorted = this.sort(matches, definition.sort);
+
+    return {
+      matches: definition.limit !== undefined ? sorted.slice(0, definition.limit) : sorted,
+      rejected
+    };
+  }
+
+  /**
+   * Parses `field`, `field:asc` or `field:desc`. Text fields default to
+   * ascending, numbers to descending.
+   */
+  static parseSort(spec: string): ScreenSort {
+    const [rawField = '', rawDirection] = spec.trim().split(':');
+    const field = SCREEN_FIELDS.find(f => f.toLowerCase() === rawField.trim().toLowerCase());
+
+    if (!field) {
+      throw new ValidationError(`Unknown sort field "${rawField}". Sortable fields: ${SCREEN_FIELDS.join(', ')}`, 'sort');
+    }
+
+    const direction = rawDirection?.trim().toLowerCase();
+    if (direction !== undefined && direction !== 'asc' && direction !== 'desc') {
+      throw new ValidationError(`Sort direction must be asc or desc (got "${rawDirection}")`, 'sort');
+    }
+
+    return {
+      field,
+      descending: direction ? direction === 'desc' : field !== 'ticker' && field !== 'sector'
+    };
+  }
+
+  static loadScreenFile(path: string): Partial<ScreenDefinition> {
+    const fullPath = resolvePath(path);
+    let file: ScreenFile;
+
+    try {
+      file = JSON.parse(readFileSync(fullPath, 'utf8'));
+    } catch (error) {
+      throw new ConfigurationError(`Invalid screen file ${fullPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!file || typeof file !== 'object' || Array.isArray(file)) {
+      throw new ConfigurationError(`Screen file ${fullPath} must contain a JSON object`);
+    }
+
+    const definition: Partial<ScreenDefinition> = {};
+
+    try {
+      if (file.universe !== undefined) {
+        definition.universe = typeof file.universe === 'string'
+          ? this.resolveUniverse(file.universe)
+          : InputValidator.parseTickerList(this.stringList(file.universe, 'universe').join('\n'));
+      }
+
+      if (file.criteria !== undefined) {
+        definition.criteria = this.validateCriteria(file.criteria);
+      }
+
+      if (file.sort !== undefined) {
+        definition.sort = this.parseSort(String(file.sort));
+      }
+
+      if (file.limit !== undefined) {
+        definition.limit = InputValidator.validatePositiveInteger(file.limit, 'limit');
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new ConfigurationError(`Screen file ${fullPath}: ${error.message}`);
+      }
+      throw error;
+    }
+
+    return definition;
+  }
+
+  /**
+   * Layers `overrides` over `base`; unset bounds and empty sector lists do
+   * not replace saved values.
+   */
+  static mergeCriteria(base: ScreenCriteria, overrides: Partial<ScreenCriteria>): ScreenCriteria {
+    return {
+      minForwardYield: overrides.minForwardYield ?? base.minForwardYield,
+      maxFcfPayoutRatio: overrides.maxFcfPayoutRatio ?? base.maxFcfPayoutRatio,
+      minStreak: overrides.minStreak ?? base.minStreak,
+      minTotalScore: overrides.minTotalScore ?? base.minTotalScore,
+      includeSectors: overrides.includeSectors?.length ? overrides.includeSectors : base.includeSectors,
+      excludeSectors: overrides.excludeSectors?.length ? overrides.excludeSectors : base.excludeSectors,
+      aboveEma200: overrides.aboveEma200 ?? base.aboveEma200
+    };
+  }
+
+  private static validateCriteria(criteria: Partial<ScreenCriteria>): ScreenCriteria {
+    if (!criteria || typeof criteria !== 'object') {
+      throw new ValidationError('criteria must be an object', 'criteria');
+    }
+
+    const bound = (value: unknown, field: string) => {
+      if (value === undefined || value === null) return undefined;
+      if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+        throw new ValidationError(`${field} must be a non-negative number`, field);
+      }
+      return value;
+    };
+
+    if (criteria.aboveEma200 !== undefined && typeof criteria.aboveEma200 !== 'boolean') {
+      throw new ValidationError('aboveEma200 must be true or false', 'aboveEma200');
+    }
+
+    return this.mergeCriteria(EMPTY_SCREEN_CRITERIA, {
+      minForwardYield: bound(criteria.minForwardYield, 'minForwardYield'),
+      maxFcfPayoutRatio: bound(criteria.maxFcfPayoutRatio, 'maxFcfPayoutRatio'),
+      minStreak: bound(criteria.minStreak, 'minStreak'),
+      minTotalScore: bound(criteria.minTotalScore, 'minTotalScore'),
+      includeSectors: criteria.includeSectors !== undefined ? this.stringList(criteria.includeSectors, 'includeSectors') : [],
+      excludeSectors: criteria.excludeSectors !== undefined ? this.stringList(criteria.excludeSectors, 'excludeSectors') : [],
+      aboveEma200: criteria.aboveEma200 ?? false
+    });
+  }
+
+  private static stringList(value: unknown, field: string): string[] {
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      throw new ValidationError(`${field} must be a list of strings`, field);
+    }
+    return value;
+  }
+
+  private static sectorNames(analysis: DividendAnalysis): string[] {
+    const { sector, industry } = analysis.quote;
+    const names = [SectorClassifier.classify(sector, industry) as string];
+    if (sector) names.push(sector.toLowerCase());
+    if (industry) names.push(industry.toLowerCase());
+    return names;
+  }
+}
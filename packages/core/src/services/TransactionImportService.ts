@@ -0,0 +1,409 @@
+import { readFileSync } from "fs";
+import { resolve as resolvePath } from "path";
+import { InputValidator } from "../validation/InputValidator";
+import { ConfigurationError, ValidationError } from "../errors/DivvyErrors";
+import { parseCsv } from "../utils/Csv";
+import { TRANSACTION_TYPES } from "../models/Portfolio";
+import type {
+  Holding,
+  ImportIssue,
+  TaxLot,
+  Transaction,
+  TransactionImport,
+  TransactionType
+} from "../models/Portfolio";
+import type { PortfolioFile } from "./PortfolioService";
+
+export const TRANSACTION_FIELDS = ['date', 'type', 'ticker', 'shares', 'price', 'amount', 'fees', 'account', 'ratio'] as const;
+
+export type TransactionField = typeof TRANSACTION_FIELDS[number];
+
+export const DATE_FORMATS = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'] as const;
+
+export type DateFormat = typeof DATE_FORMATS[number];
+
+/**
+ * How an export's columns and action names map onto transactions. Column
+ * names match headers case-insensitively; `types` keys are lower-case action
+ * values. `account` is used when the export has no account column.
+ */
+export interface ColumnMapping {
+  columns: Record<TransactionField, string>;
+  types: Record<string, TransactionType>;
+  dateFormat: DateFormat;
+  delimiter: string;
+  account: string | null;
+}
+
+/**
+ * On-disk shape of a mapping file; every key is optional and layered over
+ * the generic schema
+ */
+export interface ColumnMappingFile {
+  columns?: Partial<Record<TransactionField, string>>;
+  types?: Record<string, string>;
+  dateFormat?: string;
+  delimiter?: string;
+  account?: string;
+}
+
+const REQUIRED_FIELDS: readonly TransactionField[] = ['date', 'type', 'ticker'];
+
+const SHARE_EPSILON = 1e-9;
+
+/**
+ * Turns brokerage transaction exports into tax lots and holdings. Rows that
+ * cannot be used are reported with their line number and skipped; only a
+ * file whose required columns are missing is rejected outright.
+ */
+export class TransactionImportService {
+  static readonly DEFAULT_MAPPING: ColumnMapping = {
+    columns: {
+      date: 'date',
+      type: 'type',
+      ticker: 'ticker',
+      shares: 'shares',
+      price: 'price',
+      amount: 'amount',
+      fees: 'fees',
+      account: 'account',
+      ratio: 'ratio'
+    },
+    types: {
+      buy: 'buy',
+      bought: 'buy',
+      purchase: 'buy',
+      sell: 'sell',
+      sold: 'sell',
+      sale: 'sell',
+      dividend: 'dividend',
+      'cash dividend': 'dividend',
+      'qualified dividend': 'dividend',
+      reinvest: 'reinvest',
+      reinvestment: 'reinvest',
+      'dividend reinvestment': 'reinvest',
+      'reinvest dividend': 'reinvest',
+      drip: 'reinvest',
+      split: 'split',
+      'stock split': 'split'
+    },
+    dateFormat: 'YYYY-MM-DD',
+    delimiter: ',',
+    account: null
+  };
+
+  static loadMappingFile(path: string): ColumnMapping {
+    const fullPath = resolvePath(path);
+    let file: ColumnMappingFile;
+
+    try {
+      file = JSON.parse(readFileSync(fullPath, 'utf8'));
+    } catch (error) {
+      throw new ConfigurationError(`Invalid column mapping file ${fullPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!file || typeof file !== 'object' || Array.isArray(file)) {
+      throw new ConfigurationError(`Column mapping file ${fullPath} must contain a JSON object`);
+    }
+
+    try {
+      return this.mapping(file);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new ConfigurationError(`Column mapping file ${fullPath}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Layers a mapping file over the generic schema
+   */
+  static mapping(file: ColumnMappingFile): ColumnMapping {
+    const base = this.DEFAULT_MAPPING;
+    const columns = { ...base.columns };
+    const types = { ...base.types };
+
+    for (const [field, header] of Object.entries(file.columns ?? {})) {
+      if (!(TRANSACTION_FIELDS as readonly string[]).includes(field)) {
+        throw new ValidationError(`Unknown column "${field}" (expected one of: ${TRANSACTION_FIELDS.join(', ')})`, 'columns');
+      }
+      if (typeof header !== 'string' || header.trim() === '') {
+        throw new ValidationError(`columns.${field} must be a header name`, 'columns');
+      }
+      columns[field as TransactionField] = header;
+    }
+
+    for (const [value, type] of Object.entries(file.types ?? {})) {
+      if (!(TRANSACTION_TYPES as readonly string[]).includes(type)) {
+        throw new ValidationError(`types.${value} must be one of: ${TRANSACTION_TYPES.join(', ')}`, 'types');
+      }
+      types[value.trim().toLowerCase()] = type as TransactionType;
+    }
+
+    if (file.dateFormat !== undefined && !(DATE_FORMATS as readonly string[]).includes(file.dateFormat)) {
+      throw new ValidationError(`dateFormat must be one of: ${DATE_FORMATS.join(', ')}`, 'dateFormat');
+    }
+
+    if (file.delimiter !== undefined && (typeof file.delimiter !== 'string' || file.delimiter.length !== 1 || file.delimiter === '"')) {
+      throw new ValidationError('delimiter must be a single character other than a quote', 'delimiter');
+    }
+
+    return {
+      columns,
+      types,
+      dateFormat: (file.dateFormat as DateFormat | undefined) ?? base.dateFormat,
+      delimiter: file.delimiter ?? base.delimiter,
+      account: file.account?.trim() || base.account
+    };
+  }
+
+  static import(text: string, mapping: ColumnMapping = this.DEFAULT_MAPPING): TransactionImport {
+    const parsed = this.parseTransactions(text, mapping);
+    const built = this.buildLots(parsed.transactions);
+
+    return {
+      transactions: parsed.transactions,
+      lots: built.lots,
+      holdings: this.toHoldings(built.lots),
+      dividends: built.dividends,
+      issues: [...parsed.issues, ...built.issues].sort((a, b) => a.line - b.line)
+    };
+  }
+
+  static parseTransactions(text: string, mapping: ColumnMapping): { transactions: Transaction[]; issues: ImportIssue[] } {
+    const [header, ...rows] = parseCsv(text, mapping.delimiter);
+
+    if (!header) {
+      throw new ValidationError('Transaction file is empty', 'file');
+    }
+
+    const positions = this.columnPositions(header.cells, mapping);
+    const transactions: Transaction[] = [];
+    const issues: ImportIssue[] = [];
+
+    for (const row of rows) {
+      const cell = (field: TransactionField) => {
+        const index = positions[field];
+        return index === undefined ? '' : (row.cells[index] ?? '').trim();
+      };
+
+      try {
+        transactions.push(this.parseRow(row.line, cell, mapping));
+      } catch (error) {
+        issues.push({ line: row.line, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return { transactions, issues };
+  }
+
+  /**
+   * Replays transactions in date order (file order within a day)
+   */
+  static buildLots(transactions: Transaction[]): { lots: TaxLot[]; dividends: Record<string, number>; issues: ImportIssue[] } {
+    const ordered = [...transactions].sort((a, b) => a.date.getTime() - b.date.getTime() || a.line - b.line);
+    let lots: TaxLot[] = [];
+    const dividends: Record<string, number> = {};
+    const issues: ImportIssue[] = [];
+    const held = (t: Transaction) => lots.filter(lot => lot.ticker === t.ticker && lot.account === t.account);
+
+    for (const t of ordered) {
+      switch (t.type) {
+        case 'buy':
+        case 'reinvest':
+          lots.push({ ticker: t.ticker, account: t.account, acquired: t.date, shares: t.shares!, costBasis: this.cost(t), line: t.line });
+          break;
+
+        case 'sell': {
+          const open = held(t);
+          const available = open.reduce((total, lot) => total + lot.shares, 0);
+
+          if (t.shares! > available + SHARE_EPSILON) {
+            issues.push({ line: t.line, message: `Sell of ${t.shares} ${t.ticker} exceeds the ${+available.toFixed(6)} shares held${t.account ? ` in ${t.account}` : ''}` });
+            break;
+          }
+
+          let remaining = t.shares!;
+          for (const lot of open) {
+            if (remaining <= SHARE_EPSILON) break;
+            const sold = Math.min(lot.shares, remaining);
+            lot.costBasis -= lot.costBasis * (sold / lot.shares);
+            lot.shares -= sold;
+            remaining -= sold;
+          }
+          lots = lots.filter(lot => lot.shares > SHARE_EPSILON);
+          break;
+        }
+
+        case 'split':
+          held(t).forEach(lot => { lot.shares *= t.ratio!; });
+          break;
+
+        case 'dividend':
+          dividends[t.ticker] = (dividends[t.ticker] ?? 0) + t.amount!;
+          break;
+      }
+    }
+
+    return { lots, dividends, issues };
+  }
+
+  /**
+   * One holding per account and ticker, in the order positions were opened
+   */
+  static toHoldings(lots: TaxLot[]): Holding[] {
+    const holdings = new Map<string, Holding>();
+
+    for (const lot of [...lots].sort((a, b) => a.line - b.line)) {
+      const key = `${lot.account ?? ''}\u0000${lot.ticker}`;
+      const holding = holdings.get(key) ?? { ticker: lot.ticker, shares: 0, costBasis: 0, account: lot.account };
+      holding.shares += lot.shares;
+      holding.costBasis += lot.costBasis;
+      holdings.set(key, holding);
+    }
+
+    return [...holdings.values()].map(holding => ({
+      ...holding,
+      shares: this.round(holding.shares, 6),
+      costBasis: this.round(holding.costBasis, 2)
+    }));
+  }
+
+  /**
+   * Holdings file for `divvy portfolio`, keeping each position's open lots
+   */
+  static toPortfolioFile(result: TransactionImport): PortfolioFile {
+    return {
+      holdings: result.holdings.map(holding => ({
+        ticker: holding.ticker,
+        shares: holding.shares,
+        costBasis: holding.costBasis,
+        ...(holding.account ? { account: holding.account } : {}),
+        lots: result.lots
+          .filter(lot => lot.ticker === holding.ticker && lot.account === holding.account)
+          .map(lot => ({
+            acquired: lot.acquired.toISOString().slice(0, 10),
+            shares: this.round(lot.shares, 6),
+            costBasis: this.round(lot.costBasis, 2)
+          }))
+      }))
+    };
+  }
+
+  private static columnPositions(headers: string[], mapping: ColumnMapping): Partial<Record<TransactionField, number>> {
+    const normalized = headers.map(header => header.trim().toLowerCase());
+    const positions: Partial<Record<TransactionField, number>> = {};
+
+    for (const field of TRANSACTION_FIELDS) {
+      const index = normalized.indexOf(mapping.columns[field].trim().toLowerCase());
+      if (index >= 0) {
+        positions[field] = index;
+      }
+    }
+
+    const missing = REQUIRED_FIELDS.filter(field => positions[field] === undefined);
+    if (missing.length > 0) {
+      throw new ValidationError(`Missing required column(s): ${missing.map(field => `"${mapping.columns[field]}" (${field})`).join(', ')}`, 'columns');
+    }
+
+    return positions;
+  }
+
+  private static parseRow(line: number, cell: (field: TransactionField) => string, mapping: ColumnMapping): Transaction {
+    const action = cell('type');
+    const type = mapping.types[action.toLowerCase()];
+    if (!type) {
+      throw new ValidationError(`Unknown transaction type "${action}"`, 'type');
+    }
+
+    const shares = this.number(cell('shares'), 'shares');
+    const price = this.number(cell('price'), 'price');
+    const amount = this.number(cell('amount'), 'amount');
+    const transaction: Transaction = {
+      line,
+      date: this.date(cell('date'), mapping.dateFormat),
+      type,
+      ticker: InputValidator.validateTicker(cell('ticker')),
+      account: cell('account') || mapping.account,
+      // Exports often sign quantities and cash by direction; the type carries that
+      shares: shares === null ? null : Math.abs(shares),
+      price: price === null ? null : Math.abs(price),
+      amount: amount === null ? null : Math.abs(amount),
+      fees: Math.abs(this.number(cell('fees'), 'fees') ?? 0),
+      ratio: type === 'split' ? this.ratio(cell('ratio')) : null
+    };
+
+    if ((type === 'buy' || type === 'sell' || type === 'reinvest') && !transaction.shares) {
+      throw new ValidationError(`A ${type} needs a share count`, 'shares');
+    }
+    if ((type === 'buy' || type === 'reinvest') && transaction.amount === null && transaction.price === null) {
+      throw new ValidationError(`A ${type} needs a price or an amount`, 'price');
+    }
+    if (type === 'dividend' && transaction.amount === null) {
+      throw new ValidationError('A dividend needs an amount', 'amount');
+    }
+
+    return transaction;
+  }
+
+  /**
+   * The cash amount already includes fees; a price does not
+   */
+  private static cost(t: Transaction): number {
+    return t.amount ?? t.shares! * t.price! + t.fees;
+  }
+
+  private static number(text: string, field: TransactionField): number | null {
+    if (text === '') return null;
+
+    const negative = /^\(.*\)$/.test(text);
+    const value = Number(text.replace(/[()$€£,\s]/g, ''));
+
+    if (!isFinite(value)) {
+      throw new ValidationError(`Invalid ${field} "${text}"`, field);
+    }
+
+    return negative ? -value : value;
+  }
+
+  private static date(text: string, format: DateFormat): Date {
+    const parts = format === 'YYYY-MM-DD'
+      ? /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/.exec(text)?.slice(1, 4)
+      : /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text)?.slice(1, 4);
+
+    if (parts) {
+      const [year, month, day] = format === 'YYYY-MM-DD'
+        ? parts.map(Number)
+        : format === 'MM/DD/YYYY'
+          ? [Number(parts[2]), Number(parts[0]), Number(parts[1])]
+          : [Number(parts[2]), Number(parts[1]), Number(parts[0])];
+      const date = new Date(Date.UTC(year, month - 1, day));
+
+      // Rejects rollovers such as 2024-02-31
+      if (date.getUTCMonth() === month - 1 && date.getUTCDate() === day) {
+        return date;
+      }
+    }
+
+    throw new ValidationError(`Invalid date "${text}" (expected ${format})`, 'date');
+  }
+
+  /**
+   * New shares per old share: "2", "2:1", "3/2" or "2-for-1"
+   */
+  private static ratio(text: string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*(?:[:/]|-?for-?)\s*(\d+(?:\.\d+)?)$/i.exec(text);
+    const ratio = match ? Number(match[1]) / Number(match[2]) : Number(text);
+
+    if (text === '' || !isFinite(ratio) || ratio <= 0) {
+      throw new ValidationError(`A split needs a ratio such as 2:1 (got "${text}")`, 'ratio');
+    }
+
+    return ratio;
+  }
+
+  private static round(value: number, digits: number): number {
+    return Number(value.toFixed(digits));
+  }
+}
@@ -0,0 +1,238 @@
+import { NotificationService } from "./NotificationService";
+import { InputValidator } from "../validation/InputValidator";
+import { ValidationError } from "../errors/DivvyErrors";
+import { ALERT_RULE_TYPES, type Alert, type AlertRule, type AlertState, type Watchlist } from "../models/Watchlist";
+import type { DividendAnalysis } from "../models/DividendAnalysis";
+
+/**
+ * Outcome of one rule for one analysis. `condition` is null when the rule is
+ * not tripped and undefined when the analysis lacks the data to tell, in
+ * which case the previous state is kept.
+ */
+export interface RuleEvaluation {
+  condition: string | null | undefined;
+  value: number | null;
+  message: string;
+}
+
+export interface WatchResult {
+  alerts: Alert[];
+  states: AlertState[];
+}
+
+const RULE_SPEC = /^(yield|score|upside)\s*(>=|<=|<)\s*(-?\d*\.?\d+)$/;
+
+/**
+ * Watchlist validation, the compact rule syntax used on the command line and
+ * alert evaluation with de-duplication
+ */
+export class WatchlistService {
+  static readonly NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,39}$/;
+  /** A full-year total this much below the prior year counts as a cut */
+  static readonly CUT_TOLERANCE = 0.01;
+
+  static readonly RULE_SYNTAX = 'yield>=0.035, yield<=0.02, score<60, ema200, cut, upside>=0.2';
+
+  static validateName(name: string): string {
+    if (typeof name !== 'string' || !this.NAME_PATTERN.test(name.trim())) {
+      throw new ValidationError(`Invalid watchlist name "${name}" (letters, digits, "_", "." and "-", up to 40 characters)`, 'watchlist');
+    }
+    return name.trim();
+  }
+
+  static validateWatchlist(raw: unknown): Watchlist {
+    const value = raw as Partial<Watchlist> | null;
+
+    if (!value || typeof value !== 'object' || !Array.isArray(value.tickers) || !Array.isArray(value.rules)) {
+      throw new ValidationError('A watchlist needs a name, a tickers list and a rules list', 'watchlist');
+    }
+    if (value.channels !== undefined && !Array.isArray(value.channels)) {
+      throw new ValidationError('Watchlist channels must be a list', 'watchlist');
+    }
+
+    const channels = (value.channels ?? []).map(channel => NotificationService.validateChannel(channel));
+
+    return {
+      name: this.validateName(value.name as string),
+      tickers: [...new Set(value.tickers.map(ticker => InputValidator.validateTicker(ticker)))],
+      rules: this.uniqueRules(value.rules.map(rule => this.validateRule(rule))),
+      channels: [...new Map(channels.map(channel => [NotificationService.channelKey(channel), channel])).values()]
+    };
+  }
+
+  static validateRule(raw: unknown): AlertRule {
+    const rule = raw as Partial<Record<string, unknown>> | null;
+    const type = rule?.type;
+
+    if (!rule || typeof type !== 'string' || !(ALERT_RULE_TYPES as readonly string[]).includes(type)) {
+      throw new ValidationError(`Unknown alert rule ${JSON.stringify(type)} (expected one of: ${ALERT_RULE_TYPES.join(', ')})`, 'rule');
+    }
+
+    const number = (field: string) => {
+      const value = rule[field];
+      if (typeof value !== 'number' || !isFinite(value)) {
+        throw new ValidationError(`${type} rule needs a numeric ${field}`, 'rule');
+      }
+      return value;
+    };
+
+    switch (type) {
+      case 'forwardYield': {
+        const direction = rule.direction ?? 'above';
+        if (direction !== 'above' && direction !== 'below') {
+          throw new ValidationError('forwardYield direction must be "above" or "below"', 'rule');
+        }
+        return { type, target: number('target'), direction };
+      }
+      case 'scoreFloor':
+        return { type, min: number('min') };
+      case 'ddmUpside':
+        return { type, min: number('min') };
+      default:
+        return { type: type as 'ema200Cross' | 'dividendCut' };
+    }
+  }
+
+  /**
+   * Parses the command-line rule syntax, e.g. `yield>=0.035` or `ema200`
+   */
+  static parseRule(spec: string): AlertRule {
+    const text = spec.trim().toLowerCase();
+
+    if (text === 'ema200') return { type: 'ema200Cross' };
+    if (text === 'cut') return { type: 'dividendCut' };
+
+    const match = RULE_SPEC.exec(text);
+    if (match) {
+      const [, field, operator, rawValue] = match;
+      const value = Number(rawValue);
+
+      if (field === 'yield' && operator !== '<') {
+        return { type: 'forwardYield', target: value, direction: operator === '>=' ? 'above' : 'below' };
+      }
+      if (field === 'score' && operator === '<') {
+        return { type: 'scoreFloor', min: value };
+      }
+      if (field === 'upside' && operator === '>=') {
+        return { type: 'ddmUpside', min: value };
+      }
+    }
+
+    throw new ValidationError(`Invalid alert rule "${spec}" (examples: ${this.RULE_SYNTAX})`, 'rule');
+  }
+
+  /**
+   * The rule in command-line syntax; also its identity for de-duplication
+   */
+  static ruleKey(rule: AlertRule): string {
+    switch (rule.type) {
+      case 'forwardYield': return `yield${rule.direction === 'above' ? '>=' : '<='}${rule.target}`;
+      case 'scoreFloor': return `score<${rule.min}`;
+      case 'ema200Cross': return 'ema200';
+      case 'dividendCut': return 'cut';
+      case 'ddmUpside': return `upside>=${rule.min}`;
+    }
+  }
+
+  static uniqueRules(rules: AlertRule[]): AlertRule[] {
+    return [...new Map(rules.map(rule => [this.ruleKey(rule), rule])).values()];
+  }
+
+  static evaluate(rule: AlertRule, analysis: DividendAnalysis, asOf: Date): RuleEvaluation {
+    const { ticker, quote } = analysis;
+    const pct = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+    switch (rule.type) {
+      case 'forwardYield': {
+        const value = analysis.forwardYield;
+        if (value === null || !isFinite(value)) return { condition: undefined, value: null, message: '' };
+        const tripped = rule.direction === 'above' ? value >= rule.target : value <= rule.target;
+        return {
+          condition: tripped ? rule.direction : null,
+          value,
+          message: `${ticker} forward yield ${pct(value)} is ${rule.direction} the ${pct(rule.target)} target`
+        };
+      }
+
+      case 'scoreFloor': {
+        const value = analysis.totalScore;
+        return {
+          condition: value < rule.min ? 'below' : null,
+          value,
+          message: `${ticker} score ${value} fell below the floor of ${rule.min}`
+        };
+      }
+
+      case 'ema200Cross': {
+        const ema200 = analysis.ema.ema200;
+        if (ema200 === null || !(quote.price > 0)) return { condition: undefined, value: null, message: '' };
+        const side = quote.price >= ema200 ? 'above' : 'below';
+        return {
+          condition: side,
+          value: quote.price,
+          message: `${ticker} crossed ${side} its 200-day EMA: price ${quote.price.toFixed(2)}, EMA200 ${ema200.toFixed(2)}`
+        };
+      }
+
+      case 'dividendCut': {
+        // The current year is still being paid
+        const complete = analysis.annualDividends.filter(([year]) => year < asOf.getUTCFullYear());
+        if (complete.length < 2) return { condition: undefined, value: null, message: '' };
+        const [[previousYear, previous], [year, latest]] = complete.slice(-2);
+        const change = previous > 0 ? (latest - previous) / previous : 0;
+        return {
+          condition: change < -this.CUT_TOLERANCE ? `cut:${year}` : null,
+          value: change,
+          message: `${ticker} paid ${latest.toFixed(4)} in ${year}, ${pct(-change)} less than ${previous.toFixed(4)} in ${previousYear}`
+        };
+      }
+
+      case 'ddmUpside': {
+        const value = analysis.valuation.upside;
+        if (value === null || !isFinite(value)) return { condition: undefined, value: null, message: '' };
+        return {
+          condition: value >= rule.min ? 'above' : null,
+          value,
+          message: `${ticker} DDM upside ${pct(value)} meets the ${pct(rule.min)} margin of safety`
+        };
+      }
+    }
+  }
+
+  /**
+   * Evaluates every rule for every analysis. An alert fires when a rule's
+   * condition changes to a tripped value; crossing rules need a previous
+   * observation, so their first run only records a baseline. States of
+   * tickers that weren't analyzed are carried over unchanged; states of
+   * tickers and rules no longer on the watchlist are dropped.
+   */
+  static check(watchlist: Watchlist, analyses: DividendAnalysis[], previous: AlertState[], asOf: Date, now: Date = new Date()): WatchResult {
+    const ruleKeys = new Set(watchlist.rules.map(rule => this.ruleKey(rule)));
+    const states = new Map(previous
+      .filter(state => watchlist.tickers.includes(state.ticker) && ruleKeys.has(state.ruleKey))
+      .map(state => [`${state.ticker}|${state.ruleKey}`, state]));
+    const alerts: Alert[] = [];
+
+    for (const analysis of analyses) {
+      for (const rule of watchlist.rules) {
+        const ruleKey = this.ruleKey(rule);
+        const key = `${analysis.ticker}|${ruleKey}`;
+        const before = states.get(key);
+        const { condition, value, message } = this.evaluate(rule, analysis, asOf);
+
+        if (condition === undefined) continue;
+
+        const isBaseline = rule.type === 'ema200Cross' && before === undefined;
+        if (condition !== null && condition !== before?.condition && !isBaseline) {
+          alerts.push({ watchlist: watchlist.name, ticker: analysis.ticker, rule, ruleKey, condition, value, message, triggeredAt: now });
+        }
+
+        if (before?.condition !== condition) {
+          states.set(key, { ticker: analysis.ticker, ruleKey, condition, updatedAt: now });
+        }
+      }
+    }
+
+    return { alerts, states: [...states.values()] };
+  }
+}
@@ -0,0 +1,243 @@
+import { readFile, writeFile } from "fs/promises";
+import { resolve as resolvePath } from "path";
+import { DatabaseService } from "./DatabaseService";
+import { WatchlistService } from "./WatchlistService";
+import { ConfigurationError, ValidationError } from "../errors/DivvyErrors";
+import type { Alert, AlertState, PendingAlerts, Watchlist } from "../models/Watchlist";
+
+export const WATCHLIST_STORES = ['file', 'db'] as const;
+
+export type WatchlistStoreKind = typeof WATCHLIST_STORES[number];
+
+export const DEFAULT_WATCHLIST_FILE = 'divvy-watchlists.json';
+
+/**
+ * Persists watchlists, the alert state `divvy watch` uses to report each
+ * condition once, and the alerts still owed to channels whose delivery
+ * failed. Deleting a watchlist drops both.
+ */
+export interface WatchlistStore {
+  readonly description: string;
+  list(): Promise<Watchlist[]>;
+  get(name: string): Promise<Watchlist | null>;
+  save(watchlist: Watchlist): Promise<void>;
+  remove(name: string): Promise<boolean>;
+  loadAlertStates(watchlist: string): Promise<AlertState[]>;
+  saveAlertStates(watchlist: string, states: AlertState[]): Promise<void>;
+  loadPendingAlerts(watchlist: string): Promise<PendingAlerts[]>;
+  savePendingAlerts(watchlist: string, pending: PendingAlerts[]): Promise<void>;
+}
+
+type StoredAlert = Omit<Alert, 'triggeredAt'> & { triggeredAt: string };
+
+function toStoredAlerts(alerts: Alert[]): StoredAlert[] {
+  return alerts.map(alert => ({ ...alert, triggeredAt: alert.triggeredAt.toISOString() }));
+}
+
+function fromStoredAlerts(alerts: StoredAlert[]): Alert[] {
+  return alerts.map(alert => ({ ...alert, triggeredAt: new Date(alert.triggeredAt) }));
+}
+
+/**
+ * On-disk shape of the watchlist file. Alert state is keyed by
+ * `TICKER|ruleKey` and pending alerts by channel under each watchlist name.
+ */
+export interface WatchlistFile {
+  version: number;
+  watchlists: Record<string, Omit<Watchlist, 'name'>>;
+  alertState: Record<string, Record<string, { condition: string | null; updatedAt: string }>>;
+  pendingAlerts: Record<string, Record<string, StoredAlert[]>>;
+}
+
+export class FileWatchlistStore implements WatchlistStore {
+  static readonly VERSION = 1;
+
+  readonly path: string;
+
+  constructor(path: string = DEFAULT_WATCHLIST_FILE) {
+    this.path = resolvePath(path);
+  }
+
+  get description(): string {
+    return this.path;
+  }
+
+  async list(): Promise<Watchlist[]> {
+    const file = await this.read();
+    return Object.keys(file.watchlists).sort().map(name => this.watchlist(file, name));
+  }
+
+  async get(name: string): Promise<Watchlist | null> {
+    const file = await this.read();
+    return file.watchlists[name] ? this.watchlist(file, name) : null;
+  }
+
+  async save(watchlist: Watchlist): Promise<void> {
+    const file = await this.read();
+    file.watchlists[watchlist.name] = { tickers: watchlist.tickers, rules: watchlist.rules, channels: watchlist.channels };
+    await this.write(file);
+  }
+
+  async remove(name: string): Promise<boolean> {
+    const file = await this.read();
+    if (!file.watchlists[name]) {
+      return false;
+    }
+
+    delete file.watchlists[name];
+    delete file.alertState[name];
+    delete file.pendingAlerts[name];
+    await this.write(file);
+    return true;
+  }
+
+  async loadAlertStates(watchlist: string): Promise<AlertState[]> {
+    const file = await this.read();
+
+    return Object.entries(file.alertState[watchlist] ?? {}).map(([key, state]) => {
+      const [ticker, ruleKey] = key.split('|');
+      return { ticker, ruleKey, condition: state.condition, updatedAt: new Date(state.updatedAt) };
+    });
+  }
+
+  async saveAlertStates(watchlist: string, states: AlertState[]): Promise<void> {
+    const file = await this.read();
+
+    file.alertState[watchlist] = Object.fromEntries(states.map(state => [
+      `${state.ticker}|${state.ruleKey}`,
+      { condition: state.condition, updatedAt: state.updatedAt.toISOString() }
+    ]));
+    await this.write(file);
+  }
+
+  async loadPendingAlerts(watchlist: string): Promise<PendingAlerts[]> {
+    const file = await this.read();
+
+    return Object.entries(file.pendingAlerts[watchlist] ?? {}).map(([channel, alerts]) => ({
+      channel,
+      alerts: fromStoredAlerts(alerts)
+    }));
+  }
+
+  async savePendingAlerts(watchlist: string, pending: PendingAlerts[]): Promise<void> {
+    const file = await this.read();
+
+    if (pending.length === 0) {
+      delete file.pendingAlerts[watchlist];
+    } else {
+      file.pendingAlerts[watchlist] = Object.fromEntries(pending.map(entry => [entry.channel, toStoredAlerts(entry.alerts)]));
+    }
+    await this.write(file);
+  }
+
+  private watchlist(file: WatchlistFile, name: string): Watchlist {
+    try {
+      return WatchlistService.validateWatchlist({ name, ...file.watchlists[name] });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new ConfigurationError(`Watchlist file ${this.path}: ${name}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private async read(): Promise<WatchlistFile> {
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: FileWatchlistStore.VERSION, watchlists: {}, alertState: {}, pendingAlerts: {} };
+      }
+      throw new ConfigurationError(`Unable to read watchlist file ${this.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    let file: WatchlistFile;
+    try {
+      file = JSON.parse(text);
+    } catch (error) {
+      throw new ConfigurationError(`Invalid watchlist file ${this.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (file?.version !== FileWatchlistStore.VERSION || !file.watchlists || typeof file.watchlists !== 'object') {
+      throw new ConfigurationError(`Unsupported watchlist file format in ${this.path} (expected version ${FileWatchlistStore.VERSION})`);
+    }
+
+    return { version: file.version, watchlists: file.watchlists, alertState: file.alertState ?? {}, pendingAlerts: file.pendingAlerts ?? {} };
+  }
+
+  private async write(file: WatchlistFile): Promise<void> {
+    await writeFile(this.path, JSON.stringify(file, null, 2) + '\n', 'utf8');
+  }
+}
+
+/**
+ * Stores watchlists in the `watchlists`, `watchlist_alert_state` and
+ * `watchlist_pending_alerts` tables
+ */
+export class DatabaseWatchlistStore implements WatchlistStore {
+  readonly description = 'database';
+
+  async list(): Promise<Watchlist[]> {
+    const records = await DatabaseService.getWatchlists();
+    return records.map(record => WatchlistService.validateWatchlist(record));
+  }
+
+  async get(name: string): Promise<Watchlist | null> {
+    return (await this.list()).find(watchlist => watchlist.name === name) ?? null;
+  }
+
+  async save(watchlist: Watchlist): Promise<void> {
+    await DatabaseService.saveWatchlist({
+      name: watchlist.name,
+      tickers: watchlist.tickers,
+      rules: watchlist.rules,
+      channels: watchlist.channels
+    });
+  }
+
+  remove(name: string): Promise<boolean> {
+    return DatabaseService.deleteWatchlist(name);
+  }
+
+  async loadAlertStates(watchlist: string): Promise<AlertState[]> {
+    const records = await DatabaseService.getWatchlistAlertStates(watchlist);
+
+    return records.map(record => ({
+      ticker: record.ticker,
+      ruleKey: record.rule_key,
+      condition: record.condition,
+      updatedAt: new Date(record.updated_at)
+    }));
+  }
+
+  async saveAlertStates(watchlist: string, states: AlertState[]): Promise<void> {
+    await DatabaseService.saveWatchlistAlertStates(states.map(state => ({
+      watchlist,
+      ticker: state.ticker,
+      rule_key: state.ruleKey,
+      condition: state.condition,
+      updated_at: state.updatedAt.toISOString()
+    })));
+  }
+
+  async loadPendingAlerts(watchlist: string): Promise<PendingAlerts[]> {
+    const records = await DatabaseService.getWatchlistPendingAlerts(watchlist);
+    return records.map(record => ({ channel: record.channel, alerts: fromStoredAlerts(record.alerts) }));
+  }
+
+  async savePendingAlerts(watchlist: string, pending: PendingAlerts[]): Promise<void> {
+    const updatedAt = new Date().toISOString();
+
+    await DatabaseService.saveWatchlistPendingAlerts(watchlist, pending.map(entry => ({
+      watchlist,
+      channel: entry.channel,
+      alerts: toStoredAlerts(entry.alerts),
+      updated_at: updatedAt
+    })));
+  }
+}
+
+export function openWatchlistStore(kind: WatchlistStoreKind, path?: string): WatchlistStore {
+  return kind === 'db' ? new DatabaseWatchlistStore() : new FileWatchlistStore(path);
+}
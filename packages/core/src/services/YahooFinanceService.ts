@@ -1,7 +1,9 @@
 import yahooFinance from "yahoo-finance2";
 import { Quote, DividendEvent, Fundamentals } from "../models/StockData";
-import { RetryHandler } from "../utils/RetryHandler";
+import { RetryHandler, type RetryConfig } from "../utils/RetryHandler";
+import type { Cassette } from "../utils/Cassette";
 import { DataQualityChecker } from "../validation/DataQualityChecker";
+import type { MarketDataProvider, HistoricalPrice, CompanyProfile, ProviderHealth } from "./MarketDataProvider";
 import { 
   NetworkError, 
   DataSourceError, 
@@ -9,12 +11,22 @@ import {
   RateLimitError 
 } from "../errors/DivvyErrors";
 
-export class YahooFinanceService {
+export class YahooFinanceService implements MarketDataProvider {
+  readonly name = 'yahoo';
+  readonly asOf: Date | undefined;
+  private readonly cassette: Cassette | undefined;
+
+  constructor(cassette?: Cassette) {
+    this.cassette = cassette;
+    // Replays run against the clock the responses were recorded with
+    this.asOf = cassette?.isReplaying ? cassette.recordedAt : undefined;
+  }
   
   async getQuote(ticker: string): Promise<Quote> {
     try {
       const [quote, companyInfo] = await Promise.all([
-        RetryHandler.withRetry(
+        this.request(
+          `quote:${ticker}`,
           async () => {
             const result = await yahooFinance.quote(ticker);
             if (!result) {
@@ -44,7 +56,8 @@ export class YahooFinanceService {
 
   async getCompanyInfo(ticker: string): Promise<{sector: string | null, industry: string | null}> {
     try {
-      const quoteSummary = await RetryHandler.withRetry(
+      const quoteSummary = await this.request(
+        `quoteSummary:assetProfile:${ticker}`,
         async () => {
           return await yahooFinance.quoteSummary(ticker, {
             modules: ["assetProfile"] as const
@@ -64,13 +77,44 @@ export class YahooFinanceService {
     }
   }
 
+  async getCompanyProfile(ticker: string): Promise<CompanyProfile> {
+    try {
+      const quoteSummary = await this.request(
+        `quoteSummary:profile:${ticker}`,
+        async () => {
+          return await yahooFinance.quoteSummary(ticker, {
+            modules: ["assetProfile", "price", "calendarEvents"] as const
+          });
+        },
+        RetryHandler.getDataSourceRetryConfig()
+      );
+
+      const summary = quoteSummary as any;
+      const toIsoDate = (value: unknown): string | null =>
+        value instanceof Date && !isNaN(value.getTime()) ? value.toISOString().split('T')[0] : null;
+
+      return {
+        symbol: ticker.toUpperCase(),
+        name: summary?.price?.shortName || summary?.price?.longName || null,
+        sector: summary?.assetProfile?.sector || null,
+        industry: summary?.assetProfile?.industry || null,
+        currency: summary?.price?.currency || null,
+        exDividendDate: toIsoDate(summary?.calendarEvents?.exDividendDate),
+        dividendDate: toIsoDate(summary?.calendarEvents?.dividendDate)
+      };
+    } catch (error) {
+      throw this.handleYahooError(error, 'company profile', ticker);
+    }
+  }
+
   async getDividendEvents(ticker: string, years: number = 15): Promise<DividendEvent[]> {
     try {
       const endDate = new Date();
       const startDate = new Date();
       startDate.setFullYear(endDate.getFullYear() - years);
       
-      const chart = await RetryHandler.withRetry(
+      const chart = await this.request(
+        `chart:dividends:${ticker}:${years}`,
         async () => {
           return await yahooFinance.chart(ticker, {
             period1: startDate,
@@ -113,7 +157,8 @@ export class YahooFinanceService {
     
     // Try fundamentals API first
     try {
-      const fundamentalsData = await RetryHandler.withRetry(
+      const fundamentalsData = await this.request(
+        `fundamentals:${ticker}:${years}`,
         async () => {
           return await yahooFinance.fundamentalsTimeSeries(ticker, {
             period1: startDate,
@@ -130,13 +175,15 @@ export class YahooFinanceService {
         hasData = true;
       }
     } catch (error) {
+      this.rethrowRateLimit(error, ticker);
       console.warn("Fundamentals API failed, trying quoteSummary fallback...");
     }
     
     // Try quoteSummary as fallback
     if (!hasData) {
       try {
-        const quoteSummary = await RetryHandler.withRetry(
+        const quoteSummary = await this.request(
+          `quoteSummary:payout:${ticker}`,
           async () => {
             return await yahooFinance.quoteSummary(ticker, {
               modules: ["summaryDetail", "defaultKeyStatistics", "financialData"] as const
@@ -160,6 +207,7 @@ export class YahooFinanceService {
         }
         
       } catch (error) {
+        this.rethrowRateLimit(error, ticker);
         console.warn("QuoteSummary also failed, using fallback data");
       }
     }
@@ -175,13 +223,14 @@ export class YahooFinanceService {
     return fundamentals;
   }
 
-  async getHistoricalPrices(ticker: string, years: number = 1): Promise<{date: Date, close: number}[]> {
+  async getHistoricalPrices(ticker: string, years: number = 1): Promise<HistoricalPrice[]> {
     try {
       const endDate = new Date();
       const startDate = new Date();
       startDate.setFullYear(endDate.getFullYear() - years);
 
-      const chart = await RetryHandler.withRetry(
+      const chart = await this.request(
+        `chart:daily:${ticker}:${years}`,
         async () => {
           return await yahooFinance.chart(ticker, {
             period1: startDate,
@@ -205,6 +254,19 @@ export class YahooFinanceService {
     }
   }
   
+  private request<T>(key: string, operation: () => Promise<T>, config: Partial<RetryConfig>): Promise<T> {
+    const fetcher = () => RetryHandler.withRetry(operation, config);
+    return this.cassette ? this.cassette.capture(`yahoo:${key}`, fetcher) : fetcher();
+  }
+  
+  // A rate limit must reach the caller so quota-aware runs stop instead of scoring fallback data
+  private rethrowRateLimit(error: unknown, ticker: string): void {
+    const failure = this.handleYahooError(error, 'fundamentals', ticker);
+    if (failure instanceof RateLimitError) {
+      throw failure;
+    }
+  }
+  
   private handleYahooError(error: any, operation: string, ticker: string): Error {
     // Handle specific Yahoo Finance errors
     if (error?.message?.includes('404') || error?.message?.includes('not found')) {
@@ -246,7 +308,11 @@ export class YahooFinanceService {
   }
   
   // Health check method to test if Yahoo Finance is accessible
-  async healthCheck(): Promise<{ available: boolean; latency: number; error?: string }> {
+  async healthCheck(): Promise<ProviderHealth> {
+    if (this.cassette?.isReplaying) {
+      return { available: true, latency: 0 };
+    }
+    
     const start = Date.now();
     
     try {
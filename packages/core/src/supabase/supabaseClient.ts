@@ -1,15 +1,23 @@
-
-import { createClient } from '@supabase/supabase-js'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
 import { config } from 'dotenv'
 
 // Load environment variables
-config()
+config({ quiet: true })
 
-const supabaseUrl = process.env.SUPABASE_URL
-const supabaseAnonKey = process.env.SUPABASE_ANON_KEY
+let client: SupabaseClient | null = null
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables. Check your .env file contains SUPABASE_URL and SUPABASE_ANON_KEY')
-}
+// Created on first use so analyses that never touch the database (offline
+// fixtures, --no-save) don't require Supabase credentials
+export function getSupabase(): SupabaseClient {
+  if (client) return client
+
+  const supabaseUrl = process.env.SUPABASE_URL
+  const supabaseAnonKey = process.env.SUPABASE_ANON_KEY
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Missing Supabase environment variables. Check your .env file contains SUPABASE_URL and SUPABASE_ANON_KEY')
+  }
+
+  client = createClient(supabaseUrl, supabaseAnonKey)
+  return client
+}
@@ -30,6 +30,8 @@ export interface YahooFundamentalsData {
   CashDividendsPaid?: YahooFieldValue;
   NetIncome?: YahooFieldValue;
   payoutRatio?: YahooFieldValue;
+  DepreciationAndAmortization?: YahooFieldValue;
+  Tier1CapitalRatio?: YahooFieldValue;
 }
 
 export interface YahooFieldValue {
@@ -0,0 +1,119 @@
+import { readFile, writeFile } from 'fs/promises';
+import { ConfigurationError, DataSourceError } from '../errors/DivvyErrors.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+interface RecordedError {
+  name: string;
+  message: string;
+  code?: string;
+}
+
+interface CassetteEntry {
+  response?: unknown;
+  error?: RecordedError;
+}
+
+export interface CassetteFile {
+  version: number;
+  recordedAt: string;
+  entries: Record<string, CassetteEntry>;
+}
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Captures raw data source responses (and failures) keyed by request so an
+ * analysis can be replayed later without network access. Providers wrap each
+ * outbound call with `capture`; in record mode the call goes through and is
+ * stored, in replay mode the stored result is returned instead.
+ */
+export class Cassette {
+  static readonly VERSION = 1;
+
+  readonly path: string;
+  readonly mode: CassetteMode;
+  readonly recordedAt: Date;
+  private readonly entries: Map<string, CassetteEntry>;
+
+  private constructor(path: string, mode: CassetteMode, recordedAt: Date, entries: Map<string, CassetteEntry>) {
+    this.path = path;
+    this.mode = mode;
+    this.recordedAt = recordedAt;
+    this.entries = entries;
+  }
+
+  static forRecording(path: string): Cassette {
+    return new Cassette(path, 'record', new Date(), new Map());
+  }
+
+  static async load(path: string): Promise<Cassette> {
+    let file: CassetteFile;
+    try {
+      // Revive timestamps so replayed Yahoo responses carry Date objects like live ones
+      file = JSON.parse(await readFile(path, 'utf8'), (_key, value) =>
+        typeof value === 'string' && ISO_TIMESTAMP.test(value) ? new Date(value) : value
+      );
+    } catch (error) {
+      throw new ConfigurationError(`Unable to read cassette ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (file?.version !== this.VERSION || !file.entries) {
+      throw new ConfigurationError(`Unsupported cassette format in ${path} (expected version ${this.VERSION})`);
+    }
+
+    return new Cassette(path, 'replay', new Date(file.recordedAt), new Map(Object.entries(file.entries)));
+  }
+
+  get isReplaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  async capture<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+    if (this.isReplaying) {
+      return this.replay<T>(key);
+    }
+
+    try {
+      const response = await fetcher();
+      this.entries.set(key, { response });
+      return response;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const code = (err as { code?: unknown }).code;
+      this.entries.set(key, {
+        error: { name: err.name, message: err.message, ...(typeof code === 'string' ? { code } : {}) }
+      });
+      throw error;
+    }
+  }
+
+  async save(): Promise<void> {
+    if (this.isReplaying) {
+      return;
+    }
+
+    const file: CassetteFile = {
+      version: Cassette.VERSION,
+      recordedAt: this.recordedAt.toISOString(),
+      entries: Object.fromEntries([...this.entries.entries()].sort(([a], [b]) => a.localeCompare(b)))
+    };
+
+    await writeFile(this.path, JSON.stringify(file, null, 2) + '\n', 'utf8');
+  }
+
+  private replay<T>(key: string): T {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      throw new DataSourceError(`No recorded response for ${key} in cassette ${this.path}`, 'cassette', false);
+    }
+
+    if (entry.error) {
+      const { name, message, code } = entry.error;
+      throw Object.assign(new Error(message), { name, ...(code ? { code } : {}) });
+    }
+
+    return entry.response as T;
+  }
+}
@@ -0,0 +1,64 @@
+export interface CsvRecord {
+  /** 1-based line the record starts on */
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Parses RFC 4180 style CSV: quoted fields may contain commas, doubled
+ * quotes and line breaks. Blank lines are skipped. An unterminated quote
+ * runs to the end of the input.
+ */
+export function parseCsv(text: string, delimiter: string = ','): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      records.push({ line: start, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      cell = '';
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || cells.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
@@ -0,0 +1,30 @@
+/**
+ * Spaces calls evenly at no more than `requestsPerSecond`, across every
+ * caller sharing the instance. Waiters are served in arrival order.
+ */
+export class RateLimiter {
+  private readonly intervalMs: number;
+  private nextSlot = 0;
+
+  constructor(requestsPerSecond: number) {
+    if (!(requestsPerSecond > 0) || !isFinite(requestsPerSecond)) {
+      throw new RangeError('requestsPerSecond must be a positive number');
+    }
+    this.intervalMs = 1000 / requestsPerSecond;
+  }
+
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMs;
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+
+  async schedule<T>(operation: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    return operation();
+  }
+}
@@ -169,6 +169,15 @@ export class RetryHandler {
     };
   }
   
+  static getNotificationRetryConfig(): Partial<RetryConfig> {
+    return {
+      maxAttempts: 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 10000,
+      retryableErrors: ['NETWORK_ERROR']
+    };
+  }
+  
   // Circuit breaker pattern for failing services
   static createCircuitBreaker<T>(
     operation: () => Promise<T>,
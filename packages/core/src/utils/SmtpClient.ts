@@ -0,0 +1,192 @@
+import { connect as connectTcp, type Socket } from 'net';
+import { connect as connectTls } from 'tls';
+import { hostname } from 'os';
+import { NotificationError } from '../errors/DivvyErrors.js';
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  // Send credentials without TLS; only for trusted local relays
+  allowPlaintextAuth: boolean;
+  user: string | null;
+  pass: string | null;
+  from: string;
+  timeoutMs: number;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const REPLY_END = /^\d{3}(?: |$)/;
+
+/**
+ * Minimal SMTP submission client: EHLO, optional STARTTLS and AUTH PLAIN,
+ * one plain-text message. Credentials are only sent over TLS unless
+ * plaintext auth is explicitly allowed. Transient (4xx) replies and
+ * connection failures are retryable; permanent (5xx) replies are not.
+ */
+export class SmtpClient {
+  private socket: Socket;
+  private readonly settings: SmtpSettings;
+  private buffer = '';
+  private failure: Error | null = null;
+  private pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+
+  private constructor(socket: Socket, settings: SmtpSettings) {
+    this.socket = socket;
+    this.settings = settings;
+    this.attach(socket);
+  }
+
+  static async send(settings: SmtpSettings, message: MailMessage): Promise<void> {
+    const socket = settings.secure
+      ? connectTls({ host: settings.host, port: settings.port, servername: settings.host })
+      : connectTcp({ host: settings.host, port: settings.port });
+    const client = new SmtpClient(socket, settings);
+
+    try {
+      await client.deliver(message);
+    } finally {
+      client.socket.destroy();
+    }
+  }
+
+  /**
+   * Renders headers and body with CRLF line endings and dot-stuffing
+   */
+  static format(from: string, message: MailMessage, date: Date = new Date()): string {
+    const headers = [
+      `From: ${from}`,
+      `To: ${message.to.join(', ')}`,
+      `Subject: ${message.subject}`,
+      `Date: ${date.toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit'
+    ];
+    const body = message.text.split(/\r?\n/).map(line => line.startsWith('.') ? `.${line}` : line);
+
+    return [...headers, '', ...body].join('\r\n');
+  }
+
+  private async deliver(message: MailMessage): Promise<void> {
+    await this.expect(await this.read(), [220], 'greeting');
+    let extensions = await this.hello();
+    let encrypted = this.settings.secure;
+
+    if (!encrypted && extensions.includes('STARTTLS')) {
+      await this.command('STARTTLS', [220]);
+      const plain = this.socket;
+      // The TLS socket reports errors, close and timeouts from here on
+      plain.removeAllListeners('data');
+      plain.removeAllListeners('error');
+      plain.removeAllListeners('close');
+      plain.removeAllListeners('timeout');
+      plain.setTimeout(0);
+      this.socket = connectTls({ socket: plain, servername: this.settings.host });
+      this.attach(this.socket);
+      extensions = await this.hello();
+      encrypted = true;
+    }
+
+    if (this.settings.user) {
+      // A server without STARTTLS (or a MITM stripping it) must not see the password
+      if (!encrypted && !this.settings.allowPlaintextAuth) {
+        throw new NotificationError(
+          `SMTP server ${this.settings.host} does not offer STARTTLS; refusing to send credentials unencrypted (set DIVVY_SMTP_SECURE=true or DIVVY_SMTP_ALLOW_PLAINTEXT_AUTH=true)`,
+          'email',
+          false
+        );
+      }
+      if (!extensions.some(extension => extension.startsWith('AUTH'))) {
+        throw new NotificationError(`SMTP server ${this.settings.host} does not offer AUTH`, 'email', false);
+      }
+      const token = Buffer.from(`\0${this.settings.user}\0${this.settings.pass ?? ''}`).toString('base64');
+      await this.command(`AUTH PLAIN ${token}`, [235]);
+    }
+
+    await this.command(`MAIL FROM:<${this.settings.from}>`, [250]);
+    for (const recipient of message.to) {
+      await this.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await this.command('DATA', [354]);
+    await this.command(`${SmtpClient.format(this.settings.from, message)}\r\n.`, [250]);
+    await this.command('QUIT', [221]).catch(() => undefined);
+  }
+
+  private async hello(): Promise<string[]> {
+    const reply = await this.command(`EHLO ${hostname() || 'localhost'}`, [250]);
+    return reply.lines.slice(1).map(line => line.toUpperCase());
+  }
+
+  private async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    // Keep credentials out of error messages
+    const verb = line.startsWith('AUTH') ? 'AUTH' : line.split(/[\s:]/)[0];
+    return this.expect(await this.read(), expected, verb);
+  }
+
+  private expect(reply: SmtpReply, expected: number[], step: string): SmtpReply {
+    if (!expected.includes(reply.code)) {
+      throw new NotificationError(
+        `SMTP ${step} rejected by ${this.settings.host}: ${reply.code} ${reply.lines.join(' ')}`,
+        'email',
+        reply.code < 500
+      );
+    }
+    return reply;
+  }
+
+  private read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  private attach(socket: Socket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.settings.timeoutMs, () => socket.destroy(new Error(`SMTP timeout after ${this.settings.timeoutMs}ms`)));
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.flush();
+    });
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= new NotificationError(`SMTP ${this.settings.host}:${this.settings.port}: ${error.message}`, 'email', true);
+    this.flush();
+  }
+
+  private flush(): void {
+    if (!this.pending) {
+      return;
+    }
+
+    const lines = this.buffer.split('\r\n');
+    const end = lines.slice(0, -1).findIndex(line => REPLY_END.test(line));
+
+    if (end >= 0) {
+      const { resolve } = this.pending;
+      this.pending = null;
+      this.buffer = lines.slice(end + 1).join('\r\n');
+      resolve({ code: Number(lines[end].slice(0, 3)), lines: lines.slice(0, end + 1).map(line => line.slice(4)) });
+    } else if (this.failure) {
+      const { reject } = this.pending;
+      this.pending = null;
+      reject(this.failure);
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { deflateRawSync } from 'zlib';
+
+interface ZipEntry {
+  name: Buffer;
+  data: Buffer;
+  compressed: Buffer;
+  crc: number;
+  offset: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Minimal deflate-only ZIP archive writer - enough for OOXML containers.
+ * Entries are stamped 1980-01-01 so identical input gives identical bytes.
+ */
+export class ZipWriter {
+  private static readonly DOS_DATE = (0 << 9) | (1 << 5) | 1;  // 1980-01-01
+  private static readonly DEFLATE = 8;
+  private static readonly VERSION = 20;
+  private static readonly UTF8_FLAG = 0x0800;
+
+  private readonly entries: ZipEntry[] = [];
+  private offset = 0;
+
+  addFile(name: string, content: string | Buffer): this {
+    const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+    const entry: ZipEntry = {
+      name: Buffer.from(name, 'utf8'),
+      data,
+      compressed: deflateRawSync(data),
+      crc: crc32(data),
+      offset: this.offset
+    };
+
+    this.entries.push(entry);
+    this.offset += 30 + entry.name.length + entry.compressed.length;
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    const parts: Buffer[] = [];
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(30);
+      header.writeUInt32LE(0x04034b50, 0);
+      header.writeUInt16LE(ZipWriter.VERSION, 4);
+      header.writeUInt16LE(ZipWriter.UTF8_FLAG, 6);
+      header.writeUInt16LE(ZipWriter.DEFLATE, 8);
+      header.writeUInt16LE(0, 10);
+      header.writeUInt16LE(ZipWriter.DOS_DATE, 12);
+      header.writeUInt32LE(entry.crc, 14);
+      header.writeUInt32LE(entry.compressed.length, 18);
+      header.writeUInt32LE(entry.data.length, 22);
+      header.writeUInt16LE(entry.name.length, 26);
+      header.writeUInt16LE(0, 28);
+      parts.push(header, entry.name, entry.compressed);
+    }
+
+    let directorySize = 0;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(ZipWriter.VERSION, 4);
+      header.writeUInt16LE(ZipWriter.VERSION, 6);
+      header.writeUInt16LE(ZipWriter.UTF8_FLAG, 8);
+      header.writeUInt16LE(ZipWriter.DEFLATE, 10);
+      header.writeUInt16LE(0, 12);
+      header.writeUInt16LE(ZipWriter.DOS_DATE, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressed.length, 20);
+      header.writeUInt32LE(entry.data.length, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      parts.push(header, entry.name);
+      directorySize += header.length + entry.name.length;
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directorySize, 12);
+    end.writeUInt32LE(this.offset, 16);
+    parts.push(end);
+
+    return Buffer.concat(parts);
+  }
+}
@@ -1,4 +1,6 @@
 import { ValidationError, ConfigurationError } from '../errors/DivvyErrors.js';
+import type { RequiredReturnDistribution } from '../models/DividendAnalysis.js';
+import { MarketDataProviderRegistry } from '../services/MarketDataProviderRegistry.js';
 
 export class InputValidator {
   private static readonly TICKER_PATTERN = /^[A-Z0-9.-]{1,10}$/;
@@ -6,7 +8,8 @@ export class InputValidator {
   private static readonly MAX_YEARS = 50;
   private static readonly MIN_REQUIRED_RETURN = 0.001; // 0.1%
   private static readonly MAX_REQUIRED_RETURN = 1.0;   // 100%
-  private static readonly VALID_PROVIDERS = ['yahoo', 'av', 'auto'];
+  private static readonly MAX_RATE_LIST_LENGTH = 12;
+  private static readonly MAX_SIMULATION_ITERATIONS = 1_000_000;
   
   static validateTicker(ticker: string): string {
     if (!ticker) {
@@ -46,6 +49,56 @@ export class InputValidator {
     return cleanTicker;
   }
   
+  /**
+   * Splits a ticker list (command line, file or stdin) on whitespace and
+   * commas, dropping `#` comments and duplicates. Tickers are upper-cased
+   * but not validated, so one bad symbol can be reported without failing the rest.
+   */
+  static parseTickerList(text: string): string[] {
+    const tickers = text
+      .split(/\r?\n/)
+      .map(line => line.replace(/#.*$/, ''))
+      .flatMap(line => line.split(/[\s,]+/))
+      .map(token => token.trim().toUpperCase())
+      .filter(token => token.length > 0);
+    
+    return [...new Set(tickers)];
+  }
+  
+  static validatePositiveInteger(value: string | number, field: string, max: number = Number.MAX_SAFE_INTEGER): number {
+    const num = typeof value === 'string' ? Number(value) : value;
+    
+    if (!Number.isInteger(num) || num < 1) {
+      throw new ValidationError(`${field} must be a positive whole number`, field);
+    }
+    
+    if (num > max) {
+      throw new ValidationError(`${field} too large (maximum ${max})`, field);
+    }
+    
+    return num;
+  }
+  
+  static validateNonNegativeNumber(value: string | number, field: string): number {
+    const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    
+    if (typeof num !== 'number' || !isFinite(num) || num < 0) {
+      throw new ValidationError(`${field} must be a non-negative number`, field);
+    }
+    
+    return num;
+  }
+  
+  static validatePositiveNumber(value: string | number, field: string): number {
+    const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    
+    if (typeof num !== 'number' || !isFinite(num) || num <= 0) {
+      throw new ValidationError(`${field} must be a positive number`, field);
+    }
+    
+    return num;
+  }
+  
   static validateYears(years: string | number): number {
     let numYears: number;
     
@@ -112,6 +165,121 @@ export class InputValidator {
     return numReturn;
   }
   
+  /**
+   * A single growth rate as a decimal between -1 and 1 (e.g. 0.05)
+   */
+  static validateRate(value: string | number, field: string): number {
+    const rate = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    
+    if (typeof rate !== 'number' || !isFinite(rate)) {
+      throw new ValidationError(`Invalid rate "${value}" (expected a decimal such as 0.05)`, field);
+    }
+    
+    if (rate <= -this.MAX_REQUIRED_RETURN || rate > this.MAX_REQUIRED_RETURN) {
+      throw new ValidationError(`Rate ${rate} out of range (expected between -1 and 1)`, field);
+    }
+    
+    return rate;
+  }
+  
+  /**
+   * Parses a comma-separated list of rates (e.g. "0.07,0.08,0.09") into a
+   * sorted, de-duplicated array
+   */
+  static validateRateList(list: string, field: string): number[] {
+    if (typeof list !== 'string' || list.trim().length === 0) {
+      throw new ValidationError('Rate list must be a comma-separated list of numbers', field);
+    }
+    
+    const rates = list.split(',').map(part => {
+      const rate = Number(part.trim());
+      if (part.trim() === '' || !isFinite(rate)) {
+        throw new ValidationError(`Invalid rate "${part.trim()}" (expected a decimal such as 0.08)`, field);
+      }
+      if (rate <= -this.MAX_REQUIRED_RETURN || rate > this.MAX_REQUIRED_RETURN) {
+        throw new ValidationError(`Rate ${rate} out of range (expected between -1 and 1)`, field);
+      }
+      return rate;
+    });
+    
+    const unique = [...new Set(rates)].sort((a, b) => a - b);
+    
+    if (unique.length > this.MAX_RATE_LIST_LENGTH) {
+      throw new ValidationError(`Too many rates (maximum ${this.MAX_RATE_LIST_LENGTH})`, field);
+    }
+    
+    return unique;
+  }
+  
+  static validateIterations(iterations: string | number): number {
+    const numIterations = typeof iterations === 'string' ? Number(iterations) : iterations;
+    
+    if (!Number.isInteger(numIterations) || numIterations < 1) {
+      throw new ValidationError('Iterations must be a positive whole number', 'iterations');
+    }
+    
+    if (numIterations > this.MAX_SIMULATION_ITERATIONS) {
+      throw new ValidationError(`Too many iterations (maximum ${this.MAX_SIMULATION_ITERATIONS})`, 'iterations');
+    }
+    
+    return numIterations;
+  }
+  
+  static validateSeed(seed: string | number): number {
+    const numSeed = typeof seed === 'string' ? Number(seed) : seed;
+    
+    if (!Number.isInteger(numSeed) || numSeed < 0 || numSeed > 0xffffffff) {
+      throw new ValidationError('Seed must be a whole number between 0 and 4294967295', 'seed');
+    }
+    
+    return numSeed;
+  }
+  
+  /**
+   * Parses "fixed:0.09", "normal:<mean>,<stdDev>" or "uniform:<min>,<max>"
+   */
+  static validateReturnDistribution(spec: string): RequiredReturnDistribution {
+    const match = typeof spec === 'string' ? spec.trim().toLowerCase().match(/^(fixed|normal|uniform):(.+)$/) : null;
+    
+    if (!match) {
+      throw new ValidationError(
+        'Distribution must look like fixed:0.09, normal:0.09,0.01 or uniform:0.07,0.11',
+        'requiredReturnDistribution'
+      );
+    }
+    
+    const [, type, rest] = match;
+    const params = rest.split(',').map(part => Number(part.trim()));
+    
+    if (params.some(value => !isFinite(value))) {
+      throw new ValidationError(`Invalid ${type} distribution parameters "${rest}"`, 'requiredReturnDistribution');
+    }
+    
+    if (type === 'fixed' && params.length === 1) {
+      return { type, value: this.validateRequiredReturn(params[0]) };
+    }
+    
+    if (type === 'normal' && params.length === 2) {
+      if (params[1] < 0) {
+        throw new ValidationError('Standard deviation cannot be negative', 'requiredReturnDistribution');
+      }
+      return { type, mean: this.validateRequiredReturn(params[0]), stdDev: params[1] };
+    }
+    
+    if (type === 'uniform' && params.length === 2) {
+      const [min, max] = params.map(value => this.validateRequiredReturn(value));
+      if (min > max) {
+        throw new ValidationError('Uniform distribution min must not exceed max', 'requiredReturnDistribution');
+      }
+      return { type, min, max };
+    }
+    
+    throw new ValidationError(
+      `Wrong number of parameters for ${type} distribution`,
+      'requiredReturnDistribution'
+    );
+  }
+  
   static validateProvider(provider: string): string {
     if (!provider) {
       throw new ValidationError('Provider is required', 'provider');
@@ -123,9 +291,9 @@ export class InputValidator {
     
     const cleanProvider = provider.trim().toLowerCase();
     
-    if (!this.VALID_PROVIDERS.includes(cleanProvider)) {
+    if (!MarketDataProviderRegistry.has(cleanProvider)) {
       throw new ValidationError(
-        `Invalid provider "${provider}". Valid providers: ${this.VALID_PROVIDERS.join(', ')}`, 
+        `Invalid provider "${provider}". Valid providers: ${MarketDataProviderRegistry.names().join(', ')}`, 
         'provider'
       );
     }
@@ -133,6 +301,17 @@ export class InputValidator {
     return cleanProvider;
   }
   
+  static validateOutputFormat<T extends string>(format: string, allowed: readonly T[]): T {
+    const cleanFormat = typeof format === 'string' ? format.trim().toLowerCase() : '';
+    const match = allowed.find(candidate => candidate === cleanFormat);
+    
+    if (!match) {
+      throw new ValidationError(`Invalid format "${format}". Valid formats: ${allowed.join(', ')}`, 'format');
+    }
+    
+    return match;
+  }
+  
   static validateCommanderOptions(options: any): void {
     if (!options || typeof options !== 'object') {
       throw new ConfigurationError('Invalid command options');
@@ -0,0 +1,35 @@
+-- Persist Gordon Growth valuation outputs so the leaderboard can rank by margin of safety
+
+ALTER TABLE analyses
+  ADD COLUMN ddm_upside NUMERIC(10,6),       -- (ddm_price - price) / price
+  ADD COLUMN required_return NUMERIC(8,6),   -- r used for ddm_price
+  ADD COLUMN ddm_growth NUMERIC(8,6);        -- clamped growth used for ddm_price
+
+CREATE INDEX idx_analyses_ddm_upside ON analyses (ddm_upside DESC) WHERE ddm_upside IS NOT NULL;
+
+-- Rebuild leaderboard with valuation columns
+DROP MATERIALIZED VIEW IF EXISTS leaderboard_daily;
+
+CREATE MATERIALIZED VIEW leaderboard_daily AS
+SELECT 
+  immutable_date_trunc(observed_at) as as_of_date,
+  ticker_id,
+  t.symbol,
+  t.name,
+  score_total as score,
+  forward_yield,
+  a.price,
+  ddm_price,
+  ddm_upside as margin_of_safety,
+  ROW_NUMBER() OVER (
+    PARTITION BY immutable_date_trunc(observed_at) 
+    ORDER BY score_total DESC, forward_yield DESC NULLS LAST
+  ) as rank
+FROM analyses a
+JOIN tickers t ON t.id = a.ticker_id
+WHERE score_total IS NOT NULL
+  AND observed_at >= CURRENT_DATE - INTERVAL '30 days';
+
+-- REFRESH ... CONCURRENTLY needs a unique index; rank is unique per day
+CREATE UNIQUE INDEX idx_leaderboard_date_rank ON leaderboard_daily (as_of_date DESC, rank);
+CREATE INDEX idx_leaderboard_margin ON leaderboard_daily (as_of_date DESC, margin_of_safety DESC NULLS LAST);
@@ -0,0 +1,19 @@
+-- Named watchlists and the last seen condition of each alert rule, so `divvy watch`
+-- only reports a rule when its condition changes
+
+CREATE TABLE watchlists (
+  name TEXT PRIMARY KEY,
+  tickers TEXT[] NOT NULL DEFAULT '{}',
+  rules JSONB NOT NULL DEFAULT '[]',  -- AlertRule[]
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE watchlist_alert_state (
+  watchlist TEXT NOT NULL REFERENCES watchlists(name) ON DELETE CASCADE ON UPDATE CASCADE,
+  ticker TEXT NOT NULL,
+  rule_key TEXT NOT NULL,             -- rule in CLI syntax, e.g. 'yield>=0.035'
+  condition TEXT,                     -- NULL while the rule is not tripped
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (watchlist, ticker, rule_key)
+);
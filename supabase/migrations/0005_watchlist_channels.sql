@@ -0,0 +1,5 @@
+-- Notification channels per watchlist (webhook URL + secret env name, email recipients).
+-- Secrets themselves stay in the environment of the process running `divvy watch`.
+
+ALTER TABLE watchlists
+  ADD COLUMN channels JSONB NOT NULL DEFAULT '[]';  -- NotificationChannelConfig[]
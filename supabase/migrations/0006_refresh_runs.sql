@@ -0,0 +1,20 @@
+-- One row per `divvy refresh` run so scheduled refreshes can be monitored
+
+CREATE TABLE refresh_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  status TEXT NOT NULL CHECK (status IN ('running', 'succeeded', 'partial', 'failed')),
+  universe_size INTEGER NOT NULL,
+  refreshed INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  requests INTEGER NOT NULL DEFAULT 0,
+  quota_exhausted BOOLEAN NOT NULL DEFAULT false,
+  leaderboard_refreshed BOOLEAN NOT NULL DEFAULT false,
+  error TEXT,
+  results JSONB NOT NULL DEFAULT '[]'   -- RefreshTickerResult[]
+);
+
+CREATE INDEX idx_refresh_runs_started_at ON refresh_runs (started_at DESC);
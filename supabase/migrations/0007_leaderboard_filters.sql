@@ -0,0 +1,38 @@
+-- Add sector, streak and TTM yield to the leaderboard so it can be filtered,
+-- and keep one row per ticker per day (the latest analysis) so pages don't repeat tickers
+
+DROP MATERIALIZED VIEW IF EXISTS leaderboard_daily;
+
+CREATE MATERIALIZED VIEW leaderboard_daily AS
+WITH latest AS (
+  SELECT DISTINCT ON (ticker_id, immutable_date_trunc(observed_at))
+    a.*,
+    immutable_date_trunc(observed_at) as as_of_date
+  FROM analyses a
+  WHERE score_total IS NOT NULL
+    AND observed_at >= CURRENT_DATE - INTERVAL '30 days'
+  ORDER BY ticker_id, immutable_date_trunc(observed_at), observed_at DESC
+)
+SELECT 
+  l.as_of_date,
+  l.ticker_id,
+  t.symbol,
+  t.name,
+  t.sector,
+  l.score_total as score,
+  l.forward_yield,
+  l.ttm_yield,
+  l.streak,
+  l.price,
+  l.ddm_price,
+  l.ddm_upside as margin_of_safety,
+  ROW_NUMBER() OVER (
+    PARTITION BY l.as_of_date 
+    ORDER BY l.score_total DESC, l.forward_yield DESC NULLS LAST, t.symbol
+  ) as rank
+FROM latest l
+JOIN tickers t ON t.id = l.ticker_id;
+
+CREATE UNIQUE INDEX idx_leaderboard_date_rank ON leaderboard_daily (as_of_date DESC, rank);
+CREATE INDEX idx_leaderboard_margin ON leaderboard_daily (as_of_date DESC, margin_of_safety DESC NULLS LAST);
+CREATE INDEX idx_leaderboard_sector ON leaderboard_daily (as_of_date DESC, sector);
@@ -0,0 +1,11 @@
+-- Alerts a notification channel has not received because its delivery failed.
+-- `divvy watch` still advances the alert state, so only the failing channel
+-- gets these resent on the next run.
+
+CREATE TABLE watchlist_pending_alerts (
+  watchlist TEXT NOT NULL REFERENCES watchlists(name) ON DELETE CASCADE ON UPDATE CASCADE,
+  channel TEXT NOT NULL,              -- e.g. 'webhook https://example.com/hook', 'email a@example.com'
+  alerts JSONB NOT NULL DEFAULT '[]', -- Alert[]
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (watchlist, channel)
+);
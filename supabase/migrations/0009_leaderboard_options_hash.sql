@@ -0,0 +1,52 @@
+-- Rank only comparable analyses. Scores depend on the scoring profile and
+-- provider, and margin of safety on the required return, so the leaderboard
+-- only uses analyses saved with the options hash of the latest `divvy refresh`
+-- run (recorded here). Analyses saved with other settings, e.g. a one-off
+-- `divvy KO --profile growth`, stay out of it.
+
+ALTER TABLE refresh_runs
+  ADD COLUMN options_hash TEXT;       -- analyses.options_hash the run saved with
+
+DROP MATERIALIZED VIEW IF EXISTS leaderboard_daily;
+
+CREATE MATERIALIZED VIEW leaderboard_daily AS
+WITH settings AS (
+  SELECT options_hash
+  FROM refresh_runs
+  WHERE options_hash IS NOT NULL
+  ORDER BY started_at DESC
+  LIMIT 1
+),
+latest AS (
+  SELECT DISTINCT ON (ticker_id, immutable_date_trunc(observed_at))
+    a.*,
+    immutable_date_trunc(observed_at) as as_of_date
+  FROM analyses a
+  JOIN settings s ON s.options_hash = a.options_hash
+  WHERE score_total IS NOT NULL
+    AND observed_at >= CURRENT_DATE - INTERVAL '30 days'
+  ORDER BY ticker_id, immutable_date_trunc(observed_at), observed_at DESC
+)
+SELECT 
+  l.as_of_date,
+  l.ticker_id,
+  t.symbol,
+  t.name,
+  t.sector,
+  l.score_total as score,
+  l.forward_yield,
+  l.ttm_yield,
+  l.streak,
+  l.price,
+  l.ddm_price,
+  l.ddm_upside as margin_of_safety,
+  ROW_NUMBER() OVER (
+    PARTITION BY l.as_of_date 
+    ORDER BY l.score_total DESC, l.forward_yield DESC NULLS LAST, t.symbol
+  ) as rank
+FROM latest l
+JOIN tickers t ON t.id = l.ticker_id;
+
+CREATE UNIQUE INDEX idx_leaderboard_date_rank ON leaderboard_daily (as_of_date DESC, rank);
+CREATE INDEX idx_leaderboard_margin ON leaderboard_daily (as_of_date DESC, margin_of_safety DESC NULLS LAST);
+CREATE INDEX idx_leaderboard_sector ON leaderboard_daily (as_of_date DESC, sector);
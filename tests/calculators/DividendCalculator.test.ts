@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { DividendCalculator } from '../../packages/core/src/calculators/DividendCalculator.js';
+
+describe('DividendCalculator', () => {
+  describe('calculateDdmValuation', () => {
+    it('should report fair value, margin of safety and the inputs used', () => {
+      const valuation = DividendCalculator.calculateDdmValuation(2.06, 40, 0.08, 0.03);
+
+      expect(valuation.ddmPrice).toBeCloseTo(2.06 / 0.05, 8);
+      expect(valuation.upside).toBeCloseTo((2.06 / 0.05 - 40) / 40, 8);
+      expect(valuation.requiredReturn).toBe(0.08);
+      expect(valuation.growth).toBe(0.03);
+    });
+
+    it('should clamp growth and leave upside empty when r <= g', () => {
+      const valuation = DividendCalculator.calculateDdmValuation(1, 40, 0.05, 0.12);
+
+      expect(valuation.growth).toBe(0.06);
+      expect(valuation.ddmPrice).toBeNull();
+      expect(valuation.upside).toBeNull();
+    });
+  });
+
+  describe('calculateTwoStageDDM', () => {
+    it('should equal Gordon Growth when both stages grow at the same rate', () => {
+      const gordon = (1 * 1.04) / (0.09 - 0.04);
+      const result = DividendCalculator.calculateTwoStageDDM(1, 0.09, 0.04, 5, 0.04);
+      expect(result).toBeCloseTo(gordon, 8);
+    });
+
+    it('should discount the high-growth period and terminal value', () => {
+      // With g1 = r each stage-1 dividend is worth D0 today: 5 + 1.03 / 0.07
+      const result = DividendCalculator.calculateTwoStageDDM(1, 0.10, 0.10, 5, 0.03);
+      expect(result).toBeCloseTo(5 + 1.03 / 0.07, 8);
+    });
+
+    it('should return null when required return does not exceed terminal growth', () => {
+      expect(DividendCalculator.calculateTwoStageDDM(1, 0.03, 0.10, 5, 0.03)).toBeNull();
+    });
+
+    it('should return null without a positive dividend', () => {
+      expect(DividendCalculator.calculateTwoStageDDM(0, 0.09, 0.05, 5, 0.03)).toBeNull();
+      expect(DividendCalculator.calculateTwoStageDDM(NaN, 0.09, 0.05, 5, 0.03)).toBeNull();
+    });
+  });
+
+  describe('calculateThreeStageDDM', () => {
+    it('should equal Gordon Growth when growth never changes', () => {
+      const gordon = (2 * 1.03) / (0.08 - 0.03);
+      const result = DividendCalculator.calculateThreeStageDDM(2, 0.08, 0.03, 5, 10, 0.03);
+      expect(result).toBeCloseTo(gordon, 8);
+    });
+
+    it('should value a fading grower between the two-stage bounds', () => {
+      const twoStageShort = DividendCalculator.calculateTwoStageDDM(1, 0.09, 0.12, 5, 0.03)!;
+      const twoStageLong = DividendCalculator.calculateTwoStageDDM(1, 0.09, 0.12, 15, 0.03)!;
+      const threeStage = DividendCalculator.calculateThreeStageDDM(1, 0.09, 0.12, 5, 10, 0.03)!;
+
+      expect(threeStage).toBeGreaterThan(twoStageShort);
+      expect(threeStage).toBeLessThan(twoStageLong);
+    });
+  });
+
+  describe('calculateHModel', () => {
+    it('should add the half-life premium to Gordon Growth', () => {
+      const result = DividendCalculator.calculateHModel(1, 0.10, 0.10, 2.5, 0.03);
+      expect(result).toBeCloseTo(1.03 / 0.07 + (2.5 * 0.07) / 0.07, 8);
+    });
+
+    it('should return null when required return does not exceed terminal growth', () => {
+      expect(DividendCalculator.calculateHModel(1, 0.02, 0.10, 5, 0.03)).toBeNull();
+    });
+  });
+
+  describe('calculateMultiStageValuation', () => {
+    it('should cap terminal growth at 3% by default', () => {
+      const valuation = DividendCalculator.calculateMultiStageValuation(1, 0.09, 0.12);
+      expect(valuation.assumptions.terminalGrowth).toBe(0.03);
+      expect(valuation.assumptions.highGrowthYears).toBe(5);
+      expect(valuation.assumptions.fadeYears).toBe(10);
+    });
+
+    it('should not assume recovery for shrinking payers', () => {
+      const valuation = DividendCalculator.calculateMultiStageValuation(1, 0.09, -0.02);
+      expect(valuation.assumptions.terminalGrowth).toBe(-0.02);
+    });
+
+    it('should honour overrides', () => {
+      const valuation = DividendCalculator.calculateMultiStageValuation(1, 0.09, 0.12, {
+        highGrowthYears: 3,
+        fadeYears: 4,
+        terminalGrowth: 0.02
+      });
+
+      expect(valuation.twoStage).toBeCloseTo(DividendCalculator.calculateTwoStageDDM(1, 0.09, 0.12, 3, 0.02)!, 8);
+      expect(valuation.hModel).toBeCloseTo(DividendCalculator.calculateHModel(1, 0.09, 0.12, 2, 0.02)!, 8);
+    });
+  });
+
+  describe('calculateSensitivityGrid', () => {
+    it('should price each cell with Gordon Growth on D0 * (1 + g)', () => {
+      const grid = DividendCalculator.calculateSensitivityGrid(2, 40, [0.08, 0.10], [0.00, 0.03]);
+
+      expect(grid.cells).toHaveLength(2);
+      expect(grid.cells[0]).toHaveLength(2);
+      expect(grid.cells[1][1].fairValue).toBeCloseTo((2 * 1.03) / 0.07, 8);
+      expect(grid.cells[0][0].upside).toBeCloseTo((25 - 40) / 40, 8);
+    });
+
+    it('should flag cells where r <= g', () => {
+      const grid = DividendCalculator.calculateSensitivityGrid(1, 20, [0.03, 0.05], [0.03, 0.05]);
+
+      expect(grid.cells[0][0]).toMatchObject({ invalid: true, fairValue: null, upside: null });
+      expect(grid.cells[1][1].invalid).toBe(true);
+      expect(grid.cells[0][1].invalid).toBe(true);
+      expect(grid.cells[1][0].invalid).toBe(false);
+    });
+
+    it('should mark the cell nearest the current price', () => {
+      // Fair values: r=8% -> 25, 34.33; r=10% -> 20, 29.43
+      const grid = DividendCalculator.calculateSensitivityGrid(2, 30, [0.08, 0.10], [0.00, 0.03]);
+      expect(grid.nearestToPrice).toEqual({ row: 1, col: 1 });
+    });
+
+    it('should use the default ranges and leave cells unpriced without a dividend', () => {
+      const grid = DividendCalculator.calculateSensitivityGrid(0, 50);
+
+      expect(grid.requiredReturns).toEqual(DividendCalculator.DEFAULT_SENSITIVITY_RETURNS);
+      expect(grid.growthRates).toEqual(DividendCalculator.DEFAULT_SENSITIVITY_GROWTH_RATES);
+      expect(grid.cells.flat().every(cell => cell.fairValue === null)).toBe(true);
+      expect(grid.nearestToPrice).toBeNull();
+    });
+  });
+
+  describe('projectDrip', () => {
+    const assumptions = {
+      shares: 100,
+      price: 50,
+      costBasis: 4000,
+      dividend: 2,
+      dividendGrowth: 0.05,
+      priceGrowth: 0,
+      years: 3,
+      paymentsPerYear: 1
+    };
+
+    it('should buy shares with each payment when reinvesting', () => {
+      const rows = DividendCalculator.projectDrip(assumptions, true);
+
+      // Year 1: 100 * 2 = 200 buys 4 shares at 50
+      expect(rows[0]).toMatchObject({ year: 1, shares: 104, income: 200, yieldOnCost: 0.05, positionValue: 5200, cash: 0 });
+      expect(rows[1].dividendPerShare).toBeCloseTo(2.1, 8);
+      expect(rows[1].income).toBeCloseTo(104 * 2.1, 8);
+      expect(rows).toHaveLength(3);
+    });
+
+    it('should collect cash and keep the share count otherwise', () => {
+      const rows = DividendCalculator.projectDrip(assumptions, false);
+
+      expect(rows.every(row => row.shares === 100)).toBe(true);
+      expect(rows[2].cash).toBeCloseTo(200 + 210 + 220.5, 8);
+      expect(rows[2].totalValue).toBeCloseTo(5000 + 630.5, 8);
+    });
+
+    it('should grow the price smoothly between payments', () => {
+      const rows = DividendCalculator.projectDrip({ ...assumptions, priceGrowth: 0.1, paymentsPerYear: 4, years: 1 }, true);
+
+      expect(rows[0].price).toBeCloseTo(55, 8);
+      expect(rows[0].shares).toBeGreaterThan(100 + 200 / 55);
+      expect(rows[0].shares).toBeLessThan(104);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { MonteCarloCalculator } from '../../packages/core/src/calculators/MonteCarloCalculator.js';
+import type { AnnualDividendData, MonteCarloOptions } from '../../packages/core/src/models/DividendAnalysis.js';
+
+const history: AnnualDividendData[] = [
+  [2019, 1.00],
+  [2020, 1.04],
+  [2021, 1.08],
+  [2022, 1.12],
+  [2023, 1.17],
+  [2024, 0.60] // partial year
+];
+
+const options: MonteCarloOptions = {
+  iterations: 2000,
+  seed: 123,
+  requiredReturn: { type: 'normal', mean: 0.09, stdDev: 0.01 },
+  completeThroughYear: 2023
+};
+
+describe('MonteCarloCalculator', () => {
+  describe('historicalGrowthRates', () => {
+    it('should ignore the partial current year', () => {
+      const rates = MonteCarloCalculator.historicalGrowthRates(history, 2023);
+      expect(rates).toHaveLength(4);
+      expect(rates.every(rate => rate > 0)).toBe(true);
+    });
+
+    it('should skip gaps and years without a dividend', () => {
+      const rates = MonteCarloCalculator.historicalGrowthRates([[2018, 1], [2019, 0], [2020, 1], [2022, 1.1]], 2023);
+      expect(rates).toEqual([]);
+    });
+  });
+
+  describe('simulateFairValue', () => {
+    it('should be reproducible for the same seed', () => {
+      const first = MonteCarloCalculator.simulateFairValue(1.17, 30, history, options);
+      const second = MonteCarloCalculator.simulateFairValue(1.17, 30, history, options);
+      const reseeded = MonteCarloCalculator.simulateFairValue(1.17, 30, history, { ...options, seed: 124 });
+
+      expect(second).toEqual(first);
+      expect(reseeded.p50).not.toBe(first.p50);
+    });
+
+    it('should order percentiles and bound the probability', () => {
+      const result = MonteCarloCalculator.simulateFairValue(1.17, 30, history, options);
+
+      expect(result.validIterations).toBe(2000);
+      expect(result.p10!).toBeLessThan(result.p50!);
+      expect(result.p50!).toBeLessThan(result.p90!);
+      expect(result.probabilityAbovePrice).toBeGreaterThanOrEqual(0);
+      expect(result.probabilityAbovePrice).toBeLessThanOrEqual(1);
+    });
+
+    it('should collapse to Gordon Growth with a fixed r and constant growth', () => {
+      const steady: AnnualDividendData[] = [[2021, 1], [2022, 1.03], [2023, 1.0609]];
+      const result = MonteCarloCalculator.simulateFairValue(1, 10, steady, {
+        ...options,
+        requiredReturn: { type: 'fixed', value: 0.08 }
+      });
+
+      expect(result.p10).toBeCloseTo(1.03 / 0.05, 6);
+      expect(result.p90).toBeCloseTo(1.03 / 0.05, 6);
+      expect(result.probabilityAbovePrice).toBe(1);
+    });
+
+    it('should drop draws where r <= g', () => {
+      const result = MonteCarloCalculator.simulateFairValue(1, 10, history, {
+        ...options,
+        requiredReturn: { type: 'uniform', min: 0.02, max: 0.06 }
+      });
+
+      expect(result.validIterations).toBeLessThan(result.iterations);
+    });
+
+    it('should return empty percentiles without dividend history', () => {
+      const result = MonteCarloCalculator.simulateFairValue(0, 10, history, options);
+      expect(result).toMatchObject({ validIterations: 0, p50: null, probabilityAbovePrice: null });
+    });
+  });
+});
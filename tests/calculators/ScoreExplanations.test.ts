@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { ScoreCalculator } from '../../packages/core/src/calculators/ScoreCalculator.js';
+import { Fundamentals, Quote } from '../../packages/core/src/models/StockData.js';
+import type { ScoreExplanation } from '../../packages/core/src/models/DividendAnalysis.js';
+import { SCORE_FACTORS } from '../../packages/core/src/models/ScoringProfile.js';
+
+const sumPoints = (explanation: ScoreExplanation) =>
+  explanation.points.reduce((acc, change) => acc + change.points, 0);
+
+describe('ScoreCalculator explanations', () => {
+  const fundamentals = new Fundamentals({
+    OperatingCashFlow: { raw: 300 },
+    CapitalExpenditure: { raw: 100 },
+    CashDividendsPaid: { raw: 120 },
+    NetIncome: { raw: 150 }
+  });
+  const quote = new Quote({ regularMarketPrice: 50, sector: 'Consumer Defensive' });
+  const ema = { ema20: 52, ema50: 49, ema200: 55 };
+  const macd = { macdLine: -0.4, signalLine: -0.1, histogram: -0.3 };
+  const rsi = { rsi: 35, period: 14 };
+
+  it('should carry an explanation per factor that matches its score', () => {
+    const scores = ScoreCalculator.calculateDividendScores(fundamentals, 12, 0.04, quote, ema, macd, rsi);
+
+    for (const factor of SCORE_FACTORS) {
+      const explanation = scores.explanations![factor];
+      expect(explanation.factor).toBe(factor);
+      expect(explanation.score).toBe(scores[factor]);
+      expect(sumPoints(explanation)).toBeCloseTo(explanation.score, 8);
+    }
+  });
+
+  it('should match the plain factor calculations', () => {
+    expect(ScoreCalculator.explainPayoutScore(0.8).score).toBe(ScoreCalculator.calculatePayoutScore(0.8));
+    expect(ScoreCalculator.explainFCFCoverageScore(1.2).score).toBe(ScoreCalculator.calculateFCFCoverageScore(1.2));
+    expect(ScoreCalculator.explainGrowthScore(0.03).score).toBe(ScoreCalculator.calculateGrowthScore(0.03));
+    expect(ScoreCalculator.explainTrendScore(50, ema).score).toBe(ScoreCalculator.calculateTrendScore(50, ema));
+  });
+
+  it('should record the points lost below EMA200 and the clamp back to 0', () => {
+    const explanation = ScoreCalculator.explainTrendScore(45, ema);
+
+    expect(explanation.thresholds).toContain('Below EMA200');
+    expect(explanation.points[0].points).toBe(-20);
+    expect(explanation.points.at(-1)!.reason).toMatch(/Clamped/);
+    expect(explanation.score).toBe(0);
+  });
+
+  it('should list fallbacks applied for missing data', () => {
+    const missing = new Fundamentals({ NetIncome: { raw: 100 }, CashDividendsPaid: { raw: 50 } });
+
+    const coverage = ScoreCalculator.explainFCFCoverageScore(missing.fcfCoverage, missing.epsPayoutRatio);
+    expect(coverage.score).toBe(50);
+    expect(coverage.fallbacks[0]).toMatch(/FCF coverage unavailable/);
+
+    const macdExplanation = ScoreCalculator.explainMACDScore({ macdLine: null, signalLine: null, histogram: null });
+    expect(macdExplanation.score).toBe(50);
+    expect(macdExplanation.fallbacks).toHaveLength(1);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { SectorClassifier } from '../../packages/core/src/data/SectorRules.js';
+import { ScoreCalculator } from '../../packages/core/src/calculators/ScoreCalculator.js';
+import { FallbackDataProvider } from '../../packages/core/src/services/FallbackDataProvider.js';
+import { Fundamentals } from '../../packages/core/src/models/StockData.js';
+
+const fundamentals = (values: Record<string, number>) =>
+  new Fundamentals(Object.fromEntries(Object.entries(values).map(([key, raw]) => [key, { raw }])));
+
+describe('SectorClassifier', () => {
+  it('should classify Yahoo sector and industry strings', () => {
+    expect(SectorClassifier.classify('Real Estate', 'REIT - Retail')).toBe('reit');
+    expect(SectorClassifier.classify('Real Estate', 'Real Estate Services')).toBe('general');
+    expect(SectorClassifier.classify('Utilities', 'Utilities - Regulated Electric')).toBe('utility');
+    expect(SectorClassifier.classify('Financial Services', 'Banks - Regional')).toBe('bank');
+    expect(SectorClassifier.classify('Financial Services', 'Insurance - Life')).toBe('financial');
+    expect(SectorClassifier.classify('Consumer Defensive', 'Beverages - Non-Alcoholic')).toBe('general');
+    expect(SectorClassifier.classify(null, null)).toBe('general');
+  });
+
+  it('should keep the legacy industry-average keys working', () => {
+    expect(FallbackDataProvider.getIndustryAverages('utilities').payoutRatio.value).toBe(0.7);
+    expect(FallbackDataProvider.getIndustryAverages('reits').payoutRatio.value).toBe(0.9);
+    expect(FallbackDataProvider.getIndustryAverages('Real Estate', 'REIT - Office').payoutRatio.value).toBe(0.9);
+  });
+});
+
+describe('ScoreCalculator sector rules', () => {
+  it('should score REIT payouts on FFO instead of EPS', () => {
+    // EPS payout 150%, FFO payout 75%
+    const reit = fundamentals({ NetIncome: 100, DepreciationAndAmortization: 100, CashDividendsPaid: 150 });
+    const rule = SectorClassifier.ruleFor('Real Estate', 'REIT - Retail');
+
+    expect(ScoreCalculator.calculatePayoutScore(reit.epsPayoutRatio)).toBe(0);
+    expect(ScoreCalculator.calculateSectorPayoutScore(reit, rule)).toBe(100);
+  });
+
+  it('should use operating cash flow coverage for utilities with negative FCF', () => {
+    const utility = fundamentals({ OperatingCashFlow: 300, CapitalExpenditure: 400, CashDividendsPaid: 100, NetIncome: 140 });
+    const rule = SectorClassifier.ruleFor('Utilities', 'Utilities - Regulated Electric');
+
+    expect(ScoreCalculator.calculateFCFCoverageScore(utility.fcfCoverage, utility.epsPayoutRatio)).toBe(0);
+    expect(ScoreCalculator.calculateSectorCoverageScore(utility, rule)).toBe(100);
+    expect(ScoreCalculator.calculateSectorPayoutScore(utility, rule)).toBe(100); // 71% EPS payout
+  });
+
+  it('should score bank coverage on the Tier 1 capital ratio', () => {
+    const rule = SectorClassifier.ruleFor('Financial Services', 'Banks - Diversified');
+    const strong = fundamentals({ NetIncome: 100, CashDividendsPaid: 40, Tier1CapitalRatio: 0.13 });
+    const thin = fundamentals({ NetIncome: 100, CashDividendsPaid: 40, Tier1CapitalRatio: 0.095 });
+    const unknown = fundamentals({ NetIncome: 100, CashDividendsPaid: 40 });
+
+    expect(ScoreCalculator.calculateSectorCoverageScore(strong, rule)).toBe(100);
+    expect(ScoreCalculator.calculateSectorCoverageScore(thin, rule)).toBeCloseTo(50, 8);
+    expect(ScoreCalculator.calculateSectorCoverageScore(unknown, rule)).toBe(50);
+  });
+
+  it('should fall back to FCF coverage with Yahoo fundamentals that lack D&A and capital ratios', () => {
+    // Yahoo's annual time series: cash flow lines only, no DepreciationAndAmortization or Tier1CapitalRatio
+    const yahoo = fundamentals({ OperatingCashFlow: 300, CapitalExpenditure: 100, CashDividendsPaid: 100, NetIncome: 250 });
+    const bank = SectorClassifier.ruleFor('Financial Services', 'Banks - Regional');
+    const reit = SectorClassifier.ruleFor('Real Estate', 'REIT - Retail');
+
+    const bankCoverage = ScoreCalculator.explainSectorCoverageScore(yahoo, bank);
+    expect(bankCoverage.score).toBe(100); // 2x FCF coverage
+    expect(bankCoverage.fallbacks[0]).toBe('Tier 1 capital ratio unavailable - used FCF coverage');
+    expect(bankCoverage.thresholds[0]).toBe('Bank sector rules');
+
+    // FFO falls back to operating cash flow, so AFFO coverage is still there for REITs
+    expect(ScoreCalculator.explainSectorCoverageScore(yahoo, reit).fallbacks).toEqual([]);
+
+    const noCashFlow = fundamentals({ NetIncome: 100, CashDividendsPaid: 40 });
+    expect(ScoreCalculator.explainSectorCoverageScore(noCashFlow, bank).fallbacks).toEqual([
+      'Tier 1 capital ratio unavailable - used FCF coverage',
+      'FCF coverage unavailable - partial credit from payout ratio'
+    ]);
+  });
+
+  it('should leave general stocks on the profile rules', () => {
+    const general = fundamentals({ OperatingCashFlow: 300, CapitalExpenditure: 100, CashDividendsPaid: 100, NetIncome: 150 });
+    const rule = SectorClassifier.ruleFor('Consumer Defensive', 'Beverages - Non-Alcoholic');
+
+    expect(ScoreCalculator.calculateSectorCoverageScore(general, rule)).toBe(100);
+    expect(ScoreCalculator.calculateSectorPayoutScore(general, rule))
+      .toBe(ScoreCalculator.calculatePayoutScore(general.epsPayoutRatio));
+  });
+});
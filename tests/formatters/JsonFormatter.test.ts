@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { fileURLToPath } from 'url';
+import { JsonFormatter } from '../../packages/core/src/formatters/JsonFormatter.js';
+import { FixtureMarketDataProvider } from '../../packages/core/src/services/FixtureMarketDataProvider.js';
+import { DividendAnalysisService } from '../../packages/core/src/services/DividendAnalysisService.js';
+import { TickerNotFoundError } from '../../packages/core/src/errors/DivvyErrors.js';
+import type { DividendAnalysis } from '../../packages/core/src/models/DividendAnalysis.js';
+
+const fixturesDir = fileURLToPath(new URL('../fixtures/market-data', import.meta.url));
+
+describe('JsonFormatter', () => {
+  let ko: DividendAnalysis;
+  let provider: FixtureMarketDataProvider;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    provider = new FixtureMarketDataProvider(fixturesDir);
+    ko = await new DividendAnalysisService().analyze('KO', 15, 0.09, false, false, provider);
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should wrap the analysis in a versioned envelope', () => {
+    const document = JsonFormatter.analyzeDocument(ko, {
+      warnings: ['Limited dividend history may affect accuracy'],
+      dataQuality: { score: 90, level: 'excellent', recommendations: [] },
+      sensitivity: ko.ddmSensitivity,
+      monteCarlo: null,
+      asOf: provider.asOf
+    });
+
+    expect(document).toMatchObject({
+      schemaVersion: JsonFormatter.SCHEMA_VERSION,
+      command: 'analyze',
+      asOf: '2024-06-30T00:00:00.000Z',
+      warnings: ['Limited dividend history may affect accuracy']
+    });
+    expect(Object.keys(document.analysis)).toEqual([
+      'ticker', 'name', 'currency', 'sector', 'industry', 'price',
+      'dividends', 'fundamentals', 'scores', 'technicals', 'valuation'
+    ]);
+    expect(document.analysis.scores.factors).toEqual({
+      payout: ko.scores.payout, fcf: ko.scores.fcf, streak: ko.scores.streak, growth: ko.scores.growth,
+      trend: ko.scores.trend, macd: ko.scores.macd, rsi: ko.scores.rsi
+    });
+    expect(document.analysis.valuation.ddmPrice).toBe(ko.valuation.ddmPrice);
+    expect(document.analysis.dividends.annual[0]).toEqual({ year: ko.annualDividends[0][0], amount: ko.annualDividends[0][1] });
+  });
+
+  it('should emit missing numbers as null', () => {
+    const noFundamentals = { ...ko, fundamentals: { ...ko.fundamentals, netIncome: NaN, fcfCoverage: Infinity } } as DividendAnalysis;
+    const parsed = JSON.parse(JsonFormatter.stringify(JsonFormatter.batchDocument([{ ticker: 'KO', analysis: noFundamentals, error: null }])));
+
+    expect(parsed.results[0].analysis.fundamentals.netIncome).toBeNull();
+    expect(parsed.results[0].analysis.fundamentals.fcfCoverage).toBeNull();
+  });
+
+  it('should describe failures with their error code', () => {
+    const document = JsonFormatter.errorDocument('analyze', new TickerNotFoundError('NOPE'), 3);
+
+    expect(document.error).toEqual({ type: 'TickerNotFoundError', code: 'TICKER_NOT_FOUND', message: expect.stringContaining('NOPE') });
+    expect(document.exitCode).toBe(3);
+    expect(document.asOf).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { fileURLToPath } from 'url';
+import { ReportFormatter } from '../../packages/core/src/formatters/ReportFormatter.js';
+import { OutputFormatter } from '../../packages/core/src/formatters/OutputFormatter.js';
+import { ReportService } from '../../packages/core/src/services/ReportService.js';
+import { FixtureMarketDataProvider } from '../../packages/core/src/services/FixtureMarketDataProvider.js';
+import { DividendAnalysisService } from '../../packages/core/src/services/DividendAnalysisService.js';
+import { DEFAULT_SCORING_PROFILE } from '../../packages/core/src/models/ScoringProfile.js';
+import type { ReportData } from '../../packages/core/src/services/ReportService.js';
+
+const fixturesDir = fileURLToPath(new URL('../fixtures/market-data', import.meta.url));
+
+describe('ReportFormatter', () => {
+  let report: ReportData;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = new FixtureMarketDataProvider(fixturesDir);
+    const analysis = await new DividendAnalysisService().analyze('KO', 15, 0.09, false, false, provider);
+    report = await ReportService.build(analysis, provider, DEFAULT_SCORING_PROFILE);
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should produce a self-contained HTML page with inline charts', () => {
+    const html = ReportFormatter.html(report);
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<style>');
+    expect(html.match(/<svg/g)).toHaveLength(3);
+    expect(html).toContain('EMA200');
+    expect(html).toContain(`${report.analysis.totalScore}/100`);
+    expect(html).not.toMatch(/\b(src|href)=|<script|<link/);
+  });
+
+  it('should escape text taken from the data source', () => {
+    const html = ReportFormatter.html({
+      ...report,
+      analysis: { ...report.analysis, quote: { ...report.analysis.quote, name: 'Coca <Cola> & "Co"' } }
+    });
+
+    expect(html).toContain('Coca &lt;Cola&gt; &amp; &quot;Co&quot;');
+    expect(html).not.toContain('<Cola>');
+  });
+
+  it('should render the same sections as Markdown tables', () => {
+    const markdown = ReportFormatter.markdown(report);
+
+    expect(markdown).toMatch(/^# .+ \(KO\)/);
+    for (const heading of ['## Key metrics', '## Annual dividends', '## Price and moving averages', '## Score breakdown', '## Valuation']) {
+      expect(markdown).toContain(heading);
+    }
+    expect(markdown).toContain('| --- | ---: |');
+    expect(markdown).toContain(`| total | ${report.analysis.totalScore} | 1.00 | ${report.analysis.totalScore} |`);
+  });
+
+  it('should note when no price history is available', () => {
+    const html = ReportFormatter.html({ ...report, priceHistory: [] });
+    const markdown = ReportFormatter.markdown({ ...report, priceHistory: [] });
+
+    expect(html.match(/<svg/g)).toHaveLength(3);
+    expect(markdown).toContain('No price history.');
+  });
+
+  describe('ReportService.withEmaOverlays', () => {
+    it('should sort closes and leave EMAs empty until enough history exists', () => {
+      const prices = Array.from({ length: 30 }, (_, i) => ({
+        date: new Date(Date.UTC(2024, 0, 30 - i)),
+        close: 30 - i
+      }));
+      const points = ReportService.withEmaOverlays(prices);
+
+      expect(points.map(p => p.close)).toEqual(Array.from({ length: 30 }, (_, i) => i + 1));
+      expect(points[18].ema20).toBeNull();
+      expect(points[19].ema20).not.toBeNull();
+      expect(points[29].ema50).toBeNull();
+    });
+  });
+
+  describe('OutputFormatter.sparkline', () => {
+    it('should scale between min and max and keep gaps', () => {
+      expect(OutputFormatter.sparkline([1, 2, null, 8])).toBe('▁▂ █');
+      expect(OutputFormatter.sparkline([5, 5])).toBe('▄▄');
+      expect(OutputFormatter.sparkline([])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { fileURLToPath } from 'url';
+import { inflateRawSync } from 'zlib';
+import { TabularFormatter } from '../../packages/core/src/formatters/TabularFormatter.js';
+import { crc32 } from '../../packages/core/src/utils/ZipWriter.js';
+import { FixtureMarketDataProvider } from '../../packages/core/src/services/FixtureMarketDataProvider.js';
+import { DividendAnalysisService } from '../../packages/core/src/services/DividendAnalysisService.js';
+import { TickerNotFoundError } from '../../packages/core/src/errors/DivvyErrors.js';
+import type { BatchItemResult } from '../../packages/core/src/services/BatchAnalysisService.js';
+import type { DividendAnalysis } from '../../packages/core/src/models/DividendAnalysis.js';
+
+const fixturesDir = fileURLToPath(new URL('../fixtures/market-data', import.meta.url));
+
+/** Reads every entry of a ZIP archive by walking its local file headers */
+function unzip(buffer: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const size = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const name = buffer.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+    const start = offset + 30 + nameLength;
+    const data = inflateRawSync(buffer.subarray(start, start + size));
+    expect(crc32(data)).toBe(buffer.readUInt32LE(offset + 14));
+    files.set(name, data.toString('utf8'));
+    offset = start + size;
+  }
+  return files;
+}
+
+describe('TabularFormatter', () => {
+  let results: BatchItemResult[];
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const ko = await new DividendAnalysisService().analyze('KO', 15, 0.09, false, false, new FixtureMarketDataProvider(fixturesDir));
+    results = [
+      { ticker: 'KO', analysis: ko, error: null },
+      { ticker: 'NOPE', analysis: null, error: new TickerNotFoundError('NOPE') }
+    ];
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should keep a stable column order', () => {
+    expect(TabularFormatter.COLUMNS.slice(0, 6)).toEqual(['ticker', 'name', 'currency', 'sector', 'industry', 'price']);
+    expect(TabularFormatter.COLUMNS).toEqual(expect.arrayContaining([
+      'forward_yield', 'payout_fcf', 'score_total', 'score_payout', 'score_rsi', 'ema200', 'ddm_upside'
+    ]));
+    expect(TabularFormatter.COLUMNS.at(-1)).toBe('error');
+    expect(new Set(TabularFormatter.COLUMNS).size).toBe(TabularFormatter.COLUMNS.length);
+  });
+
+  it('should write one CSV row per ticker, quoting text and blanking missing values', () => {
+    const lines = TabularFormatter.csv(results).trimEnd().split('\r\n');
+    const header = lines[0].split(',');
+    const ko = lines[1];
+
+    expect(lines).toHaveLength(3);
+    expect(header).toEqual([...TabularFormatter.COLUMNS]);
+    expect(ko.startsWith('KO,')).toBe(true);
+    expect(lines[2]).toMatch(/^NOPE,,+"?Ticker symbol 'NOPE' not found/);
+    expect(lines[2].split(',').length).toBe(header.length);
+  });
+
+  it('should neutralise spreadsheet formulas in text cells', () => {
+    const hostile = { ...results[0].analysis!, ticker: '=HYPERLINK("x")' } as DividendAnalysis;
+    const csv = TabularFormatter.csv([{ ticker: 'X', analysis: hostile, error: null }]);
+
+    expect(csv.split('\r\n')[1].startsWith(`"'=HYPERLINK(""x"")"`)).toBe(true);
+  });
+
+  it('should write an xlsx workbook with analyses and annual dividends sheets', () => {
+    const files = unzip(TabularFormatter.xlsx(results));
+    const dividends = files.get('xl/worksheets/sheet2.xml')!;
+    const [year, amount] = results[0].analysis!.annualDividends[0];
+
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="Analyses"');
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="AnnualDividends"');
+    expect(files.get('xl/worksheets/sheet1.xml')).toContain('<t xml:space="preserve">ticker</t>');
+    expect(dividends).toContain(`<v>${year}</v>`);
+    expect(dividends).toContain(`<v>${amount}</v>`);
+    expect(files.has('[Content_Types].xml')).toBe(true);
+  });
+
+  it('should compute standard CRC-32 checksums', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+});
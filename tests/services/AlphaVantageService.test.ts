@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AlphaVantageService } from '../../packages/core/src/services/AlphaVantageService.js';
+import { Cassette } from '../../packages/core/src/utils/Cassette.js';
+
+function bar(close: string, dividend: string = '0.0000') {
+  return { '4. close': close, '7. dividend amount': dividend };
+}
+
+describe('AlphaVantageService', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'divvy-alphavantage-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should filter replayed history against the time the cassette was recorded', async () => {
+    const path = join(dir, 'ko.json');
+    await writeFile(path, JSON.stringify({
+      version: 1,
+      recordedAt: '2016-01-04T00:00:00.000Z',
+      entries: {
+        'alphavantage:function=TIME_SERIES_DAILY_ADJUSTED&symbol=KO&outputsize=full': {
+          response: {
+            'Time Series (Daily)': {
+              '2015-12-31': bar('42.96'),
+              '2015-11-27': bar('42.52', '0.3300'),
+              '2015-09-11': bar('39.21', '0.3300'),
+              '2015-06-12': bar('40.31', '0.3300'),
+              '2015-03-12': bar('41.80', '0.3300'),
+              '2014-11-26': bar('44.10', '0.3050')
+            }
+          }
+        }
+      }
+    }), 'utf8');
+
+    const service = new AlphaVantageService(undefined, undefined, await Cassette.load(path));
+    const dividends = await service.getDividendEvents('KO', 1);
+    const prices = await service.getHistoricalPrices('KO', 1);
+
+    expect(service.asOf?.toISOString()).toBe('2016-01-04T00:00:00.000Z');
+    expect(dividends.map(event => event.amount)).toEqual([0.33, 0.33, 0.33, 0.33]);
+    expect(prices).toHaveLength(5);
+    expect(prices[0].date.toISOString().slice(0, 10)).toBe('2015-03-12');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fileURLToPath } from 'url';
+import { BatchAnalysisService } from '../../packages/core/src/services/BatchAnalysisService.js';
+import { FixtureMarketDataProvider } from '../../packages/core/src/services/FixtureMarketDataProvider.js';
+import { InputValidator } from '../../packages/core/src/validation/InputValidator.js';
+import { DEFAULT_SCORING_PROFILE } from '../../packages/core/src/models/ScoringProfile.js';
+import { TickerNotFoundError, ValidationError } from '../../packages/core/src/errors/DivvyErrors.js';
+
+const fixturesDir = fileURLToPath(new URL('../fixtures/market-data', import.meta.url));
+
+describe('BatchAnalysisService', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should keep going past failing tickers and report each one', async () => {
+    const progress: string[] = [];
+    const results = await new BatchAnalysisService().analyzeMany(['KO', 'NOPE', 'BAD!!'], {
+      years: 15,
+      requiredReturn: 0.09,
+      saveToDb: false,
+      forceFresh: false,
+      provider: new FixtureMarketDataProvider(fixturesDir),
+      profile: DEFAULT_SCORING_PROFILE,
+      concurrency: 2,
+      requestsPerSecond: 1000,
+      onProgress: (result, completed, total) => progress.push(`${completed}/${total} ${result.ticker}`)
+    });
+
+    expect(results.map(result => result.ticker)).toEqual(['KO', 'NOPE', 'BAD!!']);
+    expect(results[0].analysis?.totalScore).toBeGreaterThan(0);
+    expect(results[1].error).toBeInstanceOf(TickerNotFoundError);
+    expect(results[2].error).toBeInstanceOf(ValidationError);
+    expect(progress).toHaveLength(3);
+    expect(progress.at(-1)).toMatch(/^3\/3 /);
+  });
+});
+
+describe('InputValidator.parseTickerList', () => {
+  it('should split on whitespace and commas, dropping comments and duplicates', () => {
+    const text = 'ko, pep\n# staples\nMDLZ  KO # again\r\n\n';
+    expect(InputValidator.parseTickerList(text)).toEqual(['KO', 'PEP', 'MDLZ']);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { fileURLToPath } from 'url';
+import { ComparisonService } from '../../packages/core/src/services/ComparisonService.js';
+import { FixtureMarketDataProvider } from '../../packages/core/src/services/FixtureMarketDataProvider.js';
+import { DividendAnalysisService } from '../../packages/core/src/services/DividendAnalysisService.js';
+import type { DividendAnalysis } from '../../packages/core/src/models/DividendAnalysis.js';
+
+const fixturesDir = fileURLToPath(new URL('../fixtures/market-data', import.meta.url));
+
+describe('ComparisonService', () => {
+  let ko: DividendAnalysis;
+
+  const variant = (overrides: Partial<DividendAnalysis>) => ({ ...ko, ...overrides }) as DividendAnalysis;
+  const row = (comparison: ReturnType<typeof ComparisonService.compare>, key: string) =>
+    comparison.rows.find(r => r.key === key)!;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    ko = await new DividendAnalysisService().analyze('KO', 15, 0.09, false, false, new FixtureMarketDataProvider(fixturesDir));
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should keep ticker order and cover every score factor', () => {
+    const comparison = ComparisonService.compare([ko, variant({ ticker: 'PEP' })]);
+
+    expect(comparison.tickers).toEqual(['KO', 'PEP']);
+    expect(comparison.rows.map(r => r.key)).toEqual(expect.arrayContaining([
+      'price', 'forwardYield', 'cagr5', 'streak', 'fcfPayoutRatio',
+      'scores.payout', 'scores.fcf', 'scores.streak', 'scores.growth', 'scores.trend', 'scores.macd', 'scores.rsi',
+      'totalScore', 'ddmUpside'
+    ]));
+  });
+
+  it('should mark the highest yield and the lowest payout as best', () => {
+    const pep = variant({ ticker: 'PEP', forwardYield: 0.04, fundamentals: { ...ko.fundamentals, epsPayoutRatio: 0.5, fcfPayoutRatio: 0.6 } as DividendAnalysis['fundamentals'] });
+    const comparison = ComparisonService.compare([ko, pep]);
+
+    expect(row(comparison, 'forwardYield').best).toEqual(['PEP']);
+    expect(row(comparison, 'epsPayoutRatio').best).toEqual(['PEP']);
+    expect(row(comparison, 'price').best).toEqual([]);
+  });
+
+  it('should not highlight ties, missing values or negative payouts', () => {
+    const loss = variant({ ticker: 'LOSS', cagr3: null, fundamentals: { ...ko.fundamentals, epsPayoutRatio: -0.4 } as DividendAnalysis['fundamentals'] });
+    const comparison = ComparisonService.compare([ko, loss]);
+
+    expect(row(comparison, 'totalScore').best).toEqual([]);
+    expect(row(comparison, 'cagr3')).toMatchObject({ best: [], values: { KO: ko.cagr3, LOSS: null } });
+    expect(row(comparison, 'epsPayoutRatio').best).toEqual([]);
+  });
+});
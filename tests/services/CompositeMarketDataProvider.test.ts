@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CompositeMarketDataProvider } from '../../packages/core/src/services/CompositeMarketDataProvider.js';
+import type { MarketDataProvider } from '../../packages/core/src/services/MarketDataProvider.js';
+import { Quote } from '../../packages/core/src/models/StockData.js';
+import { ConfigurationError } from '../../packages/core/src/errors/DivvyErrors.js';
+
+const createProvider = (name: string, price: number | null): MarketDataProvider => {
+  const fail = () => Promise.reject(new Error(`${name} unavailable`));
+  return {
+    name,
+    getQuote: price === null ? fail : () => Promise.resolve(new Quote({ regularMarketPrice: price })),
+    getDividendEvents: fail,
+    getFundamentals: fail,
+    getHistoricalPrices: fail,
+    getCompanyProfile: fail,
+    healthCheck: () => Promise.resolve({ available: price !== null, latency: 0 })
+  };
+};
+
+describe('CompositeMarketDataProvider', () => {
+  it('should use the first provider that succeeds', async () => {
+    const provider = CompositeMarketDataProvider.withFallback('test', [
+      createProvider('primary', 100),
+      createProvider('secondary', 200)
+    ]);
+
+    const quote = await provider.getQuote('KO');
+    expect(quote.price).toBe(100);
+  });
+
+  it('should fall back to the next provider on failure', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = CompositeMarketDataProvider.withFallback('test', [
+      createProvider('primary', null),
+      createProvider('secondary', 200)
+    ]);
+
+    const quote = await provider.getQuote('KO');
+    expect(quote.price).toBe(200);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it('should surface the last error when every provider fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = CompositeMarketDataProvider.withFallback('test', [
+      createProvider('primary', 100),
+      createProvider('secondary', 200)
+    ]);
+
+    await expect(provider.getFundamentals('KO')).rejects.toThrow('secondary unavailable');
+    warn.mockRestore();
+  });
+
+  it('should route capabilities independently', async () => {
+    const primary = createProvider('primary', 100);
+    const secondary = createProvider('secondary', 200);
+    const provider = new CompositeMarketDataProvider('test', {
+      quote: [secondary],
+      dividends: [primary],
+      fundamentals: [primary],
+      historicalPrices: [primary],
+      companyProfile: [primary]
+    });
+
+    const quote = await provider.getQuote('KO');
+    expect(quote.price).toBe(200);
+  });
+
+  it('should classify the quote with the profile provider\'s sector and industry', async () => {
+    const yahoo = {
+      ...createProvider('yahoo', 100),
+      getQuote: () => Promise.resolve(new Quote({ regularMarketPrice: 100, shortName: 'Bank', sector: 'Financial Services', industry: 'Credit Services' }))
+    };
+    const profile = { symbol: 'JPM', name: null, currency: null, exDividendDate: null, dividendDate: null };
+    const av = { ...createProvider('av', null), getCompanyProfile: vi.fn().mockResolvedValue({ ...profile, sector: 'FINANCE', industry: 'NATIONAL COMMERCIAL BANKS' }) };
+    const routes = { quote: [yahoo], dividends: [yahoo], fundamentals: [yahoo], historicalPrices: [av, yahoo], companyProfile: [av, yahoo] };
+
+    const quote = await new CompositeMarketDataProvider('av', routes, { classifyWith: av }).getQuote('JPM');
+    expect(quote).toMatchObject({ price: 100, name: 'Bank', sector: 'FINANCE', industry: 'NATIONAL COMMERCIAL BANKS' });
+    expect(av.getCompanyProfile).toHaveBeenCalledWith('JPM');
+
+    const unclassified = await new CompositeMarketDataProvider('auto', routes).getQuote('JPM');
+    expect(unclassified.industry).toBe('Credit Services');
+  });
+
+  it('should keep the quote\'s sector when the profile fails or lacks one', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const yahoo = {
+      ...createProvider('yahoo', 100),
+      getQuote: () => Promise.resolve(new Quote({ regularMarketPrice: 100, sector: 'Utilities', industry: 'Utilities - Regulated Electric' }))
+    };
+    const failing = createProvider('av', null);
+    const partial = { ...failing, getCompanyProfile: () => Promise.resolve({ symbol: 'SO', name: null, sector: 'UTILITIES', industry: null, currency: null, exDividendDate: null, dividendDate: null }) };
+    const routes = { quote: [yahoo], dividends: [yahoo], fundamentals: [yahoo], historicalPrices: [yahoo], companyProfile: [yahoo] };
+
+    expect((await new CompositeMarketDataProvider('av', routes, { classifyWith: failing }).getQuote('SO')).sector).toBe('Utilities');
+    expect(warn).toHaveBeenCalledOnce();
+    expect((await new CompositeMarketDataProvider('av', routes, { classifyWith: partial }).getQuote('SO')).sector).toBe('Utilities');
+    warn.mockRestore();
+  });
+
+  it('should reject a capability without providers', () => {
+    expect(() => new CompositeMarketDataProvider('test', {
+      quote: [],
+      dividends: [],
+      fundamentals: [],
+      historicalPrices: [],
+      companyProfile: []
+    })).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fileURLToPath } from 'url';
+import { getSupabase } from '../../packages/core/src/supabase/supabaseClient.js';
+import { DatabaseService, type AnalysisRecord } from '../../packages/core/src/services/DatabaseService.js';
+import { DividendAnalysisService } from '../../packages/core/src/services/DividendAnalysisService.js';
+import { FixtureMarketDataProvider } from '../../packages/core/src/services/FixtureMarketDataProvider.js';
+import type { DividendAnalysis } from '../../packages/core/src/models/DividendAnalysis.js';
+import type { LeaderboardQuery } from '../../packages/core/src/models/Leaderboard.js';
+
+vi.mock('../../packages/core/src/supabase/supabaseClient.js', () => ({ getSupabase: vi.fn() }));
+
+const fixturesDir = fileURLToPath(new URL('../fixtures/market-data', import.meta.url));
+
+/**
+ * A leaderboard_daily table of `total` rows that answers like PostgREST,
+ * including its 416 for a range that starts past the end
+ */
+function leaderboardTable(total: number) {
+  return {
+    from: () => {
+      let head = false;
+      let range: [number, number] | null = null;
+      const builder = {
+        select: (_columns: string, options: { head?: boolean }) => {
+          head = options.head ?? false;
+          return builder;
+        },
+        eq: () => builder,
+        ilike: () => builder,
+        gte: () => builder,
+        order: () => builder,
+        range: (from: number, to: number) => {
+          range = [from, to];
+          return builder;
+        },
+        then: (resolve: (result: unknown) => unknown) => {
+          if (head) {
+            return resolve({ data: null, error: null, count: total });
+          }
+          if (range && range[0] >= total) {
+            return resolve({ data: null, error: { code: 'PGRST103', message: 'Requested range not satisfiable' }, count: null });
+          }
+          const [from, to] = range ?? [0, total - 1];
+          const rows = Array.from({ length: Math.min(to, total - 1) - from + 1 }, (_, i) => ({ rank: from + i + 1 }));
+          return resolve({ data: rows, error: null, count: total });
+        }
+      };
+      return builder;
+    }
+  };
+}
+
+/**
+ * Mirrors the record saveAnalysis writes, via a JSON round trip like the database
+ */
+function toRecord(analysis: DividendAnalysis, requiredReturn: number): AnalysisRecord {
+  const raw = JSON.parse(JSON.stringify({ analysis, options: { requiredReturn } }));
+  return {
+    id: 'a1',
+    ticker_id: 't1',
+    observed_at: '2024-06-30T00:00:00.000Z',
+    options_hash: 'hash',
+    price: analysis.quote.price,
+    ttm_div: analysis.ttmDividends,
+    ttm_yield: analysis.ttmYield,
+    forward_yield: analysis.forwardYield,
+    cagr3: analysis.cagr3,
+    cagr5: analysis.cagr5,
+    safe_growth: analysis.safeGrowth,
+    streak: analysis.streak,
+    payout_eps: null,
+    payout_fcf: null,
+    fcf_coverage: null,
+    ddm_price: analysis.valuation.ddmPrice,
+    ddm_upside: analysis.valuation.upside,
+    required_return: analysis.valuation.requiredReturn,
+    ddm_growth: analysis.valuation.growth,
+    score_payout: null,
+    score_fcf: null,
+    score_streak: null,
+    score_growth: null,
+    score_total: analysis.totalScore,
+    raw
+  };
+}
+
+describe('DatabaseService', () => {
+  let analysis: DividendAnalysis;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    analysis = await new DividendAnalysisService()
+      .analyze('KO', 15, 0.08, false, false, new FixtureMarketDataProvider(fixturesDir));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('queryLeaderboard', () => {
+    const query = (page: number): LeaderboardQuery => ({
+      date: '2024-06-30', sector: null, minYield: null, minStreak: null, sort: 'rank', page, pageSize: 20
+    });
+
+    it('should return a page of rows with the filtered total', async () => {
+      vi.mocked(getSupabase).mockReturnValue(leaderboardTable(45) as any);
+
+      const result = await DatabaseService.queryLeaderboard(query(3));
+
+      expect(result.total).toBe(45);
+      expect(result.records.map(record => record.rank)).toEqual([41, 42, 43, 44, 45]);
+    });
+
+    it('should answer a page past the end with no rows and the filtered total', async () => {
+      vi.mocked(getSupabase).mockReturnValue(leaderboardTable(45) as any);
+
+      await expect(DatabaseService.queryLeaderboard(query(4))).resolves.toEqual({ date: '2024-06-30', records: [], total: 45 });
+    });
+  });
+
+  describe('hydrateAnalysisFromRecord', () => {
+    it('should restore the stored valuation', () => {
+      const hydrated = DatabaseService.hydrateAnalysisFromRecord(toRecord(analysis, 0.08));
+
+      expect(analysis.valuation.ddmPrice).not.toBeNull();
+      expect(hydrated.valuation).toEqual(analysis.valuation);
+    });
+
+    it('should rebuild the valuation for records saved before it was stored', () => {
+      const record = toRecord(analysis, 0.08);
+      delete record.raw.analysis.valuation;
+      record.required_return = null;
+
+      const hydrated = DatabaseService.hydrateAnalysisFromRecord(record);
+
+      expect(hydrated.valuation.requiredReturn).toBe(0.08);
+      expect(hydrated.valuation.ddmPrice).toBeCloseTo(analysis.valuation.ddmPrice!, 8);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { DividendCalendarService } from '../../packages/core/src/services/DividendCalendarService.js';
+import { DividendEvent } from '../../packages/core/src/models/StockData.js';
+import type { CompanyProfile } from '../../packages/core/src/services/MarketDataProvider.js';
+import type { Holding } from '../../packages/core/src/models/Portfolio.js';
+
+const from = new Date('2024-06-30T00:00:00.000Z');
+const to = DividendCalendarService.addMonths(from, 12);
+const iso = (date: Date) => date.toISOString().slice(0, 10);
+
+const events = (dates: string[], amount = 0.5) => dates.map(date => new DividendEvent({ date, amount }));
+
+const quarterly = events(['2023-03-14', '2023-06-14', '2023-09-14', '2023-11-30', '2024-03-14', '2024-06-14']);
+
+const profile = (exDividendDate: string | null, dividendDate: string | null): CompanyProfile => ({
+  symbol: 'KO', name: null, sector: null, industry: null, currency: null, exDividendDate, dividendDate
+});
+
+describe('DividendCalendarService', () => {
+  it('should repeat the last year of a quarterly cadence', () => {
+    const schedule = DividendCalendarService.schedule('KO', quarterly, null, from, to);
+
+    expect(schedule).toMatchObject({ frequency: 'quarterly', paymentsPerYear: 4, lastAmount: 0.5, payLagDays: DividendCalendarService.DEFAULT_PAY_LAG_DAYS });
+    expect(schedule.entries.map(entry => iso(entry.exDate))).toEqual(['2024-09-14', '2024-11-30', '2025-03-14', '2025-06-14']);
+    expect(iso(schedule.entries[0].payDate)).toBe('2024-09-28');
+    expect(schedule.entries.every(entry => entry.source === 'projected')).toBe(true);
+  });
+
+  it('should detect monthly payers', () => {
+    const monthly = events(Array.from({ length: 12 }, (_, i) => `2023-${String(i + 1).padStart(2, '0')}-15`)
+      .concat(['2024-01-15', '2024-02-15', '2024-03-15', '2024-04-15', '2024-05-15', '2024-06-15']));
+    const schedule = DividendCalendarService.schedule('O', monthly, null, from, to);
+
+    expect(schedule.frequency).toBe('monthly');
+    expect(schedule.entries).toHaveLength(12);
+    expect(iso(schedule.entries[0].exDate)).toBe('2024-07-15');
+  });
+
+  it('should confirm a projected date with the announced one and use its pay lag', () => {
+    const schedule = DividendCalendarService.schedule('KO', quarterly, profile('2024-09-13', '2024-10-01'), from, to);
+
+    expect(schedule.payLagDays).toBe(18);
+    expect(schedule.entries[0]).toMatchObject({ source: 'confirmed' });
+    expect(iso(schedule.entries[0].exDate)).toBe('2024-09-13');
+    expect(iso(schedule.entries[0].payDate)).toBe('2024-10-01');
+    expect(schedule.notes).toEqual([]);
+  });
+
+  it('should flag an announced date that disagrees with the cadence', () => {
+    const schedule = DividendCalendarService.schedule('KO', quarterly, profile('2024-08-20', null), from, to);
+
+    expect(schedule.entries[0]).toMatchObject({ source: 'provider' });
+    expect(iso(schedule.entries[0].exDate)).toBe('2024-08-20');
+    expect(schedule.entries).toHaveLength(4);
+    expect(schedule.notes[0]).toContain('cadence projected 2024-09-14');
+  });
+
+  it('should project nothing for stale or missing history', () => {
+    const stale = DividendCalendarService.schedule('XYZ', events(['2022-03-01', '2022-06-01', '2022-09-01']), null, from, to);
+    const none = DividendCalendarService.schedule('GOOG', [], null, from, to);
+
+    expect(stale.entries).toEqual([]);
+    expect(stale.notes[0]).toContain('may be suspended');
+    expect(none).toMatchObject({ frequency: null, entries: [], notes: ['No dividend history'] });
+  });
+
+  it('should total expected cash by month and holding', () => {
+    const schedule = DividendCalendarService.schedule('KO', quarterly, null, from, to);
+    const holdings: Holding[] = [
+      { ticker: 'KO', shares: 100, costBasis: 5000, account: 'IRA' },
+      { ticker: 'KO', shares: 20, costBasis: 1000, account: null }
+    ];
+    const calendar = DividendCalendarService.calendar([schedule], holdings, from, to);
+
+    expect(calendar.entries[0]).toMatchObject({ shares: 120, expectedCash: 60 });
+    expect(calendar.totalCash).toBeCloseTo(240, 8);
+    expect(calendar.holdings.map(item => item.expectedCash)).toEqual([200, 40]);
+    expect(calendar.monthlyCash.map(item => item.month)).toEqual(['2024-09', '2024-12', '2025-03', '2025-06']);
+  });
+
+  it('should leave cash empty for a plain ticker list', () => {
+    const calendar = DividendCalendarService.calendar([DividendCalendarService.schedule('KO', quarterly, null, from, to)], null, from, to);
+
+    expect(calendar.totalCash).toBeNull();
+    expect(calendar.entries[0].expectedCash).toBeNull();
+    expect(calendar.monthlyCash).toEqual([]);
+  });
+});
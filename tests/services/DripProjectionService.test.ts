@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { fileURLToPath } from 'url';
+import { DripProjectionService } from '../../packages/core/src/services/DripProjectionService.js';
+import { FixtureMarketDataProvider } from '../../packages/core/src/services/FixtureMarketDataProvider.js';
+import { DividendAnalysisService } from '../../packages/core/src/services/DividendAnalysisService.js';
+import { DataQualityError, ValidationError } from '../../packages/core/src/errors/DivvyErrors.js';
+import type { DividendAnalysis } from '../../packages/core/src/models/DividendAnalysis.js';
+
+const fixturesDir = fileURLToPath(new URL('../fixtures/market-data', import.meta.url));
+
+describe('DripProjectionService', () => {
+  let ko: DividendAnalysis;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    ko = await new DividendAnalysisService().analyze('KO', 15, 0.09, false, false, new FixtureMarketDataProvider(fixturesDir));
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should default to the analysis dividend, safe growth and a constant yield', () => {
+    const projection = DripProjectionService.project(ko, DripProjectionService.parseOptions({}));
+
+    expect(projection.assumptions).toMatchObject({
+      shares: DripProjectionService.DEFAULT_SHARES,
+      price: ko.quote.price,
+      costBasis: DripProjectionService.DEFAULT_SHARES * ko.quote.price,
+      dividend: ko.forwardDividend,
+      dividendGrowth: ko.safeGrowth,
+      priceGrowth: ko.safeGrowth,
+      years: DripProjectionService.DEFAULT_YEARS
+    });
+    expect(projection.drip).toHaveLength(DripProjectionService.DEFAULT_YEARS);
+    expect(projection.cash).toBeNull();
+  });
+
+  it('should show reinvesting ahead of taking cash when compared', () => {
+    const projection = DripProjectionService.project(ko, DripProjectionService.parseOptions({
+      shares: '10',
+      costBasis: '400',
+      years: '20',
+      priceGrowth: '0.02',
+      compare: true
+    }));
+    const last = projection.drip.length - 1;
+
+    expect(projection.drip[0].yieldOnCost).toBeCloseTo(projection.drip[0].income / 400, 8);
+    expect(projection.drip[last].totalValue).toBeGreaterThan(projection.cash![last].totalValue);
+    expect(projection.drip[last].income).toBeGreaterThan(projection.cash![last].income);
+  });
+
+  it('should validate settings', () => {
+    expect(() => DripProjectionService.parseOptions({ shares: '0' })).toThrow(ValidationError);
+    expect(() => DripProjectionService.parseOptions({ years: String(DripProjectionService.MAX_YEARS + 1) })).toThrow(ValidationError);
+    expect(() => DripProjectionService.parseOptions({ priceGrowth: 'fast' })).toThrow(ValidationError);
+  });
+
+  it('should refuse positions without a dividend', () => {
+    const nonPayer = { ...ko, forwardDividend: 0 } as DividendAnalysis;
+    expect(() => DripProjectionService.project(nonPayer, DripProjectionService.parseOptions({}))).toThrow(DataQualityError);
+  });
+});
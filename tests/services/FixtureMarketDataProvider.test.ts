@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fileURLToPath } from 'url';
+import { FixtureMarketDataProvider } from '../../packages/core/src/services/FixtureMarketDataProvider.js';
+import { DividendAnalysisService } from '../../packages/core/src/services/DividendAnalysisService.js';
+import { ConfigurationError, TickerNotFoundError } from '../../packages/core/src/errors/DivvyErrors.js';
+
+const fixturesDir = fileURLToPath(new URL('../fixtures/market-data', import.meta.url));
+
+describe('FixtureMarketDataProvider', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should read the frozen clock from the manifest', () => {
+    const provider = new FixtureMarketDataProvider(fixturesDir);
+    expect(provider.asOf.toISOString()).toBe('2024-06-30T00:00:00.000Z');
+  });
+
+  it('should reject a directory without a manifest', () => {
+    expect(() => new FixtureMarketDataProvider('/nonexistent')).toThrow(ConfigurationError);
+  });
+
+  it('should limit dividend history relative to asOf', async () => {
+    const provider = new FixtureMarketDataProvider(fixturesDir);
+    const events = await provider.getDividendEvents('KO', 3);
+
+    expect(events.every(e => e.date.getUTCFullYear() >= 2021)).toBe(true);
+    expect(events.every(e => e.date <= provider.asOf)).toBe(true);
+  });
+
+  it('should throw TickerNotFoundError for tickers without fixtures', async () => {
+    const provider = new FixtureMarketDataProvider(fixturesDir);
+    await expect(provider.getQuote('NOPE')).rejects.toThrow(TickerNotFoundError);
+  });
+
+  it('should produce identical analyses across runs', async () => {
+    const service = new DividendAnalysisService();
+
+    const first = await service.analyze('KO', 15, 0.09, false, false, new FixtureMarketDataProvider(fixturesDir));
+    const second = await service.analyze('KO', 15, 0.09, false, false, new FixtureMarketDataProvider(fixturesDir));
+
+    expect(JSON.stringify(second)).toBe(JSON.stringify(first));
+    expect(first.ttmDividends).toBeCloseTo(0.485 * 2 + 0.46 * 2, 6);
+    expect(first.ema.ema200).not.toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { HistoryService } from '../../packages/core/src/services/HistoryService.js';
+import { DatabaseService, type AnalysisRecord } from '../../packages/core/src/services/DatabaseService.js';
+import { DividendAnalysisService } from '../../packages/core/src/services/DividendAnalysisService.js';
+import { ValidationError } from '../../packages/core/src/errors/DivvyErrors.js';
+
+describe('HistoryService', () => {
+  const record = (observedAt: string, overrides: Partial<AnalysisRecord> = {}): AnalysisRecord => ({
+    id: `analysis-${observedAt}`,
+    ticker_id: 'ticker-ko',
+    observed_at: observedAt,
+    options_hash: 'hash',
+    price: 60,
+    ttm_div: 1.9,
+    ttm_yield: 0.0317,
+    forward_yield: 0.0323,
+    cagr3: 0.045,
+    cagr5: 0.04,
+    safe_growth: 0.04,
+    streak: 62,
+    payout_eps: 0.75,
+    payout_fcf: 0.8,
+    fcf_coverage: 1.25,
+    ddm_price: 55,
+    ddm_upside: -0.08,
+    required_return: 0.09,
+    ddm_growth: 0.04,
+    score_payout: 20,
+    score_fcf: 15,
+    score_streak: 25,
+    score_growth: 10,
+    score_total: 70,
+    raw: { analysis: { scores: { trend: 79.6, macd: 50, rsi: 41.2 } } },
+    ...overrides
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should order snapshots oldest first', async () => {
+    const spy = vi.spyOn(DatabaseService, 'getAnalysisHistory').mockResolvedValue([
+      record('2024-06-28T22:30:00.000Z'),
+      record('2024-06-27T22:30:00.000Z'),
+      record('2024-06-26T22:30:00.000Z')
+    ]);
+
+    const history = await HistoryService.fetch('ko', 10);
+
+    expect(spy).toHaveBeenCalledWith('ko', 10, DividendAnalysisService.optionsHash());
+    expect(history).toMatchObject({ ticker: 'KO', optionsHash: DividendAnalysisService.optionsHash() });
+    expect(history.snapshots.map(snapshot => snapshot.observedAt.toISOString())).toEqual([
+      '2024-06-26T22:30:00.000Z',
+      '2024-06-27T22:30:00.000Z',
+      '2024-06-28T22:30:00.000Z'
+    ]);
+  });
+
+  it('should only compare analyses saved with the requested settings', () => {
+    expect(HistoryService.parseOptionsHash({})).toBe(DividendAnalysisService.optionsHash());
+    expect(HistoryService.parseOptionsHash({ years: '15', requiredReturn: '0.09', provider: 'yahoo', profile: 'default' }))
+      .toBe(DividendAnalysisService.optionsHash());
+    expect(HistoryService.parseOptionsHash({ profile: 'growth' })).not.toBe(DividendAnalysisService.optionsHash());
+    expect(HistoryService.parseOptionsHash({ requiredReturn: '0.12' })).not.toBe(DividendAnalysisService.optionsHash());
+    expect(() => HistoryService.parseOptionsHash({ provider: 'nope' })).toThrow(ValidationError);
+  });
+
+  it('should map every stored metric', () => {
+    expect(HistoryService.toSnapshot(record('2024-06-28T22:30:00.000Z'))).toEqual({
+      observedAt: new Date('2024-06-28T22:30:00.000Z'),
+      price: 60,
+      ttmYield: 0.0317,
+      forwardYield: 0.0323,
+      totalScore: 70,
+      payoutScore: 20,
+      fcfScore: 15,
+      streakScore: 25,
+      growthScore: 10,
+      trendScore: 80,
+      macdScore: 50,
+      rsiScore: 41
+    });
+  });
+
+  it('should leave indicator scores empty for analyses saved without them', () => {
+    expect(HistoryService.toSnapshot(record('2024-06-28T22:30:00.000Z', { raw: {} }))).toMatchObject({ trendScore: null, macdScore: null, rsiScore: null });
+  });
+
+  it('should summarize the change between the latest two snapshots', async () => {
+    vi.spyOn(DatabaseService, 'getAnalysisHistory').mockResolvedValue([
+      record('2024-06-28T22:30:00.000Z', { price: 63, score_total: 72, score_growth: 12, ttm_yield: null }),
+      record('2024-06-27T22:30:00.000Z'),
+      record('2024-06-20T22:30:00.000Z', { price: 10 })
+    ]);
+
+    const { changes } = await HistoryService.fetch('KO');
+    const byMetric = Object.fromEntries(changes!.map(change => [change.metric, change]));
+
+    expect(byMetric.price).toMatchObject({ previous: 60, latest: 63, change: 3 });
+    expect(byMetric.price.relativeChange).toBeCloseTo(0.05, 10);
+    expect(byMetric.totalScore).toMatchObject({ previous: 70, latest: 72, change: 2 });
+    expect(byMetric.growthScore.change).toBe(2);
+    expect(byMetric.fcfScore.change).toBe(0);
+    expect(byMetric.ttmYield).toEqual({ metric: 'ttmYield', previous: 0.0317, latest: null, change: null, relativeChange: null });
+  });
+
+  it('should leave the change summary empty with fewer than two snapshots', async () => {
+    vi.spyOn(DatabaseService, 'getAnalysisHistory').mockResolvedValue([record('2024-06-28T22:30:00.000Z')]);
+
+    expect((await HistoryService.fetch('KO')).changes).toBeNull();
+    expect(HistoryService.compare([])).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LeaderboardService } from '../../packages/core/src/services/LeaderboardService.js';
+import { DatabaseService, type LeaderboardRecord } from '../../packages/core/src/services/DatabaseService.js';
+import { ValidationError } from '../../packages/core/src/errors/DivvyErrors.js';
+
+describe('LeaderboardService', () => {
+  const record: LeaderboardRecord = {
+    as_of_date: '2024-06-28',
+    ticker_id: 'ticker-ko',
+    symbol: 'KO',
+    name: 'The Coca-Cola Company',
+    sector: 'Consumer Defensive',
+    score: 72,
+    forward_yield: 0.031,
+    ttm_yield: 0.03,
+    streak: 62,
+    price: 63.65,
+    ddm_price: 58.2,
+    margin_of_safety: -0.086,
+    rank: 4
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('parseQuery', () => {
+    it('should default to the latest day, sorted by score', () => {
+      expect(LeaderboardService.parseQuery({})).toEqual({
+        date: null,
+        sector: null,
+        minYield: null,
+        minStreak: null,
+        sort: 'score',
+        page: 1,
+        pageSize: LeaderboardService.DEFAULT_PAGE_SIZE
+      });
+    });
+
+    it('should parse string filters like query parameters', () => {
+      const query = LeaderboardService.parseQuery({
+        date: '2024-06-28',
+        sector: ' Utilities ',
+        minYield: '0.03',
+        minStreak: '10',
+        sort: 'marginOfSafety',
+        page: '3',
+        limit: '50'
+      });
+
+      expect(query).toEqual({ date: '2024-06-28', sector: 'Utilities', minYield: 0.03, minStreak: 10, sort: 'marginOfSafety', page: 3, pageSize: 50 });
+    });
+
+    it('should treat empty parameters as unset', () => {
+      expect(LeaderboardService.parseQuery({ date: '', sector: '', minYield: '', page: '' })).toEqual(LeaderboardService.parseQuery({}));
+    });
+
+    it('should reject invalid filters', () => {
+      expect(() => LeaderboardService.parseQuery({ sort: 'yield' })).toThrow(ValidationError);
+      expect(() => LeaderboardService.parseQuery({ date: '2024-02-30' })).toThrow(ValidationError);
+      expect(() => LeaderboardService.parseQuery({ date: '28/06/2024' })).toThrow(ValidationError);
+      expect(() => LeaderboardService.parseQuery({ minYield: '-0.01' })).toThrow(ValidationError);
+      expect(() => LeaderboardService.parseQuery({ page: '0' })).toThrow(ValidationError);
+      expect(() => LeaderboardService.parseQuery({ limit: String(LeaderboardService.MAX_PAGE_SIZE + 1) })).toThrow(ValidationError);
+    });
+  });
+
+  describe('fetch', () => {
+    it('should map records to entries and count pages', async () => {
+      const spy = vi.spyOn(DatabaseService, 'queryLeaderboard').mockResolvedValue({ date: '2024-06-28', records: [record], total: 51 });
+      const query = LeaderboardService.parseQuery({ sector: 'Consumer Defensive' });
+
+      const page = await LeaderboardService.fetch(query);
+
+      expect(spy).toHaveBeenCalledWith(query);
+      expect(page.date).toBe('2024-06-28');
+      expect(page.totalPages).toBe(3);
+      expect(page.entries).toEqual([{
+        rank: 4,
+        ticker: 'KO',
+        name: 'The Coca-Cola Company',
+        sector: 'Consumer Defensive',
+        score: 72,
+        forwardYield: 0.031,
+        ttmYield: 0.03,
+        streak: 62,
+        price: 63.65,
+        ddmPrice: 58.2,
+        marginOfSafety: -0.086
+      }]);
+    });
+
+    it('should return an empty page before the first refresh', async () => {
+      vi.spyOn(DatabaseService, 'queryLeaderboard').mockResolvedValue({ date: null, records: [], total: 0 });
+
+      const page = await LeaderboardService.fetch(LeaderboardService.parseQuery({}));
+
+      expect(page).toMatchObject({ date: null, entries: [], total: 0, totalPages: 0 });
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer as createHttpServer, type Server as HttpServer } from 'http';
+import { createServer as createTcpServer, type Server as TcpServer } from 'net';
+import type { AddressInfo } from 'net';
+import { NotificationService } from '../../packages/core/src/services/NotificationService.js';
+import { ConfigurationError, ValidationError } from '../../packages/core/src/errors/DivvyErrors.js';
+import type { Alert } from '../../packages/core/src/models/Watchlist.js';
+
+const alert: Alert = {
+  watchlist: 'income',
+  ticker: 'KO',
+  rule: { type: 'scoreFloor', min: 70 },
+  ruleKey: 'score<70',
+  condition: 'below',
+  value: 67,
+  message: 'KO score 67 fell below the floor of 70',
+  triggeredAt: new Date('2024-06-30T12:00:00.000Z')
+};
+const notification = { watchlist: 'income', alerts: [alert], sentAt: new Date('2024-06-30T12:00:00.000Z') };
+const retry = { baseDelayMs: 1, maxDelayMs: 1, jitterFactor: 0 };
+
+const listen = async <T extends HttpServer | TcpServer>(server: T): Promise<T> => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return server;
+};
+const port = (server: HttpServer | TcpServer) => (server.address() as AddressInfo).port;
+const close = (server: HttpServer | TcpServer) => new Promise(resolve => server.close(resolve));
+
+describe('NotificationService', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('validateChannel', () => {
+    it('should default the webhook secret variable and normalize addresses', () => {
+      expect(NotificationService.validateChannel({ type: 'webhook', url: 'https://example.com/hook' }))
+        .toEqual({ type: 'webhook', url: 'https://example.com/hook', secretEnv: 'DIVVY_WEBHOOK_SECRET' });
+      expect(NotificationService.validateChannel({ type: 'email', to: [' me@example.com '] }))
+        .toEqual({ type: 'email', to: ['me@example.com'] });
+    });
+
+    it('should reject unknown channels, bad URLs and bad addresses', () => {
+      expect(() => NotificationService.validateChannel({ type: 'sms' })).toThrow(ValidationError);
+      expect(() => NotificationService.validateChannel({ type: 'webhook', url: 'ftp://example.com' })).toThrow(ValidationError);
+      expect(() => NotificationService.validateChannel({ type: 'email', to: ['not-an-address'] })).toThrow(ValidationError);
+    });
+  });
+
+  describe('webhook', () => {
+    let server: HttpServer;
+    let requests: Array<{ headers: Record<string, string | string[] | undefined>; body: string }>;
+    let statuses: number[];
+
+    beforeAll(async () => {
+      server = await listen(createHttpServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          requests.push({ headers: req.headers, body });
+          res.statusCode = statuses.shift() ?? 200;
+          res.end();
+        });
+      }));
+    });
+
+    afterAll(async () => {
+      await close(server);
+    });
+
+    beforeEach(() => {
+      requests = [];
+      statuses = [];
+    });
+
+    const channel = () => ({ type: 'webhook' as const, url: `http://127.0.0.1:${port(server)}/hook`, secretEnv: 'TEST_SECRET' });
+
+    it('should POST the alerts with a verifiable HMAC signature', async () => {
+      const deliveries = await NotificationService.deliver([channel()], notification, { dryRun: false, env: { TEST_SECRET: 's3cret' }, retry });
+
+      expect(deliveries).toEqual([expect.objectContaining({ status: 'sent', attempts: 1, error: null })]);
+      expect(requests).toHaveLength(1);
+
+      const { headers, body } = requests[0];
+      const timestamp = headers['x-divvy-timestamp'] as string;
+      expect(timestamp).toBe(String(Date.parse('2024-06-30T12:00:00.000Z') / 1000));
+      expect(headers['x-divvy-signature']).toBe(NotificationService.sign('s3cret', timestamp, body));
+      expect(JSON.parse(body)).toMatchObject({
+        event: 'divvy.alerts',
+        watchlist: 'income',
+        alerts: [{ ticker: 'KO', rule: 'score<70', condition: 'below', value: 67 }]
+      });
+    });
+
+    it('should retry server errors but not client errors', async () => {
+      statuses = [503, 200];
+      const retried = await NotificationService.deliver([channel()], notification, { dryRun: false, env: { TEST_SECRET: 'x' }, retry });
+      expect(retried[0]).toMatchObject({ status: 'sent', attempts: 2 });
+
+      statuses = [401];
+      const rejected = await NotificationService.deliver([channel()], notification, { dryRun: false, env: { TEST_SECRET: 'x' }, retry });
+      expect(rejected[0]).toMatchObject({ status: 'failed', attempts: 1 });
+      expect(rejected[0].error).toContain('401');
+    });
+
+    it('should fail without the secret and send nothing in dry-run mode', async () => {
+      const missing = await NotificationService.deliver([channel()], notification, { dryRun: false, env: {}, retry });
+      expect(missing[0]).toMatchObject({ status: 'failed', attempts: 0 });
+      expect(missing[0].error).toContain('TEST_SECRET');
+
+      const dryRun = await NotificationService.deliver([channel()], notification, { dryRun: true, env: {} });
+      expect(dryRun[0]).toMatchObject({ status: 'dry-run', attempts: 0, alerts: 1 });
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should resend pending alerts only to the channel that failed', async () => {
+      const working = channel();
+      const broken = { ...channel(), url: `${channel().url}/broken`, secretEnv: 'BROKEN_SECRET' };
+
+      const first = await NotificationService.deliver([working, broken], notification, { dryRun: false, env: { TEST_SECRET: 'x' }, retry });
+      expect(first.map(delivery => delivery.status)).toEqual(['sent', 'failed']);
+
+      const pending = NotificationService.undelivered([working, broken], notification, first);
+      expect(pending).toEqual([{ channel: `webhook ${broken.url}`, alerts: [alert] }]);
+
+      requests = [];
+      const later = { ...notification, alerts: [] };
+      const retried = await NotificationService.deliver([working, broken], later, { dryRun: false, env: { TEST_SECRET: 'x', BROKEN_SECRET: 'y' }, retry, pending });
+
+      expect(retried).toEqual([expect.objectContaining({ channel: `webhook ${broken.url}`, status: 'sent', alerts: 1 })]);
+      expect(requests).toHaveLength(1);
+      expect(NotificationService.undelivered([working, broken], later, retried, pending)).toEqual([]);
+    });
+
+    it('should not resend a pending alert twice when it fires again', () => {
+      const pending = [{ channel: `webhook ${channel().url}`, alerts: [alert] }];
+      expect(NotificationService.channelAlerts(channel(), notification, pending)).toEqual([alert]);
+    });
+
+    it('should not notify without alerts', async () => {
+      expect(await NotificationService.deliver([channel()], { ...notification, alerts: [] }, { dryRun: false, retry })).toEqual([]);
+    });
+  });
+
+  describe('email', () => {
+    let server: TcpServer;
+    let messages: Array<{ from: string; to: string[]; data: string; auth: string | null }>;
+    let rejectRecipients: string | null;
+
+    beforeAll(async () => {
+      // Just enough SMTP to accept a message
+      server = await listen(createTcpServer(socket => {
+        const message = { from: '', to: [] as string[], data: '', auth: null as string | null };
+        let buffer = '';
+        let inData = false;
+
+        socket.setEncoding('utf8');
+        socket.write('220 localhost ESMTP test\r\n');
+        socket.on('data', (chunk: string) => {
+          buffer += chunk;
+          let end: number;
+          while ((end = buffer.indexOf('\r\n')) >= 0) {
+            const line = buffer.slice(0, end);
+            buffer = buffer.slice(end + 2);
+
+            if (inData) {
+              if (line === '.') {
+                inData = false;
+                messages.push({ ...message, to: [...message.to] });
+                socket.write('250 queued\r\n');
+              } else {
+                message.data += `${line}\n`;
+              }
+            } else if (line.startsWith('EHLO')) {
+              socket.write('250-localhost\r\n250 AUTH PLAIN\r\n');
+            } else if (line.startsWith('AUTH PLAIN')) {
+              message.auth = Buffer.from(line.slice(11), 'base64').toString();
+              socket.write('235 ok\r\n');
+            } else if (line.startsWith('MAIL FROM:')) {
+              message.from = line.slice(10);
+              socket.write('250 ok\r\n');
+            } else if (line.startsWith('RCPT TO:')) {
+              socket.write(rejectRecipients ? `${rejectRecipients}\r\n` : '250 ok\r\n');
+              message.to.push(line.slice(8));
+            } else if (line === 'DATA') {
+              inData = true;
+              socket.write('354 go ahead\r\n');
+            } else if (line === 'QUIT') {
+              socket.end('221 bye\r\n');
+            }
+          }
+        });
+      }));
+    });
+
+    afterAll(async () => {
+      await close(server);
+    });
+
+    beforeEach(() => {
+      messages = [];
+      rejectRecipients = null;
+    });
+
+    const env = () => ({
+      DIVVY_SMTP_HOST: '127.0.0.1',
+      DIVVY_SMTP_PORT: String(port(server)),
+      DIVVY_SMTP_USER: 'alerts@example.com',
+      DIVVY_SMTP_PASS: 'pw',
+      // The stand-in server has no TLS
+      DIVVY_SMTP_ALLOW_PLAINTEXT_AUTH: 'true'
+    });
+
+    it('should send a plain-text message through the SMTP server', async () => {
+      const deliveries = await NotificationService.deliver(
+        [{ type: 'email', to: ['a@example.com', 'b@example.com'] }],
+        notification,
+        { dryRun: false, env: env(), retry }
+      );
+
+      expect(deliveries[0]).toMatchObject({ status: 'sent', channel: 'email a@example.com, b@example.com' });
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toMatchObject({ from: '<alerts@example.com>', to: ['<a@example.com>', '<b@example.com>'], auth: '\0alerts@example.com\0pw' });
+      expect(messages[0].data).toContain('Subject: [divvy] 1 alert on watchlist income');
+      expect(messages[0].data).toContain('- [score<70] KO score 67 fell below the floor of 70');
+    });
+
+    it('should not retry permanent rejections', async () => {
+      rejectRecipients = '550 no such user';
+      const deliveries = await NotificationService.deliver([{ type: 'email', to: ['a@example.com'] }], notification, { dryRun: false, env: env(), retry });
+
+      expect(deliveries[0]).toMatchObject({ status: 'failed', attempts: 1 });
+      expect(deliveries[0].error).toContain('550');
+      expect(messages).toHaveLength(0);
+    });
+
+    it('should refuse to send credentials without TLS unless allowed', async () => {
+      const { DIVVY_SMTP_ALLOW_PLAINTEXT_AUTH: _allowed, ...plaintext } = env();
+      const deliveries = await NotificationService.deliver([{ type: 'email', to: ['a@example.com'] }], notification, { dryRun: false, env: plaintext, retry });
+
+      expect(deliveries[0]).toMatchObject({ status: 'failed', attempts: 1 });
+      expect(deliveries[0].error).toContain('STARTTLS');
+      expect(messages).toHaveLength(0);
+    });
+
+    it('should require an SMTP host', () => {
+      expect(() => NotificationService.smtpSettings({})).toThrow(ConfigurationError);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { fileURLToPath } from 'url';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PortfolioService } from '../../packages/core/src/services/PortfolioService.js';
+import { FixtureMarketDataProvider } from '../../packages/core/src/services/FixtureMarketDataProvider.js';
+import { DividendAnalysisService } from '../../packages/core/src/services/DividendAnalysisService.js';
+import { ConfigurationError, TickerNotFoundError } from '../../packages/core/src/errors/DivvyErrors.js';
+import type { DividendAnalysis } from '../../packages/core/src/models/DividendAnalysis.js';
+import type { Holding } from '../../packages/core/src/models/Portfolio.js';
+
+const fixturesDir = fileURLToPath(new URL('../fixtures/market-data', import.meta.url));
+
+describe('PortfolioService', () => {
+  let ko: DividendAnalysis;
+  let pep: DividendAnalysis;
+  let dir: string;
+
+  const holding = (ticker: string, shares: number, costBasis: number, account: string | null = null): Holding =>
+    ({ ticker, shares, costBasis, account });
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    ko = await new DividendAnalysisService().analyze('KO', 15, 0.09, false, false, new FixtureMarketDataProvider(fixturesDir));
+    pep = {
+      ...ko,
+      ticker: 'PEP',
+      quote: { ...ko.quote, price: 100 },
+      ttmDividends: 5,
+      forwardDividend: 6,
+      totalScore: 40
+    } as DividendAnalysis;
+    dir = await mkdtemp(join(tmpdir(), 'divvy-portfolio-'));
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should total income, yield on cost and the value-weighted score', () => {
+    const summary = PortfolioService.summarize(
+      [holding('KO', 100, 5000, 'IRA'), holding('PEP', 10, 800)],
+      [{ ticker: 'KO', analysis: ko, error: null }, { ticker: 'PEP', analysis: pep, error: null }]
+    );
+    const koValue = ko.quote.price * 100;
+
+    expect(summary.positions[1]).toMatchObject({ marketValue: 1000, annualIncome: 50, forwardIncome: 60, yieldOnCost: 60 / 800 });
+    expect(summary.totals.costBasis).toBe(5800);
+    expect(summary.totals.marketValue).toBeCloseTo(koValue + 1000, 6);
+    expect(summary.totals.forwardIncome).toBeCloseTo(ko.forwardDividend * 100 + 60, 6);
+    expect(summary.totals.yieldOnCost).toBeCloseTo(summary.totals.forwardIncome / 5800, 8);
+    expect(summary.totals.weightedScore).toBeCloseTo((ko.totalScore * koValue + 40 * 1000) / (koValue + 1000), 6);
+  });
+
+  it('should group income concentration by ticker across accounts and by sector', () => {
+    const summary = PortfolioService.summarize(
+      [holding('KO', 50, 2500, 'IRA'), holding('KO', 50, 2500, 'Taxable'), holding('PEP', 10, 800)],
+      [{ ticker: 'KO', analysis: ko, error: null }, { ticker: 'PEP', analysis: { ...pep, quote: { ...pep.quote, sector: null } } as DividendAnalysis, error: null }]
+    );
+
+    expect(summary.concentration.byTicker.map(share => share.key)).toEqual(['KO', 'PEP']);
+    expect(summary.concentration.byTicker[0].income).toBeCloseTo(ko.forwardDividend * 100, 6);
+    expect(summary.concentration.bySector.map(share => share.key)).toEqual([ko.quote.sector, PortfolioService.UNKNOWN_SECTOR]);
+    expect(summary.concentration.bySector.reduce((sum, share) => sum + share.share, 0)).toBeCloseTo(1, 8);
+  });
+
+  it('should keep failed holdings out of the totals', () => {
+    const error = new TickerNotFoundError('NOPE');
+    const summary = PortfolioService.summarize(
+      [holding('KO', 10, 500), holding('NOPE', 5, 100)],
+      [{ ticker: 'KO', analysis: ko, error: null }, { ticker: 'NOPE', analysis: null, error }]
+    );
+
+    expect(summary.positions[1]).toMatchObject({ error, marketValue: null, forwardIncome: null });
+    expect(summary.totals.costBasis).toBe(500);
+    expect(summary.concentration.byTicker).toHaveLength(1);
+  });
+
+  it('should load and validate a holdings file', async () => {
+    const path = join(dir, 'holdings.json');
+    await writeFile(path, JSON.stringify({
+      holdings: [
+        { ticker: 'ko', shares: 10.5, costBasis: 500, account: ' IRA ' },
+        { ticker: 'KO', shares: 2, costBasis: 0 }
+      ]
+    }));
+
+    expect(PortfolioService.loadHoldingsFile(path)).toEqual([
+      holding('KO', 10.5, 500, 'IRA'),
+      holding('KO', 2, 0)
+    ]);
+  });
+
+  it('should reject invalid holdings with the offending entry', async () => {
+    const write = async (name: string, content: unknown) => {
+      const path = join(dir, name);
+      await writeFile(path, JSON.stringify(content));
+      return path;
+    };
+
+    const negative = await write('negative.json', { holdings: [{ ticker: 'KO', shares: -1, costBasis: 10 }] });
+    const duplicate = await write('duplicate.json', { holdings: [{ ticker: 'KO', shares: 1, costBasis: 10 }, { ticker: 'KO', shares: 2, costBasis: 20 }] });
+    const empty = await write('empty.json', { holdings: [] });
+
+    expect(() => PortfolioService.loadHoldingsFile(negative)).toThrow(/holdings\[0\]\.shares must be a positive number/);
+    expect(() => PortfolioService.loadHoldingsFile(duplicate)).toThrow(/KO is listed twice/);
+    expect(() => PortfolioService.loadHoldingsFile(empty)).toThrow(ConfigurationError);
+    expect(() => PortfolioService.loadHoldingsFile(join(dir, 'missing.json'))).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fileURLToPath } from 'url';
+import yahooFinance from 'yahoo-finance2';
+import { RefreshService, type RefreshOptions } from '../../packages/core/src/services/RefreshService.js';
+import { DatabaseService, type RefreshRunRecord } from '../../packages/core/src/services/DatabaseService.js';
+import { DividendAnalysisService } from '../../packages/core/src/services/DividendAnalysisService.js';
+import { FixtureMarketDataProvider } from '../../packages/core/src/services/FixtureMarketDataProvider.js';
+import { YahooFinanceService } from '../../packages/core/src/services/YahooFinanceService.js';
+import { DividendEliteDetector } from '../../packages/core/src/data/DividendAristocrats.js';
+import { ConfigurationError } from '../../packages/core/src/errors/DivvyErrors.js';
+import { DEFAULT_SCORING_PROFILE } from '../../packages/core/src/models/ScoringProfile.js';
+
+const fixturesDir = fileURLToPath(new URL('../fixtures/market-data', import.meta.url));
+
+describe('RefreshService', () => {
+  const options = (overrides: Partial<RefreshOptions> = {}): RefreshOptions => ({
+    years: 15,
+    requiredReturn: 0.09,
+    provider: new FixtureMarketDataProvider(fixturesDir),
+    profile: DEFAULT_SCORING_PROFILE,
+    concurrency: 1,
+    requestsPerSecond: 50,
+    maxRequests: null,
+    maxCacheAgeHours: 12,
+    record: false,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('universe', () => {
+    it('should combine the built-in lists, watchlists and extra tickers without duplicates', () => {
+      const tickers = RefreshService.universe(
+        ['kings', 'aristocrats', 'watchlists'],
+        [{ name: 'mine', tickers: ['KO', 'O'], rules: [], channels: [] }],
+        ['ko', 'VZ']
+      );
+      const elite = new Set([...DividendEliteDetector.getKings(), ...DividendEliteDetector.getAristocrats()]);
+
+      expect(tickers.slice(0, elite.size)).toEqual([...elite]);
+      expect(tickers.slice(elite.size)).toEqual(['O', 'VZ'].filter(ticker => !elite.has(ticker)));
+    });
+
+    it('should leave out watchlists unless asked', () => {
+      expect(RefreshService.universe([], [{ name: 'mine', tickers: ['O'], rules: [], channels: [] }], ['VZ'])).toEqual(['VZ']);
+    });
+  });
+
+  describe('run', () => {
+    it('should count refreshed and failed tickers without touching the database', async () => {
+      const run = await new RefreshService().run(['KO', 'NOPE'], options());
+
+      expect(run).toMatchObject({ id: null, status: 'partial', universe: 2, refreshed: 1, failed: 1, skipped: 0, leaderboardRefreshed: false });
+      expect(run.results[0]).toMatchObject({ ticker: 'KO', status: 'refreshed', error: null });
+      expect(run.results[0].totalScore).toBeGreaterThan(0);
+      expect(run.finishedAt).toBeInstanceOf(Date);
+    });
+
+    it('should skip the remaining tickers once the request budget is spent', async () => {
+      const run = await new RefreshService().run(['KO', 'KO.B'], options({ maxRequests: 4 }));
+
+      expect(run.results.map(result => result.status)).toEqual(['refreshed', 'skipped']);
+      expect(run).toMatchObject({ requests: 4, quotaExhausted: true, status: 'partial' });
+    });
+
+    it('should skip a ticker whose price history hits the budget instead of scoring it without indicators', async () => {
+      const save = vi.spyOn(DatabaseService, 'saveAnalysis');
+      const run = await new RefreshService().run(['KO'], options({ maxRequests: 3 }));
+
+      expect(run.results[0]).toMatchObject({ ticker: 'KO', status: 'skipped', totalScore: null });
+      expect(run).toMatchObject({ requests: 3, quotaExhausted: true, refreshed: 0 });
+      expect(save).not.toHaveBeenCalled();
+    });
+
+    it('should skip a ticker whose Yahoo fundamentals are rate limited instead of scoring fallback data', async () => {
+      const fixtures = new FixtureMarketDataProvider(fixturesDir);
+      const yahoo = new YahooFinanceService();
+      vi.spyOn(yahoo, 'getQuote').mockImplementation(ticker => fixtures.getQuote(ticker));
+      vi.spyOn(yahoo, 'getDividendEvents').mockImplementation((ticker, years) => fixtures.getDividendEvents(ticker, years));
+      vi.spyOn(yahoo, 'getHistoricalPrices').mockImplementation((ticker, years) => fixtures.getHistoricalPrices(ticker, years));
+      vi.spyOn(yahoo, 'getCompanyProfile').mockImplementation(ticker => fixtures.getCompanyProfile(ticker));
+      vi.spyOn(yahooFinance, 'fundamentalsTimeSeries').mockRejectedValue(new Error('HTTP 429: Too Many Requests'));
+      const summary = vi.spyOn(yahooFinance, 'quoteSummary');
+
+      const run = await new RefreshService().run(['KO'], options({ provider: yahoo }));
+
+      expect(run.results[0]).toMatchObject({ ticker: 'KO', status: 'skipped', totalScore: null });
+      expect(run).toMatchObject({ refreshed: 0, quotaExhausted: true });
+      expect(summary).not.toHaveBeenCalled();
+    });
+
+    it('should record the run and refresh the leaderboard', async () => {
+      vi.spyOn(DatabaseService, 'getActiveRefreshRun').mockResolvedValue(null);
+      vi.spyOn(DatabaseService, 'getRecentAnalysis').mockResolvedValue(null);
+      vi.spyOn(DatabaseService, 'saveAnalysis').mockResolvedValue('analysis-1');
+      const start = vi.spyOn(DatabaseService, 'startRefreshRun').mockResolvedValue('run-1');
+      const refresh = vi.spyOn(DatabaseService, 'refreshLeaderboard').mockResolvedValue();
+      const finish = vi.spyOn(DatabaseService, 'finishRefreshRun').mockResolvedValue();
+
+      const run = await new RefreshService().run(['KO'], options({ record: true }));
+
+      expect(start).toHaveBeenCalledWith(expect.objectContaining({ optionsHash: DividendAnalysisService.optionsHash(15, 0.09, 'fixtures', DEFAULT_SCORING_PROFILE) }));
+      expect(refresh).toHaveBeenCalledOnce();
+      expect(finish).toHaveBeenCalledWith(expect.objectContaining({ id: 'run-1', status: 'succeeded', refreshed: 1 }));
+      expect(run.leaderboardRefreshed).toBe(true);
+    });
+
+    it('should fail the run when the leaderboard cannot be rebuilt', async () => {
+      vi.spyOn(DatabaseService, 'getActiveRefreshRun').mockResolvedValue(null);
+      vi.spyOn(DatabaseService, 'getRecentAnalysis').mockResolvedValue(null);
+      vi.spyOn(DatabaseService, 'saveAnalysis').mockResolvedValue('analysis-1');
+      vi.spyOn(DatabaseService, 'startRefreshRun').mockResolvedValue('run-1');
+      vi.spyOn(DatabaseService, 'refreshLeaderboard').mockRejectedValue(new Error('Failed to refresh leaderboard: timeout'));
+      vi.spyOn(DatabaseService, 'finishRefreshRun').mockResolvedValue();
+
+      const run = await new RefreshService().run(['KO'], options({ record: true }));
+
+      expect(run).toMatchObject({ status: 'failed', refreshed: 1, leaderboardRefreshed: false, error: 'Failed to refresh leaderboard: timeout' });
+    });
+
+    it('should refuse to start while another run is in progress', async () => {
+      vi.spyOn(DatabaseService, 'getActiveRefreshRun').mockResolvedValue({ id: 'run-0', started_at: '2024-06-30T22:30:00Z' } as RefreshRunRecord);
+      const start = vi.spyOn(DatabaseService, 'startRefreshRun');
+
+      await expect(new RefreshService().run(['KO'], options({ record: true }))).rejects.toThrow(ConfigurationError);
+      expect(start).not.toHaveBeenCalled();
+    });
+  });
+});
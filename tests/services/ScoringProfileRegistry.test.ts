@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ScoringProfileRegistry } from '../../packages/core/src/services/ScoringProfileRegistry.js';
+import { ScoreCalculator } from '../../packages/core/src/calculators/ScoreCalculator.js';
+import { DividendScores } from '../../packages/core/src/models/DividendAnalysis.js';
+import { DEFAULT_SCORING_PROFILE } from '../../packages/core/src/models/ScoringProfile.js';
+import { ConfigurationError, ValidationError } from '../../packages/core/src/errors/DivvyErrors.js';
+
+const incomeWeights = { payout: 0.4, fcf: 0.4, streak: 0.1, growth: 0.1, trend: 0, macd: 0, rsi: 0 };
+
+describe('ScoringProfileRegistry', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'divvy-profiles-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const writeConfig = async (config: unknown): Promise<string> => {
+    const path = join(dir, 'divvy.config.json');
+    await writeFile(path, JSON.stringify(config), 'utf8');
+    return path;
+  };
+
+  it('should ship built-in profiles whose weights sum to 1', () => {
+    for (const profile of ScoringProfileRegistry.builtIn()) {
+      expect(() => ScoringProfileRegistry.validateProfile(profile)).not.toThrow();
+    }
+  });
+
+  it('should let config profiles replace built-ins and merge partial thresholds', async () => {
+    const path = await writeConfig({
+      profiles: { Income: { weights: incomeWeights, thresholds: { payout: { full: 0.8 } } } }
+    });
+
+    const profile = ScoringProfileRegistry.resolve('income', path);
+
+    expect(profile.weights).toEqual(incomeWeights);
+    expect(profile.thresholds.payout).toEqual({ full: 0.8, zero: 1.0 });
+    expect(profile.thresholds.streak).toEqual(DEFAULT_SCORING_PROFILE.thresholds.streak);
+  });
+
+  it('should fingerprint weights and thresholds, not the name', () => {
+    const fingerprint = ScoringProfileRegistry.fingerprint(DEFAULT_SCORING_PROFILE);
+    const reweighted = { ...DEFAULT_SCORING_PROFILE, weights: { ...DEFAULT_SCORING_PROFILE.weights, payout: 0.24, fcf: 0.26 } };
+    const rethresholded = { ...DEFAULT_SCORING_PROFILE, thresholds: { ...DEFAULT_SCORING_PROFILE.thresholds, streak: { full: 25 } } };
+
+    expect(ScoringProfileRegistry.fingerprint({ ...DEFAULT_SCORING_PROFILE, name: 'copy' })).toBe(fingerprint);
+    expect(ScoringProfileRegistry.fingerprint(reweighted)).not.toBe(fingerprint);
+    expect(ScoringProfileRegistry.fingerprint(rethresholded)).not.toBe(fingerprint);
+  });
+
+  it('should reject weights that do not sum to 1', async () => {
+    const path = await writeConfig({ profiles: { heavy: { weights: { ...incomeWeights, rsi: 0.2 } } } });
+    expect(() => ScoringProfileRegistry.load(path)).toThrow(/sum to 1/);
+  });
+
+  it('should reject missing or unknown factors', async () => {
+    const { rsi: _rsi, ...missing } = incomeWeights;
+    const missingPath = await writeConfig({ profiles: { partial: { weights: missing } } });
+    expect(() => ScoringProfileRegistry.load(missingPath)).toThrow(ConfigurationError);
+
+    const unknownPath = await writeConfig({ profiles: { extra: { weights: { ...incomeWeights, beta: 0 } } } });
+    expect(() => ScoringProfileRegistry.load(unknownPath)).toThrow(/unknown factor/);
+  });
+
+  it('should fail for unknown profiles and missing explicit config files', () => {
+    expect(() => ScoringProfileRegistry.resolve('nope', join(dir, 'absent.json'))).toThrow(ConfigurationError);
+    expect(() => ScoringProfileRegistry.resolve('nope')).toThrow(ValidationError);
+  });
+});
+
+describe('ScoreCalculator with profiles', () => {
+  it('should weight the total score by the profile', () => {
+    const scores = new DividendScores({ payout: 100, fcf: 100, streak: 0, growth: 0, trend: 0, macd: 0, rsi: 0 });
+
+    expect(ScoreCalculator.calculateTotalScore(scores)).toBe(50);
+    expect(ScoreCalculator.calculateTotalScore(scores, incomeWeights)).toBe(80);
+  });
+
+  it('should apply payout thresholds', () => {
+    expect(ScoreCalculator.calculatePayoutScore(0.8)).toBeCloseTo(50, 8);
+    expect(ScoreCalculator.calculatePayoutScore(0.8, { full: 0.8, zero: 1.2 })).toBe(100);
+  });
+});
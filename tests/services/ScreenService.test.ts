@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { fileURLToPath } from 'url';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ScreenService } from '../../packages/core/src/services/ScreenService.js';
+import { FixtureMarketDataProvider } from '../../packages/core/src/services/FixtureMarketDataProvider.js';
+import { DividendAnalysisService } from '../../packages/core/src/services/DividendAnalysisService.js';
+import { EMPTY_SCREEN_CRITERIA } from '../../packages/core/src/models/ScreenCriteria.js';
+import type { DividendAnalysis } from '../../packages/core/src/models/DividendAnalysis.js';
+import { ConfigurationError, ValidationError } from '../../packages/core/src/errors/DivvyErrors.js';
+
+const fixturesDir = fileURLToPath(new URL('../fixtures/market-data', import.meta.url));
+
+describe('ScreenService', () => {
+  let ko: DividendAnalysis;
+  let dir: string;
+
+  const variant = (overrides: Partial<DividendAnalysis>) => ({ ...ko, ...overrides }) as DividendAnalysis;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    ko = await new DividendAnalysisService().analyze('KO', 15, 0.09, false, false, new FixtureMarketDataProvider(fixturesDir));
+    dir = await mkdtemp(join(tmpdir(), 'divvy-screen-'));
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should pass an analysis meeting every criterion', () => {
+    const reasons = ScreenService.evaluate(ko, {
+      ...EMPTY_SCREEN_CRITERIA,
+      minForwardYield: 0.03,
+      minStreak: 20,
+      includeSectors: ['consumer defensive']
+    });
+
+    expect(reasons).toEqual([]);
+  });
+
+  it('should list every failed criterion', () => {
+    const reasons = ScreenService.evaluate(ko, {
+      ...EMPTY_SCREEN_CRITERIA,
+      minForwardYield: 0.05,
+      maxFcfPayoutRatio: 0.5,
+      minTotalScore: 90,
+      excludeSectors: ['Consumer Defensive']
+    });
+
+    expect(reasons).toHaveLength(4);
+    expect(reasons[0]).toMatch(/^forward yield/);
+  });
+
+  it('should match sectors by scoring group', () => {
+    const utility = variant({ quote: { ...ko.quote, sector: 'Utilities', industry: 'Utilities - Regulated Electric' } as DividendAnalysis['quote'] });
+
+    expect(ScreenService.evaluate(utility, { ...EMPTY_SCREEN_CRITERIA, includeSectors: ['utility'] })).toEqual([]);
+  });
+
+  it('should fail the EMA200 filter when the average is missing', () => {
+    const noEma = variant({ ema: { ema20: null, ema50: null, ema200: null } });
+
+    expect(ScreenService.evaluate(noEma, { ...EMPTY_SCREEN_CRITERIA, aboveEma200: true })).toEqual(['EMA200 unavailable']);
+  });
+
+  it('should sort by any field with missing values last and apply the limit', () => {
+    const analyses = [
+      variant({ ticker: 'AAA', cagr5: 0.02 }),
+      variant({ ticker: 'BBB', cagr5: null }),
+      variant({ ticker: 'CCC', cagr5: 0.08 })
+    ];
+
+    const descending = ScreenService.run(analyses, { criteria: EMPTY_SCREEN_CRITERIA, sort: ScreenService.parseSort('cagr5'), limit: undefined });
+    const ascending = ScreenService.run(analyses, { criteria: EMPTY_SCREEN_CRITERIA, sort: ScreenService.parseSort('CAGR5:asc'), limit: 2 });
+
+    expect(descending.matches.map(a => a.ticker)).toEqual(['CCC', 'AAA', 'BBB']);
+    expect(ascending.matches.map(a => a.ticker)).toEqual(['AAA', 'CCC']);
+  });
+
+  it('should reject unknown sort fields and universes', () => {
+    expect(() => ScreenService.parseSort('dividendz')).toThrow(ValidationError);
+    expect(() => ScreenService.parseSort('streak:up')).toThrow(ValidationError);
+    expect(() => ScreenService.resolveUniverse('nasdaq')).toThrow(ValidationError);
+    expect(ScreenService.resolveUniverse('kings')).toContain('KO');
+  });
+
+  it('should load a saved screen and let flags override it', async () => {
+    const path = join(dir, 'income.json');
+    await writeFile(path, JSON.stringify({
+      universe: ['ko', 'pep'],
+      criteria: { minForwardYield: 0.03, excludeSectors: ['reit'] },
+      sort: 'forwardYield',
+      limit: 10
+    }));
+
+    const saved = ScreenService.loadScreenFile(path);
+    const merged = ScreenService.mergeCriteria(saved.criteria!, { minForwardYield: 0.04, minStreak: 10, includeSectors: [] });
+
+    expect(saved.universe).toEqual(['KO', 'PEP']);
+    expect(saved.sort).toEqual({ field: 'forwardYield', descending: true });
+    expect(merged).toMatchObject({ minForwardYield: 0.04, minStreak: 10, excludeSectors: ['reit'], aboveEma200: false });
+  });
+
+  it('should reject invalid screen files', async () => {
+    const path = join(dir, 'bad.json');
+    await writeFile(path, JSON.stringify({ criteria: { minStreak: -1 } }));
+
+    expect(() => ScreenService.loadScreenFile(path)).toThrow(ConfigurationError);
+    expect(() => ScreenService.loadScreenFile(join(dir, 'missing.json'))).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TransactionImportService } from '../../packages/core/src/services/TransactionImportService.js';
+import { parseCsv } from '../../packages/core/src/utils/Csv.js';
+import { ConfigurationError, ValidationError } from '../../packages/core/src/errors/DivvyErrors.js';
+
+const csv = (...lines: string[]) => lines.join('\n') + '\n';
+
+describe('TransactionImportService', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'divvy-import-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should rebuild lots first in, first out', () => {
+    const result = TransactionImportService.import(csv(
+      'date,type,ticker,shares,price,amount,fees,account',
+      '2020-01-15,buy,KO,100,50,,5,IRA',
+      '2020-03-02,buy,KO,50,40,,,IRA',
+      '2021-07-01,sell,KO,120,60,7200,,IRA'
+    ));
+
+    expect(result.issues).toEqual([]);
+    expect(result.lots).toHaveLength(1);
+    expect(result.lots[0]).toMatchObject({ ticker: 'KO', account: 'IRA', shares: 30, line: 3 });
+    expect(result.lots[0].costBasis).toBeCloseTo(1200, 8);
+    expect(result.holdings).toEqual([{ ticker: 'KO', shares: 30, costBasis: 1200, account: 'IRA' }]);
+  });
+
+  it('should apply splits, reinvestments and cash dividends', () => {
+    const result = TransactionImportService.import(csv(
+      'date,type,ticker,shares,price,amount,ratio',
+      '2020-01-15,buy,KO,10,50,,',
+      '2020-04-01,dividend,KO,,,4.10,',
+      '2020-07-01,DRIP,KO,0.5,,25,',
+      '2020-08-01,split,KO,,,,2-for-1'
+    ));
+
+    expect(result.lots.map(lot => lot.shares)).toEqual([20, 1]);
+    expect(result.holdings[0]).toMatchObject({ shares: 21, costBasis: 525, account: null });
+    expect(result.dividends).toEqual({ KO: 4.1 });
+  });
+
+  it('should replay transactions in date order, not file order', () => {
+    const result = TransactionImportService.import(csv(
+      'date,type,ticker,shares,price',
+      '2021-01-01,sell,KO,5,60',
+      '2020-01-01,buy,KO,10,50'
+    ));
+
+    expect(result.issues).toEqual([]);
+    expect(result.holdings[0].shares).toBe(5);
+  });
+
+  it('should report unusable rows with line numbers and keep the rest', () => {
+    const result = TransactionImportService.import(csv(
+      'date,type,ticker,shares,price,amount',
+      '2020-01-15,buy,KO,10,50,',
+      '2020-02-30,buy,KO,10,50,',
+      '2020-03-01,transfer,KO,10,50,',
+      '2020-03-02,buy,KO,,50,',
+      '2020-03-03,sell,PEP,1,100,',
+      '2020-03-04,buy,KO,abc,50,'
+    ));
+
+    expect(result.issues.map(issue => issue.line)).toEqual([3, 4, 5, 6, 7]);
+    expect(result.issues[0].message).toContain('Invalid date');
+    expect(result.issues[1].message).toContain('Unknown transaction type "transfer"');
+    expect(result.issues[3].message).toContain('exceeds the 0 shares held');
+    expect(result.holdings).toEqual([{ ticker: 'KO', shares: 10, costBasis: 500, account: null }]);
+  });
+
+  it('should reject a file without the required columns', () => {
+    expect(() => TransactionImportService.import(csv('when,action,symbol', '2020-01-01,buy,KO'))).toThrow(ValidationError);
+    expect(() => TransactionImportService.import('')).toThrow(ValidationError);
+  });
+
+  it('should map brokerage columns, action names and date formats', async () => {
+    const path = join(dir, 'mapping.json');
+    await writeFile(path, JSON.stringify({
+      columns: { date: 'Trade Date', type: 'Action', ticker: 'Symbol', shares: 'Quantity', amount: 'Net Amount' },
+      types: { 'YOU BOUGHT': 'buy' },
+      dateFormat: 'DD/MM/YYYY',
+      delimiter: ';',
+      account: 'Brokerage'
+    }));
+    const mapping = TransactionImportService.loadMappingFile(path);
+
+    const result = TransactionImportService.import(csv(
+      'Trade Date;Action;Symbol;Quantity;Net Amount',
+      '31/01/2024;You Bought;ko;-10;"(1,234.50)"'
+    ), mapping);
+
+    expect(result.issues).toEqual([]);
+    expect(result.transactions[0].date.toISOString()).toBe('2024-01-31T00:00:00.000Z');
+    expect(result.holdings).toEqual([{ ticker: 'KO', shares: 10, costBasis: 1234.5, account: 'Brokerage' }]);
+  });
+
+  it('should reject invalid mapping files', async () => {
+    const path = join(dir, 'bad-mapping.json');
+    await writeFile(path, JSON.stringify({ types: { Transfer: 'move' } }));
+
+    expect(() => TransactionImportService.loadMappingFile(path)).toThrow(ConfigurationError);
+    expect(() => TransactionImportService.mapping({ columns: { symbol: 'Symbol' } as never })).toThrow(/Unknown column "symbol"/);
+  });
+
+  it('should write lots into the holdings file', () => {
+    const result = TransactionImportService.import(csv(
+      'date,type,ticker,shares,price',
+      '2020-01-15,buy,KO,10,50',
+      '2020-02-15,buy,KO,5,52'
+    ));
+
+    expect(TransactionImportService.toPortfolioFile(result).holdings[0]).toEqual({
+      ticker: 'KO',
+      shares: 15,
+      costBasis: 760,
+      lots: [
+        { acquired: '2020-01-15', shares: 10, costBasis: 500 },
+        { acquired: '2020-02-15', shares: 5, costBasis: 260 }
+      ]
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should handle quotes, embedded line breaks and blank lines', () => {
+      expect(parseCsv('\uFEFFa,b\r\n"x, y","say ""hi""\nthere"\r\n\r\nlast,\n')).toEqual([
+        { line: 1, cells: ['a', 'b'] },
+        { line: 2, cells: ['x, y', 'say "hi"\nthere'] },
+        { line: 5, cells: ['last', ''] }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { fileURLToPath } from 'url';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WatchlistService } from '../../packages/core/src/services/WatchlistService.js';
+import { FileWatchlistStore } from '../../packages/core/src/services/WatchlistStore.js';
+import { FixtureMarketDataProvider } from '../../packages/core/src/services/FixtureMarketDataProvider.js';
+import { DividendAnalysisService } from '../../packages/core/src/services/DividendAnalysisService.js';
+import { ConfigurationError, ValidationError } from '../../packages/core/src/errors/DivvyErrors.js';
+import type { DividendAnalysis } from '../../packages/core/src/models/DividendAnalysis.js';
+import type { Watchlist } from '../../packages/core/src/models/Watchlist.js';
+
+const fixturesDir = fileURLToPath(new URL('../fixtures/market-data', import.meta.url));
+const asOf = new Date('2024-06-30T00:00:00.000Z');
+
+describe('WatchlistService', () => {
+  let ko: DividendAnalysis;
+  let dir: string;
+
+  const withPrice = (price: number, ema200: number): DividendAnalysis =>
+    ({ ...ko, quote: { ...ko.quote, price }, ema: { ...ko.ema, ema200 } });
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    ko = await new DividendAnalysisService().analyze('KO', 15, 0.09, false, false, new FixtureMarketDataProvider(fixturesDir));
+    dir = await mkdtemp(join(tmpdir(), 'divvy-watchlist-'));
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('parseRule', () => {
+    it('should parse each rule and round-trip through ruleKey', () => {
+      expect(WatchlistService.parseRule('yield>=0.035')).toEqual({ type: 'forwardYield', target: 0.035, direction: 'above' });
+      expect(WatchlistService.parseRule('yield <= 0.02')).toEqual({ type: 'forwardYield', target: 0.02, direction: 'below' });
+      expect(WatchlistService.parseRule('score<60')).toEqual({ type: 'scoreFloor', min: 60 });
+      expect(WatchlistService.parseRule('EMA200')).toEqual({ type: 'ema200Cross' });
+      expect(WatchlistService.parseRule('cut')).toEqual({ type: 'dividendCut' });
+
+      for (const spec of ['yield>=0.035', 'yield<=0.02', 'score<60', 'ema200', 'cut', 'upside>=0.2']) {
+        expect(WatchlistService.ruleKey(WatchlistService.parseRule(spec))).toBe(spec);
+      }
+    });
+
+    it('should reject unknown rules and operators', () => {
+      expect(() => WatchlistService.parseRule('score>60')).toThrow(ValidationError);
+      expect(() => WatchlistService.parseRule('pe<15')).toThrow(ValidationError);
+    });
+  });
+
+  describe('evaluate', () => {
+    it('should compare forward yield with the target in either direction', () => {
+      const above = WatchlistService.evaluate({ type: 'forwardYield', target: 0.01, direction: 'above' }, ko, asOf);
+      const below = WatchlistService.evaluate({ type: 'forwardYield', target: 0.01, direction: 'below' }, ko, asOf);
+
+      expect(above.condition).toBe('above');
+      expect(below.condition).toBeNull();
+      expect(above.value).toBe(ko.forwardYield);
+    });
+
+    it('should report which side of the 200-day EMA the price is on', () => {
+      expect(WatchlistService.evaluate({ type: 'ema200Cross' }, withPrice(60, 55), asOf).condition).toBe('above');
+      expect(WatchlistService.evaluate({ type: 'ema200Cross' }, withPrice(50, 55), asOf).condition).toBe('below');
+      expect(WatchlistService.evaluate({ type: 'ema200Cross' }, withPrice(50, null as unknown as number), asOf).condition).toBeUndefined();
+    });
+
+    it('should detect a cut by comparing the last two complete years', () => {
+      const cut = { ...ko, annualDividends: [[2021, 1.68], [2022, 1.76], [2023, 1.2], [2024, 0.5]] } as DividendAnalysis;
+      const result = WatchlistService.evaluate({ type: 'dividendCut' }, cut, asOf);
+
+      expect(result.condition).toBe('cut:2023');
+      expect(result.value).toBeCloseTo(1.2 / 1.76 - 1, 8);
+      expect(WatchlistService.evaluate({ type: 'dividendCut' }, ko, asOf).condition).toBeNull();
+    });
+  });
+
+  describe('check', () => {
+    const watchlist: Watchlist = {
+      name: 'income',
+      tickers: ['KO'],
+      rules: [{ type: 'scoreFloor', min: 101 }, { type: 'ema200Cross' }],
+      channels: []
+    };
+
+    it('should alert once while a condition stands and again after it clears', () => {
+      const first = WatchlistService.check(watchlist, [withPrice(60, 55)], [], asOf);
+      expect(first.alerts.map(alert => alert.ruleKey)).toEqual(['score<101']);
+
+      const second = WatchlistService.check(watchlist, [withPrice(60, 55)], first.states, asOf);
+      expect(second.alerts).toEqual([]);
+
+      const cleared = WatchlistService.check(watchlist, [{ ...withPrice(60, 55), totalScore: 101 }], second.states, asOf);
+      expect(cleared.alerts).toEqual([]);
+
+      const again = WatchlistService.check(watchlist, [withPrice(60, 55)], cleared.states, asOf);
+      expect(again.alerts.map(alert => alert.ruleKey)).toEqual(['score<101']);
+    });
+
+    it('should only alert on EMA crosses after a baseline is recorded', () => {
+      const baseline = WatchlistService.check(watchlist, [withPrice(60, 55)], [], asOf);
+      const crossed = WatchlistService.check(watchlist, [withPrice(50, 55)], baseline.states, asOf);
+
+      expect(crossed.alerts).toHaveLength(1);
+      expect(crossed.alerts[0]).toMatchObject({ ticker: 'KO', ruleKey: 'ema200', condition: 'below', watchlist: 'income' });
+    });
+
+    it('should keep the state of rules and tickers without data', () => {
+      const previous = [{ ticker: 'PEP', ruleKey: 'score<101', condition: 'below', updatedAt: asOf }];
+      const { states } = WatchlistService.check({ ...watchlist, tickers: ['KO', 'PEP'] }, [withPrice(60, null as unknown as number)], previous, asOf);
+
+      expect(states.find(state => state.ticker === 'PEP')).toEqual(previous[0]);
+      expect(states.some(state => state.ruleKey === 'ema200')).toBe(false);
+    });
+
+    it('should drop the state of tickers and rules removed from the watchlist', () => {
+      const previous = [
+        { ticker: 'PEP', ruleKey: 'score<101', condition: 'below', updatedAt: asOf },
+        { ticker: 'KO', ruleKey: 'cut', condition: null, updatedAt: asOf }
+      ];
+
+      expect(WatchlistService.check(watchlist, [], previous, asOf).states).toEqual([]);
+    });
+  });
+
+  describe('FileWatchlistStore', () => {
+    it('should round-trip watchlists, alert state and pending alerts', async () => {
+      const store = new FileWatchlistStore(join(dir, 'watchlists.json'));
+      const updatedAt = new Date('2024-06-30T12:00:00.000Z');
+
+      expect(await store.list()).toEqual([]);
+
+      await store.save({ name: 'income', tickers: ['KO', 'PEP'], rules: [{ type: 'dividendCut' }], channels: [{ type: 'email', to: ['me@example.com'] }] });
+      await store.saveAlertStates('income', [{ ticker: 'KO', ruleKey: 'cut', condition: null, updatedAt }]);
+
+      expect(await store.get('income')).toEqual({
+        name: 'income',
+        tickers: ['KO', 'PEP'],
+        rules: [{ type: 'dividendCut' }],
+        channels: [{ type: 'email', to: ['me@example.com'] }]
+      });
+      expect(await store.loadAlertStates('income')).toEqual([{ ticker: 'KO', ruleKey: 'cut', condition: null, updatedAt }]);
+
+      const alert = {
+        watchlist: 'income',
+        ticker: 'KO',
+        rule: { type: 'dividendCut' as const },
+        ruleKey: 'cut',
+        condition: 'cut',
+        value: -0.05,
+        message: 'KO cut its dividend',
+        triggeredAt: updatedAt
+      };
+      await store.savePendingAlerts('income', [{ channel: 'email me@example.com', alerts: [alert] }]);
+      expect(await store.loadPendingAlerts('income')).toEqual([{ channel: 'email me@example.com', alerts: [alert] }]);
+
+      expect(await store.remove('income')).toBe(true);
+      expect(await store.loadAlertStates('income')).toEqual([]);
+      expect(await store.loadPendingAlerts('income')).toEqual([]);
+    });
+
+    it('should reject invalid rules in the file', async () => {
+      const path = join(dir, 'invalid.json');
+      await writeFile(path, JSON.stringify({ version: 1, watchlists: { bad: { tickers: ['KO'], rules: [{ type: 'moon' }] } } }));
+
+      await expect(new FileWatchlistStore(path).list()).rejects.toThrow(ConfigurationError);
+    });
+  });
+});
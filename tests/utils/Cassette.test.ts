@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Cassette } from '../../packages/core/src/utils/Cassette.js';
+import { ConfigurationError, DataSourceError } from '../../packages/core/src/errors/DivvyErrors.js';
+
+describe('Cassette', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'divvy-cassette-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should replay recorded responses without calling the fetcher', async () => {
+    const path = join(dir, 'ko.json');
+    const recorder = Cassette.forRecording(path);
+    const quotes = [{ date: new Date('2024-01-02T00:00:00.000Z'), close: 60.1 }];
+
+    await recorder.capture('yahoo:chart:daily:KO:2', async () => ({ quotes }));
+    await recorder.save();
+
+    const player = await Cassette.load(path);
+    const replayed = await player.capture('yahoo:chart:daily:KO:2', async () => {
+      throw new Error('network should not be used');
+    });
+
+    expect(player.isReplaying).toBe(true);
+    expect(player.recordedAt.getTime()).toBe(recorder.recordedAt.getTime());
+    expect(replayed).toEqual({ quotes });
+    expect(replayed.quotes[0].date).toBeInstanceOf(Date);
+  });
+
+  it('should replay recorded failures', async () => {
+    const path = join(dir, 'failure.json');
+    const recorder = Cassette.forRecording(path);
+
+    await expect(recorder.capture('yahoo:quote:XYZ', async () => {
+      throw Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' });
+    })).rejects.toThrow('ENOTFOUND');
+    await recorder.save();
+
+    const player = await Cassette.load(path);
+    await expect(player.capture('yahoo:quote:XYZ', async () => 'live')).rejects.toMatchObject({
+      message: 'getaddrinfo ENOTFOUND',
+      code: 'ENOTFOUND'
+    });
+  });
+
+  it('should fail on requests missing from the cassette', async () => {
+    const path = join(dir, 'empty.json');
+    await Cassette.forRecording(path).save();
+
+    const player = await Cassette.load(path);
+    await expect(player.capture('yahoo:quote:KO', async () => 'live')).rejects.toThrow(DataSourceError);
+  });
+
+  it('should reject unreadable cassettes', async () => {
+    await expect(Cassette.load(join(dir, 'missing.json'))).rejects.toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mapWithConcurrency } from '../../packages/core/src/utils/Concurrency.js';
+import { RateLimiter } from '../../packages/core/src/utils/RateLimiter.js';
+
+describe('mapWithConcurrency', () => {
+  it('should never run more than the limit at once', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it('should keep input order and capture failures', async () => {
+    const results = await mapWithConcurrency(['a', 'bad', 'c'], 2, async item => {
+      if (item === 'bad') throw new Error('boom');
+      return item.toUpperCase();
+    });
+
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 'A' },
+      { status: 'rejected', reason: new Error('boom') },
+      { status: 'fulfilled', value: 'C' }
+    ]);
+  });
+});
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should space calls evenly across all callers', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const limiter = new RateLimiter(4);
+    const startedAt: number[] = [];
+
+    const calls = [1, 2, 3].map(() => limiter.schedule(async () => startedAt.push(Date.now())));
+    await vi.runAllTimersAsync();
+    await Promise.all(calls);
+
+    expect(startedAt).toEqual([0, 250, 500]);
+  });
+
+  it('should reject non-positive rates', () => {
+    expect(() => new RateLimiter(0)).toThrow(RangeError);
+  });
+});